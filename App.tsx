@@ -15,6 +15,7 @@ import MolecularSim from './pages/MolecularSim';
 
 import { useApiKey } from './contexts/ApiKeyContext';
 import { useChatSessions } from './hooks/useChatSessions';
+import { syncToolSchema } from './services/toolSchemaSync';
 
 /**
  * Main application component.
@@ -35,6 +36,8 @@ function App() {
     pinSession,
     deleteAll,
     saveCurrentSession,
+    syncError,
+    retrySync,
   } = useChatSessions();
 
   const [darkMode, setDarkMode] = useState(() => {
@@ -44,6 +47,11 @@ function App() {
     return false;
   });
 
+  // Pick up tools the KG server advertises beyond the bundled ones
+  useEffect(() => {
+    syncToolSchema();
+  }, []);
+
   // Apply dark mode class to document
   useEffect(() => {
     if (darkMode) {
@@ -89,6 +97,8 @@ function App() {
               onSessionPin={pinSession}
               onDeleteAll={deleteAll}
               isOffline={isOffline}
+              syncError={syncError}
+              onRetrySync={retrySync}
             />
           }
         >
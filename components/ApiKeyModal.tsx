@@ -1,4 +1,7 @@
 import React, { useState, useEffect } from 'react';
+import { useApiKey } from '../contexts/ApiKeyContext';
+import type { LLMProviderKind } from '../services/llmProvider';
+import { createOpenAICompatibleProvider } from '../services/openaiProvider';
 
 interface ApiKeyModalProps {
   isOpen: boolean;
@@ -23,12 +26,28 @@ export const clearStoredApiKey = (): void => {
 };
 
 const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, darkMode = false }) => {
+  // Saving through the context updates every reader of the settings, so no reload is needed
+  const { llmSettings, setLlmSettings, setApiKey: saveApiKey, clearApiKey } = useApiKey();
   const [apiKey, setApiKey] = useState('');
   const [showKey, setShowKey] = useState(false);
   const [hasExistingKey, setHasExistingKey] = useState(false);
+  // Self-hosted OpenAI-compatible server settings
+  const [provider, setProvider] = useState<LLMProviderKind>('gemini');
+  const [baseUrl, setBaseUrl] = useState('');
+  const [serverKey, setServerKey] = useState('');
+  const [model, setModel] = useState('');
+  const [serverModels, setServerModels] = useState<string[]>([]);
+  const [serverStatus, setServerStatus] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
 
   useEffect(() => {
     if (isOpen) {
+      setProvider(llmSettings.provider);
+      setBaseUrl(llmSettings.baseUrl || '');
+      setServerKey(llmSettings.apiKey || '');
+      setModel(llmSettings.model || '');
+      setServerStatus(null);
+
       const existingKey = getStoredApiKey();
       if (existingKey) {
         setApiKey(existingKey);
@@ -53,22 +72,47 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, dark
     };
   }, [isOpen]);
 
+  const handleTestServer = async () => {
+    if (!baseUrl.trim()) return;
+    setIsTesting(true);
+    setServerStatus(null);
+    try {
+      const models = await createOpenAICompatibleProvider({ baseUrl: baseUrl.trim(), apiKey: serverKey.trim() || undefined, model: model.trim() })
+        .listModels!(AbortSignal.timeout(10000));
+      setServerModels(models);
+      if (!model.trim() && models.length > 0) setModel(models[0]);
+      setServerStatus({ ok: true, message: `Connected - ${models.length} model${models.length === 1 ? '' : 's'} available` });
+    } catch (err: any) {
+      setServerStatus({ ok: false, message: `Could not reach server: ${err?.message || 'unknown error'}` });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  const canSave = provider === 'openai' ? !!baseUrl.trim() && !!model.trim() : !!apiKey.trim();
+
   const handleSave = () => {
+    if (provider === 'openai') {
+      if (!canSave) return;
+      setLlmSettings({ provider: 'openai', baseUrl: baseUrl.trim(), apiKey: serverKey.trim() || undefined, model: model.trim() });
+      onSave('');
+      onClose();
+      return;
+    }
     if (apiKey.trim()) {
-      setStoredApiKey(apiKey.trim());
+      saveApiKey(apiKey.trim());
+      setLlmSettings({ provider: 'gemini' });
       onSave(apiKey.trim());
       onClose();
-      window.location.reload();
     }
   };
 
   const handleClear = () => {
-    clearStoredApiKey();
+    clearApiKey();
     setApiKey('');
     setHasExistingKey(false);
     onSave('');
     onClose();
-    window.location.reload();
   };
 
   if (!isOpen) return null;
@@ -91,13 +135,32 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, dark
             </div>
             <div>
               <h2 className="text-xl font-bold">Bring Your Own LLM</h2>
-              <p className="text-indigo-100 text-sm">Set your Google Gemini API key</p>
+              <p className="text-indigo-100 text-sm">
+                {provider === 'openai' ? 'Connect a self-hosted OpenAI-compatible server' : 'Set your Google Gemini API key'}
+              </p>
             </div>
           </div>
         </div>
 
         {/* Content */}
         <div className="p-6 space-y-5">
+
+          {/* Provider Selection */}
+          <div className="grid grid-cols-2 gap-2 p-1 rounded-xl bg-[rgb(var(--color-bg-main))] border border-border">
+            {([['gemini', 'Google Gemini'], ['openai', 'OpenAI-compatible server']] as const).map(([kind, label]) => (
+              <button
+                key={kind}
+                type="button"
+                onClick={() => setProvider(kind)}
+                className={`py-2 text-sm font-medium rounded-lg transition-colors ${provider === kind
+                  ? 'bg-indigo-600 text-white shadow-sm'
+                  : 'text-secondary hover:bg-surface-hover'
+                  }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
           
           {/* Security Warning */}
           <div className={`border rounded-xl p-4 ${darkMode ? 'bg-red-900/30 border-red-700' : 'bg-red-50 border-red-200'}`}>
@@ -128,14 +191,72 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, dark
                 <ul className={`text-xs mt-1 space-y-1 ${darkMode ? 'text-emerald-400' : 'text-emerald-700'}`}>
                   <li>• Your API key is stored <strong>only in your browser</strong> (localStorage)</li>
                   <li>• It is <strong>never</strong> sent to our servers</li>
-                  <li>• Gemini calls go <strong>directly</strong> from your browser</li>
+                  <li>• Model calls go <strong>directly</strong> from your browser</li>
                   <li>• You can delete it anytime</li>
                 </ul>
               </div>
             </div>
           </div>
 
+          {/* Self-hosted Server Settings */}
+          {provider === 'openai' && (
+            <div className="space-y-3">
+              <div>
+                <label className={`block text-sm font-semibold mb-2 text-secondary`}>Server base URL</label>
+                <input
+                  type="url"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  placeholder="http://localhost:8000/v1"
+                  className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm font-mono bg-[rgb(var(--color-input-bg))] border-[rgb(var(--color-input-border))] text-foreground placeholder-tertiary`}
+                />
+              </div>
+              <div>
+                <label className={`block text-sm font-semibold mb-2 text-secondary`}>Model</label>
+                <div className="flex gap-2">
+                  <input
+                    type="text"
+                    list="llm-server-models"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                    placeholder="meta-llama/Llama-3.1-8B-Instruct"
+                    className={`flex-1 px-4 py-3 border rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm font-mono bg-[rgb(var(--color-input-bg))] border-[rgb(var(--color-input-border))] text-foreground placeholder-tertiary`}
+                  />
+                  <datalist id="llm-server-models">
+                    {serverModels.map(m => <option key={m} value={m} />)}
+                  </datalist>
+                  <button
+                    type="button"
+                    onClick={handleTestServer}
+                    disabled={!baseUrl.trim() || isTesting}
+                    className="px-3 text-sm font-medium rounded-xl border border-border text-secondary hover:bg-surface-hover disabled:opacity-50 transition-colors"
+                  >
+                    {isTesting ? 'Testing...' : 'Test'}
+                  </button>
+                </div>
+                <p className={`text-xs mt-2 text-tertiary`}>
+                  <i className="fas fa-info-circle mr-1"></i>
+                  The model must support tool calling (e.g. vLLM with <code>--enable-auto-tool-choice</code>, llama.cpp with <code>--jinja</code>).
+                </p>
+              </div>
+              <div>
+                <label className={`block text-sm font-semibold mb-2 text-secondary`}>API key (optional)</label>
+                <input
+                  type={showKey ? 'text' : 'password'}
+                  value={serverKey}
+                  onChange={(e) => setServerKey(e.target.value)}
+                  placeholder="Leave empty if the server does not check keys"
+                  className={`w-full px-4 py-3 border rounded-xl focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 text-sm font-mono bg-[rgb(var(--color-input-bg))] border-[rgb(var(--color-input-border))] text-foreground placeholder-tertiary`}
+                />
+              </div>
+              {serverStatus && (
+                <p className={`text-xs ${serverStatus.ok ? 'text-emerald-500' : 'text-red-500'}`}>{serverStatus.message}</p>
+              )}
+            </div>
+          )}
+
           {/* API Key Input */}
+          {provider === 'gemini' && (
           <div>
             <label className={`block text-sm font-semibold mb-2 text-secondary`}>
               Google Gemini API Key
@@ -169,9 +290,10 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, dark
               </a>
             </p>
           </div>
+          )}
 
           {/* Status */}
-          {hasExistingKey && (
+          {provider === 'gemini' && hasExistingKey && (
             <div className={`border rounded-xl p-3 flex items-center gap-2 ${darkMode ? 'bg-blue-900/30 border-blue-700' : 'bg-blue-50 border-blue-200'}`}>
               <i className={`fas fa-check-circle ${darkMode ? 'text-blue-400' : 'text-blue-500'}`}></i>
               <span className={`text-sm ${darkMode ? 'text-blue-300' : 'text-blue-700'}`}>You already have an API key configured</span>
@@ -185,9 +307,9 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, dark
               <i className={`fas fa-chevron-down text-tertiary`}></i>
             </summary>
             <div className={`px-4 pb-4 text-xs space-y-2 font-mono text-tertiary`}>
-              <p>• Storage: <code className={`px-1 rounded bg-surface`}>localStorage['primekg_gemini_api_key']</code></p>
-              <p>• Endpoint: <code className={`px-1 rounded bg-surface`}>generativelanguage.googleapis.com</code></p>
-              <p>• Models: Gemini 3.0 Flash / Pro</p>
+              <p>• Storage: <code className={`px-1 rounded bg-surface`}>localStorage['primekg_gemini_api_key']</code>, <code className={`px-1 rounded bg-surface`}>localStorage['primekg_llm_provider']</code></p>
+              <p>• Endpoint: <code className={`px-1 rounded bg-surface`}>{provider === 'openai' ? `${baseUrl || '<base URL>'}/chat/completions` : 'generativelanguage.googleapis.com'}</code></p>
+              <p>• Models: {provider === 'openai' ? 'any tool-calling model your server hosts' : 'Gemini 3.0 Flash / Pro'}</p>
               <p>• Code is open source—verify anytime</p>
             </div>
           </details>
@@ -215,8 +337,8 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ isOpen, onClose, onSave, dark
             </button>
             <button
               onClick={handleSave}
-              disabled={!apiKey.trim()}
-              className={`px-5 py-2 text-sm font-medium rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 ${apiKey.trim() ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-surface-hover text-tertiary'} text-white`}
+              disabled={!canSave}
+              className={`px-5 py-2 text-sm font-medium rounded-lg shadow-sm disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center gap-2 ${canSave ? 'bg-emerald-600 hover:bg-emerald-500' : 'bg-surface-hover text-tertiary'} text-white`}
             >
               <i className="fas fa-save"></i>
               Save in my browser
@@ -0,0 +1,407 @@
+import React, { useRef, useEffect, useState, useCallback, useImperativeHandle } from 'react';
+import * as d3 from 'd3';
+import type { GraphVisualizationHandle, GraphVisualizationProps } from './GraphVisualization';
+import { nodeTypeColor, relationColor } from '../constants/kgTaxonomy';
+import { createForceLayout, ForceLayout } from '../utils/forceLayout';
+import { computeGraphLayout } from '../utils/graphLayouts';
+import GraphLegend from './GraphLegend';
+
+interface CanvasNode {
+    id: string;
+    type: string;
+    name: string;
+    x?: number;
+    y?: number;
+}
+
+interface CanvasLink {
+    relation: string;
+    source: CanvasNode;
+    target: CanvasNode;
+    /** "source-target-relation", matched against highlightedEdges */
+    key: string;
+}
+
+const NODE_RADIUS = 5;
+const ACTIVE_RADIUS = 8;
+// World-space distance within which the pointer counts as over a node
+const HIT_RADIUS = 10;
+// Above this zoom level every node is labelled; below it only the active neighborhood and pins
+const LABEL_ZOOM = 1.5;
+
+/**
+ * Canvas renderer for large graphs. Same handle, props and interactions as the SVG renderer
+ * (zoom, drag, hover and selection focus, highlighted edges, pins), but draws everything in
+ * one pass per frame instead of keeping a DOM node per element.
+ */
+const CanvasGraphVisualization = React.forwardRef<GraphVisualizationHandle, GraphVisualizationProps>(
+    function CanvasGraphVisualization({
+        data,
+        darkMode = true,
+        width = 600,
+        height = 400,
+        className = "",
+        onNodeClick,
+        selectedNodeId,
+        highlightedEdges,
+        pinnedNodeIds,
+        flaggedNodeIds,
+        layoutPaused,
+        layoutFrozen,
+        layoutMode = 'force',
+        centerNodeId,
+        children
+    }, ref) {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const layoutRef = useRef<ForceLayout | null>(null);
+    const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(null);
+    const transformRef = useRef<d3.ZoomTransform>(d3.zoomIdentity);
+    const nodesRef = useRef<Map<string, CanvasNode>>(new Map());
+    const linksRef = useRef<CanvasLink[]>([]);
+    const frameRef = useRef<number | null>(null);
+
+    const [dimensions, setDimensions] = useState({ width, height });
+    const [isFullscreen, setIsFullscreen] = useState(false);
+    const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+
+    const activeNodeId = hoveredNode || selectedNodeId;
+
+    // Latest render inputs for the draw loop, which runs outside React
+    const viewRef = useRef({ activeNodeId, highlightedEdges, pinnedNodeIds, flaggedNodeIds, darkMode, dimensions, onNodeClick });
+    viewRef.current = { activeNodeId, highlightedEdges, pinnedNodeIds, flaggedNodeIds, darkMode, dimensions, onNodeClick };
+
+    const draw = useCallback(() => {
+        frameRef.current = null;
+        const canvas = canvasRef.current;
+        const ctx = canvas?.getContext('2d');
+        if (!canvas || !ctx) return;
+
+        const { activeNodeId: active, highlightedEdges: highlighted, pinnedNodeIds: pinned, flaggedNodeIds: flagged, darkMode: dark, dimensions: dims } = viewRef.current;
+        const dpr = window.devicePixelRatio || 1;
+        const t = transformRef.current;
+        const nodes = Array.from(nodesRef.current.values());
+        const links = linksRef.current;
+
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, dims.width, dims.height);
+        ctx.translate(t.x, t.y);
+        ctx.scale(t.k, t.k);
+
+        // Neighborhood of the hovered/selected node stays bright, everything else dims
+        const neighborhood = new Set<string>();
+        if (active) {
+            neighborhood.add(active);
+            links.forEach(l => {
+                if (l.source.id === active || l.target.id === active) {
+                    neighborhood.add(l.source.id);
+                    neighborhood.add(l.target.id);
+                }
+            });
+        }
+
+        // 1. Edges
+        ctx.lineCap = 'round';
+        links.forEach(l => {
+            const { source, target } = l;
+            if (source.x === undefined || target.x === undefined) return;
+            const isHighlighted = !!highlighted?.has(l.key);
+            const touchesActive = !!active && (source.id === active || target.id === active);
+
+            ctx.globalAlpha = isHighlighted ? 1 : active ? (touchesActive ? 0.9 : 0.04) : 0.35;
+            ctx.strokeStyle = relationColor(l.relation);
+            ctx.lineWidth = (isHighlighted ? 3 : touchesActive ? 2 : 1) / Math.sqrt(t.k);
+            ctx.beginPath();
+            ctx.moveTo(source.x, source.y!);
+            ctx.lineTo(target.x, target.y!);
+            ctx.stroke();
+        });
+
+        // 2. Nodes
+        nodes.forEach(n => {
+            if (n.x === undefined) return;
+            const isActive = n.id === active;
+            ctx.globalAlpha = active && !neighborhood.has(n.id) ? 0.1 : 1;
+            ctx.beginPath();
+            ctx.arc(n.x, n.y!, isActive ? ACTIVE_RADIUS : NODE_RADIUS, 0, 2 * Math.PI);
+            ctx.fillStyle = nodeTypeColor(n.type);
+            ctx.fill();
+            if (isActive) {
+                ctx.lineWidth = 2 / t.k;
+                ctx.strokeStyle = '#fff';
+                ctx.stroke();
+            }
+            if (pinned?.has(n.id)) {
+                ctx.setLineDash([3 / t.k, 2 / t.k]);
+                ctx.lineWidth = 1.5 / t.k;
+                ctx.strokeStyle = '#6366f1';
+                ctx.beginPath();
+                ctx.arc(n.x, n.y!, ACTIVE_RADIUS + 3, 0, 2 * Math.PI);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+            if (flagged?.has(n.id)) {
+                ctx.setLineDash([1 / t.k, 3 / t.k]);
+                ctx.lineWidth = 1.5 / t.k;
+                ctx.strokeStyle = '#ef4444';
+                ctx.beginPath();
+                ctx.arc(n.x, n.y!, ACTIVE_RADIUS + 6, 0, 2 * Math.PI);
+                ctx.stroke();
+                ctx.setLineDash([]);
+            }
+        });
+
+        // 3. Labels: the active neighborhood while focused, otherwise pins, or everything when zoomed in
+        ctx.globalAlpha = 1;
+        ctx.font = `600 ${10 / t.k}px sans-serif`;
+        ctx.fillStyle = dark ? '#e2e8f0' : '#0f172a';
+        nodes.forEach(n => {
+            if (n.x === undefined) return;
+            const labelled = active ? neighborhood.has(n.id) : t.k >= LABEL_ZOOM || pinned?.has(n.id);
+            if (!labelled) return;
+            const label = n.name.length > 25 ? n.name.slice(0, 25) + '...' : n.name;
+            ctx.fillText(label, n.x + (NODE_RADIUS + 4) / t.k, n.y! + 3 / t.k);
+        });
+    }, []);
+
+    const scheduleDraw = useCallback(() => {
+        if (frameRef.current === null) frameRef.current = requestAnimationFrame(draw);
+    }, [draw]);
+
+    // Nearest node to a point on the canvas, within the hit radius
+    const findNode = useCallback((x: number, y: number): CanvasNode | undefined => {
+        const [wx, wy] = transformRef.current.invert([x, y]);
+        let best: CanvasNode | undefined;
+        let bestDistance = (HIT_RADIUS / transformRef.current.k) ** 2;
+        nodesRef.current.forEach(n => {
+            if (n.x === undefined || n.y === undefined) return;
+            const distance = (n.x - wx) ** 2 + (n.y - wy) ** 2;
+            if (distance < bestDistance) {
+                best = n;
+                bestDistance = distance;
+            }
+        });
+        return best;
+    }, []);
+
+    // Fullscreen toggle handler
+    const toggleFullscreen = useCallback(async () => {
+        if (!containerRef.current) return;
+
+        try {
+            if (!document.fullscreenElement) {
+                await containerRef.current.requestFullscreen();
+                setIsFullscreen(true);
+            } else {
+                await document.exitFullscreen();
+                setIsFullscreen(false);
+            }
+        } catch (err) {
+            console.error("Error toggling fullscreen:", err);
+            setIsFullscreen(!isFullscreen);
+        }
+    }, [isFullscreen]);
+
+    // Zoom Controls
+    const zoomBy = (factor: number) => {
+        if (canvasRef.current && zoomRef.current) {
+            d3.select(canvasRef.current).transition().duration(300).call(zoomRef.current.scaleBy, factor);
+        }
+    };
+
+    const handleReset = () => {
+        if (canvasRef.current && zoomRef.current) {
+            d3.select(canvasRef.current).transition().duration(750).call(zoomRef.current.transform, d3.zoomIdentity);
+        }
+    };
+
+    useImperativeHandle(ref, () => ({
+        zoomIn: () => zoomBy(1.2),
+        zoomOut: () => zoomBy(0.8),
+        reset: handleReset,
+        toggleFullscreen,
+        getNodePositions: () => layoutRef.current?.positions() ?? new Map()
+    }));
+
+    // Handle resize observer
+    useEffect(() => {
+        const container = containerRef.current;
+        if (!container) return;
+
+        const resizeObserver = new ResizeObserver((entries) => {
+            for (const entry of entries) {
+                const { width: w, height: h } = entry.contentRect;
+                if (w > 0 && h > 0) {
+                    setDimensions({ width: w, height: h });
+                }
+            }
+        });
+
+        resizeObserver.observe(container);
+        return () => resizeObserver.disconnect();
+    }, []);
+
+    // Handle native fullscreen change events
+    useEffect(() => {
+        const handleFullscreenChange = () => {
+            setIsFullscreen(!!document.fullscreenElement);
+        };
+        document.addEventListener('fullscreenchange', handleFullscreenChange);
+        return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+    }, []);
+
+    // Force layout, computed off the main thread; each batch of positions schedules a frame
+    useEffect(() => {
+        const layout = createForceLayout({
+            width: dimensions.width,
+            height: dimensions.height,
+            preset: 'canvas'
+        });
+        layoutRef.current = layout;
+        const unsubscribe = layout.subscribe(positions => {
+            positions.forEach((p, id) => {
+                const n = nodesRef.current.get(id);
+                if (!n) return;
+                n.x = p.x;
+                n.y = p.y;
+            });
+            scheduleDraw();
+        });
+        return () => {
+            unsubscribe();
+            layout.dispose();
+            layoutRef.current = null;
+        };
+    }, [scheduleDraw]);
+
+    useEffect(() => {
+        if (layoutPaused) layoutRef.current?.pause();
+        else layoutRef.current?.resume();
+    }, [layoutPaused]);
+
+    useEffect(() => {
+        layoutRef.current?.setFrozen(!!layoutFrozen);
+    }, [layoutFrozen]);
+
+    // Initialization Effect: zoom, drag and pointer handlers
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!canvas) return;
+        layoutRef.current?.resize(dimensions.width, dimensions.height);
+
+        const selection = d3.select(canvas);
+
+        // Drag a node; a gesture that doesn't start on a node falls through to zoom/pan
+        const drag = d3.drag<HTMLCanvasElement, unknown, CanvasNode | undefined>()
+            .container(canvas)
+            .subject(event => findNode(event.x, event.y))
+            .on('start', event => {
+                layoutRef.current?.drag(event.subject!.id, event.subject!.x!, event.subject!.y!);
+            })
+            .on('drag', event => {
+                const [x, y] = transformRef.current.invert([event.x, event.y]);
+                layoutRef.current?.drag(event.subject!.id, x, y);
+            })
+            .on('end', event => {
+                layoutRef.current?.release(event.subject!.id);
+            });
+
+        const zoom = d3.zoom<HTMLCanvasElement, unknown>()
+            .scaleExtent([0.05, 8])
+            .on('zoom', event => {
+                transformRef.current = event.transform;
+                scheduleDraw();
+            });
+        zoomRef.current = zoom;
+
+        selection.call(drag).call(zoom);
+
+        selection.on('mousemove', (event: MouseEvent) => {
+            const [x, y] = d3.pointer(event, canvas);
+            const node = findNode(x, y);
+            canvas.style.cursor = node ? 'pointer' : 'grab';
+            setHoveredNode(node?.id ?? null);
+        });
+        selection.on('mouseleave', () => setHoveredNode(null));
+        selection.on('click', (event: MouseEvent) => {
+            const [x, y] = d3.pointer(event, canvas);
+            const node = findNode(x, y);
+            if (node) viewRef.current.onNodeClick?.(node);
+        });
+
+        return () => {
+            selection.on('.drag', null).on('.zoom', null).on('mousemove', null).on('mouseleave', null).on('click', null);
+            if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+            frameRef.current = null;
+        };
+    }, [dimensions.width, dimensions.height]);
+
+    // Update Effect: hand new data to the layout; nodes it has placed before start where they were
+    useEffect(() => {
+        const layout = layoutRef.current;
+        if (!layout || !data.nodes?.length) return;
+
+        const nodes = new Map<string, CanvasNode>(data.nodes.map(n => [n.id, { ...n, ...layout.positionOf(n.id) }]));
+        const links: CanvasLink[] = data.edges
+            .filter(e => nodes.has(e.source) && nodes.has(e.target))
+            .map(e => ({
+                relation: e.relation,
+                source: nodes.get(e.source)!,
+                target: nodes.get(e.target)!,
+                key: `${e.source}-${e.target}-${e.relation}`
+            }));
+
+        nodesRef.current = nodes;
+        linksRef.current = links;
+        layout.setGraph(data.nodes, data.edges);
+        scheduleDraw();
+    }, [data, scheduleDraw]);
+
+    // Fixed layouts: move nodes into place after every data change, or hand them back to the simulation
+    useEffect(() => {
+        if (!layoutRef.current || !data.nodes?.length) return;
+        layoutRef.current.arrange(layoutMode === 'force'
+            ? null
+            : computeGraphLayout(layoutMode, data, { ...dimensions, centerId: centerNodeId }));
+    }, [layoutMode, centerNodeId, data, dimensions]);
+
+    // Redraw on focus, highlight, pin, flag and theme changes
+    useEffect(() => {
+        scheduleDraw();
+    }, [activeNodeId, highlightedEdges, pinnedNodeIds, flaggedNodeIds, darkMode, scheduleDraw]);
+
+    if (!data.nodes?.length) return null;
+
+    const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+    return (
+        <div
+            ref={containerRef}
+            className={`relative rounded-xl overflow-hidden border transition-all duration-300 bg-background border-border ${isFullscreen ? 'fixed inset-0 z-50 w-full h-full rounded-none' : `w-full h-full ${className}`}`}
+            style={isFullscreen ? { height: '100vh', width: '100vw' } : { height: '100%', width: '100%' }}
+        >
+            {/* Legend Overlay */}
+            <GraphLegend nodes={data.nodes} />
+
+            {/* Hint Overlay */}
+            <div className={`absolute bottom-4 right-4 z-10 text-[10px] px-3 py-1.5 rounded-full border backdrop-blur-sm pointer-events-none select-none bg-surface/60 border-border text-tertiary`}>
+                Large graph mode • Zoom in for labels
+            </div>
+
+            <canvas
+                ref={canvasRef}
+                width={dimensions.width * dpr}
+                height={dimensions.height * dpr}
+                className="w-full h-full block cursor-grab active:cursor-grabbing touch-none"
+                style={{ width: dimensions.width, height: dimensions.height }}
+                role="img"
+                aria-label={`Knowledge graph visualization with ${data.nodes.length} nodes and ${data.edges.length} connections`}
+            />
+
+            {/* Embedded Overlays (e.g. Inspector) */}
+            {children}
+        </div>
+    );
+});
+
+export default CanvasGraphVisualization;
@@ -5,21 +5,34 @@ import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import remarkMath from 'remark-math';
 import rehypeKatex from 'rehype-katex';
-import { GeminiModel, GraphData } from '../types';
+import { GeminiModel, GraphData, ToolTraceEntry } from '../types';
 import { ChatSession, ChatMessage } from '../schemas/sessionSchema';
-import { generateResponse } from '../services/geminiService';
+import { generateResponseStream, AgentResponse, AgentStreamEvent, DEFAULT_MAX_TURNS } from '../services/geminiService';
+import { generateHybridResponseStream } from '../services/queryRouter';
 import { kgService } from '../services/kgService';
-import ApiKeyModal, { getStoredApiKey } from './ApiKeyModal';
+import ApiKeyModal from './ApiKeyModal';
+import { getLlmProvider, isLlmConfigured, resolveModel } from '../services/llmService';
 import { toolRegistry, getTool, getToolSpecificPrompt, systemTools } from '../constants/toolRegistry';
 import type { ToolItem } from '../constants/toolRegistry';
 // Lazy load heavy graph visualization component for better initial load performance
 const GraphVisualization = React.lazy(() => import('./GraphVisualization'));
+import GraphLayoutPicker from './GraphLayoutPicker';
+import type { GraphLayoutMode } from '../utils/graphLayouts';
 import { CostTracker, calculateCost } from './CostTracker';
 import SuggestedQuestions from './SuggestedQuestions';
-import ToolExecutionChips from './ToolExecutionChips';
+import ToolExecutionChips, { LiveToolCall } from './ToolExecutionChips';
+import ToolTimeline from './ToolTimeline';
+import EvidencePanel from './EvidencePanel';
+import ClaimBadge from './ClaimBadge';
+import { annotateClaims } from '../services/claimVerifier';
 import HypothesisCards from './HypothesisCards';
+import ErrorRecovery from './ErrorRecovery';
+import { describeError } from '../services/errors';
+import { readCurrentProjectId } from '../hooks/useProjects';
 import EntityMention from './EntityMention';
 import MermaidDiagram from './MermaidDiagram';
+import CitationTooltip from './CitationTooltip';
+import type { InlineCitation } from '../types/pubmed';
 
 // Model icon component
 const ModelIcon: React.FC<{ model: GeminiModel; className?: string }> = ({ model, className = "w-4 h-4" }) => {
@@ -191,11 +204,26 @@ const extractGraphData = (toolResults: Array<{ name: string; args: any; result:
   return undefined;
 };
 
+/**
+ * Turn inline reference markers ("[1]", "[2, 3]") into "#cite-n" links so the
+ * markdown renderer can attach a citation tooltip. Unknown numbers stay plain text.
+ */
+const linkCitations = (content: string, citations: InlineCitation[] | undefined): string => {
+  if (!citations || citations.length === 0) return content;
+  const known = new Set(citations.map(c => c.ref));
+
+  return content.replace(/\[(\d+(?:\s*,\s*\d+)*)\](?!\()/g, (match, refs: string) => {
+    const numbers = refs.split(',').map(r => parseInt(r.trim(), 10));
+    if (!numbers.every(n => known.has(n))) return match;
+    return numbers.map(n => `[\\[${n}\\]](#cite-${n})`).join('');
+  });
+};
+
 interface ChatInterfaceProps {
   /** Current active chat session */
   currentSession: ChatSession | null;
-  /** Callback to save session messages */
-  onSaveSession: (messages: ChatMessage[]) => void;
+  /** Callback to save session messages (and per-session settings when they change) */
+  onSaveSession: (messages: ChatMessage[], settings?: { maxTurns?: number }) => void;
   /** Whether API is offline */
   isOffline?: boolean;
   /** Current dark mode state */
@@ -296,7 +324,13 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [showEnhancerTooltip, setShowEnhancerTooltip] = useState(false);
   const [uploadedFiles, setUploadedFiles] = useState<Array<{ name: string; data: string; mimeType: string; type: 'pdf' | 'image' | 'audio' | 'video' | 'text'; size: number }>>([]);
   const [liveTrace, setLiveTrace] = useState<string[]>([]);
+  // Streaming state: answer text so far, tool calls in flight, and graph size collected
+  const [streamingText, setStreamingText] = useState('');
+  const [liveToolCalls, setLiveToolCalls] = useState<LiveToolCall[]>([]);
+  const [liveGraphSize, setLiveGraphSize] = useState<{ nodes: number; edges: number } | null>(null);
   const [isTraceCollapsed, setIsTraceCollapsed] = useState(false);
+  // Layout picked per message graph; defaults to the one suggested with the data
+  const [graphLayouts, setGraphLayouts] = useState<Record<string, GraphLayoutMode>>({});
 
   // Feature Toggles (Optimization)
   const [webSearchEnabled, setWebSearchEnabled] = useState(false);
@@ -307,12 +341,26 @@ const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
     return true;
   });
+  // Hybrid routing: graph sub-questions to PrimeKG tools, recency questions to web search
+  const [hybridEnabled, setHybridEnabled] = useState(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('primekg_hybrid_routing') === 'true'; // Default: false
+    }
+    return false;
+  });
+
+  // Agent turn budget, saved with the session
+  const [maxTurns, setMaxTurns] = useState(currentSession?.maxTurns ?? DEFAULT_MAX_TURNS);
 
   // Persist auto-search preference
   useEffect(() => {
     localStorage.setItem('primekg_auto_search', String(autoSearchEnabled));
   }, [autoSearchEnabled]);
 
+  useEffect(() => {
+    localStorage.setItem('primekg_hybrid_routing', String(hybridEnabled));
+  }, [hybridEnabled]);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [enhancerPrompt, setEnhancerPrompt] = useState(localStorage.getItem('primekg_enhancer_prompt') || `You are a prompt engineering expert. Your task is to enhance user prompts for a precision medicine AI assistant called PrimeAI that queries the PrimeKG knowledge graph.
 
@@ -336,6 +384,10 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
   const bottomRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Budget-limited answers that can still be continued, keyed by message id (not persisted)
+  // Latest messages, for handlers that save after an await
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
 
   // Handler to explore a node from the chat (entity mentions or hypothesis cards)
   const handleExploreNode = async (nodeName: string) => {
@@ -354,19 +406,22 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
     }
   };
 
-  // Check for existing API key on mount
+  // Check for an existing API key (or configured model server) on mount
   useEffect(() => {
-    const key = getStoredApiKey();
-    setHasApiKey(!!key);
+    setHasApiKey(isLlmConfigured());
   }, []);
 
+  // The turn budget follows the session switched to, not every save of the current one
+  useEffect(() => {
+    setMaxTurns(currentSession?.maxTurns ?? DEFAULT_MAX_TURNS);
+  }, [currentSession?.id]);
+
   // Sync with currentSession
   useEffect(() => {
     if (currentSession) {
       setMessages(currentSession.messages);
     } else {
-      const apiKey = getStoredApiKey();
-      setMessages(apiKey ? [] : [welcomeMessage]);
+      setMessages(isLlmConfigured() ? [] : [welcomeMessage]);
     }
   }, [currentSession]);
 
@@ -415,7 +470,7 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
     if (!options?.skipAutoTasks) {
       if (autoSearchEnabled && !webSearchEnabled) {
         // If enabled, suggest semantic search for better grounding
-        autoTaskInstructions.push(`If entities are mentioned, use searchSemantic to resolve them before other operations.`);
+        autoTaskInstructions.push(`If entities are mentioned, resolve them (searchSemantic, or resolveEntities for several) before other operations.`);
       } else {
         // If disabled, just pass the prompt raw, but still allow tool use if the model decides
         // (No forced instructions)
@@ -440,43 +495,189 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
 
     const newMessages = [...messages, userMsg];
     setMessages(newMessages);
+
+    const attachments = uploadedFiles.length > 0 ? uploadedFiles.map(f => ({
+      name: f.name,
+      data: f.data,
+      mimeType: f.mimeType
+    })) : undefined;
+
+    await runAgent(newMessages, chatStream(finalPrompt, toHistory(newMessages), attachments));
+  };
+
+  const toHistory = (chatMessages: ChatMessage[]) => chatMessages
+    .filter(m => m.role !== 'system')
+    .map(m => ({
+      role: m.role,
+      parts: [{ text: m.content }]
+    }));
+
+  /**
+   * Stream starter for a prompt, through the hybrid router when it's enabled
+   */
+  const chatStream = (
+    prompt: string,
+    history: ReturnType<typeof toHistory>,
+    attachments?: Array<{ name: string; data: string; mimeType: string }>
+  ) => (signal: AbortSignal, onLog: (entry: string) => void) => hybridEnabled
+    ? generateHybridResponseStream(
+      prompt,
+      history,
+      selectedModel,
+      undefined,
+      attachments,
+      onLog,
+      signal,
+      { maxTurns, requeryClaims: true, projectId: readCurrentProjectId() }
+    )
+    : generateResponseStream(
+      prompt,
+      history,
+      selectedModel,
+      undefined,
+      attachments,
+      onLog,
+      signal,
+      { enableWebSearch: webSearchEnabled, maxTurns, requeryClaims: !webSearchEnabled, projectId: readCurrentProjectId() }
+    );
+
+  /**
+   * Send the question behind a failed answer again, replacing the error message
+   */
+  const handleRetry = async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index < 0 || isLoading) return;
+    const baseMessages = messages.slice(0, index);
+    const lastUser = [...baseMessages].reverse().find(m => m.role === 'user');
+    if (!lastUser) return;
+
+    setMessages(baseMessages);
+    const files = lastUser.relatedData?.files as Array<{ name: string; data: string; mimeType: string }> | undefined;
+    const attachments = files?.map(f => ({ name: f.name, data: f.data, mimeType: f.mimeType }));
+    await runAgent(baseMessages, chatStream(lastUser.content, toHistory(baseMessages), attachments));
+  };
+
+  /**
+   * Re-run the hypothesis tool behind a failed card and show its results in place
+   */
+  const handleRetryHypothesis = async (messageId: string) => {
+    const target = messages.find(m => m.id === messageId);
+    const failed = target?.relatedData;
+    if (!failed?.error) return;
+
+    const args = failed.args || {};
+    try {
+      let data: any[];
+      if (failed.type === 'repurposing') {
+        const result: any = await kgService.getDrugRepurposing(args.disease);
+        data = result?.candidates || result || [];
+      } else if (failed.type === 'targets') {
+        const result: any = await kgService.getTherapeuticTargets(args.disease);
+        data = result?.targets || result || [];
+      } else {
+        const result: any = await kgService.getDrugCombinations(args.drug);
+        data = result?.combinations || result || [];
+      }
+
+      // Messages may have changed while the tool ran, so patch the latest ones
+      const { error: _error, ...rest } = failed;
+      const patch = (list: ChatMessage[]) => list.map(m => m.id === messageId
+        ? { ...m, relatedData: { ...rest, data: Array.isArray(data) ? data : [] } }
+        : m);
+      setMessages(prev => patch(prev));
+      onSaveSession(patch(messagesRef.current), { maxTurns });
+    } catch (error) {
+      setMessages(prev => prev.map(m => m.id === messageId
+        ? { ...m, relatedData: { ...failed, error: describeError(error, 'kg') } }
+        : m));
+    }
+  };
+
+  /**
+   * Pick up an answer that stopped at its turn budget, with a fresh budget.
+   * The continued answer is appended as a new message.
+   */
+  const handleContinue = async (messageId: string) => {
+    const resume = messages.find(m => m.id === messageId)?.continuation;
+    if (!resume) return;
+    // The continuation is only used up once the continued run produces an answer
+    const usedUp = messages.map(m => m.id === messageId ? { ...m, continuation: undefined } : m);
+
+    await runAgent(messages, (signal, onLog) => generateResponseStream(
+      '',
+      [],
+      selectedModel,
+      undefined,
+      undefined,
+      onLog,
+      signal,
+      { enableWebSearch: webSearchEnabled, maxTurns, resume, requeryClaims: !webSearchEnabled, projectId: readCurrentProjectId() }
+    ), usedUp);
+  };
+
+  /**
+   * Consume an agent stream into live UI state, then append the answer to `baseMessages`
+   * (or to `answeredMessages`, when given, once the run has produced an answer).
+   */
+  const runAgent = async (
+    baseMessages: ChatMessage[],
+    start: (signal: AbortSignal, onLog: (entry: string) => void) => AsyncGenerator<AgentStreamEvent, void>,
+    answeredMessages: ChatMessage[] = baseMessages
+  ) => {
     setIsLoading(true);
     setLiveTrace([]);
+    setStreamingText('');
+    setLiveToolCalls([]);
+    setLiveGraphSize(null);
 
     if (abortControllerRef.current) abortControllerRef.current.abort();
     const controller = new AbortController();
     abortControllerRef.current = controller;
 
-    try {
-      const history = newMessages
-        .filter(m => m.role !== 'system')
-        .map(m => ({
-          role: m.role,
-          parts: [{ text: m.content }]
-        }));
+    const trace: string[] = [];
+    const toolTrace: ToolTraceEntry[] = [];
+    // Text already shown to the user; kept if generation is stopped mid-stream
+    let partialText = '';
 
-      const trace: string[] = [];
+    try {
       const pushTrace = (entry: string) => {
         trace.push(entry);
         setLiveTrace([...trace]);
       };
 
-      const response = await generateResponse(
-        finalPrompt,
-        history,
-        selectedModel,
-        undefined,
-        uploadedFiles.length > 0 ? uploadedFiles.map(f => ({
-          name: f.name,
-          data: f.data,
-          mimeType: f.mimeType
-        })) : undefined,
-        pushTrace,
-        controller.signal,
-        { enableWebSearch: webSearchEnabled }
-      );
+      const stream = start(controller.signal, pushTrace);
+
+      let response: AgentResponse = { text: '' };
+      const graphSize = { nodes: 0, edges: 0 };
+      for await (const event of stream) {
+        switch (event.type) {
+          case 'text':
+            partialText += event.delta;
+            setStreamingText(partialText);
+            break;
+          case 'tool_start':
+            setLiveToolCalls(prev => [...prev, { callId: event.callId, name: event.name, status: 'running' }]);
+            break;
+          case 'tool_end':
+            toolTrace.push(event.trace);
+            setLiveToolCalls(prev => prev.map(c => c.callId === event.callId ? { ...c, status: event.status } : c));
+            break;
+          case 'graph':
+            graphSize.nodes += event.data.nodes.length;
+            graphSize.edges += event.data.edges.length;
+            setLiveGraphSize({ ...graphSize });
+            break;
+          case 'done':
+            response = event.response;
+            break;
+        }
+      }
 
       const graphData = extractGraphData(response.data);
+      const citations = response.citations;
+      // Mechanisms and paths read best as a left-to-right pathway diagram
+      const isPathwayResult = Array.isArray(response.data) &&
+        response.data.some((t: any) => t.name === 'getMechanism' || t.name === 'getShortestPath');
 
       // Extract hypothesis data (repurposing, targets, combinations)
       let hypothesisData: any = undefined;
@@ -486,7 +687,10 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
 
         if (toolNames.includes('getDrugRepurposing')) {
           const repurposingResult = response.data.find((t: any) => t.name === 'getDrugRepurposing');
-          if (repurposingResult?.result?.candidates || Array.isArray(repurposingResult?.result)) {
+          if (repurposingResult?.error) {
+            // Keep what's needed to re-run the call from the card
+            hypothesisData = { type: 'repurposing', data: [], error: repurposingResult.error, args: repurposingResult.args };
+          } else if (repurposingResult?.result?.candidates || Array.isArray(repurposingResult?.result)) {
             hypothesisData = {
               type: 'repurposing',
               data: repurposingResult.result.candidates || repurposingResult.result
@@ -494,7 +698,10 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
           }
         } else if (toolNames.includes('getTherapeuticTargets')) {
           const targetsResult = response.data.find((t: any) => t.name === 'getTherapeuticTargets');
-          if (targetsResult?.result?.targets || Array.isArray(targetsResult?.result)) {
+          if (targetsResult?.error) {
+            // Keep what's needed to re-run the call from the card
+            hypothesisData = { type: 'targets', data: [], error: targetsResult.error, args: targetsResult.args };
+          } else if (targetsResult?.result?.targets || Array.isArray(targetsResult?.result)) {
             hypothesisData = {
               type: 'targets',
               data: targetsResult.result.targets || targetsResult.result
@@ -502,7 +709,10 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
           }
         } else if (toolNames.includes('getDrugCombinations')) {
           const combosResult = response.data.find((t: any) => t.name === 'getDrugCombinations');
-          if (combosResult?.result?.combinations || Array.isArray(combosResult?.result)) {
+          if (combosResult?.error) {
+            // Keep what's needed to re-run the call from the card
+            hypothesisData = { type: 'combinations', data: [], error: combosResult.error, args: combosResult.args };
+          } else if (combosResult?.result?.combinations || Array.isArray(combosResult?.result)) {
             hypothesisData = {
               type: 'combinations',
               data: combosResult.result.combinations || combosResult.result
@@ -527,36 +737,49 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
         }));
       }
 
+      const primaryData = (graphData && graphData.nodes && graphData.nodes.length > 0)
+        ? (isPathwayResult ? { ...graphData, layout: 'layered' as GraphLayoutMode } : graphData)
+        : hypothesisData
+          ? hypothesisData
+          : undefined;
+
       const aiMsg: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: 'model',
         content: response.text,
         timestamp: new Date(),
-        relatedData: (graphData && graphData.nodes && graphData.nodes.length > 0)
-          ? graphData
-          : hypothesisData
-            ? hypothesisData
-            : undefined,
-        trace
+        // Citations ride along with graph/hypothesis data so saved sessions keep their evidence
+        relatedData: citations && citations.length > 0
+          ? { ...(primaryData || {}), citations }
+          : primaryData,
+        trace,
+        toolTrace: response.toolTrace,
+        evidence: response.evidence,
+        budgetExhausted: response.budgetExhausted,
+        continuation: response.continuation,
+        error: response.error
       };
 
-      const finalMessages = [...newMessages, aiMsg];
+      const finalMessages = [...answeredMessages, aiMsg];
       setMessages(finalMessages);
-      onSaveSession(finalMessages);
+      onSaveSession(finalMessages, { maxTurns });
       setLiveTrace([]);
     } catch (error: any) {
       if (error.name === 'AbortError' || error.message === 'Aborted') {
         const abortedMsg: ChatMessage = {
           id: Date.now().toString(),
           role: 'model',
-          content: "⏹️ *Generation stopped by user.*",
+          content: partialText
+            ? `${partialText}\n\n⏹️ *Generation stopped by user.*`
+            : "⏹️ *Generation stopped by user.*",
           timestamp: new Date(),
           isError: true,
-          trace: liveTrace.length > 0 ? liveTrace : undefined
+          trace: trace.length > 0 ? [...trace] : undefined,
+          toolTrace: toolTrace.length > 0 ? [...toolTrace] : undefined
         };
-        const finalMessages = [...newMessages, abortedMsg];
+        const finalMessages = [...baseMessages, abortedMsg];
         setMessages(finalMessages);
-        onSaveSession(finalMessages);
+        onSaveSession(finalMessages, { maxTurns });
       } else {
         const errorMsg: ChatMessage = {
           id: Date.now().toString(),
@@ -564,14 +787,18 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
           content: "I apologize, but I encountered an error communicating with the Knowledge Graph.",
           timestamp: new Date(),
           isError: true,
-          trace: liveTrace.length > 0 ? liveTrace : undefined
+          trace: trace.length > 0 ? [...trace] : undefined,
+          error: describeError(error, 'llm')
         };
-        const finalMessages = [...newMessages, errorMsg];
+        const finalMessages = [...baseMessages, errorMsg];
         setMessages(finalMessages);
-        onSaveSession(finalMessages);
+        onSaveSession(finalMessages, { maxTurns });
       }
     } finally {
       setIsLoading(false);
+      setStreamingText('');
+      setLiveToolCalls([]);
+      setLiveGraphSize(null);
       abortControllerRef.current = null;
     }
   };
@@ -637,8 +864,7 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
   const handleSend = () => {
     if (!input.trim()) return;
 
-    const apiKey = getStoredApiKey();
-    if (!apiKey) {
+    if (!isLlmConfigured()) {
       setShowApiKeyModal(true);
       return;
     }
@@ -657,8 +883,7 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
   const handleEnhancePrompt = async () => {
     if (!input.trim() || isEnhancing) return;
 
-    const apiKey = getStoredApiKey();
-    if (!apiKey) {
+    if (!isLlmConfigured()) {
       setShowApiKeyModal(true);
       return;
     }
@@ -670,15 +895,15 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
     setInput('Improving your 🐮 prompt...');
 
     try {
-      const { GoogleGenAI } = await import('@google/genai');
-      const ai = new GoogleGenAI({ apiKey });
+      const provider = getLlmProvider();
+      if (!provider) throw new Error('No model provider configured');
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.0-flash-exp', // Free experimental version
-        contents: `${enhancerPrompt}\n\nUser prompt to enhance:\n"${originalInput}"`
+      const response = await provider.generateText({
+        model: resolveModel(provider, GeminiModel.FLASH_2_0_EXP), // Free experimental version
+        prompt: `${enhancerPrompt}\n\nUser prompt to enhance:\n"${originalInput}"`
       });
 
-      const enhanced = response.text?.trim();
+      const enhanced = response.trim();
       if (enhanced) {
         setInput(enhanced);
       } else {
@@ -831,7 +1056,7 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
       <ApiKeyModal
         isOpen={showApiKeyModal}
         onClose={() => setShowApiKeyModal(false)}
-        onSave={(key) => setHasApiKey(!!key)}
+        onSave={() => setHasApiKey(isLlmConfigured())}
         darkMode={darkMode}
       />
 
@@ -960,6 +1185,28 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                           rehypePlugins={[rehypeKatex]}
                           components={{
                             ...markdownComponents,
+                            a: ({ href, children }: any) => {
+                              if (href?.startsWith('#claim-')) {
+                                const claim = msg.evidence?.claims?.find(c => `#claim-${c.id}` === href);
+                                if (claim) return <ClaimBadge claim={claim} />;
+                              }
+                              const citation = href?.startsWith('#cite-')
+                                ? (msg.relatedData?.citations as InlineCitation[] | undefined)?.find(c => `#cite-${c.ref}` === href)
+                                : undefined;
+                              if (!citation) return markdownComponents.a({ href, children });
+                              return (
+                                <CitationTooltip entityName={citation.title} citation={citation}>
+                                  <a
+                                    href={citation.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="no-underline text-primary font-semibold text-[0.8em] align-super hover:underline"
+                                  >
+                                    {children}
+                                  </a>
+                                </CitationTooltip>
+                              );
+                            },
                             p: ({ children }: any) => (
                               <p>
                                 {typeof children === 'string' ? (
@@ -972,10 +1219,35 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                           } as any}
                         >
                           {msg.role === 'model' 
-                            ? msg.content.replace(/\[\s*\]/g, '[Beep Boop. Nothing was found]') 
+                            ? linkCitations(annotateClaims(msg.content, msg.evidence?.claims).replace(/\[\s*\]/g, '[Beep Boop. Nothing was found]'), msg.relatedData?.citations)
                             : msg.content}
                         </ReactMarkdown>
 
+                        {/* Numbered references for inline [n] citations */}
+                        {Array.isArray(msg.relatedData?.citations) && msg.relatedData.citations.length > 0 && (
+                          <div className="mt-3 border-t border-border pt-2 not-prose">
+                            <p className="text-xs font-semibold text-tertiary flex items-center gap-1 mb-1">
+                              <span className="material-symbols-outlined text-sm">menu_book</span>
+                              References
+                            </p>
+                            <ol className="space-y-1 text-xs text-secondary">
+                              {(msg.relatedData.citations as InlineCitation[]).map(c => (
+                                <li key={c.ref} className="flex gap-1.5">
+                                  <span className="font-mono text-tertiary shrink-0">[{c.ref}]</span>
+                                  <span>
+                                    {c.url ? (
+                                      <a href={c.url} target="_blank" rel="noopener noreferrer" className="hover:text-primary hover:underline">
+                                        {c.title}
+                                      </a>
+                                    ) : c.title}
+                                    <span className="text-tertiary"> - {c.journal}, {c.year}{c.pmid ? ` (PMID ${c.pmid})` : ''}</span>
+                                  </span>
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        )}
+
                         {/* Hypothesis Cards - Visual representation of drug repurposing, targets, combinations */}
                         {msg.relatedData && msg.relatedData.type && msg.relatedData.data && (
                           <HypothesisCards
@@ -983,6 +1255,8 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                             type={msg.relatedData.type}
                             darkMode={darkMode}
                             onExploreNode={handleExploreNode}
+                            error={msg.relatedData.error}
+                            onRetry={() => handleRetryHypothesis(msg.id)}
                           />
                         )}
 
@@ -1001,16 +1275,24 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                                   data={msg.relatedData}
                                   darkMode={darkMode}
                                   onNodeClick={handleNodeClick}
+                                  layoutMode={graphLayouts[msg.id] ?? msg.relatedData.layout ?? 'force'}
                                 />
                             </React.Suspense>
                             <div className="mt-2 flex items-center justify-between text-[10px] text-tertiary">
                               <span>Graph rendered with {msg.relatedData.nodes.length} nodes and {msg.relatedData.edges.length} edges</span>
-                              {msg.relatedData.isTruncated && (
-                                <span className="text-amber-500 font-medium">⚠️ Limited view for performance</span>
-                              )}
+                              <div className="flex items-center gap-2">
+                                {msg.relatedData.isTruncated && (
+                                  <span className="text-amber-500 font-medium">⚠️ Limited view for performance</span>
+                                )}
+                                <GraphLayoutPicker
+                                  orientation="horizontal"
+                                  value={graphLayouts[msg.id] ?? msg.relatedData.layout ?? 'force'}
+                                  onChange={mode => setGraphLayouts(prev => ({ ...prev, [msg.id]: mode }))}
+                                />
+                              </div>
                             </div>
                           </div>
-                        ) : (msg.relatedData && !msg.relatedData.type) ? (
+                        ) : (Array.isArray(msg.relatedData?.nodes) && !msg.relatedData.type) ? (
                           <div className="mt-4 p-2 bg-amber-500/10 border border-amber-500/20 rounded text-xs text-amber-600 dark:text-amber-400">
                             ⚠️ Graph data present but empty nodes/edges.
                             <details>
@@ -1022,6 +1304,48 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                           </div>
                         ) : null}
 
+                        {/* Why the answer failed, and what to do about it */}
+                        {msg.error && (
+                          <div className="mt-3 not-prose">
+                            <ErrorRecovery
+                              error={msg.error}
+                              onRetry={isLoading ? undefined : () => handleRetry(msg.id)}
+                              onOpenSettings={() => setShowApiKeyModal(true)}
+                            />
+                          </div>
+                        )}
+
+                        {/* Turn budget notice */}
+                        {msg.budgetExhausted && (
+                          <div className="mt-3 p-2 bg-amber-500/10 border border-amber-500/20 rounded text-xs text-amber-600 dark:text-amber-400 flex items-center gap-2 not-prose">
+                            <span className="material-symbols-outlined text-sm">hourglass_bottom</span>
+                            <span className="flex-1">Stopped at the tool-call budget. This answer may be incomplete.</span>
+                            {msg.continuation && !isLoading && (
+                              <button
+                                onClick={() => handleContinue(msg.id)}
+                                className="px-2 py-1 rounded bg-amber-500/20 hover:bg-amber-500/30 font-medium transition-colors"
+                              >
+                                Continue investigation
+                              </button>
+                            )}
+                          </div>
+                        )}
+
+                        {/* What the answer was grounded on */}
+                        {msg.evidence && (
+                          <EvidencePanel evidence={msg.evidence} onExploreNode={handleExploreNode} />
+                        )}
+
+                        {/* Tool call timeline */}
+                        {msg.toolTrace && msg.toolTrace.length > 0 && (
+                          <details className="mt-3 text-xs border-t border-border pt-2">
+                            <summary className="cursor-pointer text-tertiary hover:text-secondary select-none">
+                              Tool Timeline ({msg.toolTrace.length} calls)
+                            </summary>
+                            <ToolTimeline entries={msg.toolTrace} />
+                          </details>
+                        )}
+
                         {/* Trace & Data */}
                         {msg.trace && msg.trace.length > 0 && (
                           <details className="mt-3 text-xs border-t border-border pt-2">
@@ -1061,7 +1385,31 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
             {isLoading && (
               <div className="space-y-4 animate-fade-in">
                 {/* Tool Execution Chips - Visual feedback */}
-                <ToolExecutionChips traceEntries={liveTrace} darkMode={darkMode} />
+                <ToolExecutionChips traceEntries={liveTrace} toolCalls={liveToolCalls} darkMode={darkMode} />
+
+                {/* Answer streamed so far */}
+                {streamingText && (
+                  <div className="flex justify-start">
+                    <div className="max-w-[85%] px-5 py-3.5 rounded-2xl text-sm leading-relaxed shadow-sm bg-muted text-foreground border border-border">
+                      <div className={`prose prose-sm max-w-none ${darkMode ? 'prose-invert' : 'prose-slate'}`}>
+                        <ReactMarkdown
+                          remarkPlugins={[remarkGfm, remarkMath]}
+                          rehypePlugins={[rehypeKatex]}
+                          components={markdownComponents as any}
+                        >
+                          {streamingText}
+                        </ReactMarkdown>
+                        <span className="inline-block w-1.5 h-4 align-text-bottom bg-primary/60 animate-pulse" />
+                      </div>
+                      {liveGraphSize && (
+                        <div className="mt-2 flex items-center gap-1 text-[10px] text-tertiary">
+                          <span className="material-symbols-outlined text-[12px]">hub</span>
+                          <span>Collected {liveGraphSize.nodes} nodes and {liveGraphSize.edges} edges so far</span>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
 
                 {/* Detailed trace (collapsible) */}
                 <div className="flex justify-start gap-3">
@@ -1202,6 +1550,7 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                     setWebSearchEnabled(newValue);
                     if (newValue) {
                         setAutoSearchEnabled(false); // Mutual exclusion: Disable Graph Auto-Grounding if Web Search is active
+                        setHybridEnabled(false);
                     }
                   }}
                   className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${webSearchEnabled
@@ -1215,6 +1564,41 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                 >
                   <span className="material-symbols-outlined text-[20px]">language</span>
                 </button>
+
+                {/* Hybrid Routing Toggle */}
+                <button
+                  onClick={() => {
+                    const newValue = !hybridEnabled;
+                    setHybridEnabled(newValue);
+                    if (newValue) setWebSearchEnabled(false); // Hybrid runs web search itself, alongside PrimeKG
+                  }}
+                  className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors ${hybridEnabled
+                    ? 'text-violet-500 bg-violet-500/10 hover:bg-violet-500/20'
+                    : 'text-tertiary hover:text-secondary hover:bg-surface-hover'
+                    }`}
+                  title={hybridEnabled
+                    ? 'Hybrid Routing ON - Graph questions go to PrimeKG, recent/clinical-trial questions to the web'
+                    : 'Hybrid Routing OFF - One source per message'
+                  }
+                >
+                  <span className="material-symbols-outlined text-[20px]">alt_route</span>
+                </button>
+
+                {/* Agent Turn Budget */}
+                <select
+                  value={maxTurns}
+                  onChange={(e) => {
+                    const value = Number(e.target.value);
+                    setMaxTurns(value);
+                    if (currentSession) onSaveSession(messages, { maxTurns: value });
+                  }}
+                  className="h-8 px-1 rounded-lg bg-transparent text-xs text-tertiary hover:text-secondary hover:bg-surface-hover transition-colors cursor-pointer"
+                  title="Tool-calling turns the agent may use per answer"
+                >
+                  {[3, 5, 8, 12, 20].map(n => (
+                    <option key={n} value={n}>{n} turns</option>
+                  ))}
+                </select>
               </div>
               <div className="flex items-center gap-1">
                 <button
@@ -1258,6 +1642,12 @@ Keep the enhanced prompt concise but comprehensive. Output ONLY the enhanced pro
                 </Link>
               </div>
             )}
+            {hybridEnabled && (
+              <div className="px-2 pb-1 text-xs text-violet-500 flex items-center gap-1.5 animate-in fade-in slide-in-from-bottom-1 border-t border-border/50 pt-1 mx-0.5 mt-0.5">
+                <span className="material-symbols-outlined text-[14px]">alt_route</span>
+                <span><b>Hybrid Routing Active:</b> Sub-questions are split between PrimeKG and web search, with sources listed separately.</span>
+              </div>
+            )}
           </div>
         </div>
       </div >
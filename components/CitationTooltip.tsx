@@ -6,27 +6,30 @@
 
 import React, { useState } from 'react';
 import { useEntityCitations, usePrefetchCitation } from '../hooks/usePubMed';
-import type { EntityType } from '../types/pubmed';
+import type { EntityType, InlineCitation } from '../types/pubmed';
 
 interface CitationTooltipProps {
   entityName: string;
   entityType?: EntityType;
   children: React.ReactNode;
   disabled?: boolean;
+  /** Paper already retrieved by the agent; shown as-is instead of searching by entity */
+  citation?: InlineCitation;
 }
 
 export function CitationTooltip({ 
   entityName, 
   entityType = 'gene',
   children,
-  disabled = false
+  disabled = false,
+  citation
 }: CitationTooltipProps) {
   const [isVisible, setIsVisible] = useState(false);
   const [timeoutId, setTimeoutId] = useState<NodeJS.Timeout | null>(null);
   
   const prefetch = usePrefetchCitation();
   const { data, isLoading } = useEntityCitations(
-    isVisible ? entityName : null, 
+    isVisible && !citation ? entityName : null, 
     entityType, 
     2
   );
@@ -35,7 +38,7 @@ export function CitationTooltip({
     if (disabled) return;
     
     // Prefetch immediately
-    prefetch(entityName, entityType, 2);
+    if (!citation) prefetch(entityName, entityType, 2);
     
     // Show tooltip after delay
     const id = setTimeout(() => {
@@ -73,10 +76,22 @@ export function CitationTooltip({
             <div className="space-y-2">
               <p className="text-xs font-medium flex items-center gap-1 text-zinc-700 dark:text-zinc-300">
                 <span className="material-symbols-outlined text-sm">science</span>
-                Related Literature
+                {citation ? `Reference [${citation.ref}]` : 'Related Literature'}
               </p>
               
-              {isLoading ? (
+              {citation ? (
+                <div className="text-xs border-l-2 border-indigo-500 pl-2 space-y-0.5">
+                  <span className="line-clamp-2 text-zinc-900 dark:text-zinc-100 font-medium">
+                    {citation.title}
+                  </span>
+                  <span className="line-clamp-1 text-zinc-500 dark:text-zinc-400">
+                    {citation.authors}
+                  </span>
+                  <span className="block text-zinc-500 dark:text-zinc-400">
+                    {citation.journal} • {citation.year}{citation.pmid ? ` • PMID ${citation.pmid}` : ''}
+                  </span>
+                </div>
+              ) : isLoading ? (
                 <div className="space-y-1">
                   <div className="h-3 bg-zinc-200 dark:bg-zinc-800 rounded w-full animate-subtle-pulse"></div>
                   <div className="h-3 bg-zinc-200 dark:bg-zinc-800 rounded w-3/4 animate-subtle-pulse"></div>
@@ -100,7 +115,7 @@ export function CitationTooltip({
                 </p>
               )}
 
-              {data && data.length > 2 && (
+              {!citation && data && data.length > 2 && (
                 <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-zinc-100 dark:bg-zinc-800 text-zinc-700 dark:text-zinc-300">
                   +{data.length - 2} more
                 </span>
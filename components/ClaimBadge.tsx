@@ -0,0 +1,60 @@
+import React from 'react';
+import type { VerifiedClaim } from '../schemas/evidenceSchema';
+
+interface ClaimBadgeProps {
+    claim: VerifiedClaim;
+}
+
+const BADGES: Record<VerifiedClaim['status'], { icon: string; label: string; className: string }> = {
+    graph: {
+        icon: 'verified',
+        label: 'Graph-verified',
+        className: 'text-emerald-600 dark:text-emerald-400 bg-emerald-500/10'
+    },
+    related: {
+        icon: 'link',
+        label: 'Related, different relation',
+        className: 'text-violet-600 dark:text-violet-400 bg-violet-500/10'
+    },
+    literature: {
+        icon: 'menu_book',
+        label: 'Literature only',
+        className: 'text-blue-600 dark:text-blue-400 bg-blue-500/10'
+    },
+    unverified: {
+        icon: 'help',
+        label: 'Unverified',
+        className: 'text-amber-600 dark:text-amber-400 bg-amber-500/10'
+    }
+};
+
+const claimDetail = (claim: VerifiedClaim): string => {
+    const edge = claim.edge && `${claim.edge.source} —${claim.edge.relation}→ ${claim.edge.target}`;
+    if (claim.status === 'graph' && edge) return edge;
+    if (claim.status === 'related' && edge) return `The graph has ${edge}, not "${claim.relation}"`;
+    const basis = claim.negated
+        ? `The sentence denies a relation between ${claim.subject} and ${claim.object}, which the graph can't confirm`
+        : `No graph edge between ${claim.subject} and ${claim.object}`;
+    return claim.status === 'literature' ? `${basis}; supported by a cited paper` : `${basis} and no citation`;
+};
+
+/**
+ * Inline marker after a claimed sentence, showing whether the relationship
+ * it asserts was found in the knowledge graph.
+ */
+const ClaimBadge: React.FC<ClaimBadgeProps> = ({ claim }) => {
+    const badge = BADGES[claim.status];
+    const detail = claimDetail(claim);
+
+    return (
+        <span
+            className={`inline-flex items-center align-middle ml-1 px-1 rounded not-prose ${badge.className}`}
+            title={`${badge.label}: ${detail}`}
+            aria-label={badge.label}
+        >
+            <span className="material-symbols-outlined text-[12px]">{badge.icon}</span>
+        </span>
+    );
+};
+
+export default ClaimBadge;
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import type { EntityCandidate, EntityResolution } from '../services/entityResolver';
+
+interface DisambiguationPickerProps {
+    resolution: EntityResolution;
+    /** `remember` is set when the user wants this mapping kept for the project */
+    onSelect: (candidate: EntityCandidate, remember: boolean) => void;
+    onCancel: () => void;
+}
+
+/**
+ * Asks which entity a mention meant when the resolver's top candidates are too close to call.
+ */
+const DisambiguationPicker: React.FC<DisambiguationPickerProps> = ({ resolution, onSelect, onCancel }) => {
+    const [remember, setRemember] = useState(true);
+
+    return (
+        <div className="p-4 rounded-xl border border-indigo-500/30 bg-indigo-500/5 space-y-3" role="dialog" aria-label="Choose an entity">
+            <div className="flex items-start justify-between gap-2">
+                <div>
+                    <p className="text-sm font-semibold text-primary">
+                        Which "<span className="font-mono">{resolution.mention}</span>" did you mean?
+                    </p>
+                    <p className="text-xs text-tertiary">Several PrimeKG entities match about equally well.</p>
+                </div>
+                <button
+                    onClick={onCancel}
+                    className="text-tertiary hover:text-primary transition-colors"
+                    aria-label="Cancel"
+                >
+                    <span className="material-symbols-outlined text-[18px]">close</span>
+                </button>
+            </div>
+
+            <div className="space-y-1.5">
+                {resolution.candidates.map(candidate => (
+                    <button
+                        key={`${candidate.name}|${candidate.type}`}
+                        onClick={() => onSelect(candidate, remember)}
+                        className="w-full flex items-center gap-3 px-3 py-2 rounded-lg border border-border bg-surface hover:bg-surface-hover hover:border-indigo-500/40 text-left transition-colors"
+                    >
+                        <span className="flex-1 min-w-0">
+                            <span className="block text-sm font-medium text-primary truncate">{candidate.name}</span>
+                            {candidate.db_id && (
+                                <span className="block text-[10px] font-mono text-tertiary truncate">{candidate.db_id}</span>
+                            )}
+                        </span>
+                        <span className="text-[10px] uppercase tracking-wider px-2 py-0.5 rounded-full bg-indigo-500/10 text-indigo-500">
+                            {candidate.type}
+                        </span>
+                        <span className="w-10 text-right text-xs font-mono text-tertiary">
+                            {Math.round(candidate.score * 100)}%
+                        </span>
+                    </button>
+                ))}
+            </div>
+
+            <label className="flex items-center gap-2 text-xs text-secondary cursor-pointer select-none">
+                <input
+                    type="checkbox"
+                    checked={remember}
+                    onChange={e => setRemember(e.target.checked)}
+                    className="accent-indigo-500"
+                />
+                Remember this choice for the current project
+            </label>
+        </div>
+    );
+};
+
+export default DisambiguationPicker;
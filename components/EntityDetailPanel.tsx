@@ -0,0 +1,110 @@
+import React, { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import type { KGNode } from '../types';
+import { crossReferencesFor, getSynonyms } from '../services/crossReferences';
+
+interface EntityDetailPanelProps {
+    node: Pick<KGNode, 'name' | 'type' | 'source' | 'db_id'>;
+    /** Open another entity (a synonym) in the explorer */
+    onExplore?: (name: string) => void;
+}
+
+/**
+ * Ontology identifiers, outbound links and synonyms for a PrimeKG node,
+ * for reconciling results with external datasets.
+ */
+const EntityDetailPanel: React.FC<EntityDetailPanelProps> = ({ node, onExplore }) => {
+    const [synonyms, setSynonyms] = useState<string[]>([]);
+    const [isLoadingSynonyms, setIsLoadingSynonyms] = useState(false);
+
+    const references = crossReferencesFor(node);
+
+    useEffect(() => {
+        setSynonyms([]);
+        if (!node.source || !node.db_id) return;
+
+        const controller = new AbortController();
+        setIsLoadingSynonyms(true);
+        getSynonyms(node, controller.signal)
+            .then(setSynonyms)
+            .catch(err => {
+                if (err?.name !== 'AbortError') console.warn('Synonym lookup failed', err);
+            })
+            .finally(() => {
+                if (!controller.signal.aborted) setIsLoadingSynonyms(false);
+            });
+        return () => controller.abort();
+    }, [node.name, node.source, node.db_id]);
+
+    const copy = async (text: string) => {
+        try {
+            await navigator.clipboard.writeText(text);
+            toast.success(`Copied ${text}`, { id: 'xref-copy' });
+        } catch {
+            toast.error('Clipboard unavailable');
+        }
+    };
+
+    return (
+        <div className="space-y-2">
+            <h5 className="text-[10px] font-bold text-tertiary uppercase tracking-widest pl-1">Cross-References</h5>
+
+            {references.length > 0 ? (
+                <div className="space-y-1.5">
+                    {references.map(ref => (
+                        <div key={ref.curie} className="flex items-center gap-2 p-2 rounded-lg border border-border text-xs">
+                            <div className="flex-1 min-w-0">
+                                <div className="font-mono text-primary truncate" title={ref.curie}>{ref.curie}</div>
+                                <div className="text-[10px] text-tertiary">{ref.label}</div>
+                            </div>
+                            <button
+                                onClick={() => copy(ref.curie)}
+                                className="p-1 rounded text-tertiary hover:text-primary hover:bg-surface-hover transition-colors"
+                                title="Copy identifier"
+                            >
+                                <span className="material-symbols-outlined text-[14px]">content_copy</span>
+                            </button>
+                            <a
+                                href={ref.url}
+                                target="_blank"
+                                rel="noreferrer"
+                                className="p-1 rounded text-tertiary hover:text-indigo-500 hover:bg-surface-hover transition-colors"
+                                title={`Open in ${ref.label}`}
+                            >
+                                <span className="material-symbols-outlined text-[14px]">open_in_new</span>
+                            </a>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-[11px] text-tertiary pl-1">
+                    {node.db_id ? `${node.source || 'Unknown source'}: ${node.db_id}` : 'No ontology identifier on this node.'}
+                </p>
+            )}
+
+            {(isLoadingSynonyms || synonyms.length > 0) && (
+                <div className="pt-1">
+                    <div className="text-[10px] text-tertiary pl-1 mb-1">Also recorded as</div>
+                    {isLoadingSynonyms ? (
+                        <div className="h-5 w-2/3 rounded bg-surface-hover animate-pulse" />
+                    ) : (
+                        <div className="flex flex-wrap gap-1">
+                            {synonyms.map(name => (
+                                <button
+                                    key={name}
+                                    onClick={() => onExplore?.(name)}
+                                    disabled={!onExplore}
+                                    className="px-2 py-0.5 rounded-full border border-border text-[10px] text-secondary hover:border-indigo-500/40 hover:text-indigo-500 transition-colors disabled:cursor-default"
+                                >
+                                    {name}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default EntityDetailPanel;
@@ -0,0 +1,109 @@
+import React, { useEffect, useState } from 'react';
+import type { AppErrorInfo, ErrorService } from '../services/errors';
+
+interface ErrorRecoveryProps {
+    error: AppErrorInfo;
+    /** Repeat the failed request */
+    onRetry?: () => void;
+    /** Open the API key / provider settings (offered for auth errors) */
+    onOpenSettings?: () => void;
+    /** Context-specific action for "not found", e.g. trying a synonym */
+    notFoundAction?: { label: string; onClick: () => void };
+}
+
+const SERVICE_LABELS: Record<ErrorService, string> = {
+    kg: 'PrimeKG',
+    pubmed: 'Europe PMC',
+    llm: 'The model provider',
+    supabase: 'Cloud sync',
+};
+
+/**
+ * Title, icon and what the user can do about it, per error kind
+ */
+const describe = (error: AppErrorInfo): { icon: string; title: string; hint: string } => {
+    const service = SERVICE_LABELS[error.service];
+    switch (error.kind) {
+        case 'not_found':
+            return { icon: 'search_off', title: 'Not found', hint: `${service} has no match. Try a synonym or the official name.` };
+        case 'rate_limited':
+            return { icon: 'hourglass_top', title: 'Rate limited', hint: `${service} is throttling requests. Wait a moment, then retry.` };
+        case 'timeout':
+            return { icon: 'timer_off', title: 'Timed out', hint: `${service} is slow right now. Retry, or ask for a smaller result (fewer hops or a lower limit).` };
+        case 'network':
+            return error.cors
+                ? { icon: 'block', title: 'Blocked by the browser', hint: `${service} is up but does not allow requests from this site (CORS). Use a mirror or the local backend.` }
+                : { icon: 'wifi_off', title: 'Connection failed', hint: `${service} could not be reached. Check your connection, then retry.` };
+        case 'upstream':
+            return error.degraded
+                ? { icon: 'cloud_off', title: 'Service degraded', hint: `${service} keeps failing, so requests are paused. They resume automatically.` }
+                : { icon: 'error', title: 'Service error', hint: `${service} returned an error. Retrying usually helps.` };
+        case 'auth':
+            return { icon: 'key_off', title: 'Check your credentials', hint: `${service} rejected the request. Check your API key or provider settings.` };
+    }
+};
+
+/**
+ * Error notice with the recovery actions that fit its kind:
+ * retry (with a countdown when the service asked us to wait), open settings, or a caller-provided alternative.
+ */
+const ErrorRecovery: React.FC<ErrorRecoveryProps> = ({ error, onRetry, onOpenSettings, notFoundAction }) => {
+    const [retryAt] = useState(() => Date.now() + (error.retryAfterMs ?? 0));
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick once a second until the wait is over
+    useEffect(() => {
+        if (now >= retryAt) return;
+        const id = setTimeout(() => setNow(Date.now()), 1000);
+        return () => clearTimeout(id);
+    }, [now, retryAt]);
+
+    const { icon, title, hint } = describe(error);
+    const waitSeconds = Math.ceil((retryAt - now) / 1000);
+    const canRetry = onRetry && error.kind !== 'auth' && error.kind !== 'not_found' && !(error.kind === 'network' && error.cors);
+
+    return (
+        <div className="p-3 rounded-lg border border-red-500/20 bg-red-500/10 text-xs">
+            <div className="flex items-start gap-2">
+                <span className="material-symbols-outlined text-red-500 text-[16px] mt-0.5">{icon}</span>
+                <div className="flex-1 min-w-0">
+                    <p className="font-semibold text-red-500">{title}</p>
+                    <p className="text-secondary leading-relaxed">{hint}</p>
+                    <p className="mt-1 font-mono text-tertiary truncate" title={error.message}>{error.message}</p>
+                </div>
+            </div>
+
+            {(canRetry || (error.kind === 'auth' && onOpenSettings) || (error.kind === 'not_found' && notFoundAction)) && (
+                <div className="flex flex-wrap gap-2 mt-2 pl-6">
+                    {canRetry && (
+                        <button
+                            onClick={onRetry}
+                            disabled={waitSeconds > 0}
+                            className="px-2.5 py-1 rounded-md border border-border bg-surface hover:bg-surface-hover text-secondary transition-colors disabled:opacity-50"
+                        >
+                            {waitSeconds > 0 ? `Retry in ${waitSeconds}s` : 'Retry'}
+                        </button>
+                    )}
+                    {error.kind === 'auth' && onOpenSettings && (
+                        <button
+                            onClick={onOpenSettings}
+                            className="px-2.5 py-1 rounded-md border border-border bg-surface hover:bg-surface-hover text-secondary transition-colors"
+                        >
+                            Open API settings
+                        </button>
+                    )}
+                    {error.kind === 'not_found' && notFoundAction && (
+                        <button
+                            onClick={notFoundAction.onClick}
+                            className="px-2.5 py-1 rounded-md border border-border bg-surface hover:bg-surface-hover text-secondary transition-colors"
+                        >
+                            {notFoundAction.label}
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default ErrorRecovery;
@@ -0,0 +1,146 @@
+import React from 'react';
+import type { Evidence, VerifiedClaim } from '../schemas/evidenceSchema';
+
+interface EvidencePanelProps {
+    evidence: Evidence;
+    /** Open an entity in the graph explorer */
+    onExploreNode?: (nodeName: string) => void;
+}
+
+// Edges beyond this are summarized rather than listed
+const MAX_LISTED_EDGES = 25;
+
+const STATUS_ICONS: Record<Evidence['toolCalls'][number]['status'], string> = {
+    success: '✓',
+    empty: '∅',
+    error: '✗'
+};
+
+const CLAIM_STYLES: Record<VerifiedClaim['status'], string> = {
+    graph: 'text-emerald-500',
+    related: 'text-violet-500',
+    literature: 'text-blue-500',
+    unverified: 'text-amber-500'
+};
+
+const Section: React.FC<{ title: string; icon: string; count: number; children: React.ReactNode }> = ({ title, icon, count, children }) => {
+    if (count === 0) return null;
+    return (
+        <div>
+            <p className="text-[11px] font-semibold text-tertiary flex items-center gap-1 mb-1">
+                <span className="material-symbols-outlined text-sm">{icon}</span>
+                {title} ({count})
+            </p>
+            {children}
+        </div>
+    );
+};
+
+/**
+ * Collapsible record of what a model answer was grounded on:
+ * resolved entities, graph edges, tool calls, papers and web sources.
+ */
+const EvidencePanel: React.FC<EvidencePanelProps> = ({ evidence, onExploreNode }) => {
+    const { entities, edges, toolCalls, literature, webSources } = evidence;
+    const claims = evidence.claims ?? [];
+    const verified = claims.filter(c => c.status === 'graph').length;
+    const summary = [
+        claims.length > 0 && `${verified}/${claims.length} claims graph-verified`,
+        entities.length > 0 && `${entities.length} entities`,
+        edges.length > 0 && `${edges.length} edges`,
+        literature.length > 0 && `${literature.length} papers`,
+        webSources.length > 0 && `${webSources.length} web sources`
+    ].filter(Boolean).join(' · ');
+
+    return (
+        <details className="mt-3 text-xs border-t border-border pt-2">
+            <summary className="cursor-pointer text-tertiary hover:text-secondary select-none">
+                Evidence{summary ? ` (${summary})` : ''}
+            </summary>
+            <div className="mt-2 space-y-3 not-prose">
+                <Section title="Claims" icon="fact_check" count={claims.length}>
+                    <ul className="space-y-1 text-secondary">
+                        {claims.map(claim => (
+                            <li key={claim.id} className="flex gap-1.5">
+                                <span className={`shrink-0 font-mono ${CLAIM_STYLES[claim.status]}`}>{claim.status}</span>
+                                <span className="truncate" title={claim.sentence}>
+                                    {claim.subject} <span className="text-tertiary">{claim.relation || '↔'}</span> {claim.object}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </Section>
+
+                <Section title="Entities resolved" icon="my_location" count={entities.length}>
+                    <div className="flex flex-wrap gap-1.5">
+                        {entities.map(entity => (
+                            <button
+                                key={entity.name}
+                                onClick={() => onExploreNode?.(entity.name)}
+                                className="px-2 py-0.5 rounded-full bg-muted text-secondary hover:text-primary transition-colors"
+                                title={`"${entity.query}" → ${entity.name}${entity.id ? ` (${entity.id})` : ''}`}
+                            >
+                                {entity.name} <span className="text-tertiary">· {entity.type}</span>
+                            </button>
+                        ))}
+                    </div>
+                </Section>
+
+                <Section title="Graph edges used" icon="share" count={edges.length}>
+                    <ul className="space-y-0.5 font-mono text-[11px] text-secondary">
+                        {edges.slice(0, MAX_LISTED_EDGES).map(edge => (
+                            <li key={`${edge.source}|${edge.relation}|${edge.target}`} className="truncate">
+                                {edge.source} <span className="text-tertiary">—{edge.relation}→</span> {edge.target}
+                            </li>
+                        ))}
+                    </ul>
+                    {edges.length > MAX_LISTED_EDGES && (
+                        <p className="mt-1 text-tertiary">+{edges.length - MAX_LISTED_EDGES} more</p>
+                    )}
+                </Section>
+
+                <Section title="Tool calls" icon="build" count={toolCalls.length}>
+                    <ol className="space-y-0.5 font-mono text-[11px] text-secondary list-decimal list-inside">
+                        {toolCalls.map((call, i) => (
+                            <li key={i} className="truncate">
+                                {call.name}({Object.values(call.args || {}).map(v => JSON.stringify(v)).join(', ')})
+                                <span className="text-tertiary"> {STATUS_ICONS[call.status]} {call.resultSize}</span>
+                            </li>
+                        ))}
+                    </ol>
+                </Section>
+
+                <Section title="Literature" icon="menu_book" count={literature.length}>
+                    <ul className="space-y-0.5 text-secondary">
+                        {literature.map(paper => (
+                            <li key={paper.ref} className="flex gap-1.5">
+                                <span className="font-mono text-tertiary shrink-0">[{paper.ref}]</span>
+                                {paper.url ? (
+                                    <a href={paper.url} target="_blank" rel="noopener noreferrer" className="hover:text-primary hover:underline truncate">
+                                        {paper.pmid ? `PMID ${paper.pmid}` : paper.title}
+                                    </a>
+                                ) : (
+                                    <span className="truncate">{paper.pmid ? `PMID ${paper.pmid}` : paper.title}</span>
+                                )}
+                            </li>
+                        ))}
+                    </ul>
+                </Section>
+
+                <Section title="Web sources" icon="language" count={webSources.length}>
+                    <ul className="space-y-0.5 text-secondary">
+                        {webSources.map(source => (
+                            <li key={source.uri} className="truncate">
+                                <a href={source.uri} target="_blank" rel="noopener noreferrer" className="hover:text-primary hover:underline">
+                                    {source.title}
+                                </a>
+                            </li>
+                        ))}
+                    </ul>
+                </Section>
+            </div>
+        </details>
+    );
+};
+
+export default EvidencePanel;
@@ -0,0 +1,99 @@
+import React, { useMemo, useState } from 'react';
+import { MAX_GENE_SET_SIZE, parseGeneList } from '../utils/geneSetAnalysis';
+
+interface GeneSetDialogProps {
+    onClose: () => void;
+    /** Resolves the genes and loads the overlay; the dialog closes when this settles */
+    onAnalyze: (genes: string[], name: string) => Promise<void>;
+}
+
+/**
+ * Paste or upload a gene list (e.g. differentially expressed genes) for the gene-set overlay
+ */
+const GeneSetDialog: React.FC<GeneSetDialogProps> = ({ onClose, onAnalyze }) => {
+    const [text, setText] = useState('');
+    const [fileName, setFileName] = useState('');
+    const [analyzing, setAnalyzing] = useState(false);
+
+    const genes = useMemo(() => parseGeneList(text), [text]);
+    const tooMany = genes.length > MAX_GENE_SET_SIZE;
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setText(await file.text());
+    };
+
+    const handleAnalyze = async () => {
+        if (!genes.length || tooMany) return;
+        setAnalyzing(true);
+        try {
+            await onAnalyze(genes, fileName ? fileName.replace(/\.[^.]+$/, '') : `${genes.length} genes`);
+            onClose();
+        } finally {
+            setAnalyzing(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="gene-set-title">
+            <div className="max-w-lg w-full rounded-2xl p-6 bg-surface border border-border">
+                <h3 id="gene-set-title" className="text-lg font-semibold mb-1 text-foreground">
+                    Gene-Set Overlay
+                </h3>
+                <p className="text-xs text-tertiary mb-4">
+                    One gene symbol per line (the first column of a table is used) or a comma-separated list.
+                    Shows the genes' PrimeKG neighborhood and ranks the diseases, drugs and pathways linked to the most of them.
+                </p>
+
+                <div className="space-y-4">
+                    <input
+                        type="file"
+                        accept=".csv,.tsv,.txt"
+                        onChange={handleFile}
+                        className="block w-full text-xs text-secondary file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-emerald-500/10 file:text-emerald-600 file:font-medium"
+                    />
+                    <textarea
+                        value={text}
+                        onChange={(e) => {
+                            setText(e.target.value);
+                            setFileName('');
+                        }}
+                        placeholder={'...or paste gene symbols\nTP53\nBRCA1\nEGFR'}
+                        rows={8}
+                        className="w-full px-3 py-2 rounded-lg border text-xs font-mono resize-none bg-surface-hover border-border text-foreground placeholder-tertiary"
+                    />
+
+                    {tooMany ? (
+                        <p className="text-xs text-red-500">
+                            {genes.length} genes; at most {MAX_GENE_SET_SIZE} can be analyzed at once.
+                        </p>
+                    ) : genes.length > 0 && (
+                        <p className="text-xs text-secondary">
+                            {genes.length} unique gene symbol{genes.length === 1 ? '' : 's'}
+                        </p>
+                    )}
+                </div>
+
+                <div className="flex gap-2 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 rounded-lg text-sm font-medium border border-border text-secondary hover:bg-surface-hover"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleAnalyze}
+                        disabled={!genes.length || tooMany || analyzing}
+                        className="flex-1 px-4 py-2 rounded-lg text-sm font-medium bg-emerald-600 text-white hover:bg-emerald-500 disabled:opacity-50"
+                    >
+                        {analyzing ? 'Mapping genes...' : 'Analyze'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GeneSetDialog;
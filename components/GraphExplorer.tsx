@@ -1,11 +1,36 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { toast } from 'react-hot-toast';
 import { kgService } from '../services/kgService';
+import { AppErrorInfo, describeError, isNotFoundError } from '../services/errors';
+import ErrorRecovery from './ErrorRecovery';
+import DisambiguationPicker from './DisambiguationPicker';
+import EntityDetailPanel from './EntityDetailPanel';
+import { findByExternalId, parseExternalId } from '../services/crossReferences';
+import { resolveMention, resolveMentions, confirmMapping, EntityResolution } from '../services/entityResolver';
 import GraphVisualization, { GraphVisualizationHandle } from './GraphVisualization';
+import GraphFilterPanel from './GraphFilterPanel';
+import SaveGraphButton from './SaveGraphButton';
+import GraphLayoutPicker from './GraphLayoutPicker';
+import GraphExportMenu from './GraphExportMenu';
+import GraphImportDialog from './GraphImportDialog';
+import GeneSetDialog from './GeneSetDialog';
+import HypothesisCards from './HypothesisCards';
+import PathComparisonPanel from './PathComparisonPanel';
+import { useGraphExploration } from '../hooks/useGraphExploration';
+import { readCurrentProjectId, useProjects } from '../hooks/useProjects';
+import { canCollapse, edgeKey, expandNode, normalizeGraph, parseSavedGraph, serializeExploration, startExploration, visibleExplorationGraph } from '../utils/graphExploration';
+import { applyGraphFilter, countGraphTypes, isFilterActive } from '../utils/graphFilter';
+import { GraphLayoutMode, isGraphLayoutMode } from '../utils/graphLayouts';
+import { downloadGraphExport, GraphExportFormat } from '../utils/graphExport';
+import { applyImportResolutions, ImportedGraph, AMBIGUOUS_SOURCE, UNMATCHED_SOURCE } from '../utils/graphImport';
+import { analyzeGeneSet, geneFromResolution, GeneSetAnalysis } from '../utils/geneSetAnalysis';
+import { DEFAULT_PATH_QUERY, intermediateNodeIds, MAX_PATH_DEPTH, MAX_PATH_LIMIT, rankPaths, ScoredPath } from '../utils/pathAnalysis';
 import { 
     GraphData, 
+    PathQuery,
+    SubgraphFilter,
     GeminiModel, 
     DrugRepurposingResponse, 
     TherapeuticTargetsResponse, 
@@ -16,31 +41,22 @@ import {
 import { generateResponse } from '../services/geminiService';
 import { useApiKey } from '../contexts/ApiKeyContext';
 
-import { useNavigate, useOutletContext } from 'react-router-dom';
+import { useLocation, useNavigate, useOutletContext } from 'react-router-dom';
 import { LayoutContext } from './Layout';
+import { UNKNOWN_NODE_TEXT_CLASS, nodeTypeInfo, nodeTypeLabel } from '../constants/kgTaxonomy';
 
 interface GraphExplorerProps {
     darkMode: boolean;
 }
 
-const typeColors: Record<string, string> = {
-    geneprotein: 'text-emerald-500',
-    drug: 'text-blue-500',
-    disease: 'text-red-500',
-    phenotype: 'text-orange-500',
-    pathway: 'text-pink-500',
-    biologicalprocess: 'text-cyan-500',
-    molecularfunction: 'text-violet-500',
-    cellularcomponent: 'text-teal-500',
-    anatomy: 'text-yellow-500',
-    exposure: 'text-indigo-500',
-    unknown: 'text-slate-500'
-};
+const getHighlightColor = (type: string) => nodeTypeInfo(type)?.textClass ?? UNKNOWN_NODE_TEXT_CLASS;
 
-const getHighlightColor = (type: string) => {
-    const key = type.toLowerCase().replace(/[\/\s\_-]/g, '');
-    return typeColors[key] || typeColors.unknown;
-};
+// Matched entities of an import whose PrimeKG neighbors are overlaid
+const MAX_IMPORT_OVERLAYS = 25;
+// Gene neighborhoods fetched at once for a gene-set overlay
+const GENE_SET_CONCURRENCY = 6;
+// Intermediate path nodes whose degree is looked up for the hub penalty
+const MAX_DEGREE_LOOKUPS = 30;
 
 const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
     const { apiKey, isValid } = useApiKey();
@@ -62,10 +78,78 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
     useEffect(() => {
         localStorage.setItem('primekg_graph_limit', String(limit));
     }, [limit]);
+
+    const [graphFilter, setGraphFilter] = useState<SubgraphFilter>(() => {
+        try {
+            return JSON.parse(localStorage.getItem('primekg_graph_filter') || '{}');
+        } catch {
+            return {};
+        }
+    });
+
+    useEffect(() => {
+        localStorage.setItem('primekg_graph_filter', JSON.stringify(graphFilter));
+    }, [graphFilter]);
+
+    const [layoutMode, setLayoutMode] = useState<GraphLayoutMode>(() => {
+        const saved = localStorage.getItem('primekg_graph_layout');
+        return isGraphLayoutMode(saved) ? saved : 'force';
+    });
+
+    useEffect(() => {
+        localStorage.setItem('primekg_graph_layout', layoutMode);
+    }, [layoutMode]);
+
+    const [pathQuery, setPathQuery] = useState<PathQuery>(() => {
+        try {
+            const saved = { ...DEFAULT_PATH_QUERY, ...JSON.parse(localStorage.getItem('primekg_path_query') || '{}') };
+            return {
+                ...saved,
+                maxDepth: Math.min(MAX_PATH_DEPTH, Math.max(1, Number(saved.maxDepth) || DEFAULT_PATH_QUERY.maxDepth)),
+                limit: Math.min(MAX_PATH_LIMIT, Math.max(1, Number(saved.limit) || DEFAULT_PATH_QUERY.limit))
+            };
+        } catch {
+            return DEFAULT_PATH_QUERY;
+        }
+    });
+
+    useEffect(() => {
+        localStorage.setItem('primekg_path_query', JSON.stringify(pathQuery));
+    }, [pathQuery]);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
-    const [graphData, setGraphData] = useState<GraphData | null>(null);
-    const [lastQuery, setLastQuery] = useState<string>('');
+    // Typed failure from the last graph fetch, for recovery actions
+    const [errorInfo, setErrorInfo] = useState<AppErrorInfo | null>(null);
+    // Near-tied matches for the last input, waiting for the user to pick one
+    const [pendingChoice, setPendingChoice] = useState<EntityResolution | null>(null);
+    // Nodes on screen, with undo/redo, pins and hidden nodes
+    const exploration = useGraphExploration();
+    const { state: explorationState } = exploration;
+    const { centerId, query: lastQuery } = explorationState;
+    const graphData = useMemo<GraphData | null>(
+        () => explorationState.graph.nodes.length > 0 ? visibleExplorationGraph(explorationState) : null,
+        [explorationState]
+    );
+
+    // Filters apply client-side right away; the next scan also sends them to the server
+    const visibleGraph = useMemo(
+        () => graphData && applyGraphFilter(graphData, graphFilter, centerId ? [centerId] : []),
+        [graphData, graphFilter, centerId]
+    );
+    const typeCounts = useMemo(() => graphData && countGraphTypes(graphData), [graphData]);
+    const pinnedIds = useMemo(() => new Set(explorationState.pinned), [explorationState.pinned]);
+    // Imported entities that matched nothing in PrimeKG, or only a best guess
+    const flaggedIds = useMemo(
+        () => new Set((graphData?.nodes ?? []).filter(n => n.source === UNMATCHED_SOURCE || n.source === AMBIGUOUS_SOURCE).map(n => n.id)),
+        [graphData]
+    );
+    const [showImport, setShowImport] = useState(false);
+    const [showGeneSet, setShowGeneSet] = useState(false);
+    // Ranked diseases, drugs and pathways of the last gene-set overlay
+    const [geneSet, setGeneSet] = useState<(GeneSetAnalysis & { name: string; mapped: number; unmatched: string[] }) | null>(null);
+    // Layout controls: paused stops the simulation, frozen keeps placed nodes where they are
+    const [layoutPaused, setLayoutPaused] = useState(false);
+    const [layoutFrozen, setLayoutFrozen] = useState(false);
     
     // Inspector State
     const [selectedNode, setSelectedNode] = useState<any | null>(null);
@@ -77,6 +161,176 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
     // Graph Control Ref
     const graphRef = React.useRef<GraphVisualizationHandle>(null);
 
+    const { projects, addItemToProject } = useProjects();
+    const location = useLocation();
+    const navigate = useNavigate();
+
+    // Opened from a project's saved graph
+    useEffect(() => {
+        const savedGraph = (location.state as { savedGraph?: unknown } | null)?.savedGraph;
+        if (!savedGraph) return;
+        const saved = parseSavedGraph(savedGraph);
+        if (saved) {
+            exploration.restore(saved.exploration);
+            setGraphFilter(saved.filter ?? {});
+            setSelectedNode(null);
+        } else {
+            toast.error('This saved graph could not be restored.');
+        }
+        navigate(location.pathname, { replace: true, state: null });
+    }, [location.state]);
+
+    // Ctrl/Cmd+Z undoes the last exploration step, Ctrl/Cmd+Shift+Z (or Ctrl+Y) redoes it
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            const target = e.target as HTMLElement | null;
+            if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+            if (!(e.ctrlKey || e.metaKey)) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                exploration.undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                exploration.redo();
+            }
+        };
+        window.addEventListener('keydown', onKeyDown);
+        return () => window.removeEventListener('keydown', onKeyDown);
+    }, [exploration.undo, exploration.redo]);
+
+    // Undo, collapse and hide can take the inspected node off screen
+    useEffect(() => {
+        if (selectedNode && !graphData?.nodes.some(n => n.id === selectedNode.id)) setSelectedNode(null);
+    }, [graphData]);
+
+    const handleSaveGraph = (projectId: string) => {
+        const project = projects.find(p => p.id === projectId);
+        const name = lastQuery ? `${lastQuery} network` : 'Graph view';
+        addItemToProject(projectId, 'graph', name, serializeExploration(explorationState, isFilterActive(graphFilter) ? graphFilter : undefined));
+        toast.success(`Saved to ${project?.name ?? 'project'}`);
+    };
+
+    /**
+     * Resolve an imported network against PrimeKG and load it. With overlay, each matched
+     * entity is expanded with its PrimeKG neighbors (collapsible like any expansion).
+     * Loading is a single undo step.
+     */
+    const handleImportGraph = async (imported: ImportedGraph, { name, overlayNeighbors }: { name: string; overlayNeighbors: boolean }) => {
+        setIsLoading(true);
+        try {
+            const resolutions = await resolveMentions(imported.nodes.map(n => n.name), { projectId: readCurrentProjectId() });
+            const result = applyImportResolutions(imported, resolutions);
+            let state = startExploration(explorationState, result.graph, null, `Import: ${name}`);
+
+            if (overlayNeighbors) {
+                const matchedIds = Array.from(new Set(result.matched.values())).slice(0, MAX_IMPORT_OVERLAYS);
+                const neighbors = await Promise.allSettled(matchedIds.map(id => kgService.getNeighbors(id)));
+                neighbors.forEach((outcome, i) => {
+                    if (outcome.status === 'fulfilled') state = expandNode(state, matchedIds[i], normalizeGraph(outcome.value));
+                });
+            }
+
+            exploration.restore(state);
+            setSelectedNode(null);
+            setHighlightedEdges(new Set());
+            setPathComparison(null);
+
+            const total = imported.nodes.length;
+            if (result.unmatched.length > 0 || result.ambiguous.length > 0) {
+                const notes = [
+                    result.unmatched.length > 0 && `${result.unmatched.length} not found in PrimeKG`,
+                    result.ambiguous.length > 0 && `${result.ambiguous.length} uncertain (${result.ambiguous.slice(0, 5).map(id => `${id} → ${result.matched.get(id)}`).join(', ')}${result.ambiguous.length > 5 ? ', …' : ''})`,
+                ].filter(Boolean).join(' and ');
+                toast(`Matched ${result.matched.size} of ${total} entities. ${notes} are circled in red.`, { icon: '⚠️', duration: 8000 });
+            } else {
+                toast.success(`Matched all ${total} entities to PrimeKG`);
+            }
+        } catch (err) {
+            console.error("Import error:", err);
+            toast.error("Failed to resolve the imported network.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    /**
+     * Gene-set overlay: map the symbols to PrimeKG genes, fetch each gene's neighbors and load
+     * the genes with the diseases, drugs and pathways they share. Loading is a single undo step.
+     */
+    const handleGeneSet = async (symbols: string[], name: string) => {
+        setIsLoading(true);
+        try {
+            const resolutions = await resolveMentions(symbols, { projectId: readCurrentProjectId() });
+            // Symbols whose lookup failed come back without candidates and are listed as unmatched
+            const resolved = resolutions.map(geneFromResolution);
+            const genes = Array.from(new Set(resolved.filter((gene): gene is string => !!gene)));
+            const unmatched = symbols.filter((_, i) => !resolved[i]);
+            if (!genes.length) {
+                toast.error("None of the symbols matched a PrimeKG gene.");
+                return;
+            }
+
+            // A gene whose neighbors fail to load still joins the set, unconnected
+            const neighborhoods: Array<{ gene: string; graph: GraphData }> = [];
+            for (let i = 0; i < genes.length; i += GENE_SET_CONCURRENCY) {
+                const batch = genes.slice(i, i + GENE_SET_CONCURRENCY);
+                const outcomes = await Promise.allSettled(batch.map(gene => kgService.getNeighbors(gene)));
+                outcomes.forEach((outcome, j) => neighborhoods.push({
+                    gene: batch[j],
+                    graph: outcome.status === 'fulfilled' ? normalizeGraph(outcome.value) : { nodes: [], edges: [] }
+                }));
+            }
+
+            const analysis = analyzeGeneSet(neighborhoods);
+            exploration.restore(startExploration(explorationState, analysis.graph, null, `Gene set: ${name}`));
+            setSelectedNode(null);
+            setHighlightedEdges(new Set());
+            setPathComparison(null);
+            setGeneSet({ ...analysis, name, mapped: genes.length, unmatched });
+
+            if (unmatched.length > 0) {
+                toast(`Mapped ${genes.length} of ${symbols.length} genes to PrimeKG. ${unmatched.length} could not be matched.`, { icon: '⚠️' });
+            } else {
+                toast.success(`Mapped all ${genes.length} genes to PrimeKG`);
+            }
+        } catch (err) {
+            console.error("Gene set error:", err);
+            toast.error("Failed to analyze the gene set.");
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    // Select an entity listed in a side panel if it's on the map, otherwise scan it
+    const handleFocusEntity = (name: string) => {
+        const node = graphData?.nodes.find(n => n.id === name);
+        if (node) {
+            setSelectedNode(node);
+        } else {
+            setEntity(name);
+            handleVisualize(name);
+        }
+    };
+
+    // Exports what's on screen: visible nodes at their current positions
+    const handleExportGraph = async (format: GraphExportFormat) => {
+        if (!visibleGraph) return;
+        try {
+            await downloadGraphExport(format, {
+                graph: visibleGraph,
+                positions: graphRef.current?.getNodePositions(),
+                filter: graphFilter,
+                highlightedEdges,
+                pinned: pinnedIds,
+                title: lastQuery ? `${lastQuery} network` : undefined
+            });
+        } catch (err) {
+            console.error("Export error:", err);
+            toast.error("Failed to export graph.");
+        }
+    };
+
     // Quick Coordinates State
     const [quickCoordinates, setQuickCoordinates] = useState<string[]>(['Pembrolizumab', 'PCSK9', 'CRISPR', 'Semaglutide']);
     const [isGeneratingCoords, setIsGeneratingCoords] = useState(false);
@@ -94,7 +348,11 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
 
         const handler = setTimeout(async () => {
             try {
-                const results = await kgService.searchSemantic(entity);
+                // "DB00945", "MONDO:0005148": look the identifier up instead of the text
+                const externalId = parseExternalId(entity);
+                const results = externalId
+                    ? await findByExternalId(externalId)
+                    : await kgService.searchSemantic(entity);
                 setSuggestions(results.slice(0, 5));
             } catch (err) {
                 console.error("Suggestion fetch failed", err);
@@ -107,6 +365,8 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
     // Path Finding State
     const [pathSource, setPathSource] = useState<any | null>(null);
     const [highlightedEdges, setHighlightedEdges] = useState<Set<string>>(new Set());
+    // Paths found between two entities, compared in the side panel
+    const [pathComparison, setPathComparison] = useState<{ source: string; target: string; paths: ScoredPath[]; highlighted: Set<string> } | null>(null);
 
     const generateCoordinates = async () => {
         if (!isValid) {
@@ -161,6 +421,8 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
 
         setIsLoading(true);
         setError(null);
+        setErrorInfo(null);
+        setPendingChoice(null);
         setSelectedNode(null); // Clear previous selection on new search
         setAnalysisCache({}); // CLEAR CACHE on new focus session
 
@@ -171,12 +433,22 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
             // 1. Semantic Interception (only if not an override / exact ID request?)
             // We still do it to ensure we get the best KG match
             try {
-                // Determine if direct ID fetch or semantic search is needed
-                // For now, always try semantic search to "ground" the user input to a KG node
-                const searchResults = await kgService.searchSemantic(targetEntity);
-                
-                if (searchResults && searchResults.length > 0) {
-                    const topMatch = searchResults[0];
+                // External identifiers map to their node directly
+                const externalId = parseExternalId(targetEntity);
+                const idMatches = externalId ? await findByExternalId(externalId) : [];
+
+                // Ground the user input to a KG node; confirmed mappings for the project win
+                const resolution = idMatches.length > 0
+                    ? { mention: targetEntity, candidates: idMatches.map(m => ({ ...m, score: 1 })), best: { ...idMatches[0], score: 1 }, ambiguous: false, confirmed: false }
+                    : await resolveMention(targetEntity, { projectId: readCurrentProjectId() });
+
+                if (resolution.ambiguous) {
+                    setPendingChoice(resolution);
+                    return;
+                }
+
+                if (resolution.best) {
+                    const topMatch = resolution.best;
                     
                     if (topMatch.name && topMatch.name.toLowerCase() !== targetEntity.toLowerCase()) {
                         toast.success((t) => (
@@ -218,7 +490,9 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
             // Persist the scan depth preference on execution
             localStorage.setItem('primekg_graph_hops', String(hops));
 
-            const data = await kgService.getSubgraph(targetEntity, hops, limit);
+            const data = await kgService.getSubgraph(
+                targetEntity, hops, limit, undefined, isFilterActive(graphFilter) ? graphFilter : undefined
+            );
 
             if (!data.nodes || data.nodes.length === 0) {
                 // FALLBACK: AI Suggestion if completely lost
@@ -234,33 +508,19 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                 } catch (e) {
                      setError(`Signal Lost: No bio-signatures found for "${targetEntity}".`);
                 }
-                
-                setGraphData(null);
                 return;
             }
 
             // Transform nodes for visualization
-            const nodes = data.nodes.map((n: any) => ({
-                id: n.name || n.id || n.db_id,
-                name: n.name || n.node_name || n.id,
-                type: n.type || n.node_type || 'unknown',
-                description: n.description || ''
-            }));
-
-            const edges = (data.edges || []).map((e: any) => ({
-                source: e.source,
-                target: e.target,
-                relation: e.relation || e.display_relation || ''
-            }));
-
-            setGraphData({ nodes, edges });
-            setLastQuery(displayQuery);
+            const graph = normalizeGraph(data);
 
             // AUTO-SELECT the primary node to "send" the user to the result immediately
-            const primaryNode = nodes.find(n => 
+            const primaryNode = graph.nodes.find(n => 
                 n.name.toLowerCase() === targetEntity.toLowerCase() || 
                 n.id.toLowerCase() === targetEntity.toLowerCase()
             );
+            // Pinned nodes from the previous view are carried into the new one
+            exploration.explore(graph, primaryNode?.id ?? null, displayQuery);
             if (primaryNode) {
                 setSelectedNode(primaryNode);
                 // No need to clear cache here as we did it at start
@@ -268,17 +528,15 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
         } catch (err) {
             console.error('Graph fetch error:', err);
             // Parse error for better UX
-            const msg = err instanceof Error ? err.message : 'Unknown error';
-            if (msg.includes('404')) {
+            if (isNotFoundError(err)) {
                  setError(`Entity not found in Knowledge Graph. Try a different synonym.`);
             } else {
-                 setError(msg);
+                 setErrorInfo(describeError(err, 'kg'));
             }
-            setGraphData(null);
         } finally {
             setIsLoading(false);
         }
-    }, [entity, hops, limit, darkMode]);
+    }, [entity, hops, limit, graphFilter, darkMode, exploration.explore]);
 
     // Expand Node (Add neighbors to current graph)
     const handleExpandNode = async (node: any) => {
@@ -290,29 +548,8 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                 return;
             }
 
-            setGraphData(prev => {
-                if (!prev) return { nodes: data.nodes, edges: data.edges };
-                
-                const existingNodeIds = new Set(prev.nodes.map(n => n.id));
-                const newNodes = data.nodes.filter(n => !existingNodeIds.has(n.name || n.id || n.db_id)).map(n => ({
-                    id: n.name || n.id || n.db_id,
-                    name: n.name || n.node_name || n.id,
-                    type: n.type || n.node_type || 'unknown',
-                    description: n.description || ''
-                }));
-
-                // Avoid duplicate edges
-                const existingEdgeKeys = new Set(prev.edges.map(e => `${e.source}-${e.target}-${e.relation}`));
-                const newEdges = (data.edges || []).filter(e => {
-                    const key = `${e.source}-${e.target}-${e.relation}`;
-                    return !existingEdgeKeys.has(key);
-                });
-
-                return {
-                    nodes: [...prev.nodes, ...newNodes],
-                    edges: [...prev.edges, ...newEdges]
-                };
-            });
+            // Tracked per node so the expansion can be collapsed again
+            exploration.expand(node.id, normalizeGraph(data));
             
             toast.success(`Network expanded: +${data.nodes.length} nodes`);
         } catch (err) {
@@ -323,55 +560,54 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
         }
     };
 
+    // Highlight the chosen paths' edges on the canvas
+    const highlightPaths = (paths: ScoredPath[], ids: Set<string>) => {
+        setPathComparison(current => current && { ...current, highlighted: ids });
+        setHighlightedEdges(new Set(paths.filter(p => ids.has(p.id)).flatMap(p => p.edgeKeys)));
+    };
+
+    /**
+     * Paths between two entities for the current path query. All of them are merged into the
+     * map in one step and listed in the comparison panel, scored with the degrees of their
+     * intermediate nodes; the most plausible one is highlighted.
+     */
     const handleFindPath = async (source: string, target: string) => {
         setIsLoading(true);
         setError(null);
         setHighlightedEdges(new Set());
         try {
-            const data = await kgService.getShortestPath(source, target);
-            if (!data.nodes || data.nodes.length === 0) {
+            const data = (await kgService.getPaths(source, target, pathQuery)).map(normalizeGraph).filter(p => p.nodes.length > 0);
+            if (data.length === 0) {
                 toast.error(`No paths found between ${source} and ${target}.`);
                 return;
             }
 
             // Merge path nodes into graph if not already there
-            setGraphData(prev => {
-                const existingNodes = prev?.nodes || [];
-                const existingEdges = prev?.edges || [];
-                const existingNodeIds = new Set(existingNodes.map(n => n.id));
-                const existingEdgeKeys = new Set(existingEdges.map(e => `${e.source}-${e.target}-${e.relation}`));
-
-                const newNodes = data.nodes.filter(n => !existingNodeIds.has(n.name || n.id || n.db_id)).map(n => ({
-                    id: n.name || n.id || n.db_id,
-                    name: n.name || n.node_name || n.id,
-                    type: n.type || n.node_type || 'unknown',
-                    description: n.description || ''
-                }));
-
-                const newEdges = data.edges.filter(e => {
-                    const key = `${e.source}-${e.target}-${e.relation}`;
-                    return !existingEdgeKeys.has(key);
-                });
+            exploration.merge({ nodes: data.flatMap(p => p.nodes), edges: data.flatMap(p => p.edges) });
 
-                // Set highlighted edges
-                const pathKeys = new Set(data.edges.map(e => `${e.source}-${e.target}-${e.relation}`));
-                setHighlightedEdges(pathKeys);
-
-                return {
-                    nodes: [...existingNodes, ...newNodes],
-                    edges: [...existingEdges, ...newEdges]
-                };
+            const hubs = intermediateNodeIds(rankPaths(data, source)).slice(0, MAX_DEGREE_LOOKUPS);
+            const degrees = new Map<string, number>();
+            const neighbors = await Promise.allSettled(hubs.map(id => kgService.getNeighbors(id)));
+            neighbors.forEach((outcome, i) => {
+                if (outcome.status === 'fulfilled') degrees.set(hubs[i], Math.max(0, (outcome.value.nodes?.length ?? 1) - 1));
             });
+            const paths = rankPaths(data, source, degrees);
+            const best = new Set(paths.slice(0, 1).map(p => p.id));
+
+            setPathComparison({ source, target, paths, highlighted: new Set() });
+            highlightPaths(paths, best);
 
-            toast.success(`Path resolved: ${data.nodes.length} nodes in sequence`);
+            toast.success(paths.length === 1
+                ? `Path resolved: ${paths[0].steps.length} nodes in sequence`
+                : `${paths.length} paths resolved; the most plausible is highlighted`);
             setPathSource(null);
         } catch (err) {
             console.error("Path error:", err);
             const errMsg = err instanceof Error ? err.message : String(err);
             
             // Check if it's a "No path found" 404 error from the backend
-            if (errMsg.includes('404') || errMsg.toLowerCase().includes('no path found')) {
-                toast(`No biological path found between these entities within the search limit.`, {
+            if (isNotFoundError(err) || errMsg.toLowerCase().includes('no path found')) {
+                toast(`No biological path found between these entities within ${pathQuery.maxDepth} hops.`, {
                     icon: '🔍',
                     style: {
                         background: darkMode ? '#27272a' : '#fff',
@@ -389,6 +625,8 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
 
     // Handle Node Click - Open Inspector
     const handleNodeClick = (node: any) => {
+        // Picking the target of a path search
+        if (pathSource && node.id !== pathSource.id) handleFindPath(pathSource.name, node.name);
         setSelectedNode(node);
         setAnalysisResults(null);
         setActiveAnalysisType(null);
@@ -419,25 +657,7 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                 case 'subgraph':
                     const subgraphData = await kgService.getSubgraph(node.name, 1, 30);
                     if (subgraphData.nodes.length > 0) {
-                        setGraphData(prev => {
-                            if (!prev) return subgraphData;
-                            const existingNodeIds = new Set(prev.nodes.map(n => n.id));
-                            const newNodes = subgraphData.nodes.filter(n => !existingNodeIds.has(n.name || n.id || n.db_id)).map(n => ({
-                                id: n.name || n.id || n.db_id,
-                                name: n.name || n.node_name || n.id,
-                                type: n.type || n.node_type || 'unknown',
-                                description: n.description || ''
-                            }));
-                            const existingEdgeKeys = new Set(prev.edges.map(e => `${e.source}-${e.target}-${e.relation}`));
-                            const newEdges = subgraphData.edges.filter(e => {
-                                const key = `${e.source}-${e.target}-${e.relation}`;
-                                return !existingEdgeKeys.has(key);
-                            });
-                            return {
-                                nodes: [...prev.nodes, ...newNodes],
-                                edges: [...prev.edges, ...newEdges]
-                            };
-                        });
+                        exploration.expand(node.id, normalizeGraph(subgraphData));
                         toast.success("Local subgraph merged into view.");
                     }
                     break;
@@ -634,6 +854,9 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                                     <option value={25}>Low (25)</option>
                                     <option value={50}>Med (50)</option>
                                     <option value={100}>High (100)</option>
+                                    {/* Past a few hundred nodes the graph switches to the canvas renderer */}
+                                    <option value={500}>Wide (500)</option>
+                                    <option value={2000}>Max (2000)</option>
                                 </select>
                             </div>
                         </div>
@@ -669,6 +892,89 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                             )}
                         </button>
 
+                        <button
+                            onClick={() => setShowImport(true)}
+                            disabled={isLoading}
+                            className="w-full -mt-3 py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 border border-border text-tertiary hover:text-indigo-600 hover:border-indigo-500/50 transition-colors disabled:opacity-50"
+                        >
+                            <span className="material-symbols-outlined text-[16px]">upload_file</span>
+                            Import network
+                        </button>
+
+                        <button
+                            onClick={() => setShowGeneSet(true)}
+                            disabled={isLoading}
+                            className="w-full -mt-3 py-2 rounded-lg text-xs font-medium flex items-center justify-center gap-2 border border-border text-tertiary hover:text-emerald-600 hover:border-emerald-500/50 transition-colors disabled:opacity-50"
+                        >
+                            <span className="material-symbols-outlined text-[16px]">genetics</span>
+                            Gene-set overlay
+                        </button>
+
+                        {geneSet && (
+                            <div className="pt-6 border-t border-dashed border-border/50">
+                                <div className="flex items-center justify-between mb-2">
+                                    <label className={`block text-[10px] font-bold uppercase tracking-widest text-tertiary truncate`}>
+                                        Gene Set: {geneSet.name}
+                                    </label>
+                                    <button
+                                        onClick={() => setGeneSet(null)}
+                                        className="p-1 rounded-md text-tertiary hover:text-indigo-600 hover:bg-surface-hover"
+                                        title="Close gene-set results"
+                                    >
+                                        <span className="material-symbols-outlined text-[16px]">close</span>
+                                    </button>
+                                </div>
+                                <p className="text-[11px] text-tertiary">
+                                    {geneSet.mapped} genes mapped
+                                    {geneSet.isolated.length > 0 && `, ${geneSet.isolated.length} without shared links`}
+                                    {geneSet.unmatched.length > 0 && `. Unmatched: ${geneSet.unmatched.join(', ')}`}
+                                </p>
+                                {geneSet.diseases.length + geneSet.drugs.length + geneSet.pathways.length === 0 && (
+                                    <p className="mt-2 text-[11px] text-tertiary italic">
+                                        No disease, drug or pathway links two or more of these genes.
+                                    </p>
+                                )}
+                                <HypothesisCards data={geneSet.diseases} type="geneset" title="Linked Diseases" darkMode={darkMode} onExploreNode={handleFocusEntity} />
+                                <HypothesisCards data={geneSet.drugs} type="geneset" title="Linked Drugs" darkMode={darkMode} onExploreNode={handleFocusEntity} />
+                                <HypothesisCards data={geneSet.pathways} type="geneset" title="Linked Pathways" darkMode={darkMode} onExploreNode={handleFocusEntity} />
+                            </div>
+                        )}
+
+                        {pathComparison && (
+                            <div className="pt-6 border-t border-dashed border-border/50">
+                                <PathComparisonPanel
+                                    source={pathComparison.source}
+                                    target={pathComparison.target}
+                                    query={pathQuery}
+                                    onQueryChange={setPathQuery}
+                                    onSearch={() => handleFindPath(pathComparison.source, pathComparison.target)}
+                                    searching={isLoading}
+                                    paths={pathComparison.paths}
+                                    highlighted={pathComparison.highlighted}
+                                    onHighlightChange={(ids) => highlightPaths(pathComparison.paths, ids)}
+                                    onNodeClick={handleFocusEntity}
+                                    onClose={() => {
+                                        setPathComparison(null);
+                                        setHighlightedEdges(new Set());
+                                    }}
+                                />
+                            </div>
+                        )}
+
+                        {graphData && typeCounts && visibleGraph && (
+                            <div className="pt-6 border-t border-dashed border-border/50">
+                                <GraphFilterPanel
+                                    filter={graphFilter}
+                                    onChange={setGraphFilter}
+                                    counts={typeCounts}
+                                    hidden={{
+                                        nodes: graphData.nodes.length - visibleGraph.nodes.length,
+                                        edges: graphData.edges.length - visibleGraph.edges.length
+                                    }}
+                                />
+                            </div>
+                        )}
+
                         <div className="pt-6 border-t border-dashed border-border/50">
                             <div className="flex items-center justify-between mb-3">
                                 <label className={`block text-[10px] font-bold uppercase tracking-widest text-tertiary`}>
@@ -696,6 +1002,22 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                             </div>
                         </div>
 
+                        {pendingChoice && (
+                            <DisambiguationPicker
+                                resolution={pendingChoice}
+                                onSelect={(candidate, remember) => {
+                                    if (remember) confirmMapping(pendingChoice.mention, candidate, readCurrentProjectId());
+                                    setEntity(candidate.name);
+                                    handleVisualize(candidate.name);
+                                }}
+                                onCancel={() => setPendingChoice(null)}
+                            />
+                        )}
+
+                        {errorInfo && (
+                            <ErrorRecovery error={errorInfo} onRetry={() => handleVisualize()} />
+                        )}
+
                         {error && (
                             <div className="p-4 bg-red-500/10 border border-red-500/20 rounded-lg">
                                 <div className="flex items-start gap-2">
@@ -714,18 +1036,25 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
 
                 {/* Main Graph Area */}
                 <div className="flex-1 relative overflow-hidden flex flex-col">
-                    {graphData ? (
+                    {graphData && visibleGraph ? (
                         <>
                             <GraphVisualization
                                 ref={graphRef}
-                                data={graphData}
+                                data={visibleGraph}
                                 onNodeClick={handleNodeClick}
                                 selectedNodeId={selectedNode?.id}
+                                pinnedNodeIds={pinnedIds}
+                                flaggedNodeIds={flaggedIds}
                                 highlightedEdges={highlightedEdges}
+                                layoutPaused={layoutPaused}
+                                layoutFrozen={layoutFrozen}
+                                layoutMode={layoutMode}
+                                centerNodeId={centerId}
                                 onReset={() => {
-                                    setGraphData(null);
+                                    exploration.clear();
                                     setSelectedNode(null);
                                     setPathSource(null);
+                                    setPathComparison(null);
                                     setAnalysisResults(null);
                                     setHighlightedEdges(new Set());
                                     toast.success("Visualization Reset", {
@@ -743,10 +1072,21 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                                     <div className="flex items-center gap-3 text-xs font-mono">
                                         <span className="font-bold">{lastQuery}</span>
                                         <span className="w-px h-3 bg-current opacity-30" />
-                                        <span>N:{graphData.nodes.length}</span>
-                                        <span>E:{graphData.edges.length}</span>
+                                        <span>N:{visibleGraph.nodes.length}</span>
+                                        <span>E:{visibleGraph.edges.length}</span>
+                                        {visibleGraph !== graphData && (
+                                            <span className="text-indigo-500">of {graphData.nodes.length}</span>
+                                        )}
                                     </div>
                                 </div>
+
+                                {pathSource && (
+                                    <div className="absolute top-16 left-4 z-20 px-4 py-2 rounded-full border backdrop-blur-sm bg-surface/90 border-indigo-500/50 text-xs text-primary flex items-center gap-2">
+                                        <span className="material-symbols-outlined text-[16px] text-indigo-500">alt_route</span>
+                                        <span>Paths from <span className="font-bold">{pathSource.name}</span>: click the target entity</span>
+                                        <button onClick={() => setPathSource(null)} className="ml-1 text-tertiary hover:text-indigo-600">Cancel</button>
+                                    </div>
+                                )}
                                 
                                 {/* Right Control Stack (Inspector + Toolbar) */}
                                 <div className="absolute top-4 right-4 z-30 flex flex-col items-end gap-2 pointer-events-none max-h-[calc(100%-2rem)]">
@@ -759,7 +1099,7 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                                                     <div>
                                                         <div className={`text-[10px] font-bold uppercase tracking-widest mb-1 ${getHighlightColor(selectedNode.type)} flex items-center gap-1`}>
                                                             <span className="w-1.5 h-1.5 rounded-full bg-current" />
-                                                            {selectedNode.type}
+                                                            {nodeTypeLabel(selectedNode.type)}
                                                         </div>
                                                         <h3 className={`text-xl font-bold text-primary`}>
                                                             {selectedNode.name}
@@ -839,6 +1179,13 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                                                     </div>
                                                 </div>
 
+                                                <div className="mt-6">
+                                                    <EntityDetailPanel
+                                                        node={selectedNode}
+                                                        onExplore={(name) => { setEntity(name); handleVisualize(name); }}
+                                                    />
+                                                </div>
+
                                                 <div className="mt-6 space-y-2">
                                                     <button onClick={() => { setEntity(selectedNode.name); handleVisualize(selectedNode.name); }} className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-2">
                                                         <span className="material-symbols-outlined text-[16px]">center_focus_strong</span> Focus Map Here
@@ -849,9 +1196,33 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                                                     <button onClick={() => handleApiAnalysis(selectedNode, 'subgraph')} className="w-full py-2 border rounded-lg text-xs font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-2 border-emerald-500/30 text-emerald-500 hover:bg-emerald-500/10">
                                                         <span className="material-symbols-outlined text-[16px]">hub</span> Extract Subgraph
                                                     </button>
+                                                    <div className="grid grid-cols-3 gap-2">
+                                                        <button
+                                                            onClick={() => exploration.pin(selectedNode.id)}
+                                                            className={`py-2 border rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-1 ${pinnedIds.has(selectedNode.id) ? 'border-indigo-500 bg-indigo-500/10 text-indigo-500' : 'border-border text-muted-foreground hover:bg-surface-hover'}`}
+                                                            title="Pinned nodes stay on the map across new scans"
+                                                        >
+                                                            <span className="material-symbols-outlined text-[14px]">push_pin</span> {pinnedIds.has(selectedNode.id) ? 'Unpin' : 'Pin'}
+                                                        </button>
+                                                        <button
+                                                            onClick={() => exploration.collapse(selectedNode.id)}
+                                                            disabled={!canCollapse(explorationState, selectedNode.id)}
+                                                            className="py-2 border rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-1 border-border text-muted-foreground hover:bg-surface-hover disabled:opacity-40 disabled:cursor-not-allowed"
+                                                            title="Remove the nodes expanding this one added"
+                                                        >
+                                                            <span className="material-symbols-outlined text-[14px]">unfold_less</span> Collapse
+                                                        </button>
+                                                        <button
+                                                            onClick={() => exploration.hide(selectedNode.id)}
+                                                            disabled={selectedNode.id === centerId}
+                                                            className="py-2 border rounded-lg text-[10px] font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-1 border-border text-muted-foreground hover:bg-surface-hover disabled:opacity-40 disabled:cursor-not-allowed"
+                                                        >
+                                                            <span className="material-symbols-outlined text-[14px]">visibility_off</span> Hide
+                                                        </button>
+                                                    </div>
                                                     <div className="pt-2">
                                                         <button onClick={() => setPathSource(selectedNode)} className="w-full py-2 border rounded-lg text-xs font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-2 border-border text-muted-foreground hover:bg-surface-hover">
-                                                            <span className="material-symbols-outlined text-[16px]">alt_route</span> Find Shortest Path
+                                                            <span className="material-symbols-outlined text-[16px]">alt_route</span> Find Paths
                                                         </button>
                                                     </div>
                                                     <a href={`https://pubmed.ncbi.nlm.nih.gov/?term=${selectedNode.name}`} target="_blank" rel="noreferrer" className="w-full py-2 border rounded-lg text-xs font-bold uppercase tracking-wider transition-all flex items-center justify-center gap-2 border-border hover:bg-surface-hover text-muted-foreground">
@@ -876,6 +1247,36 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                                                 <span className="material-symbols-outlined text-[20px]">center_focus_strong</span>
                                             </button>
                                         </div>
+                                        <div className="flex flex-col items-center gap-1 p-1 rounded-lg border backdrop-blur-md shadow-lg bg-surface/90 border-border">
+                                            <GraphLayoutPicker value={layoutMode} onChange={setLayoutMode} />
+                                        </div>
+                                        <div className="flex flex-col items-center gap-1 p-1 rounded-lg border backdrop-blur-md shadow-lg bg-surface/90 border-border">
+                                            <button onClick={() => setLayoutPaused(paused => !paused)} aria-pressed={layoutPaused} disabled={layoutMode !== 'force'} className={`p-2 rounded-md transition-colors hover:bg-surface-hover hover:text-indigo-600 disabled:opacity-40 disabled:pointer-events-none ${layoutPaused ? 'text-indigo-500' : 'text-tertiary'}`} title={layoutPaused ? 'Resume Layout' : 'Pause Layout'}>
+                                                <span className="material-symbols-outlined text-[20px]">{layoutPaused ? 'play_arrow' : 'pause'}</span>
+                                            </button>
+                                            <button onClick={() => setLayoutFrozen(frozen => !frozen)} aria-pressed={layoutFrozen} disabled={layoutMode !== 'force'} className={`p-2 rounded-md transition-colors hover:bg-surface-hover hover:text-indigo-600 disabled:opacity-40 disabled:pointer-events-none ${layoutFrozen ? 'text-indigo-500' : 'text-tertiary'}`} title={layoutFrozen ? 'Unfreeze Layout' : 'Freeze Layout (only new nodes move)'}>
+                                                <span className="material-symbols-outlined text-[20px]">{layoutFrozen ? 'lock' : 'lock_open'}</span>
+                                            </button>
+                                        </div>
+                                        <div className="flex flex-col items-center gap-1 p-1 rounded-lg border backdrop-blur-md shadow-lg bg-surface/90 border-border">
+                                            <button onClick={exploration.undo} disabled={!exploration.canUndo} className="p-2 rounded-md transition-colors hover:bg-surface-hover text-tertiary hover:text-indigo-600 disabled:opacity-40 disabled:pointer-events-none" title="Undo (Ctrl+Z)">
+                                                <span className="material-symbols-outlined text-[20px]">undo</span>
+                                            </button>
+                                            <button onClick={exploration.redo} disabled={!exploration.canRedo} className="p-2 rounded-md transition-colors hover:bg-surface-hover text-tertiary hover:text-indigo-600 disabled:opacity-40 disabled:pointer-events-none" title="Redo (Ctrl+Shift+Z)">
+                                                <span className="material-symbols-outlined text-[20px]">redo</span>
+                                            </button>
+                                            {explorationState.hidden.length > 0 && (
+                                                <button onClick={exploration.showAll} className="p-2 rounded-md transition-colors hover:bg-surface-hover text-indigo-500" title={`Show ${explorationState.hidden.length} hidden node(s)`}>
+                                                    <span className="material-symbols-outlined text-[20px]">visibility</span>
+                                                </button>
+                                            )}
+                                        </div>
+                                        <SaveGraphButton
+                                            projects={projects}
+                                            currentProjectId={readCurrentProjectId()}
+                                            onSave={handleSaveGraph}
+                                        />
+                                        <GraphExportMenu onExport={handleExportGraph} />
                                         <button 
                                             onClick={() => graphRef.current?.toggleFullscreen()} 
                                             className="p-2 rounded-lg border backdrop-blur-md shadow-lg transition-all bg-surface/90 border-border text-tertiary hover:text-indigo-600 hover:bg-surface-hover" 
@@ -906,6 +1307,20 @@ const GraphExplorer: React.FC<GraphExplorerProps> = ({ darkMode }) => {
                     )}
                 </div>
             </div>
+
+            {showImport && (
+                <GraphImportDialog
+                    onClose={() => setShowImport(false)}
+                    onImport={handleImportGraph}
+                />
+            )}
+
+            {showGeneSet && (
+                <GeneSetDialog
+                    onClose={() => setShowGeneSet(false)}
+                    onAnalyze={handleGeneSet}
+                />
+            )}
         </div>
     );
 };
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { GRAPH_EXPORT_FORMATS, GraphExportFormat } from '../utils/graphExport';
+
+interface GraphExportMenuProps {
+    onExport: (format: GraphExportFormat) => Promise<void>;
+}
+
+/**
+ * Toolbar button listing the graph export formats
+ */
+const GraphExportMenu: React.FC<GraphExportMenuProps> = ({ onExport }) => {
+    const [showMenu, setShowMenu] = useState(false);
+    const [exporting, setExporting] = useState<GraphExportFormat | null>(null);
+
+    const handleExport = async (format: GraphExportFormat) => {
+        setExporting(format);
+        try {
+            await onExport(format);
+            setShowMenu(false);
+        } finally {
+            setExporting(null);
+        }
+    };
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setShowMenu(open => !open)}
+                className="p-2 rounded-lg border backdrop-blur-md shadow-lg transition-all bg-surface/90 border-border text-tertiary hover:text-indigo-600 hover:bg-surface-hover"
+                title="Export graph"
+                aria-haspopup="menu"
+                aria-expanded={showMenu}
+            >
+                <span className="material-symbols-outlined text-[20px]">download</span>
+            </button>
+
+            {showMenu && (
+                <div role="menu" className="absolute right-full top-0 mr-2 w-60 p-1 rounded-lg border shadow-xl bg-surface border-border">
+                    {GRAPH_EXPORT_FORMATS.map(({ format, label, hint }) => (
+                        <button
+                            key={format}
+                            role="menuitem"
+                            onClick={() => handleExport(format)}
+                            disabled={exporting !== null}
+                            className="w-full flex flex-col items-start px-3 py-2 rounded-md text-left hover:bg-surface-hover transition-colors disabled:opacity-50"
+                        >
+                            <span className="text-xs font-medium text-primary">
+                                {exporting === format ? 'Exporting...' : label}
+                            </span>
+                            <span className="text-[10px] text-tertiary">{hint}</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default GraphExportMenu;
@@ -0,0 +1,135 @@
+import React from 'react';
+import type { SubgraphFilter } from '../types';
+import { NODE_TYPE_LIST, RELATION_LIST } from '../constants/kgTaxonomy';
+import {
+    FilterState,
+    GraphTypeCounts,
+    MECHANISM_FILTER,
+    cycleNodeType,
+    cycleRelation,
+    isFilterActive,
+    nodeTypeState,
+    relationState
+} from '../utils/graphFilter';
+
+interface GraphFilterPanelProps {
+    filter: SubgraphFilter;
+    onChange: (filter: SubgraphFilter) => void;
+    /** Counts over the unfiltered graph, so hidden types stay visible here */
+    counts: GraphTypeCounts;
+    /** Nodes and edges the filter currently hides */
+    hidden?: { nodes: number; edges: number };
+}
+
+const chipClass = (state: FilterState) => {
+    if (state === 'include') return 'border-indigo-500 bg-indigo-500/10 text-primary';
+    if (state === 'exclude') return 'border-red-500/40 bg-red-500/5 text-tertiary line-through';
+    return 'border-border text-secondary hover:border-indigo-500/40';
+};
+
+const stateTitle = (label: string, state: FilterState) =>
+    state === 'include' ? `Showing only included types. Click to exclude ${label}`
+        : state === 'exclude' ? `${label} hidden. Click to clear`
+        : `Click to show only ${label}`;
+
+interface FilterChipProps {
+    label: string;
+    color: string;
+    count: number;
+    state: FilterState;
+    onClick: () => void;
+}
+
+const FilterChip: React.FC<FilterChipProps> = ({ label, color, count, state, onClick }) => (
+    <button
+        onClick={onClick}
+        title={stateTitle(label, state)}
+        aria-pressed={state !== null}
+        className={`flex items-center gap-1.5 px-2 py-1 rounded-full border text-[10px] transition-colors ${chipClass(state)}`}
+    >
+        <span className="w-1.5 h-1.5 rounded-full flex-shrink-0" style={{ backgroundColor: color }} />
+        <span>{label}</span>
+        <span className="font-mono text-tertiary">{count}</span>
+    </button>
+);
+
+/**
+ * Include/exclude toggles for the node types and relations in the current graph.
+ * Each chip cycles: no filter → only this type → hide this type.
+ */
+const GraphFilterPanel: React.FC<GraphFilterPanelProps> = ({ filter, onChange, counts, hidden }) => {
+    const active = isFilterActive(filter);
+    const nodeTypes = NODE_TYPE_LIST.filter(t => counts.nodeTypes[t.type] || nodeTypeState(filter, t.type));
+    const relations = RELATION_LIST.filter(r => counts.relations[r.type] || relationState(filter, r.type));
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between">
+                <label className="block text-[10px] font-bold uppercase tracking-widest text-tertiary">
+                    Filters
+                </label>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={() => onChange(MECHANISM_FILTER)}
+                        className="text-[10px] text-indigo-500 hover:underline"
+                        title="Only drugs, targets and pathways"
+                    >
+                        Mechanisms
+                    </button>
+                    {active && (
+                        <button
+                            onClick={() => onChange({})}
+                            className="text-[10px] text-tertiary hover:text-primary"
+                        >
+                            Clear
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {nodeTypes.length > 0 && (
+                <div className="space-y-1.5">
+                    <div className="text-[10px] text-tertiary">Node types</div>
+                    <div className="flex flex-wrap gap-1">
+                        {nodeTypes.map(t => (
+                            <FilterChip
+                                key={t.type}
+                                label={t.label}
+                                color={t.color}
+                                count={counts.nodeTypes[t.type] ?? 0}
+                                state={nodeTypeState(filter, t.type)}
+                                onClick={() => onChange(cycleNodeType(filter, t.type))}
+                            />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {relations.length > 0 && (
+                <div className="space-y-1.5">
+                    <div className="text-[10px] text-tertiary">Relations</div>
+                    <div className="flex flex-wrap gap-1">
+                        {relations.map(r => (
+                            <FilterChip
+                                key={r.type}
+                                label={r.label}
+                                color={r.color}
+                                count={counts.relations[r.type] ?? 0}
+                                state={relationState(filter, r.type)}
+                                onClick={() => onChange(cycleRelation(filter, r.type))}
+                            />
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {active && hidden && (hidden.nodes > 0 || hidden.edges > 0) && (
+                <p className="text-[10px] text-tertiary font-mono">
+                    Hiding {hidden.nodes} nodes, {hidden.edges} edges
+                </p>
+            )}
+        </div>
+    );
+};
+
+export default GraphFilterPanel;
@@ -0,0 +1,125 @@
+import React, { useMemo, useState } from 'react';
+import { GraphImportError, ImportedGraph, parseGraphImport } from '../utils/graphImport';
+
+interface GraphImportDialogProps {
+    onClose: () => void;
+    /** Resolves the entities and loads the network; the dialog closes when this settles */
+    onImport: (imported: ImportedGraph, options: { name: string; overlayNeighbors: boolean }) => Promise<void>;
+}
+
+const FORMAT_LABELS: Record<ImportedGraph['format'], string> = {
+    csv: 'CSV edge list',
+    entities: 'Entity list',
+    cytoscape: 'Cytoscape JSON',
+    graphml: 'GraphML'
+};
+
+/**
+ * Load a user network (file or pasted text) into the graph explorer
+ */
+const GraphImportDialog: React.FC<GraphImportDialogProps> = ({ onClose, onImport }) => {
+    const [text, setText] = useState('');
+    const [fileName, setFileName] = useState('');
+    const [overlayNeighbors, setOverlayNeighbors] = useState(true);
+    const [importing, setImporting] = useState(false);
+
+    const parsed = useMemo((): { imported?: ImportedGraph; error?: string } => {
+        if (!text.trim()) return {};
+        try {
+            return { imported: parseGraphImport(text, fileName) };
+        } catch (err) {
+            return { error: err instanceof GraphImportError ? err.message : 'Could not read this file.' };
+        }
+    }, [text, fileName]);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        setText(await file.text());
+    };
+
+    const handleImport = async () => {
+        if (!parsed.imported) return;
+        setImporting(true);
+        try {
+            await onImport(parsed.imported, {
+                name: fileName ? fileName.replace(/\.[^.]+$/, '') : 'Pasted list',
+                overlayNeighbors
+            });
+            onClose();
+        } finally {
+            setImporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="graph-import-title">
+            <div className="max-w-lg w-full rounded-2xl p-6 bg-surface border border-border">
+                <h3 id="graph-import-title" className="text-lg font-semibold mb-1 text-foreground">
+                    Import Network
+                </h3>
+                <p className="text-xs text-tertiary mb-4">
+                    CSV/TSV edge list (source, target, relation), one entity per line, Cytoscape JSON or GraphML.
+                    Names are matched to PrimeKG entities by semantic search.
+                </p>
+
+                <div className="space-y-4">
+                    <input
+                        type="file"
+                        accept=".csv,.tsv,.txt,.json,.cyjs,.graphml,.xml"
+                        onChange={handleFile}
+                        className="block w-full text-xs text-secondary file:mr-3 file:px-3 file:py-1.5 file:rounded-lg file:border-0 file:bg-indigo-500/10 file:text-indigo-600 file:font-medium"
+                    />
+                    <textarea
+                        value={text}
+                        onChange={(e) => {
+                            setText(e.target.value);
+                            setFileName('');
+                        }}
+                        placeholder={'...or paste a gene list or edge list\nTP53\nBRCA1\nEGFR'}
+                        rows={6}
+                        className="w-full px-3 py-2 rounded-lg border text-xs font-mono resize-none bg-surface-hover border-border text-foreground placeholder-tertiary"
+                    />
+
+                    {parsed.error && (
+                        <p className="text-xs text-red-500">{parsed.error}</p>
+                    )}
+                    {parsed.imported && (
+                        <p className="text-xs text-secondary">
+                            {FORMAT_LABELS[parsed.imported.format]}: {parsed.imported.nodes.length} nodes
+                            {parsed.imported.edges.length > 0 && `, ${parsed.imported.edges.length} edges`}
+                        </p>
+                    )}
+
+                    <label className="flex items-center gap-2 text-xs text-secondary">
+                        <input
+                            type="checkbox"
+                            checked={overlayNeighbors}
+                            onChange={(e) => setOverlayNeighbors(e.target.checked)}
+                        />
+                        Overlay PrimeKG neighbors of matched entities
+                    </label>
+                </div>
+
+                <div className="flex gap-2 mt-6">
+                    <button
+                        onClick={onClose}
+                        className="flex-1 px-4 py-2 rounded-lg text-sm font-medium border border-border text-secondary hover:bg-surface-hover"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        onClick={handleImport}
+                        disabled={!parsed.imported || importing}
+                        className="flex-1 px-4 py-2 rounded-lg text-sm font-medium bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-50"
+                    >
+                        {importing ? 'Resolving entities...' : 'Import'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default GraphImportDialog;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { GRAPH_LAYOUTS, GraphLayoutMode } from '../utils/graphLayouts';
+
+interface GraphLayoutPickerProps {
+    value: GraphLayoutMode;
+    onChange: (mode: GraphLayoutMode) => void;
+    /** Vertical for the graph toolbar, horizontal for captions */
+    orientation?: 'vertical' | 'horizontal';
+}
+
+/**
+ * Segmented buttons choosing between the force layout and the fixed diagram layouts
+ */
+const GraphLayoutPicker: React.FC<GraphLayoutPickerProps> = ({ value, onChange, orientation = 'vertical' }) => (
+    <div role="radiogroup" aria-label="Graph layout" className={`flex items-center gap-1 ${orientation === 'vertical' ? 'flex-col' : 'flex-row'}`}>
+        {GRAPH_LAYOUTS.map(layout => (
+            <button
+                key={layout.mode}
+                role="radio"
+                aria-checked={value === layout.mode}
+                onClick={() => onChange(layout.mode)}
+                className={`p-2 rounded-md transition-colors hover:bg-surface-hover hover:text-indigo-600 ${value === layout.mode ? 'text-indigo-500 bg-indigo-500/10' : 'text-tertiary'}`}
+                title={`${layout.label} layout: ${layout.description}`}
+            >
+                <span className={`material-symbols-outlined ${orientation === 'vertical' ? 'text-[20px]' : 'text-[16px]'}`}>{layout.icon}</span>
+            </button>
+        ))}
+    </div>
+);
+
+export default GraphLayoutPicker;
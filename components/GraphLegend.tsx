@@ -0,0 +1,30 @@
+import React from 'react';
+import type { KGNode } from '../types';
+import { nodeTypeColor, nodeTypeLabel } from '../constants/kgTaxonomy';
+
+interface GraphLegendProps {
+    nodes: Pick<KGNode, 'type'>[];
+}
+
+/**
+ * Node-type swatches for the graph canvas, one per canonical type
+ */
+const GraphLegend: React.FC<GraphLegendProps> = ({ nodes }) => (
+    <div className={`absolute bottom-4 left-4 z-10 flex flex-wrap gap-2 p-3 rounded-xl max-w-[90%] md:max-w-[70%] text-xs border backdrop-blur-md shadow-lg bg-surface/90 border-border`}>
+        {/* One entry per canonical type, so "Gene" and "gene/protein" share a swatch */}
+        {Array.from(new Map(nodes.filter(n => n.type).map(n => [nodeTypeLabel(n.type), n.type])))
+            .filter(([label]) => label.toLowerCase() !== 'unknown')
+            .sort(([a], [b]) => a.localeCompare(b))
+            .slice(0, 8)
+            .map(([label, type]) => (
+            <div key={label} className="flex items-center gap-1.5">
+                <div className="w-2.5 h-2.5 rounded-full shadow-sm" style={{ backgroundColor: nodeTypeColor(type) }} />
+                <span className={`font-medium text-muted-foreground`}>
+                    {label.replace(/_/g, ' ')}
+                </span>
+            </div>
+        ))}
+    </div>
+);
+
+export default GraphLegend;
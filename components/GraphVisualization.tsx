@@ -1,8 +1,13 @@
 import React, { useRef, useEffect, useState, useCallback, useImperativeHandle, useId } from 'react';
 import * as d3 from 'd3';
 import { GraphData, KGNode, KGEdge } from '../types';
+import { RELATION_LIST, UNKNOWN_RELATION_COLOR, nodeTypeColor, relationColor, relationInfo, relationLabel } from '../constants/kgTaxonomy';
+import { createForceLayout, ForceLayout, Point } from '../utils/forceLayout';
+import { computeGraphLayout, GraphLayoutMode } from '../utils/graphLayouts';
+import GraphLegend from './GraphLegend';
+import CanvasGraphVisualization from './CanvasGraphVisualization';
 
-interface GraphVisualizationProps {
+export interface GraphVisualizationProps {
     data: GraphData;
     darkMode?: boolean;
     width?: number;
@@ -11,124 +16,35 @@ interface GraphVisualizationProps {
     onNodeClick?: (node: KGNode) => void;
     onReset?: () => void;
     highlightedEdges?: Set<string>; // Keys: "source-target-relation"
+    selectedNodeId?: string;
+    pinnedNodeIds?: Set<string>;
+    /** Nodes to mark as needing attention, e.g. imported entities not found in PrimeKG */
+    flaggedNodeIds?: Set<string>;
+    /** 'auto' (default) switches to canvas above CANVAS_NODE_THRESHOLD nodes */
+    renderer?: 'auto' | 'svg' | 'canvas';
+    /** Stop the force layout where it is; dragging still works */
+    layoutPaused?: boolean;
+    /** Keep every placed node where it is; only newly added nodes are laid out */
+    layoutFrozen?: boolean;
+    /** 'force' (default) or a fixed diagram layout from utils/graphLayouts */
+    layoutMode?: GraphLayoutMode;
+    /** Center of the radial and concentric layouts, e.g. the queried entity */
+    centerNodeId?: string | null;
+    children?: React.ReactNode;
 }
 
-// Normalized node color palette
-// Normalized node color palette based on PrimeKG Entity Types
-const nodeColors: Record<string, string> = {
-    // 1. Core Biological Entities
-    geneprotein: '#22c55e',       // Green (Central dogma)
-    gene_protein: '#22c55e',      // Alternative key
-    
-    // 2. Pharmacology
-    drug: '#3b82f6',              // Blue (Intervention)
-    
-    // 3. Pathology
-    disease: '#ef4444',           // Red (Condition)
-    phenotype: '#f97316',         // Orange (Symptom/Characteristic)
-    
-    // 4. Biological Systems & Functions (GO Terms)
-    pathway: '#ec4899',           // Pink (Network)
-    biologicalprocess: '#06b6d4', // Cyan (Process)
-    biological_process: '#06b6d4',
-    molecularfunction: '#8b5cf6', // Violet (Function)
-    molecular_function: '#8b5cf6',
-    cellularcomponent: '#14b8a6', // Teal (Location)
-    cellular_component: '#14b8a6',
-    
-    // 5. Structure & Environment
-    anatomy: '#eab308',           // Yellow (Structure)
-    exposure: '#6366f1',          // Indigo (Environment/Chemical)
-    
-    default: '#64748b'            // Slate
-};
+/**
+ * Node count above which the canvas renderer takes over; SVG with one DOM node per
+ * element stops being interactive somewhere past a few hundred nodes
+ */
+export const CANVAS_NODE_THRESHOLD = 300;
 
-const edgeColors: Record<string, string> = {
-    // Treatments / Positive
-    indication: '#3b82f6', // Blue (treats)
-    off_label_use: '#06b6d4', // Cyan (unapproved but used)
-    target: '#f59e0b', // Amber (drug targets)
-    synergistic_interaction: '#8b5cf6', // Violet (enhances effect)
-    
-    // Negative / Warnings
-    contraindication: '#ef4444', // Red (avoid)
-    side_effect: '#f97316', // Orange (adverse event)
-    phenotype_absent: '#e11d48', // Rose (disease does NOT show phenotype)
-    expression_absent: '#ec4899', // Pink (gene NOT expressed)
-    
-    // Biological / Neutral / Associations
-    ppi: '#10b981', // Emerald (protein-protein interaction)
-    interacts_with: '#94a3b8', // Slate (generic interaction)
-    associated_with: '#a855f7', // Purple (gene associated with disease)
-    parent_child: '#71717a', // Zinc (ontology hierarchy)
-    linked_to: '#64748b', // Gray (exposure linked to disease)
-    
-    // Expression / Presence
-    expression_present: '#22c55e', // Green (gene expressed)
-    phenotype_present: '#14b8a6', // Teal (disease shows phenotype)
-    
-    // Pharmacokinetics (Metabolism/Transport)
-    enzyme: '#eab308', // Yellow (metabolized by)
-    transporter: '#84cc16', // Lime (transported by)
-    carrier: '#6366f1', // Indigo (carried by)
-    
-    default: '#94a3b8' // Slate
+// Arrowhead colors, one marker per directed relation plus a fallback
+const markerColors: Record<string, string> = {
+    ...Object.fromEntries(RELATION_LIST.filter(r => r.directed).map(r => [r.type, r.color])),
+    default: UNKNOWN_RELATION_COLOR
 };
 
-function getNodeColor(type: string): string {
-    if (!type) return nodeColors.default;
-    
-    // Normalize: Remove spaces, underscores, and convert to lowercase for robust matching
-    // e.g., "Gene/Protein" -> "geneprotein", "Biological Process" -> "biologicalprocess"
-    const normalizedKey = type.toLowerCase().replace(/[\/\s\_-]/g, '');
-    
-    // Direct lookup
-    if (nodeColors[normalizedKey]) return nodeColors[normalizedKey];
-    
-    // Fallback partial matching if exact key isn't found (robustness)
-    if (normalizedKey.includes('gene') || normalizedKey.includes('protein')) return nodeColors.geneprotein;
-    if (normalizedKey.includes('drug') || normalizedKey.includes('chem')) return nodeColors.drug;
-    if (normalizedKey.includes('disease')) return nodeColors.disease;
-    if (normalizedKey.includes('pathway')) return nodeColors.pathway;
-    if (normalizedKey.includes('anatomy')) return nodeColors.anatomy;
-    if (normalizedKey.includes('phenotype')) return nodeColors.phenotype;
-    if (normalizedKey.includes('exposure')) return nodeColors.exposure;
-    if (normalizedKey.includes('process')) return nodeColors.biologicalprocess;
-    if (normalizedKey.includes('function')) return nodeColors.molecularfunction;
-    if (normalizedKey.includes('component')) return nodeColors.cellularcomponent;
-    
-    return nodeColors.default;
-}
-
-function getEdgeColor(relation: string): string {
-    if (!relation) return edgeColors.default;
-    const key = relation.toLowerCase();
-    
-    // Exact match trial first (normalized)
-    if (edgeColors[key]) return edgeColors[key];
-    
-    // Soft matching for variations
-    if (key.includes('ppi')) return edgeColors.ppi;
-    if (key.includes('synergistic')) return edgeColors.synergistic_interaction;
-    if (key.includes('indication') && !key.includes('contra')) return edgeColors.indication;
-    if (key.includes('contraindication')) return edgeColors.contraindication;
-    if (key.includes('target')) return edgeColors.target;
-    if (key.includes('enzyme')) return edgeColors.enzyme;
-    if (key.includes('transporter')) return edgeColors.transporter;
-    if (key.includes('carrier')) return edgeColors.carrier;
-    if (key.includes('side') || key.includes('effect')) return edgeColors.side_effect; // broadened match
-    if (key.includes('associated')) return edgeColors.associated_with;
-    if (key.includes('phenotype') && key.includes('present')) return edgeColors.phenotype_present;
-    if (key.includes('phenotype') && key.includes('absent')) return edgeColors.phenotype_absent;
-    if (key.includes('expression') && key.includes('present')) return edgeColors.expression_present;
-    if (key.includes('expression') && key.includes('absent')) return edgeColors.expression_absent;
-    if (key.includes('off') || key.includes('label')) return edgeColors.off_label_use;
-    if (key.includes('parent') || key.includes('child')) return edgeColors.parent_child;
-    if (key.includes('linked')) return edgeColors.linked_to;
-    
-    return edgeColors.default;
-}
-
 interface SimNode extends d3.SimulationNodeDatum {
     id: string;
     type: string;
@@ -137,8 +53,8 @@ interface SimNode extends d3.SimulationNodeDatum {
 
 interface SimLink extends d3.SimulationLinkDatum<SimNode> {
     relation: string;
-    source: string | SimNode;
-    target: string | SimNode;
+    source: SimNode;
+    target: SimNode;
 }
 
 export interface GraphVisualizationHandle {
@@ -146,10 +62,12 @@ export interface GraphVisualizationHandle {
     zoomOut: () => void;
     reset: () => void;
     toggleFullscreen: () => void;
+    /** Where each node currently is, in graph coordinates (for export) */
+    getNodePositions: () => ReadonlyMap<string, Point>;
 }
 
-const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle, GraphVisualizationProps & { selectedNodeId?: string, highlightedEdges?: Set<string>, children?: React.ReactNode }>(
-    function GraphVisualization({
+const SvgGraphVisualization = React.forwardRef<GraphVisualizationHandle, GraphVisualizationProps>(
+    function SvgGraphVisualization({
         data,
         darkMode = true,
         width = 600,
@@ -159,11 +77,17 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         onReset,
         selectedNodeId,
         highlightedEdges,
+        pinnedNodeIds,
+        flaggedNodeIds,
+        layoutPaused,
+        layoutFrozen,
+        layoutMode = 'force',
+        centerNodeId,
         children
     }, ref) {
     const svgRef = useRef<SVGSVGElement>(null);
     const containerRef = useRef<HTMLDivElement>(null);
-    const simulationRef = useRef<d3.Simulation<SimNode, SimLink> | null>(null);
+    const layoutRef = useRef<ForceLayout | null>(null);
     const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null);
     const gRef = useRef<d3.Selection<SVGGElement, unknown, null, undefined> | null>(null);
 
@@ -221,7 +145,8 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         zoomIn: handleZoomIn,
         zoomOut: handleZoomOut,
         reset: handleReset,
-        toggleFullscreen
+        toggleFullscreen,
+        getNodePositions: () => layoutRef.current?.positions() ?? new Map()
     }));
 
     // Handle resize observer
@@ -251,16 +176,37 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
     }, []);
 
-    // Initialization Effect: Set up SVG layers and persistent simulation
+    // Force layout, computed off the main thread and kept for the component's lifetime
+    useEffect(() => {
+        const layout = createForceLayout({
+            width: dimensions.width,
+            height: dimensions.height,
+            preset: 'svg',
+            compact: dimensions.width < 768
+        });
+        layoutRef.current = layout;
+        return () => {
+            layout.dispose();
+            layoutRef.current = null;
+        };
+    }, []);
+
+    useEffect(() => {
+        if (layoutPaused) layoutRef.current?.pause();
+        else layoutRef.current?.resume();
+    }, [layoutPaused]);
+
+    useEffect(() => {
+        layoutRef.current?.setFrozen(!!layoutFrozen);
+    }, [layoutFrozen]);
+
+    // Initialization Effect: Set up SVG layers
     useEffect(() => {
         if (!svgRef.current) return;
 
         const svg = d3.select(svgRef.current);
         svg.selectAll('*').remove(); // Initial clear only
 
-        const { width: w, height: h } = dimensions;
-        const isMobile = w < 768;
-
         // Container group
         const g = svg.append('g').attr('class', 'main-container');
         gRef.current = g;
@@ -285,7 +231,7 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         const defs = svg.append('defs');
         const updateMarkers = () => {
              defs.selectAll('marker').remove();
-             Object.entries(edgeColors).forEach(([key, color]) => {
+             Object.entries(markerColors).forEach(([key, color]) => {
                 defs.append('marker')
                 .attr('id', `arrowhead-${key}-${graphId}`)
                 .attr('viewBox', '-0 -5 10 10')
@@ -302,44 +248,18 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         };
         updateMarkers();
 
-        // Persistent Simulation
-        const nodeCount = data.nodes?.length || 0;
-        const simulation = d3.forceSimulation<SimNode>()
-            .force('link', d3.forceLink<SimNode, SimLink>().id(d => d.id).distance(isMobile ? 80 : 120))
-            .force('charge', d3.forceManyBody().strength(isMobile ? -200 : -400))
-            .force('center', d3.forceCenter(w / 2, h / 2))
-            .force('collide', d3.forceCollide().radius(isMobile ? 30 : 40).strength(0.5));
-
-        // Performance: Adaptive decay for large graphs
-        if (nodeCount > 100) {
-            simulation.alphaDecay(0.05).velocityDecay(0.4);
-        }
-        if (nodeCount > 200) {
-            simulation.alphaDecay(0.08).alphaMin(0.01);
-        }
-        if (isMobile) {
-            simulation.alphaDecay(0.05).velocityDecay(0.4);
-        }
-
-        simulationRef.current = simulation;
-
-        return () => {
-            simulation.stop();
-            simulationRef.current = null;
-        };
+        layoutRef.current?.resize(dimensions.width, dimensions.height);
     }, [dimensions.width, dimensions.height]); // Re-run only on major dimension changes or mount
 
     // Update Effect: Handle data changes using Join pattern
     useEffect(() => {
-        if (!simulationRef.current || !data.nodes?.length || !gRef.current) return;
+        if (!layoutRef.current || !data.nodes?.length || !gRef.current) return;
 
-        const simulation = simulationRef.current;
+        const layout = layoutRef.current;
         const g = gRef.current;
         const isMobile = dimensions.width < 768;
 
-        // 1. Prepare Data with mapping to preserve positions of existing nodes
-        const oldNodes = new Map(simulation.nodes().map(d => [d.id, d]));
-        
+        // 1. Prepare Data, starting nodes the layout has placed before where they were
         let renderNodesData = data.nodes;
         let renderEdgesData = data.edges;
 
@@ -352,95 +272,49 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         }
 
         const nodes: SimNode[] = renderNodesData.map(n => ({
-            ...oldNodes.get(n.id),
-            ...n
-        } as SimNode));
-
-        const links: SimLink[] = renderEdgesData.map(e => ({
-            ...e
-        } as SimLink));
-
-        // 2. Update Simulation
-        simulation.nodes(nodes);
-        (simulation.force('link') as d3.ForceLink<SimNode, SimLink>).links(links);
-        
-        // Dynamic Type Clustering Force
-        // This pulls nodes of the same type (color) towards specific sectors of the canvas
-        const uniqueTypes = Array.from(new Set(nodes.map(n => n.type))).sort();
-        if (uniqueTypes.length > 1) {
-            const angleStep = (2 * Math.PI) / uniqueTypes.length;
-            const clusterRadius = Math.min(dimensions.width, dimensions.height) / 3; // Radius of the cluster ring
-
-            // Configure X clustering
-            simulation.force('preserve_x', d3.forceX<SimNode>(d => {
-                const index = uniqueTypes.indexOf(d.type);
-                const angle = index * angleStep;
-                return dimensions.width / 2 + Math.cos(angle) * clusterRadius;
-            }).strength(0.15)); // Gentle strength to bias layout but keep topology
-
-            // Configure Y clustering
-            simulation.force('preserve_y', d3.forceY<SimNode>(d => {
-                const index = uniqueTypes.indexOf(d.type);
-                const angle = index * angleStep;
-                return dimensions.height / 2 + Math.sin(angle) * clusterRadius;
-            }).strength(0.15));
-        } else {
-            // Remove forces if only 1 type exists (fall back to standard layout)
-            simulation.force('preserve_x', null);
-            simulation.force('preserve_y', null);
-        }
-
-        simulation.alpha(1).restart();
-
-        // 3. Helper to get key for marker
-        const getEdgeColorKey = (relation: string): string => {
-            if (!relation) return 'default';
-            const key = relation.toLowerCase();
-            
-            if (key.includes('ppi')) return 'ppi';
-            if (key.includes('synergistic')) return 'synergistic_interaction';
-            if (key.includes('indication') && !key.includes('contra')) return 'indication';
-            if (key.includes('contraindication')) return 'contraindication';
-            if (key.includes('target')) return 'target';
-            if (key.includes('enzyme')) return 'enzyme';
-            if (key.includes('transporter')) return 'transporter';
-            if (key.includes('carrier')) return 'carrier';
-            if (key.includes('side') || key.includes('effect')) return 'side_effect';
-            if (key.includes('associated')) return 'associated_with';
-            if (key.includes('phenotype') && key.includes('present')) return 'phenotype_present';
-            if (key.includes('phenotype') && key.includes('absent')) return 'phenotype_absent';
-            if (key.includes('expression') && key.includes('present')) return 'expression_present';
-            if (key.includes('expression') && key.includes('absent')) return 'expression_absent';
-            if (key.includes('off') || key.includes('label')) return 'off_label_use';
-            if (key.includes('parent') || key.includes('child')) return 'parent_child';
-            if (key.includes('linked')) return 'linked_to';
-            
-            return 'default';
+            ...n,
+            ...layout.positionOf(n.id)
+        }));
+        const nodeById = new Map(nodes.map(n => [n.id, n]));
+
+        const links: SimLink[] = renderEdgesData
+            .filter(e => nodeById.has(e.source) && nodeById.has(e.target))
+            .map(e => ({
+                ...e,
+                source: nodeById.get(e.source)!,
+                target: nodeById.get(e.target)!
+            }));
+
+        // 3. Arrowhead for the relation; symmetric relations get none
+        const markerFor = (relation: string): string | null => {
+            const info = relationInfo(relation);
+            if (info && !info.directed) return null;
+            return `url(#arrowhead-${info ? info.type : 'default'}-${graphId})`;
         };
 
         // 4. Update Links
         const link = g.select('.links-layer')
             .selectAll<SVGLineElement, SimLink>('line')
-            .data(links, d => `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}`)
+            .data(links, d => `${d.source.id}-${d.target.id}`)
             .join(
                 enter => enter.append('line')
-                    .attr('stroke', d => getEdgeColor(d.relation))
+                    .attr('stroke', d => relationColor(d.relation))
                     .attr('stroke-width', d => {
-                        const key = `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}-${d.relation}`;
+                        const key = `${d.source.id}-${d.target.id}-${d.relation}`;
                         return highlightedEdges?.has(key) ? 4 : 1.5;
                     })
                     .attr('stroke-opacity', d => {
-                        const key = `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}-${d.relation}`;
+                        const key = `${d.source.id}-${d.target.id}-${d.relation}`;
                         return highlightedEdges?.has(key) ? 1 : 0.4;
                     })
-                    .attr('marker-end', d => `url(#arrowhead-${getEdgeColorKey(d.relation)}-${graphId})`),
+                    .attr('marker-end', d => markerFor(d.relation)),
                 update => update
                     .attr('stroke-width', d => {
-                        const key = `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}-${d.relation}`;
+                        const key = `${d.source.id}-${d.target.id}-${d.relation}`;
                         return highlightedEdges?.has(key) ? 4 : 1.5;
                     })
                     .attr('stroke-opacity', d => {
-                        const key = `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}-${d.relation}`;
+                        const key = `${d.source.id}-${d.target.id}-${d.relation}`;
                         return highlightedEdges?.has(key) ? 1 : 0.4;
                     }),
                 exit => exit.remove()
@@ -450,7 +324,7 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         const showLabelsInitially = (!isMobile || links.length < 30) && links.length < 100;
         const linkLabel = g.select('.link-labels-layer')
             .selectAll<SVGTextElement, SimLink>('text')
-            .data(showLabelsInitially ? links : [], d => `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}`)
+            .data(showLabelsInitially ? links : [], d => `${d.source.id}-${d.target.id}`)
             .join(
                 enter => enter.append('text')
                     .attr('font-size', '7px')
@@ -458,10 +332,13 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
                     .attr('text-anchor', 'middle')
                     .attr('opacity', 0) // Fade in later
                     .attr('font-weight', d => {
-                        const key = `${(d.source as any).id || d.source}-${(d.target as any).id || d.target}-${d.relation}`;
+                        const key = `${d.source.id}-${d.target.id}-${d.relation}`;
                         return highlightedEdges?.has(key) ? 'bold' : 'normal';
                     })
-                    .text(d => d.relation.length > 15 ? d.relation.slice(0, 15) + '...' : d.relation),
+                    .text(d => {
+                        const label = relationLabel(d.relation);
+                        return label.length > 15 ? label.slice(0, 15) + '...' : label;
+                    }),
                 update => update,
                 exit => exit.remove()
             );
@@ -480,20 +357,9 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
                     const nodeGroup = enter.append('g')
                         .attr('class', 'node-group')
                         .call(d3.drag<SVGGElement, SimNode>()
-                            .on('start', (event, d) => {
-                                if (!event.active) simulation.alphaTarget(0.3).restart();
-                                d.fx = d.x;
-                                d.fy = d.y;
-                            })
-                            .on('drag', (event, d) => {
-                                d.fx = event.x;
-                                d.fy = event.y;
-                            })
-                            .on('end', (event, d) => {
-                                if (!event.active) simulation.alphaTarget(0);
-                                d.fx = null;
-                                d.fy = null;
-                            })
+                            .on('start', (event, d) => layout.drag(d.id, d.x!, d.y!))
+                            .on('drag', (event, d) => layout.drag(d.id, event.x, event.y))
+                            .on('end', (event, d) => layout.release(d.id))
                         )
                         .on('click', (event, d) => {
                             if (onNodeClick) {
@@ -504,7 +370,30 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
                         .on('mouseover', (event, d) => setHoveredNode(d.id))
                         .on('mouseout', () => setHoveredNode(null));
 
+                    // Dashed ring marking pinned nodes, shown by the pin effect below
                     nodeGroup.append('circle')
+                        .attr('class', 'pin-ring')
+                        .attr('r', isMobile ? 15 : 18)
+                        .attr('fill', 'none')
+                        .attr('stroke', '#6366f1')
+                        .attr('stroke-width', 1.5)
+                        .attr('stroke-dasharray', '3 2')
+                        .attr('opacity', 0)
+                        .style('pointer-events', 'none');
+
+                    // Red ring marking flagged nodes, shown by the same effect
+                    nodeGroup.append('circle')
+                        .attr('class', 'flag-ring')
+                        .attr('r', isMobile ? 18 : 22)
+                        .attr('fill', 'none')
+                        .attr('stroke', '#ef4444')
+                        .attr('stroke-width', 1.5)
+                        .attr('stroke-dasharray', '1 3')
+                        .attr('opacity', 0)
+                        .style('pointer-events', 'none');
+
+                    nodeGroup.append('circle')
+                        .attr('class', 'node-circle')
                         .attr('r', isMobile ? 10 : 12)
                         .attr('stroke-width', 2)
                         .style('cursor', 'pointer');
@@ -528,8 +417,8 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
             );
 
         // Update node styles based on theme/data
-        node.select('circle')
-            .attr('fill', d => getNodeColor(d.type))
+        node.select('circle.node-circle')
+            .attr('fill', d => nodeTypeColor(d.type))
             .attr('stroke', 'rgb(var(--color-bg-main))');
             // Performance: Removed drop-shadow filter as it's heavy on reflows during force simulation
 
@@ -548,12 +437,12 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         node.select('text')
             .attr('fill', d => {
                 // Use white text for dark nodes, dark text for light nodes (WCAG AA)
-                const bgColor = getNodeColor(d.type);
+                const bgColor = nodeTypeColor(d.type);
                 const luminance = getLuminance(bgColor);
                 return luminance > 0.5 ? '#0f172a' : '#ffffff';
             })
             .style('text-shadow', d => {
-                const bgColor = getNodeColor(d.type);
+                const bgColor = nodeTypeColor(d.type);
                 const luminance = getLuminance(bgColor);
                 // Strong shadow for contrast
                 return luminance > 0.5 
@@ -562,33 +451,52 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
             })
             .text(d => d.name.length > 25 ? d.name.slice(0, 25) + '...' : d.name);
 
-        // 7. Tick Handler (Phase 1: Throttled for performance)
-        let tickCount = 0;
-        simulation.on('tick', () => {
-            tickCount++;
-            // Throttle: Skip every other tick when the simulation is hot to save CPU
-            if (tickCount % 2 !== 0 && simulation.alpha() > 0.5 && nodes.length > 50) return;
-
+        // 7. Position Updates (Phase 1: at most one DOM update per frame)
+        let frame = 0;
+        const render = () => {
+            frame = 0;
             link
-                .attr('x1', d => (d.source as SimNode).x!)
-                .attr('y1', d => (d.source as SimNode).y!)
-                .attr('x2', d => (d.target as SimNode).x!)
-                .attr('y2', d => (d.target as SimNode).y!);
+                .attr('x1', d => d.source.x!)
+                .attr('y1', d => d.source.y!)
+                .attr('x2', d => d.target.x!)
+                .attr('y2', d => d.target.y!);
 
             linkLabel
-                .attr('x', d => ((d.source as SimNode).x! + (d.target as SimNode).x!) / 2)
-                .attr('y', d => ((d.source as SimNode).y! + (d.target as SimNode).y!) / 2);
+                .attr('x', d => (d.source.x! + d.target.x!) / 2)
+                .attr('y', d => (d.source.y! + d.target.y!) / 2);
 
             node.attr('transform', d => `translate(${d.x},${d.y})`);
-        });
+        };
+
+        const unsubscribe = layout.subscribe((positions, done) => {
+            positions.forEach((p, id) => {
+                const n = nodeById.get(id);
+                if (!n) return;
+                n.x = p.x;
+                n.y = p.y;
+            });
+            if (!frame) frame = requestAnimationFrame(render);
 
-        // Show labels once simulation stabilizes
-        simulation.on('end', () => {
-            linkLabel.transition().duration(500).attr('opacity', 0.7);
+            // Show labels once the layout stabilizes
+            if (done) linkLabel.transition().duration(500).attr('opacity', 0.7);
         });
 
+        layout.setGraph(nodes, renderEdgesData);
+
+        return () => {
+            unsubscribe();
+            cancelAnimationFrame(frame);
+        };
     }, [data, darkMode, dimensions]);
 
+    // Fixed layouts: move nodes into place after every data change, or hand them back to the simulation
+    useEffect(() => {
+        if (!layoutRef.current || !data.nodes?.length) return;
+        layoutRef.current.arrange(layoutMode === 'force'
+            ? null
+            : computeGraphLayout(layoutMode, data, { ...dimensions, centerId: centerNodeId }));
+    }, [layoutMode, centerNodeId, data, darkMode, dimensions]);
+
     // Highlight Effect (Separated for performance)
     useEffect(() => {
         if (!gRef.current) return;
@@ -604,8 +512,8 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
             connectedLinkNodes.add(activeNodeId);
 
             link.each(function(d) {
-                const sourceId = typeof d.source === 'object' ? d.source.id : d.source;
-                const targetId = typeof d.target === 'object' ? d.target.id : d.target;
+                const sourceId = d.source.id;
+                const targetId = d.target.id;
                 if (sourceId === activeNodeId || targetId === activeNodeId) {
                     connectedLinkNodes.add(sourceId as string);
                     connectedLinkNodes.add(targetId as string);
@@ -634,7 +542,7 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
                      return (sourceId === activeNodeId || targetId === activeNodeId) ? 1 : 0;
                 });
             
-            node.filter(d => d.id === activeNodeId).select('circle')
+            node.filter(d => d.id === activeNodeId).select('circle.node-circle')
                 .transition().duration(tDuration)
                 .attr('stroke', '#fff')
                 .attr('stroke-width', 3)
@@ -642,7 +550,7 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
 
         } else {
             node.transition().duration(tDuration).attr('opacity', 1);
-            node.select('circle').transition().duration(tDuration)
+            node.select('circle.node-circle').transition().duration(tDuration)
                 .attr('stroke', 'rgb(var(--color-bg-main))')
                 .attr('stroke-width', 2)
                 .attr('r', 12);
@@ -656,6 +564,15 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
         }
     }, [activeNodeId, darkMode]);
 
+    // Pin and flag markers
+    useEffect(() => {
+        if (!gRef.current) return;
+        gRef.current.selectAll<SVGCircleElement, SimNode>('g.node-group circle.pin-ring')
+            .attr('opacity', d => pinnedNodeIds?.has(d.id) ? 0.9 : 0);
+        gRef.current.selectAll<SVGCircleElement, SimNode>('g.node-group circle.flag-ring')
+            .attr('opacity', d => flaggedNodeIds?.has(d.id) ? 0.9 : 0);
+    }, [pinnedNodeIds, flaggedNodeIds, data]);
+
     if (!data.nodes?.length) return null;
 
     return (
@@ -665,20 +582,7 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
             style={isFullscreen ? { height: '100vh', width: '100vw' } : { height: '100%', width: '100%' }}
         >
             {/* Legend Overlay */}
-            <div className={`absolute bottom-4 left-4 z-10 flex flex-wrap gap-2 p-3 rounded-xl max-w-[90%] md:max-w-[70%] text-xs border backdrop-blur-md shadow-lg bg-surface/90 border-border`}>
-                {Array.from(new Set(data.nodes.map(n => n.type ? (n.type.charAt(0).toUpperCase() + n.type.slice(1).toLowerCase()) : 'Unknown')))
-                    .filter(t => t !== 'Unknown' && t !== 'unknown')
-                    .sort()
-                    .slice(0, 8)
-                    .map(type => (
-                    <div key={type} className="flex items-center gap-1.5">
-                        <div className="w-2.5 h-2.5 rounded-full shadow-sm" style={{ backgroundColor: getNodeColor(type) }} />
-                        <span className={`font-medium text-muted-foreground`}>
-                            {type.replace(/_/g, ' ')}
-                        </span>
-                    </div>
-                ))}
-            </div>
+            <GraphLegend nodes={data.nodes} />
 
             {/* Hint Overlay */}
             <div className={`absolute bottom-4 right-4 z-10 text-[10px] px-3 py-1.5 rounded-full border backdrop-blur-sm pointer-events-none select-none bg-surface/60 border-border text-tertiary`}>
@@ -708,6 +612,16 @@ const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle,
 
         </div>
     );
-}));
+});
+
+const GraphVisualization = React.memo(React.forwardRef<GraphVisualizationHandle, GraphVisualizationProps>(
+    function GraphVisualization(props, ref) {
+        const { renderer = 'auto', data } = props;
+        const useCanvas = renderer === 'canvas' || (renderer === 'auto' && (data.nodes?.length ?? 0) > CANVAS_NODE_THRESHOLD);
+        return useCanvas
+            ? <CanvasGraphVisualization ref={ref} {...props} />
+            : <SvgGraphVisualization ref={ref} {...props} />;
+    }
+));
 
 export default GraphVisualization;
@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { GeminiModel } from '../types';
+import { useApiKey } from '../contexts/ApiKeyContext';
 
 /**
  * Model icon component for displaying the selected AI model
@@ -82,6 +83,9 @@ const Header: React.FC<HeaderProps> = ({
         };
     }, [isModelDropdownOpen, isConfigDropdownOpen]);
 
+    // A self-hosted server serves one configured model; the Gemini list doesn't apply
+    const { llmSettings } = useApiKey();
+
     const handleModelSelect = (model: GeminiModel) => {
         onModelChange(model);
         setIsModelDropdownOpen(false);
@@ -118,8 +122,26 @@ const Header: React.FC<HeaderProps> = ({
                 )}
             </div>
 
+            {/* Center: Self-hosted model (configured in the API key modal) */}
+            {showModelSelectorProp && llmSettings.provider === 'openai' && (
+                <div className="absolute left-1/2 -translate-x-1/2 z-50 hidden md:block">
+                    <button
+                        onClick={onShowApiKeyModal}
+                        className="flex items-center gap-2 bg-surface/80 backdrop-blur border border-border rounded-full p-1 pr-4 shadow-sm hover:bg-surface transition-colors whitespace-nowrap"
+                        title="Change model server"
+                    >
+                        <div className="flex items-center justify-center w-7 h-7 bg-indigo-500/10 rounded-full text-indigo-500">
+                            <span className="material-symbols-outlined">dns</span>
+                        </div>
+                        <span className="text-xs font-semibold text-foreground max-w-[220px] truncate">
+                            {llmSettings.model || 'Local model'}
+                        </span>
+                    </button>
+                </div>
+            )}
+
             {/* Center: Model selector (Preserved from original) */}
-            {showModelSelectorProp && (
+            {showModelSelectorProp && llmSettings.provider !== 'openai' && (
                 <div ref={modelDropdownRef} className="absolute left-1/2 -translate-x-1/2 z-50 hidden md:block">
                     <button
                         onClick={() => setIsModelDropdownOpen(!isModelDropdownOpen)}
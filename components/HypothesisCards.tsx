@@ -1,4 +1,7 @@
 import React, { useState } from 'react';
+import type { AppErrorInfo } from '../services/errors';
+import ErrorRecovery from './ErrorRecovery';
+import { nodeTypeInfo, nodeTypeLabel, relationLabel } from '../constants/kgTaxonomy';
 
 /**
  * Visual cards for hypothesis generation results.
@@ -28,22 +31,39 @@ interface DrugCombination {
     score?: number;
 }
 
+interface GeneSetLink {
+    name: string;
+    type?: string;
+    /** Genes of the set it connects to */
+    genes: string[];
+    /** Fraction of the set */
+    coverage?: number;
+}
+
 interface HypothesisCardsProps {
-    data: RepurposingCandidate[] | TherapeuticTarget[] | DrugCombination[];
-    type: 'repurposing' | 'targets' | 'combinations';
+    data: RepurposingCandidate[] | TherapeuticTarget[] | DrugCombination[] | GeneSetLink[];
+    type: 'repurposing' | 'targets' | 'combinations' | 'geneset';
+    /** Overrides the heading for the type */
+    title?: string;
     darkMode?: boolean;
     onExploreNode?: (nodeName: string) => void;
+    /** The hypothesis tool failed; shown in place of the cards */
+    error?: AppErrorInfo;
+    onRetry?: () => void;
 }
 
 const HypothesisCards: React.FC<HypothesisCardsProps> = ({
     data,
     type,
+    title,
     darkMode = false,
-    onExploreNode
+    onExploreNode,
+    error,
+    onRetry
 }) => {
     const [expandedIndex, setExpandedIndex] = useState<number | null>(null);
 
-    if (!data || data.length === 0) return null;
+    if (!error && (!data || data.length === 0)) return null;
 
     const getTypeConfig = () => {
         switch (type) {
@@ -71,10 +91,32 @@ const HypothesisCards: React.FC<HypothesisCardsProps> = ({
                     borderColor: darkMode ? 'border-indigo-500/30' : 'border-indigo-200',
                     bgColor: darkMode ? 'bg-indigo-500/10' : 'bg-indigo-50'
                 };
+            case 'geneset':
+                return {
+                    icon: '🧬',
+                    title: 'Gene-Set Neighborhood',
+                    color: darkMode ? 'from-emerald-500 to-teal-500' : 'from-emerald-600 to-teal-600',
+                    borderColor: darkMode ? 'border-emerald-500/30' : 'border-emerald-200',
+                    bgColor: darkMode ? 'bg-emerald-500/10' : 'bg-emerald-50'
+                };
         }
     };
 
-    const config = getTypeConfig();
+    const config = { ...getTypeConfig(), ...(title ? { title } : {}) };
+
+    if (error) {
+        return (
+            <div className="my-4 space-y-3">
+                <div className="flex items-center gap-2 mb-3">
+                    <span className="text-2xl">{config.icon}</span>
+                    <h3 className={`font-semibold text-sm text-primary`}>
+                        {config.title}
+                    </h3>
+                </div>
+                <ErrorRecovery error={error} onRetry={onRetry} />
+            </div>
+        );
+    }
 
     const renderRepurposingCard = (item: RepurposingCandidate, index: number) => {
         const isExpanded = expandedIndex === index;
@@ -199,9 +241,9 @@ const HypothesisCards: React.FC<HypothesisCardsProps> = ({
                             {item.target_type && (
                                 <span className={`
                   text-xs px-2 py-0.5 rounded-full font-medium
-                  bg-surface-hover text-secondary
+                  bg-surface-hover ${nodeTypeInfo(item.target_type)?.textClass ?? 'text-secondary'}
                 `}>
-                                    {item.target_type}
+                                    {nodeTypeLabel(item.target_type)}
                                 </span>
                             )}
                         </div>
@@ -210,7 +252,7 @@ const HypothesisCards: React.FC<HypothesisCardsProps> = ({
                             {item.relation_to_disease && (
                                 <div className="flex items-start gap-2">
                                     <span className="text-xs opacity-70 flex-shrink-0">Relation:</span>
-                                    <span className="font-medium">{item.relation_to_disease}</span>
+                                    <span className="font-medium">{relationLabel(item.relation_to_disease)}</span>
                                 </div>
                             )}
                             {item.existing_drugs !== undefined && (
@@ -349,6 +391,83 @@ const HypothesisCards: React.FC<HypothesisCardsProps> = ({
         );
     };
 
+    const renderGeneSetCard = (item: GeneSetLink, index: number) => {
+        const isExpanded = expandedIndex === index;
+        const shownGenes = isExpanded ? item.genes : item.genes.slice(0, 6);
+
+        return (
+            <div
+                key={index}
+                className={`
+          group border rounded-xl p-4 transition-all duration-200
+          ${config.borderColor}
+          bg-surface/50 hover:bg-surface/70
+        `}
+            >
+                <div className="flex items-start justify-between gap-3">
+                    <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2 mb-2">
+                            <button
+                                onClick={() => onExploreNode?.(item.name)}
+                                className={`
+                  font-semibold text-base truncate hover:underline
+                  ${darkMode ? 'text-emerald-400' : 'text-emerald-700'}
+                `}
+                            >
+                                {item.name}
+                            </button>
+                            {item.type && (
+                                <span className={`
+                  text-xs px-2 py-0.5 rounded-full font-medium
+                  bg-surface-hover ${nodeTypeInfo(item.type)?.textClass ?? 'text-secondary'}
+                `}>
+                                    {nodeTypeLabel(item.type)}
+                                </span>
+                            )}
+                        </div>
+
+                        <div className={`text-sm space-y-1 text-tertiary`}>
+                            <div className="flex items-start gap-2">
+                                <span className="text-xs opacity-70 flex-shrink-0">Set genes:</span>
+                                <span className="font-bold">
+                                    {item.genes.length}
+                                    {item.coverage !== undefined && ` (${Math.round(item.coverage * 100)}%)`}
+                                </span>
+                            </div>
+                            <div className="flex flex-wrap gap-1">
+                                {shownGenes.map(gene => (
+                                    <button
+                                        key={gene}
+                                        onClick={() => onExploreNode?.(gene)}
+                                        className="text-xs px-1.5 py-0.5 rounded bg-surface-hover font-mono hover:underline"
+                                    >
+                                        {gene}
+                                    </button>
+                                ))}
+                                {shownGenes.length < item.genes.length && (
+                                    <span className="text-xs px-1.5 py-0.5 opacity-70">+{item.genes.length - shownGenes.length} more</span>
+                                )}
+                            </div>
+                        </div>
+                    </div>
+
+                    <button
+                        onClick={() => setExpandedIndex(isExpanded ? null : index)}
+                        className={`
+              flex-shrink-0 w-8 h-8 rounded-lg flex items-center justify-center
+              transition-colors
+              ${darkMode ? 'hover:bg-emerald-500/20' : 'hover:bg-emerald-100'}
+            `}
+                    >
+                        <span className="material-symbols-outlined text-[18px]">
+                            {isExpanded ? 'expand_less' : 'expand_more'}
+                        </span>
+                    </button>
+                </div>
+            </div>
+        );
+    };
+
     return (
         <div className="my-4 space-y-3">
             {/* Header */}
@@ -369,6 +488,8 @@ const HypothesisCards: React.FC<HypothesisCardsProps> = ({
                         return renderRepurposingCard(item as RepurposingCandidate, index);
                     } else if (type === 'targets') {
                         return renderTargetCard(item as TherapeuticTarget, index);
+                    } else if (type === 'geneset') {
+                        return renderGeneSetCard(item as GeneSetLink, index);
                     } else {
                         return renderCombinationCard(item as DrugCombination, index);
                     }
@@ -0,0 +1,124 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { kgCache, CacheEntryInfo, CacheStats } from '../services/kgCache';
+
+const formatSize = (chars: number) =>
+    chars > 1_000_000 ? `${(chars / 1_000_000).toFixed(1)} MB` : `${Math.max(1, Math.round(chars / 1000))} KB`;
+
+const formatRemaining = (ms: number) => {
+    const minutes = Math.round(ms / 60_000);
+    if (minutes < 1) return '<1 min';
+    if (minutes < 60) return `${minutes} min`;
+    return `${Math.round(minutes / 60)} h`;
+};
+
+/**
+ * Cached PrimeKG responses: hit rate, entries with time to expiry, and a clear control.
+ */
+const KgCacheInspector: React.FC = () => {
+    const [stats, setStats] = useState<CacheStats | null>(null);
+    const [entries, setEntries] = useState<CacheEntryInfo[]>([]);
+    const [isClearing, setIsClearing] = useState(false);
+
+    const refresh = useCallback(async () => {
+        const [nextStats, nextEntries] = await Promise.all([kgCache.stats(), kgCache.entries()]);
+        setStats(nextStats);
+        setEntries(nextEntries);
+    }, []);
+
+    useEffect(() => {
+        refresh();
+    }, [refresh]);
+
+    const handleClear = async () => {
+        setIsClearing(true);
+        try {
+            await kgCache.clear();
+            await refresh();
+        } finally {
+            setIsClearing(false);
+        }
+    };
+
+    const lookups = stats ? stats.hits + stats.misses + stats.coalesced : 0;
+    const now = Date.now();
+
+    return (
+        <div className="rounded-2xl shadow-sm border p-6 mt-6 transition-colors duration-300 bg-card border-border">
+            <div className="flex items-center justify-between mb-4">
+                <div>
+                    <h3 className="text-lg font-bold text-foreground">Response Cache</h3>
+                    <p className="text-sm text-muted-foreground">
+                        PrimeKG responses reused across queries{stats?.persistent ? ' and reloads' : ''}.
+                    </p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <button
+                        onClick={refresh}
+                        className="px-3 py-1.5 rounded-lg text-sm border border-border text-muted-foreground hover:text-foreground hover:bg-muted transition-colors"
+                    >
+                        Refresh
+                    </button>
+                    <button
+                        onClick={handleClear}
+                        disabled={isClearing || !stats?.entries}
+                        className="px-3 py-1.5 rounded-lg text-sm border border-red-500/30 text-red-500 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                    >
+                        {isClearing ? 'Clearing...' : 'Clear cache'}
+                    </button>
+                </div>
+            </div>
+
+            {stats && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 text-left">
+                    {[
+                        { label: 'Entries', val: stats.entries.toLocaleString() },
+                        { label: 'Size', val: stats.entries ? formatSize(stats.size) : '0 KB' },
+                        { label: 'Hit rate', val: lookups ? `${Math.round(((stats.hits + stats.coalesced) / lookups) * 100)}%` : '-' },
+                        { label: 'Coalesced', val: stats.coalesced.toLocaleString() },
+                    ].map(item => (
+                        <div key={item.label} className="p-3 rounded-lg border border-border">
+                            <div className="text-xl font-bold text-foreground">{item.val}</div>
+                            <div className="text-xs uppercase tracking-wider text-muted-foreground">{item.label}</div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {entries.length > 0 ? (
+                <div className="max-h-72 overflow-y-auto border border-border rounded-lg">
+                    <table className="w-full text-xs text-left">
+                        <thead className="sticky top-0 bg-muted text-muted-foreground">
+                            <tr>
+                                <th className="px-3 py-2 font-medium">Request</th>
+                                <th className="px-3 py-2 font-medium">Class</th>
+                                <th className="px-3 py-2 font-medium">Size</th>
+                                <th className="px-3 py-2 font-medium">Expires in</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {entries.map(entry => {
+                                // Keys are "<backend>|<method>|<json args>"
+                                const [, method, ...rest] = entry.key.split('|');
+                                const args = rest.join('|');
+                                return (
+                                    <tr key={entry.key} className="border-t border-border text-foreground">
+                                        <td className="px-3 py-1.5 font-mono truncate max-w-xs" title={entry.key}>
+                                            {method}({args.slice(1, -1)})
+                                        </td>
+                                        <td className="px-3 py-1.5 text-muted-foreground">{entry.cacheClass}</td>
+                                        <td className="px-3 py-1.5 text-muted-foreground">{formatSize(entry.size)}</td>
+                                        <td className="px-3 py-1.5 text-muted-foreground">{formatRemaining(entry.expiresAt - now)}</td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground">No cached responses yet.</p>
+            )}
+        </div>
+    );
+};
+
+export default KgCacheInspector;
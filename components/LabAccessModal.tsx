@@ -1,7 +1,7 @@
 import React, { useState } from 'react';
 import { useApiKey } from '../contexts/ApiKeyContext';
-import { GoogleGenAI } from '@google/genai';
 import { GeminiModel } from '../types';
+import { createGeminiProvider } from '../services/geminiProvider';
 
 export default function LabAccessModal() {
   const [keyInput, setKeyInput] = useState('');
@@ -16,13 +16,12 @@ export default function LabAccessModal() {
     setError(null);
 
     try {
-      // Simple verification call to Gemini using the pattern from geminiService.ts
-      const ai = new GoogleGenAI({ apiKey: keyInput });
-      const chat = ai.chats.create({
+      // Simple verification call through the same provider the agent uses
+      await createGeminiProvider(keyInput).generateText({
         model: GeminiModel.FLASH,
-        config: { maxOutputTokens: 10 }
+        prompt: "Ping",
+        maxOutputTokens: 10
       });
-      await chat.sendMessage({ message: "Ping" });
       
       // If successful, save the key
       setApiKey(keyInput);
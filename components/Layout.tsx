@@ -5,9 +5,12 @@ import Sidebar from './Sidebar';
 import AppBackground from './AppBackground';
 import ApiKeyModal from './ApiKeyModal';
 import RecoveryKeyModal from './RecoveryKeyModal';
+import ErrorRecovery from './ErrorRecovery';
 import { GeminiModel } from '../types';
 import { ChatSession } from '../schemas/sessionSchema';
 import { useApiKey } from '../contexts/ApiKeyContext';
+import { useKgCircuitState } from '../hooks/useKgQueries';
+import { AppErrorInfo } from '../services/errors';
 
 /**
  * Props for the Layout component
@@ -24,6 +27,9 @@ export interface LayoutProps {
     onSessionPin: (sessionId: string, pinned: boolean) => void;
     onDeleteAll: () => void;
     isOffline?: boolean;
+    /** Last failed cloud sync of the sessions, if any */
+    syncError?: AppErrorInfo | null;
+    onRetrySync?: () => void;
 }
 
 /**
@@ -41,8 +47,11 @@ const Layout: React.FC<LayoutProps> = ({
     onSessionRename,
     onSessionPin,
     onDeleteAll,
+    syncError,
+    onRetrySync,
 }) => {
     const { isValid, clearApiKey } = useApiKey();
+    const kgCircuitState = useKgCircuitState();
     const location = useLocation();
     const [sidebarOpen, setSidebarOpen] = useState(false); // Mobile
     const [sidebarCollapsed, setSidebarCollapsed] = useState(() => {
@@ -128,6 +137,26 @@ const Layout: React.FC<LayoutProps> = ({
                 showBackButton={!isDashboard && !isChatPage}
             />
 
+            {/* KG degraded banner (circuit breaker open) */}
+            {kgCircuitState !== 'closed' && (
+                <div className="flex items-center justify-center gap-2 px-4 py-1.5 text-xs text-amber-600 dark:text-amber-400 bg-amber-500/10 border-b border-amber-500/30">
+                    <span className="material-symbols-outlined text-[16px]">cloud_off</span>
+                    <span>
+                        <b>PrimeKG degraded:</b>{' '}
+                        {kgCircuitState === 'open'
+                            ? 'the server is returning repeated errors, so requests are paused and will resume automatically.'
+                            : 'checking whether the server has recovered...'}
+                    </span>
+                </div>
+            )}
+
+            {/* Cloud sync failure (sessions are still kept locally) */}
+            {syncError && (
+                <div className="px-4 py-2">
+                    <ErrorRecovery error={syncError} onRetry={onRetrySync} />
+                </div>
+            )}
+
             {/* Main content area with sidebar */}
             <div className="flex-1 flex min-h-0">
                 <Sidebar
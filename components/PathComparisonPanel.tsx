@@ -0,0 +1,177 @@
+import React from 'react';
+import type { PathQuery } from '../types';
+import { MAX_PATH_DEPTH, MAX_PATH_LIMIT, PATH_MODES, ScoredPath } from '../utils/pathAnalysis';
+import { nodeTypeColor, relationColor, relationInfo, relationLabel } from '../constants/kgTaxonomy';
+
+interface PathComparisonPanelProps {
+    source: string;
+    target: string;
+    query: PathQuery;
+    onQueryChange: (query: PathQuery) => void;
+    /** Run the query again between the same entities */
+    onSearch: () => void;
+    searching: boolean;
+    /** Most plausible first */
+    paths: ScoredPath[];
+    /** Ids of the paths highlighted on the canvas */
+    highlighted: Set<string>;
+    onHighlightChange: (ids: Set<string>) => void;
+    onNodeClick?: (nodeId: string) => void;
+    onClose: () => void;
+}
+
+/**
+ * Side panel comparing the paths between two entities: each path as a chain of entities and
+ * relations with its plausibility score, and a toggle for highlighting it on the graph
+ */
+const PathComparisonPanel: React.FC<PathComparisonPanelProps> = ({
+    source,
+    target,
+    query,
+    onQueryChange,
+    onSearch,
+    searching,
+    paths,
+    highlighted,
+    onHighlightChange,
+    onNodeClick,
+    onClose
+}) => {
+    const toggle = (id: string) => {
+        const next = new Set(highlighted);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        onHighlightChange(next);
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+                <label className={`block text-[10px] font-bold uppercase tracking-widest text-tertiary truncate`} title={`${source} → ${target}`}>
+                    Paths: {source} → {target}
+                </label>
+                <button
+                    onClick={onClose}
+                    className="p-1 rounded-md text-tertiary hover:text-indigo-600 hover:bg-surface-hover"
+                    title="Close path comparison"
+                >
+                    <span className="material-symbols-outlined text-[16px]">close</span>
+                </button>
+            </div>
+
+            <div className="space-y-2">
+                <div role="radiogroup" aria-label="Path search mode" className="grid grid-cols-3 gap-1 p-1 rounded-lg bg-surface-hover">
+                    {PATH_MODES.map(({ mode, label, description }) => (
+                        <button
+                            key={mode}
+                            role="radio"
+                            aria-checked={query.mode === mode}
+                            onClick={() => onQueryChange({ ...query, mode })}
+                            className={`py-1 rounded-md text-[10px] font-bold uppercase tracking-wider transition-colors ${query.mode === mode ? 'bg-surface text-indigo-500 shadow-sm' : 'text-tertiary hover:text-indigo-600'}`}
+                            title={description}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+                <div className="flex items-center gap-2 text-[11px] text-secondary">
+                    <label className="flex items-center gap-1">
+                        Max hops
+                        <select
+                            value={query.maxDepth}
+                            onChange={(e) => onQueryChange({ ...query, maxDepth: Number(e.target.value) })}
+                            className="px-1 py-0.5 rounded border border-border bg-surface text-foreground"
+                        >
+                            {Array.from({ length: MAX_PATH_DEPTH }, (_, i) => i + 1).map(depth => (
+                                <option key={depth} value={depth}>{depth}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-1">
+                        Paths
+                        <input
+                            type="number"
+                            min={1}
+                            max={MAX_PATH_LIMIT}
+                            value={query.limit}
+                            disabled={query.mode === 'shortest'}
+                            onChange={(e) => onQueryChange({ ...query, limit: Math.min(MAX_PATH_LIMIT, Math.max(1, Number(e.target.value) || 1)) })}
+                            className="w-12 px-1 py-0.5 rounded border border-border bg-surface text-foreground disabled:opacity-40"
+                        />
+                    </label>
+                    <button
+                        onClick={onSearch}
+                        disabled={searching}
+                        className="ml-auto px-2 py-1 rounded-md text-[10px] font-bold uppercase tracking-wider border border-indigo-500/30 text-indigo-500 hover:bg-indigo-500/10 disabled:opacity-50"
+                    >
+                        {searching ? 'Searching...' : 'Search'}
+                    </button>
+                </div>
+            </div>
+
+            {paths.length > 0 && (
+                <div className="flex items-center justify-between text-[10px] text-tertiary">
+                    <span>{paths.length} path{paths.length === 1 ? '' : 's'}, most plausible first</span>
+                    <span className="flex gap-2">
+                        <button onClick={() => onHighlightChange(new Set(paths.map(p => p.id)))} className="hover:text-indigo-600">Highlight all</button>
+                        <button onClick={() => onHighlightChange(new Set())} className="hover:text-indigo-600">None</button>
+                    </span>
+                </div>
+            )}
+
+            <div className="space-y-2 max-h-96 overflow-y-auto pr-1 custom-scrollbar">
+                {paths.map((path, index) => {
+                    const active = highlighted.has(path.id);
+                    return (
+                        <div
+                            key={path.id}
+                            className={`p-2.5 rounded-xl border transition-colors ${active ? 'border-indigo-500/60 bg-indigo-500/5' : 'border-border bg-surface/50'}`}
+                        >
+                            <div className="flex items-center gap-2 mb-2">
+                                <input
+                                    type="checkbox"
+                                    checked={active}
+                                    onChange={() => toggle(path.id)}
+                                    aria-label={`Highlight path ${index + 1}`}
+                                />
+                                <span className="text-[11px] font-bold text-primary">#{index + 1}</span>
+                                <span className="text-[10px] text-tertiary">{path.hops} hop{path.hops === 1 ? '' : 's'}</span>
+                                <div
+                                    className="flex-1 h-1.5 rounded-full bg-surface-hover overflow-hidden"
+                                    title={`Edge types ×${path.relationScore.toFixed(2)} · Hub penalty ×${path.hubScore.toFixed(2)}`}
+                                >
+                                    <div className="h-full bg-indigo-500" style={{ width: `${Math.round(path.score * 100)}%` }} />
+                                </div>
+                                <span className="text-[10px] font-mono text-secondary">{Math.round(path.score * 100)}%</span>
+                            </div>
+                            <div className="flex flex-wrap items-center gap-x-1 gap-y-1 text-[11px]">
+                                {path.steps.map((step, i) => (
+                                    <React.Fragment key={i}>
+                                        {step.edge && (
+                                            <span className="font-mono text-[10px]" style={{ color: relationColor(step.edge.relation) }}>
+                                                {relationInfo(step.edge.relation)?.directed === false
+                                                    ? `—${relationLabel(step.edge.relation)}—`
+                                                    : step.forward
+                                                        ? `—${relationLabel(step.edge.relation)}→`
+                                                        : `←${relationLabel(step.edge.relation)}—`}
+                                            </span>
+                                        )}
+                                        <button
+                                            onClick={() => onNodeClick?.(step.node.id)}
+                                            className="inline-flex items-center gap-1 font-medium text-primary hover:underline"
+                                        >
+                                            <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: nodeTypeColor(step.node.type) }} />
+                                            {step.node.name}
+                                        </button>
+                                    </React.Fragment>
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default PathComparisonPanel;
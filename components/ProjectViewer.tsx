@@ -7,6 +7,8 @@ interface ProjectViewerProps {
     onUpdateNotes: (itemId: string, notes: string) => void;
     onUpdateTags: (itemId: string, tags: string[]) => void;
     onExploreNode: (nodeName: string) => void;
+    /** Reopen a saved `graph` item in the explorer */
+    onOpenGraph?: (item: SavedItem) => void;
     darkMode?: boolean;
 }
 
@@ -19,6 +21,7 @@ const ProjectViewer: React.FC<ProjectViewerProps> = ({
     onUpdateNotes,
     onUpdateTags,
     onExploreNode,
+    onOpenGraph,
     darkMode = false,
 }) => {
     const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
@@ -125,12 +128,14 @@ const ProjectViewer: React.FC<ProjectViewerProps> = ({
                                                 onClick={() => {
                                                     if (item.type === 'entity') {
                                                         onExploreNode(item.name);
+                                                    } else if (item.type === 'graph') {
+                                                        onOpenGraph?.(item);
                                                     }
                                                 }}
                                                 className={`
                           font-semibold text-sm truncate hover:underline
                           text-accent
-                          ${item.type !== 'entity' ? 'cursor-default hover:no-underline' : ''}
+                          ${item.type !== 'entity' && !(item.type === 'graph' && onOpenGraph) ? 'cursor-default hover:no-underline' : ''}
                         `}
                                             >
                                                 {item.name}
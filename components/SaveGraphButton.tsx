@@ -0,0 +1,64 @@
+import React, { useState } from 'react';
+import type { Project } from '../schemas/projectSchema';
+
+interface SaveGraphButtonProps {
+    projects: Project[];
+    /** Listed first; the project last opened on the Projects page */
+    currentProjectId?: string | null;
+    onSave: (projectId: string) => void;
+}
+
+/**
+ * Toolbar button that saves the current graph view into a project
+ */
+const SaveGraphButton: React.FC<SaveGraphButtonProps> = ({ projects, currentProjectId, onSave }) => {
+    const [showMenu, setShowMenu] = useState(false);
+
+    const ordered = [...projects].sort((a, b) =>
+        Number(b.id === currentProjectId) - Number(a.id === currentProjectId)
+    );
+
+    return (
+        <div className="relative">
+            <button
+                onClick={() => setShowMenu(open => !open)}
+                className="p-2 rounded-lg border backdrop-blur-md shadow-lg transition-all bg-surface/90 border-border text-tertiary hover:text-indigo-600 hover:bg-surface-hover"
+                title="Save graph to project"
+                aria-haspopup="menu"
+                aria-expanded={showMenu}
+            >
+                <span className="material-symbols-outlined text-[20px]">bookmark_add</span>
+            </button>
+
+            {showMenu && (
+                <div role="menu" className="absolute right-full top-0 mr-2 w-56 p-1 rounded-lg border shadow-xl bg-surface border-border">
+                    {ordered.length === 0 ? (
+                        <p className="px-3 py-2 text-xs text-tertiary">
+                            No projects yet. Create one on the Projects page.
+                        </p>
+                    ) : (
+                        ordered.map(project => (
+                            <button
+                                key={project.id}
+                                role="menuitem"
+                                onClick={() => {
+                                    onSave(project.id);
+                                    setShowMenu(false);
+                                }}
+                                className="w-full flex items-center gap-2 px-3 py-2 rounded-md text-left text-xs text-primary hover:bg-surface-hover transition-colors"
+                            >
+                                <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: project.color }} />
+                                <span className="flex-1 truncate">{project.name}</span>
+                                {project.id === currentProjectId && (
+                                    <span className="text-[10px] text-tertiary">current</span>
+                                )}
+                            </button>
+                        ))
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SaveGraphButton;
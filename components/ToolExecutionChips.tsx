@@ -1,4 +1,5 @@
 import React from 'react';
+import { getDeclaredTool, serverToolLabel } from '../services/toolSchemaSync';
 
 /**
  * Maps tool calls to user-friendly labels and icons.
@@ -15,6 +16,11 @@ const TOOL_STATUS_MAP: Record<string, ToolStatus> = {
         label: 'Searching 129K entities...',
         color: 'from-cyan-500 to-blue-500'
     },
+    resolveEntities: {
+        icon: '🧭',
+        label: 'Resolving entities...',
+        color: 'from-cyan-500 to-teal-500'
+    },
     searchText: {
         icon: '📝',
         label: 'Text search...',
@@ -64,11 +70,37 @@ const TOOL_STATUS_MAP: Record<string, ToolStatus> = {
         icon: '📊',
         label: 'Fetching statistics...',
         color: 'from-blue-500 to-indigo-500'
+    },
+    getLiterature: {
+        icon: '📚',
+        label: 'Searching literature...',
+        color: 'from-sky-500 to-indigo-500'
     }
 };
 
+/**
+ * Hand-written status, or one derived from the declaration the agent was given
+ * (the server's schema, for tools only it advertises)
+ */
+const statusOf = (name: string): ToolStatus | undefined => {
+    if (TOOL_STATUS_MAP[name]) return TOOL_STATUS_MAP[name];
+    const tool = getDeclaredTool(name);
+    return tool && { icon: '🛰️', label: serverToolLabel(tool), color: 'from-slate-500 to-zinc-500' };
+};
+
+/**
+ * A tool call as reported by the streaming agent loop.
+ */
+export interface LiveToolCall {
+    callId: string;
+    name: string;
+    status: 'running' | 'success' | 'empty' | 'error';
+}
+
 interface ToolExecutionChipsProps {
     traceEntries: string[];
+    /** Tool start/finish events; when provided they replace trace parsing */
+    toolCalls?: LiveToolCall[];
     darkMode?: boolean;
 }
 
@@ -108,21 +140,47 @@ const parseActiveTools = (traces: string[]): string[] => {
  */
 const ToolExecutionChips: React.FC<ToolExecutionChipsProps> = ({
     traceEntries,
+    toolCalls,
     darkMode = false
 }) => {
-    const activeTools = parseActiveTools(traceEntries);
+    const activeTools = toolCalls
+        ? toolCalls.filter(c => c.status === 'running').map(c => c.callId)
+        : parseActiveTools(traceEntries);
+    const finishedCalls = toolCalls ? toolCalls.filter(c => c.status !== 'running') : [];
+    const nameOf = (key: string) => toolCalls?.find(c => c.callId === key)?.name ?? key;
 
     // Also check if we're in initial processing (Model detected)
     const isProcessing = traceEntries.some(e => e.includes('Model:'));
     const hasActiveTools = activeTools.length > 0;
 
-    if (!isProcessing && !hasActiveTools) {
+    if (!isProcessing && !hasActiveTools && finishedCalls.length === 0) {
         return null;
     }
 
     return (
         <div className="flex flex-wrap gap-2 items-center justify-center py-3">
-            {/* Initial thinking indicator */}
+            {/* Completed tool chips */}
+            {finishedCalls.map((call) => {
+                const status = statusOf(call.name);
+                return (
+                    <div
+                        key={call.callId}
+                        className={`
+              inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium
+              bg-surface border text-secondary
+              ${call.status === 'error' ? 'border-red-500/40' : 'border-border'}
+            `}
+                        title={call.status === 'empty' ? 'No matches' : call.status === 'error' ? 'Failed' : 'Done'}
+                    >
+                        <span>{status?.icon || '⚙️'}</span>
+                        <span>{call.name}</span>
+                        <span className={call.status === 'error' ? 'text-red-500' : 'text-emerald-500'}>
+                            {call.status === 'error' ? '✗' : '✓'}
+                        </span>
+                    </div>
+                );
+            })}
+
             {isProcessing && !hasActiveTools && (
                 <div className={`
           inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium
@@ -136,8 +194,9 @@ const ToolExecutionChips: React.FC<ToolExecutionChipsProps> = ({
             )}
 
             {/* Active tool chips */}
-            {activeTools.map((toolName) => {
-                const status = TOOL_STATUS_MAP[toolName] || {
+            {activeTools.map((key) => {
+                const toolName = nameOf(key);
+                const status = statusOf(toolName) || {
                     icon: '⚙️',
                     label: `Running ${toolName}...`,
                     color: 'from-slate-500 to-zinc-500'
@@ -145,7 +204,7 @@ const ToolExecutionChips: React.FC<ToolExecutionChipsProps> = ({
 
                 return (
                     <div
-                        key={toolName}
+                        key={key}
                         className={`
               inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium
               text-white shadow-lg
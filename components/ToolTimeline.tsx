@@ -0,0 +1,61 @@
+import React from 'react';
+import type { ToolTraceEntry } from '../types';
+
+interface ToolTimelineProps {
+    entries: ToolTraceEntry[];
+}
+
+const STATUS_STYLES: Record<ToolTraceEntry['status'], string> = {
+    success: 'bg-emerald-500/70',
+    empty: 'bg-amber-400/70',
+    error: 'bg-red-500/70'
+};
+
+const formatDuration = (ms: number): string =>
+    ms >= 1000 ? `${(ms / 1000).toFixed(1)}s` : `${ms}ms`;
+
+/**
+ * Gantt-style view of the tool calls behind an answer.
+ * Bars share one time axis, so calls that ran in parallel overlap.
+ */
+const ToolTimeline: React.FC<ToolTimelineProps> = ({ entries }) => {
+    if (entries.length === 0) return null;
+
+    const start = Math.min(...entries.map(e => e.startedAt));
+    const end = Math.max(...entries.map(e => e.endedAt));
+    const span = Math.max(end - start, 1);
+
+    return (
+        <div className="mt-2 space-y-1.5 not-prose">
+            <div className="flex justify-between text-[10px] text-tertiary font-mono">
+                <span>0ms</span>
+                <span>{formatDuration(span)}</span>
+            </div>
+            {entries.map(entry => {
+                const left = ((entry.startedAt - start) / span) * 100;
+                const width = Math.max((entry.durationMs / span) * 100, 1);
+                const argsLabel = Object.values(entry.args || {}).map(String).join(', ');
+
+                return (
+                    <div key={entry.id} className="flex items-center gap-2 text-[11px]">
+                        <div className="w-40 shrink-0 truncate font-mono text-secondary" title={`${entry.name}(${argsLabel})`}>
+                            <span className="text-tertiary">T{entry.turn}</span> {entry.name}
+                        </div>
+                        <div className="relative flex-1 h-3 rounded bg-muted">
+                            <div
+                                className={`absolute top-0 h-3 rounded ${STATUS_STYLES[entry.status]}`}
+                                style={{ left: `${left}%`, width: `${width}%` }}
+                                title={`${entry.status} · ${formatDuration(entry.durationMs)} · ${entry.resultSize} results`}
+                            />
+                        </div>
+                        <div className="w-20 shrink-0 text-right font-mono text-tertiary">
+                            {formatDuration(entry.durationMs)} · {entry.resultSize}
+                        </div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ToolTimeline;
@@ -0,0 +1,46 @@
+/**
+ * Unit tests for the PrimeKG node type and relation vocabulary
+ * @module constants/__tests__/kgTaxonomy.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  NODE_TYPE_LIST,
+  PRIMEKG_RELATIONS,
+  normalizeNodeType,
+  normalizeRelation,
+  relationInfo,
+  nodeTypeColor,
+  UNKNOWN_NODE_COLOR,
+} from '../kgTaxonomy';
+
+describe('kgTaxonomy', () => {
+  it('should cover the 10 node types and 30 PrimeKG relations', () => {
+    expect(NODE_TYPE_LIST).toHaveLength(10);
+    expect(Object.keys(PRIMEKG_RELATIONS)).toHaveLength(30);
+  });
+
+  it('should normalize server spellings of node types', () => {
+    expect(normalizeNodeType('gene/protein')).toBe('gene/protein');
+    expect(normalizeNodeType('Gene')).toBe('gene/protein');
+    expect(normalizeNodeType('gene_protein')).toBe('gene/protein');
+    expect(normalizeNodeType('Biological Process')).toBe('biological_process');
+    expect(normalizeNodeType('effect/phenotype')).toBe('effect/phenotype');
+    expect(normalizeNodeType('molfunc')).toBe('molecular_function');
+    expect(normalizeNodeType('galaxy')).toBeNull();
+    expect(nodeTypeColor('galaxy')).toBe(UNKNOWN_NODE_COLOR);
+    expect(nodeTypeColor('Gene')).toBe(nodeTypeColor('gene/protein'));
+  });
+
+  it('should map raw relations, display relations and variants to one vocabulary', () => {
+    expect(normalizeRelation('protein_protein')).toBe('ppi');
+    expect(normalizeRelation('drug_effect')).toBe('side_effect');
+    expect(normalizeRelation('off-label use')).toBe('off_label_use');
+    expect(normalizeRelation('Synergistic Interaction')).toBe('synergistic_interaction');
+    expect(normalizeRelation('contraindication')).toBe('contraindication');
+    expect(normalizeRelation('anatomy_protein_absent')).toBe('expression_absent');
+    expect(normalizeRelation('teleports_to')).toBeNull();
+    expect(relationInfo('ppi')?.directed).toBe(false);
+    expect(relationInfo('indication')?.directed).toBe(true);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * PrimeKG Taxonomy - Single Source of Truth
+ * The 10 node types and the relation vocabulary of PrimeKG, with display names, colors and
+ * directionality, plus normalization of the spellings different servers and exports use
+ * ("gene/protein", "Gene", "gene_protein", "Biological Process", "bioprocess", ...).
+ */
+
+export type NodeType =
+  | 'gene/protein'
+  | 'drug'
+  | 'disease'
+  | 'effect/phenotype'
+  | 'biological_process'
+  | 'molecular_function'
+  | 'cellular_component'
+  | 'pathway'
+  | 'anatomy'
+  | 'exposure';
+
+export interface NodeTypeInfo {
+  type: NodeType;
+  label: string;
+  /** Hex color used by the graph canvas and legends */
+  color: string;
+  /** Tailwind text color class for badges and inspector headers */
+  textClass: string;
+  /** Ontology PrimeKG imported the type from */
+  source: string;
+}
+
+export const NODE_TYPES: Record<NodeType, NodeTypeInfo> = {
+  'gene/protein': { type: 'gene/protein', label: 'Gene/Protein', color: '#22c55e', textClass: 'text-emerald-500', source: 'Entrez Gene' },
+  drug: { type: 'drug', label: 'Drug', color: '#3b82f6', textClass: 'text-blue-500', source: 'DrugBank' },
+  disease: { type: 'disease', label: 'Disease', color: '#ef4444', textClass: 'text-red-500', source: 'MONDO' },
+  'effect/phenotype': { type: 'effect/phenotype', label: 'Phenotype', color: '#f97316', textClass: 'text-orange-500', source: 'HPO' },
+  biological_process: { type: 'biological_process', label: 'Biological Process', color: '#06b6d4', textClass: 'text-cyan-500', source: 'Gene Ontology' },
+  molecular_function: { type: 'molecular_function', label: 'Molecular Function', color: '#8b5cf6', textClass: 'text-violet-500', source: 'Gene Ontology' },
+  cellular_component: { type: 'cellular_component', label: 'Cellular Component', color: '#14b8a6', textClass: 'text-teal-500', source: 'Gene Ontology' },
+  pathway: { type: 'pathway', label: 'Pathway', color: '#ec4899', textClass: 'text-pink-500', source: 'Reactome' },
+  anatomy: { type: 'anatomy', label: 'Anatomy', color: '#eab308', textClass: 'text-yellow-500', source: 'UBERON' },
+  exposure: { type: 'exposure', label: 'Exposure', color: '#6366f1', textClass: 'text-indigo-500', source: 'CTD' },
+};
+
+export const NODE_TYPE_LIST: NodeTypeInfo[] = Object.values(NODE_TYPES);
+
+export const UNKNOWN_NODE_COLOR = '#64748b';
+export const UNKNOWN_NODE_TEXT_CLASS = 'text-slate-500';
+
+// Compact spellings ("geneprotein", "biologicalprocess") and short forms used by PrimeKG relation names
+const NODE_TYPE_ALIASES: Record<string, NodeType> = {
+  geneprotein: 'gene/protein',
+  gene: 'gene/protein',
+  protein: 'gene/protein',
+  drug: 'drug',
+  disease: 'disease',
+  effectphenotype: 'effect/phenotype',
+  phenotype: 'effect/phenotype',
+  effect: 'effect/phenotype',
+  biologicalprocess: 'biological_process',
+  bioprocess: 'biological_process',
+  molecularfunction: 'molecular_function',
+  molfunc: 'molecular_function',
+  cellularcomponent: 'cellular_component',
+  cellcomp: 'cellular_component',
+  pathway: 'pathway',
+  anatomy: 'anatomy',
+  exposure: 'exposure',
+};
+
+/**
+ * Canonical PrimeKG node type for a server or export spelling, or null when unrecognized
+ */
+export function normalizeNodeType(raw?: string | null): NodeType | null {
+  if (!raw) return null;
+  const key = raw.toLowerCase().replace(/[/\s_-]/g, '');
+  if (NODE_TYPE_ALIASES[key]) return NODE_TYPE_ALIASES[key];
+
+  // Loose variants ("Gene Symbol", "Chemical", "GO Process")
+  if (key.includes('gene') || key.includes('protein')) return 'gene/protein';
+  if (key.includes('drug') || key.includes('chem')) return 'drug';
+  if (key.includes('disease')) return 'disease';
+  if (key.includes('phenotype')) return 'effect/phenotype';
+  if (key.includes('pathway')) return 'pathway';
+  if (key.includes('anatomy')) return 'anatomy';
+  if (key.includes('exposure')) return 'exposure';
+  if (key.includes('process')) return 'biological_process';
+  if (key.includes('function')) return 'molecular_function';
+  if (key.includes('component')) return 'cellular_component';
+  return null;
+}
+
+export const nodeTypeInfo = (raw?: string | null): NodeTypeInfo | null => {
+  const type = normalizeNodeType(raw);
+  return type ? NODE_TYPES[type] : null;
+};
+
+export const nodeTypeColor = (raw?: string | null): string => nodeTypeInfo(raw)?.color ?? UNKNOWN_NODE_COLOR;
+
+export const nodeTypeLabel = (raw?: string | null): string => nodeTypeInfo(raw)?.label ?? (raw || 'Unknown');
+
+// ============================================================================
+// Relations
+// ============================================================================
+
+/**
+ * PrimeKG display relations (the `display_relation` column, snake_cased)
+ */
+export type RelationType =
+  | 'ppi'
+  | 'target'
+  | 'enzyme'
+  | 'transporter'
+  | 'carrier'
+  | 'indication'
+  | 'contraindication'
+  | 'off_label_use'
+  | 'synergistic_interaction'
+  | 'side_effect'
+  | 'associated_with'
+  | 'parent_child'
+  | 'phenotype_present'
+  | 'phenotype_absent'
+  | 'interacts_with'
+  | 'linked_to'
+  | 'expression_present'
+  | 'expression_absent';
+
+export interface RelationInfo {
+  type: RelationType;
+  label: string;
+  color: string;
+  /** False for symmetric relations (PPI, drug synergy), drawn without arrowheads */
+  directed: boolean;
+  description: string;
+}
+
+export const RELATIONS: Record<RelationType, RelationInfo> = {
+  ppi: { type: 'ppi', label: 'Protein interaction', color: '#10b981', directed: false, description: 'Physical protein-protein interaction' },
+  target: { type: 'target', label: 'Target', color: '#f59e0b', directed: true, description: 'Drug acts on the protein' },
+  enzyme: { type: 'enzyme', label: 'Enzyme', color: '#eab308', directed: true, description: 'Drug is metabolized by the enzyme' },
+  transporter: { type: 'transporter', label: 'Transporter', color: '#84cc16', directed: true, description: 'Drug is moved by the transporter' },
+  carrier: { type: 'carrier', label: 'Carrier', color: '#6366f1', directed: true, description: 'Drug is bound by the carrier protein' },
+  indication: { type: 'indication', label: 'Indication', color: '#3b82f6', directed: true, description: 'Drug is approved for the disease' },
+  contraindication: { type: 'contraindication', label: 'Contraindication', color: '#ef4444', directed: true, description: 'Drug should be avoided with the disease' },
+  off_label_use: { type: 'off_label_use', label: 'Off-label use', color: '#06b6d4', directed: true, description: 'Drug is used for the disease without approval' },
+  synergistic_interaction: { type: 'synergistic_interaction', label: 'Synergistic interaction', color: '#8b5cf6', directed: false, description: 'Drugs interact when combined' },
+  side_effect: { type: 'side_effect', label: 'Side effect', color: '#f97316', directed: true, description: 'Drug causes the phenotype' },
+  associated_with: { type: 'associated_with', label: 'Associated with', color: '#a855f7', directed: false, description: 'Gene, phenotype or disease association' },
+  parent_child: { type: 'parent_child', label: 'Parent-child', color: '#71717a', directed: true, description: 'Ontology hierarchy' },
+  phenotype_present: { type: 'phenotype_present', label: 'Phenotype present', color: '#14b8a6', directed: true, description: 'Disease shows the phenotype' },
+  phenotype_absent: { type: 'phenotype_absent', label: 'Phenotype absent', color: '#e11d48', directed: true, description: 'Disease does not show the phenotype' },
+  interacts_with: { type: 'interacts_with', label: 'Interacts with', color: '#94a3b8', directed: false, description: 'Functional or pathway membership link' },
+  linked_to: { type: 'linked_to', label: 'Linked to', color: '#64748b', directed: true, description: 'Exposure linked to the entity' },
+  expression_present: { type: 'expression_present', label: 'Expressed in', color: '#22c55e', directed: true, description: 'Gene is expressed in the tissue' },
+  expression_absent: { type: 'expression_absent', label: 'Not expressed in', color: '#ec4899', directed: true, description: 'Gene is not expressed in the tissue' },
+};
+
+export const RELATION_LIST: RelationInfo[] = Object.values(RELATIONS);
+
+export const UNKNOWN_RELATION_COLOR = '#94a3b8';
+
+/**
+ * PrimeKG's 30 `relation` values: the node types they join and the display relation they carry.
+ * Relations that carry several display relations (drug_protein) map to the most common one.
+ */
+export const PRIMEKG_RELATIONS: Record<string, { relation: RelationType; source: NodeType; target: NodeType }> = {
+  protein_protein: { relation: 'ppi', source: 'gene/protein', target: 'gene/protein' },
+  drug_protein: { relation: 'target', source: 'drug', target: 'gene/protein' },
+  contraindication: { relation: 'contraindication', source: 'drug', target: 'disease' },
+  indication: { relation: 'indication', source: 'drug', target: 'disease' },
+  off_label_use: { relation: 'off_label_use', source: 'drug', target: 'disease' },
+  drug_drug: { relation: 'synergistic_interaction', source: 'drug', target: 'drug' },
+  drug_effect: { relation: 'side_effect', source: 'drug', target: 'effect/phenotype' },
+  phenotype_protein: { relation: 'associated_with', source: 'effect/phenotype', target: 'gene/protein' },
+  phenotype_phenotype: { relation: 'parent_child', source: 'effect/phenotype', target: 'effect/phenotype' },
+  disease_phenotype_negative: { relation: 'phenotype_absent', source: 'disease', target: 'effect/phenotype' },
+  disease_phenotype_positive: { relation: 'phenotype_present', source: 'disease', target: 'effect/phenotype' },
+  disease_protein: { relation: 'associated_with', source: 'disease', target: 'gene/protein' },
+  disease_disease: { relation: 'parent_child', source: 'disease', target: 'disease' },
+  bioprocess_bioprocess: { relation: 'parent_child', source: 'biological_process', target: 'biological_process' },
+  molfunc_molfunc: { relation: 'parent_child', source: 'molecular_function', target: 'molecular_function' },
+  cellcomp_cellcomp: { relation: 'parent_child', source: 'cellular_component', target: 'cellular_component' },
+  bioprocess_protein: { relation: 'interacts_with', source: 'biological_process', target: 'gene/protein' },
+  molfunc_protein: { relation: 'interacts_with', source: 'molecular_function', target: 'gene/protein' },
+  cellcomp_protein: { relation: 'interacts_with', source: 'cellular_component', target: 'gene/protein' },
+  pathway_pathway: { relation: 'parent_child', source: 'pathway', target: 'pathway' },
+  pathway_protein: { relation: 'interacts_with', source: 'pathway', target: 'gene/protein' },
+  exposure_protein: { relation: 'interacts_with', source: 'exposure', target: 'gene/protein' },
+  exposure_disease: { relation: 'linked_to', source: 'exposure', target: 'disease' },
+  exposure_exposure: { relation: 'parent_child', source: 'exposure', target: 'exposure' },
+  exposure_bioprocess: { relation: 'interacts_with', source: 'exposure', target: 'biological_process' },
+  exposure_molfunc: { relation: 'interacts_with', source: 'exposure', target: 'molecular_function' },
+  exposure_cellcomp: { relation: 'interacts_with', source: 'exposure', target: 'cellular_component' },
+  anatomy_anatomy: { relation: 'parent_child', source: 'anatomy', target: 'anatomy' },
+  anatomy_protein_present: { relation: 'expression_present', source: 'anatomy', target: 'gene/protein' },
+  anatomy_protein_absent: { relation: 'expression_absent', source: 'anatomy', target: 'gene/protein' },
+};
+
+/**
+ * Canonical display relation for a raw relation, display relation or loose variant
+ * ("off-label use", "Protein_Protein", "drug_effect"), or null when unrecognized
+ */
+export function normalizeRelation(raw?: string | null): RelationType | null {
+  if (!raw) return null;
+  const key = raw.trim().toLowerCase().replace(/[\s\-/]+/g, '_');
+  if (key in RELATIONS) return key as RelationType;
+  if (PRIMEKG_RELATIONS[key]) return PRIMEKG_RELATIONS[key].relation;
+
+  if (key.includes('ppi')) return 'ppi';
+  if (key.includes('synergistic')) return 'synergistic_interaction';
+  if (key.includes('contraindication')) return 'contraindication';
+  if (key.includes('indication')) return 'indication';
+  if (key.includes('target')) return 'target';
+  if (key.includes('enzyme')) return 'enzyme';
+  if (key.includes('transporter')) return 'transporter';
+  if (key.includes('carrier')) return 'carrier';
+  if (key.includes('side') || key.includes('effect')) return 'side_effect';
+  if (key.includes('associated')) return 'associated_with';
+  if (key.includes('phenotype') && key.includes('present')) return 'phenotype_present';
+  if (key.includes('phenotype') && key.includes('absent')) return 'phenotype_absent';
+  if (key.includes('expression') && key.includes('present')) return 'expression_present';
+  if (key.includes('expression') && key.includes('absent')) return 'expression_absent';
+  if (key.includes('off') || key.includes('label')) return 'off_label_use';
+  if (key.includes('parent') || key.includes('child')) return 'parent_child';
+  if (key.includes('linked')) return 'linked_to';
+  if (key.includes('interact')) return 'interacts_with';
+  return null;
+}
+
+export const relationInfo = (raw?: string | null): RelationInfo | null => {
+  const type = normalizeRelation(raw);
+  return type ? RELATIONS[type] : null;
+};
+
+export const relationColor = (raw?: string | null): string => relationInfo(raw)?.color ?? UNKNOWN_RELATION_COLOR;
+
+export const relationLabel = (raw?: string | null): string =>
+  relationInfo(raw)?.label ?? (raw ? raw.replace(/_/g, ' ') : 'related to');
+
+/**
+ * Node types and relations as a compact reference for agent system prompts
+ */
+export function describeTaxonomyForPrompt(): string {
+  const types = NODE_TYPE_LIST.map(t => `${t.type} (${t.source})`).join(', ');
+  const relations = RELATION_LIST.map(r => `${r.type}${r.directed ? '' : ' [symmetric]'}: ${r.description}`).join('\n- ');
+  return `Node types: ${types}\nRelations:\n- ${relations}`;
+}
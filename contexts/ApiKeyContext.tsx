@@ -1,10 +1,14 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { getLlmSettings, isLlmConfigured, saveLlmSettings, LLMSettings } from '../services/llmService';
 
 interface ApiKeyContextType {
   apiKey: string | null;
   setApiKey: (key: string) => void;
   isValid: boolean;
   clearApiKey: () => void;
+  /** Active LLM provider; read from here so a change applies without reloading the page */
+  llmSettings: LLMSettings;
+  setLlmSettings: (settings: LLMSettings) => void;
 }
 
 const ApiKeyContext = createContext<ApiKeyContextType | undefined>(undefined);
@@ -14,7 +18,9 @@ export const ApiKeyProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     return localStorage.getItem('primekg_gemini_api_key');
   });
 
-  const [isValid, setIsValid] = useState<boolean>(!!apiKey);
+  // A configured self-hosted model server counts as valid without a Gemini key
+  const [isValid, setIsValid] = useState<boolean>(() => isLlmConfigured());
+  const [llmSettings, setLlmSettingsInternal] = useState<LLMSettings>(() => getLlmSettings());
 
   const setApiKey = (key: string) => {
     localStorage.setItem('primekg_gemini_api_key', key);
@@ -25,11 +31,17 @@ export const ApiKeyProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   const clearApiKey = () => {
     localStorage.removeItem('primekg_gemini_api_key');
     setApiKeyInternal(null);
-    setIsValid(false);
+    setIsValid(isLlmConfigured());
+  };
+
+  const setLlmSettings = (settings: LLMSettings) => {
+    saveLlmSettings(settings);
+    setLlmSettingsInternal(settings);
+    setIsValid(isLlmConfigured(settings));
   };
 
   return (
-    <ApiKeyContext.Provider value={{ apiKey, setApiKey, isValid, clearApiKey }}>
+    <ApiKeyContext.Provider value={{ apiKey, setApiKey, isValid, clearApiKey, llmSettings, setLlmSettings }}>
       {children}
     </ApiKeyContext.Provider>
   );
@@ -1,6 +1,8 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import { ChatSessionsArraySchema, ChatSession, ChatMessage } from '../schemas/sessionSchema';
+import { ChatSessionSchema, ChatSession, ChatMessage, AppErrorInfoSchema, ToolTraceEntrySchema, AgentContinuationSchema } from '../schemas/sessionSchema';
+import { EvidenceSchema } from '../schemas/evidenceSchema';
 import { chatSyncService, getBrowserFingerprint } from '../services/supabaseService';
+import { describeError, AppErrorInfo } from '../services/errors';
 
 const STORAGE_KEY = 'primekg_chat_sessions';
 const HISTORY_KEY = 'primekg_chat_history';
@@ -11,6 +13,28 @@ export function useChatSessions() {
     const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
     const [isCloudSynced, setIsCloudSynced] = useState(false);
     const fingerprint = useRef(getBrowserFingerprint());
+    // Cloud operations that failed, keyed by what they sync, so a retry repeats each one once
+    const failedSyncs = useRef(new Map<string, () => Promise<void>>());
+    const [syncError, setSyncError] = useState<AppErrorInfo | null>(null);
+
+    /**
+     * Run a cloud operation in the background; a failure is kept (with the operation, for
+     * retrySync) and surfaced as `syncError` until every failed operation has gone through
+     */
+    const trackSync = useCallback((key: string, operation: () => Promise<void>) => {
+        operation().then(() => {
+            failedSyncs.current.delete(key);
+            if (failedSyncs.current.size === 0) setSyncError(null);
+        }, error => {
+            console.warn(`[Session Hook] Cloud sync failed (${key}), keeping local copy:`, error);
+            failedSyncs.current.set(key, operation);
+            setSyncError(describeError(error, 'supabase'));
+        });
+    }, []);
+
+    const retrySync = useCallback(() => {
+        Array.from(failedSyncs.current.entries()).forEach(([key, operation]) => trackSync(key, operation));
+    }, [trackSync]);
 
     // Load sessions on mount - first from localStorage (fast), then from Supabase (background)
     useEffect(() => {
@@ -19,22 +43,25 @@ export function useChatSessions() {
         if (raw) {
             try {
                 const parsed = JSON.parse(raw);
-                const result = ChatSessionsArraySchema.safeParse(parsed);
-                if (result.success) {
-                    const sorted = [...result.data].sort((a, b) => {
-                        if (a.pinned && !b.pinned) return -1;
-                        if (!a.pinned && b.pinned) return 1;
-                        return b.timestamp.getTime() - a.timestamp.getTime();
-                    });
-                    setSessions(sorted);
-                }
+                // Validated one by one so a corrupt session doesn't take the others with it
+                const valid = (Array.isArray(parsed) ? parsed : []).flatMap((session: unknown) => {
+                    const result = ChatSessionSchema.safeParse(session);
+                    if (!result.success) console.warn('[Session Hook] Dropping invalid session:', result.error);
+                    return result.success ? [result.data] : [];
+                });
+                const sorted = valid.sort((a, b) => {
+                    if (a.pinned && !b.pinned) return -1;
+                    if (!a.pinned && b.pinned) return 1;
+                    return b.timestamp.getTime() - a.timestamp.getTime();
+                });
+                setSessions(sorted);
             } catch (e) {
                 console.error('[Session Hook] Failed to parse localStorage sessions:', e);
             }
         }
 
         // 2. Load from Supabase in background (will merge/update)
-        chatSyncService.loadSessions(fingerprint.current).then(cloudSessions => {
+        trackSync('load', () => chatSyncService.loadSessions(fingerprint.current).then(cloudSessions => {
             if (cloudSessions.length > 0) {
                 setIsCloudSynced(true);
                 
@@ -48,10 +75,17 @@ export function useChatSessions() {
                         content: msg.content,
                         timestamp: new Date(msg.created_at),
                         relatedData: msg.related_data,
-                        trace: msg.trace
+                        trace: msg.trace,
+                        budgetExhausted: msg.budget_exhausted || undefined,
+                        // Rows written by older clients may lack these or predate the schemas
+                        toolTrace: ToolTraceEntrySchema.array().safeParse(msg.tool_trace).data,
+                        continuation: AgentContinuationSchema.safeParse(msg.continuation).data,
+                        evidence: EvidenceSchema.safeParse(msg.evidence).data,
+                        error: AppErrorInfoSchema.safeParse(msg.error).data
                     })),
                     timestamp: new Date(cs.updated_at),
-                    pinned: cs.pinned
+                    pinned: cs.pinned,
+                    maxTurns: cs.max_turns ?? undefined
                 }));
 
                 // Merge with localStorage sessions (cloud wins for conflicts)
@@ -78,10 +112,8 @@ export function useChatSessions() {
                     return final;
                 });
             }
-        }).catch(err => {
-            console.warn('[Session Hook] Cloud sync failed, using local only:', err);
-        });
-    }, []);
+        }));
+    }, [trackSync]);
 
     // Persist sessions to localStorage whenever they change
     useEffect(() => {
@@ -103,16 +135,16 @@ export function useChatSessions() {
         localStorage.removeItem(HISTORY_KEY);
 
         // Sync to cloud in background
-        chatSyncService.upsertSession({
+        trackSync(newSession.id, () => chatSyncService.upsertSession({
             id: newSession.id,
             title: newSession.title,
             messages: [],
             pinned: false,
             fingerprint: fingerprint.current
-        });
+        }));
 
         return newSession.id;
-    }, []);
+    }, [trackSync]);
 
     const loadSession = useCallback((sessionId: string) => {
         const session = sessions.find(s => s.id === sessionId);
@@ -130,8 +162,8 @@ export function useChatSessions() {
         }
 
         // Sync deletion to cloud
-        chatSyncService.deleteSession(sessionId);
-    }, [currentSessionId]);
+        trackSync(sessionId, () => chatSyncService.deleteSession(sessionId));
+    }, [currentSessionId, trackSync]);
 
     const renameSession = useCallback((sessionId: string, newTitle: string) => {
         setSessions(prev => {
@@ -142,18 +174,19 @@ export function useChatSessions() {
             // Sync to cloud
             const session = updated.find(s => s.id === sessionId);
             if (session) {
-                chatSyncService.upsertSession({
+                trackSync(session.id, () => chatSyncService.upsertSession({
                     id: session.id,
                     title: newTitle,
                     messages: session.messages,
                     pinned: session.pinned,
+                    maxTurns: session.maxTurns,
                     fingerprint: fingerprint.current
-                });
+                }));
             }
             
             return updated;
         });
-    }, []);
+    }, [trackSync]);
 
     const pinSession = useCallback((sessionId: string, pinned: boolean) => {
         setSessions(prev => {
@@ -170,18 +203,19 @@ export function useChatSessions() {
             // Sync to cloud
             const session = sorted.find(s => s.id === sessionId);
             if (session) {
-                chatSyncService.upsertSession({
+                trackSync(session.id, () => chatSyncService.upsertSession({
                     id: session.id,
                     title: session.title,
                     messages: session.messages,
                     pinned: pinned,
+                    maxTurns: session.maxTurns,
                     fingerprint: fingerprint.current
-                });
+                }));
             }
 
             return sorted;
         });
-    }, []);
+    }, [trackSync]);
 
     const deleteAll = useCallback(() => {
         setSessions([]);
@@ -189,11 +223,12 @@ export function useChatSessions() {
         localStorage.removeItem(STORAGE_KEY);
         localStorage.removeItem(HISTORY_KEY);
 
-        // Sync to cloud
-        chatSyncService.deleteAllSessions(fingerprint.current);
-    }, []);
+        // Sync to cloud; pending per-session writes would bring deleted sessions back
+        failedSyncs.current.clear();
+        trackSync('all', () => chatSyncService.deleteAllSessions(fingerprint.current));
+    }, [trackSync]);
 
-    const saveCurrentSession = useCallback((messages: ChatMessage[]) => {
+    const saveCurrentSession = useCallback((messages: ChatMessage[], settings?: { maxTurns?: number }) => {
         if (messages.length <= 1) return; // Ignore if only welcome message
 
         const sessionId = currentSessionId || Date.now().toString();
@@ -211,7 +246,9 @@ export function useChatSessions() {
                 title,
                 messages,
                 timestamp: new Date(),
-                pinned: existingIndex >= 0 ? prev[existingIndex].pinned : false
+                pinned: existingIndex >= 0 ? prev[existingIndex].pinned : false,
+                // Settings are only passed when they change; otherwise keep what the session had
+                maxTurns: settings?.maxTurns ?? (existingIndex >= 0 ? prev[existingIndex].maxTurns : undefined)
             };
 
             let final: ChatSession[];
@@ -224,13 +261,14 @@ export function useChatSessions() {
             }
 
             // Sync to cloud (debounced internally by the user's typing, this is called on each message)
-            chatSyncService.upsertSession({
+            trackSync(session.id, () => chatSyncService.upsertSession({
                 id: session.id,
                 title: session.title,
                 messages: session.messages,
                 pinned: session.pinned,
+                maxTurns: session.maxTurns,
                 fingerprint: fingerprint.current
-            });
+            }));
 
             return final;
         });
@@ -238,7 +276,7 @@ export function useChatSessions() {
         if (!currentSessionId) {
             setCurrentSessionId(sessionId);
         }
-    }, [currentSessionId]);
+    }, [currentSessionId, trackSync]);
 
     return {
         sessions,
@@ -251,5 +289,8 @@ export function useChatSessions() {
         deleteAll,
         saveCurrentSession,
         isCloudSynced, // New: indicates if cloud sync is active
+        /** Last cloud sync failure, until the failed operations succeed */
+        syncError,
+        retrySync,
     };
 }
@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react';
+import type { GraphData } from '../types';
+import {
+    ExplorationState,
+    EMPTY_EXPLORATION,
+    startExploration,
+    expandNode,
+    mergeGraph,
+    collapseNode,
+    togglePin,
+    hideNode,
+    showAllNodes
+} from '../utils/graphExploration';
+
+const MAX_HISTORY = 50;
+
+interface ExplorationHistory {
+    past: ExplorationState[];
+    present: ExplorationState;
+    future: ExplorationState[];
+}
+
+/**
+ * Graph explorer working set with undo/redo.
+ * Every change (new query, expansion, collapse, pin, hide, restore) is one undo step.
+ */
+export const useGraphExploration = () => {
+    const [history, setHistory] = useState<ExplorationHistory>({
+        past: [],
+        present: EMPTY_EXPLORATION,
+        future: []
+    });
+
+    const apply = useCallback((update: (state: ExplorationState) => ExplorationState) => {
+        setHistory(prev => {
+            const next = update(prev.present);
+            if (next === prev.present) return prev;
+            return {
+                past: [...prev.past, prev.present].slice(-MAX_HISTORY),
+                present: next,
+                future: []
+            };
+        });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(prev => prev.past.length === 0 ? prev : {
+            past: prev.past.slice(0, -1),
+            present: prev.past[prev.past.length - 1],
+            future: [prev.present, ...prev.future]
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(prev => prev.future.length === 0 ? prev : {
+            past: [...prev.past, prev.present],
+            present: prev.future[0],
+            future: prev.future.slice(1)
+        });
+    }, []);
+
+    const explore = useCallback((graph: GraphData, centerId: string | null, query: string) =>
+        apply(state => startExploration(state, graph, centerId, query)), [apply]);
+
+    const expand = useCallback((nodeId: string, addition: GraphData) =>
+        apply(state => expandNode(state, nodeId, addition)), [apply]);
+
+    const merge = useCallback((addition: GraphData) =>
+        apply(state => mergeGraph(state, addition)), [apply]);
+
+    const collapse = useCallback((nodeId: string) =>
+        apply(state => collapseNode(state, nodeId)), [apply]);
+
+    const pin = useCallback((nodeId: string) =>
+        apply(state => togglePin(state, nodeId)), [apply]);
+
+    const hide = useCallback((nodeId: string) =>
+        apply(state => hideNode(state, nodeId)), [apply]);
+
+    const showAll = useCallback(() => apply(showAllNodes), [apply]);
+
+    /**
+     * Replace the working set with a saved one (undoable)
+     */
+    const restore = useCallback((state: ExplorationState) => apply(() => state), [apply]);
+
+    /**
+     * Empty the view. Pins are dropped too, since there's nothing left to pin.
+     */
+    const clear = useCallback(() => apply(() => EMPTY_EXPLORATION), [apply]);
+
+    return {
+        state: history.present,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+        undo,
+        redo,
+        explore,
+        expand,
+        merge,
+        collapse,
+        pin,
+        hide,
+        showAll,
+        restore,
+        clear
+    };
+};
@@ -1,5 +1,7 @@
+import { useEffect, useState } from 'react';
 import { useQuery } from '@tanstack/react-query';
-import { kgService } from '../services/kgService';
+import { kgService, getKgBackend } from '../services/kgService';
+import type { CircuitState } from '../services/circuitBreaker';
 
 export function useHealth() {
     return useQuery({
@@ -74,3 +76,26 @@ export function useSubgraph(entity: string, hops: number = 1, limit: number = 50
 }
 
 
+
+/**
+ * Circuit-breaker state of the active KG backend; anything but 'closed' means degraded
+ */
+export function useKgCircuitState(): CircuitState {
+    const circuit = getKgBackend().circuit;
+    const [state, setState] = useState<CircuitState>(() => circuit?.getState() ?? 'closed');
+
+    useEffect(() => {
+        if (!circuit) return;
+        setState(circuit.getState());
+        return circuit.subscribe(setState);
+    }, [circuit]);
+
+    // An open circuit turns half-open by itself once the cooldown passes
+    useEffect(() => {
+        if (!circuit || state !== 'open') return;
+        const id = setTimeout(() => setState(circuit.getState()), circuit.retryInMs() + 50);
+        return () => clearTimeout(id);
+    }, [circuit, state]);
+
+    return state;
+}
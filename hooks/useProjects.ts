@@ -2,6 +2,19 @@ import { useState, useEffect, useCallback } from 'react';
 import { Project, SavedItem, ProjectsArraySchema } from '../schemas/projectSchema';
 
 const STORAGE_KEY = 'primekg_projects';
+const CURRENT_PROJECT_KEY = 'primekg_current_project';
+
+/**
+ * The project last opened on the Projects page, for features scoped to a project
+ * outside of it (e.g. remembered entity mappings)
+ */
+export const readCurrentProjectId = (): string | null => {
+    try {
+        return localStorage.getItem(CURRENT_PROJECT_KEY);
+    } catch {
+        return null;
+    }
+};
 
 /**
  * Hook for managing research projects/collections.
@@ -9,7 +22,7 @@ const STORAGE_KEY = 'primekg_projects';
  */
 export const useProjects = () => {
     const [projects, setProjects] = useState<Project[]>([]);
-    const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+    const [currentProjectId, setCurrentProjectId] = useState<string | null>(readCurrentProjectId);
 
     // Load projects from localStorage on mount
     useEffect(() => {
@@ -35,6 +48,15 @@ export const useProjects = () => {
         }
     }, [projects]);
 
+    useEffect(() => {
+        try {
+            if (currentProjectId) localStorage.setItem(CURRENT_PROJECT_KEY, currentProjectId);
+            else localStorage.removeItem(CURRENT_PROJECT_KEY);
+        } catch (error) {
+            console.error('Failed to save current project:', error);
+        }
+    }, [currentProjectId]);
+
     /**
      * Create a new project
      */
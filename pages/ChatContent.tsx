@@ -11,7 +11,7 @@ interface ChatContentProps {
     /** Current active chat session */
     currentSession: ChatSession | null;
     /** Callback to save session messages */
-    onSaveSession: (messages: ChatMessage[]) => void;
+    onSaveSession: (messages: ChatMessage[], settings?: { maxTurns?: number }) => void;
 }
 
 /**
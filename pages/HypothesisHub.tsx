@@ -8,6 +8,9 @@ import {
 } from '../types';
 import { toast } from 'react-hot-toast';
 import { useNavigate } from 'react-router-dom';
+import { resolveMention, confirmMapping, EntityCandidate, EntityResolution } from '../services/entityResolver';
+import { readCurrentProjectId } from '../hooks/useProjects';
+import DisambiguationPicker from '../components/DisambiguationPicker';
 
 // New Components
 import DrugRepurposingCard from '../components/hypothesis/DrugRepurposingCard';
@@ -25,8 +28,13 @@ const HypothesisHub: React.FC = () => {
         phenotypes?: PhenotypeMatchingResponse;
         risks?: EnvironmentalRiskResponse;
     } | null>(null);
+    // Set while the user picks between near-tied matches for the input
+    const [pendingChoice, setPendingChoice] = useState<EntityResolution | null>(null);
 
-    const handleAnalyze = async () => {
+    /**
+     * @param chosen - Entity the user picked for the input; skips resolution
+     */
+    const handleAnalyze = async (chosen?: EntityCandidate) => {
         if (!disease.trim()) {
             toast.error("Please enter a disease name.");
             return;
@@ -34,18 +42,25 @@ const HypothesisHub: React.FC = () => {
 
         setIsLoading(true);
         setResults(null);
+        setPendingChoice(null);
         const originalTerm = disease.trim();
         let targetTerm = originalTerm;
         let groundedTerm: string | null = null;
 
         try {
-            // STEP 1: Attempt Semantic Grounding first
+            // STEP 1: Ground the input to a KG entity (confirmed mappings first)
             try {
-                console.log(`[Hypothesis] Starting semantic search for: "${originalTerm}"`);
-                const searchResults = await kgService.searchSemantic(originalTerm);
-                
-                if (searchResults && searchResults.length > 0) {
-                     const bestMatch = searchResults[0];
+                console.log(`[Hypothesis] Resolving: "${originalTerm}"`);
+                const resolution = chosen ? null : await resolveMention(originalTerm, { projectId: readCurrentProjectId() });
+
+                if (resolution?.ambiguous) {
+                    // Let the user choose; analysis restarts from the picker
+                    setPendingChoice(resolution);
+                    return;
+                }
+
+                const bestMatch = chosen ?? resolution?.best;
+                if (bestMatch) {
                      console.log(`[Hypothesis] Top match:`, bestMatch);
                      
                      if(bestMatch.name && bestMatch.name.toLowerCase() !== originalTerm.toLowerCase()) {
@@ -56,7 +71,7 @@ const HypothesisHub: React.FC = () => {
                      }
                 }
             } catch (searchErr) {
-                console.warn("[Hypothesis] Semantic grounding failed, using raw term.", searchErr);
+                console.warn("[Hypothesis] Entity resolution failed, using raw term.", searchErr);
             }
 
             // Helper function to extract general disease category
@@ -227,7 +242,7 @@ const HypothesisHub: React.FC = () => {
                         />
                     </div>
                     <button 
-                        onClick={handleAnalyze}
+                        onClick={() => handleAnalyze()}
                         disabled={isLoading || !disease.trim()}
                         className="h-[50px] px-8 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed text-white font-bold rounded-xl transition-all shadow-lg shadow-indigo-500/20 flex items-center gap-2"
                     >
@@ -241,6 +256,19 @@ const HypothesisHub: React.FC = () => {
                 </div>
             </div>
 
+            {pendingChoice && (
+                <div className="max-w-6xl mx-auto">
+                    <DisambiguationPicker
+                        resolution={pendingChoice}
+                        onSelect={(candidate, remember) => {
+                            if (remember) confirmMapping(pendingChoice.mention, candidate, readCurrentProjectId());
+                            handleAnalyze(candidate);
+                        }}
+                        onCancel={() => setPendingChoice(null)}
+                    />
+                </div>
+            )}
+
             {/* Results Grid - Only show if we have results or are loading */}
             {(results || isLoading) && (
                 <div className="max-w-6xl mx-auto grid grid-cols-1 md:grid-cols-2 gap-6 animate-in fade-in slide-in-from-bottom-8 duration-700">
@@ -72,6 +72,7 @@ export default function ProjectsPage() {
                                 projectsHook.updateItemTags(currentProjectId!, itemId, tags)
                             }
                             onExploreNode={handleExploreNode}
+                            onOpenGraph={(item) => navigate('/graph', { state: { savedGraph: item.data } })}
                             darkMode={darkMode}
                         />
                     </div>
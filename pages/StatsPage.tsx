@@ -1,5 +1,6 @@
 import React from 'react';
 import { useStats } from '../hooks/useKgQueries';
+import KgCacheInspector from '../components/KgCacheInspector';
 
 interface StatsPageProps {
     darkMode: boolean;
@@ -49,6 +50,8 @@ export default function StatsPage({ darkMode }: StatsPageProps) {
                         )}
                     </div>
                 </div>
+
+                <KgCacheInspector />
             </div>
         </div>
     );
@@ -0,0 +1,80 @@
+import { z } from 'zod';
+
+/**
+ * Entity the agent resolved through a search tool (top hit per query).
+ */
+export const EvidenceEntitySchema = z.object({
+  query: z.string(),
+  name: z.string(),
+  type: z.string(),
+  id: z.string().optional(),
+  score: z.number().optional(),
+});
+
+/**
+ * Knowledge-graph edge returned by a graph tool and available to the answer.
+ */
+export const EvidenceEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  relation: z.string(),
+  tool: z.string(),
+});
+
+export const EvidenceToolCallSchema = z.object({
+  name: z.string(),
+  args: z.record(z.string(), z.any()),
+  status: z.enum(['success', 'empty', 'error']),
+  resultSize: z.number(),
+});
+
+export const EvidenceLiteratureSchema = z.object({
+  ref: z.number(),
+  pmid: z.string().optional(),
+  title: z.string(),
+  url: z.string().optional(),
+});
+
+export const EvidenceWebSourceSchema = z.object({
+  title: z.string(),
+  uri: z.string(),
+});
+
+/**
+ * Entity-relation-entity claim from the answer text, checked against retrieved edges.
+ * graph: an edge of the asserted relation was retrieved; related: the entities are joined
+ * by an edge of another (or an unrecognized) relation; literature: only a cited paper backs
+ * it; unverified: neither, or the sentence denies the relation.
+ */
+export const VerifiedClaimSchema = z.object({
+  id: z.number(),
+  sentence: z.string(),
+  subject: z.string(),
+  object: z.string(),
+  relation: z.string(),
+  /** The sentence denies the relation ("does not target") */
+  negated: z.boolean().optional(),
+  status: z.enum(['graph', 'related', 'literature', 'unverified']),
+  edge: z.object({ source: z.string(), target: z.string(), relation: z.string() }).optional(),
+});
+
+/**
+ * Everything an answer was grounded on: what was looked up, which graph facts came back,
+ * and which papers and web pages were available to cite.
+ */
+export const EvidenceSchema = z.object({
+  entities: z.array(EvidenceEntitySchema),
+  edges: z.array(EvidenceEdgeSchema),
+  toolCalls: z.array(EvidenceToolCallSchema),
+  literature: z.array(EvidenceLiteratureSchema),
+  webSources: z.array(EvidenceWebSourceSchema),
+  claims: z.array(VerifiedClaimSchema).optional(),
+});
+
+export type EvidenceEntity = z.infer<typeof EvidenceEntitySchema>;
+export type EvidenceEdge = z.infer<typeof EvidenceEdgeSchema>;
+export type EvidenceToolCall = z.infer<typeof EvidenceToolCallSchema>;
+export type EvidenceLiterature = z.infer<typeof EvidenceLiteratureSchema>;
+export type EvidenceWebSource = z.infer<typeof EvidenceWebSourceSchema>;
+export type VerifiedClaim = z.infer<typeof VerifiedClaimSchema>;
+export type Evidence = z.infer<typeof EvidenceSchema>;
@@ -0,0 +1,51 @@
+import { z } from 'zod';
+import { NODE_TYPES, RELATIONS, NodeType, RelationType } from '../constants/kgTaxonomy';
+
+const NodeTypeSchema = z.enum(Object.keys(NODE_TYPES) as [NodeType, ...NodeType[]]);
+const RelationTypeSchema = z.enum(Object.keys(RELATIONS) as [RelationType, ...RelationType[]]);
+
+export const KGNodeSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  name: z.string(),
+  source: z.string().optional(),
+  db_id: z.string().optional(),
+  description: z.string().optional(),
+});
+
+export const KGEdgeSchema = z.object({
+  source: z.string(),
+  target: z.string(),
+  relation: z.string(),
+  display_relation: z.string().optional(),
+});
+
+export const SubgraphFilterSchema = z.object({
+  includeNodeTypes: z.array(NodeTypeSchema).optional(),
+  excludeNodeTypes: z.array(NodeTypeSchema).optional(),
+  includeRelations: z.array(RelationTypeSchema).optional(),
+  excludeRelations: z.array(RelationTypeSchema).optional(),
+});
+
+export const ExplorationStateSchema = z.object({
+  graph: z.object({
+    nodes: z.array(KGNodeSchema),
+    edges: z.array(KGEdgeSchema),
+  }),
+  centerId: z.string().nullable(),
+  query: z.string(),
+  pinned: z.array(z.string()),
+  hidden: z.array(z.string()),
+  expansions: z.record(z.string(), z.array(z.string())),
+});
+
+/**
+ * Graph explorer state as stored in a project's `graph` item
+ */
+export const SavedGraphSchema = z.object({
+  version: z.literal(1),
+  exploration: ExplorationStateSchema,
+  filter: SubgraphFilterSchema.optional(),
+});
+
+export type SavedGraph = z.infer<typeof SavedGraphSchema>;
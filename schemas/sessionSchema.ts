@@ -1,4 +1,43 @@
 import { z } from 'zod';
+import { EvidenceSchema } from './evidenceSchema';
+
+/**
+ * Timing and outcome of one tool call made while answering
+ */
+export const ToolTraceEntrySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  args: z.record(z.string(), z.any()),
+  turn: z.number(), // 1-based agent turn the call belongs to
+  status: z.enum(['success', 'empty', 'error']),
+  startedAt: z.number(), // epoch ms
+  endedAt: z.number(), // epoch ms
+  durationMs: z.number(),
+  resultSize: z.number(), // records returned (list items or graph nodes)
+});
+
+export const AppErrorInfoSchema = z.object({
+  kind: z.enum(['not_found', 'rate_limited', 'timeout', 'network', 'upstream', 'auth']),
+  service: z.enum(['kg', 'pubmed', 'llm', 'supabase']),
+  message: z.string(),
+  retryAfterMs: z.number().optional(),
+  cors: z.boolean().optional(),
+  degraded: z.boolean().optional(),
+});
+
+/**
+ * Agent state saved with an answer that stopped at its turn budget, so it can be continued
+ * after a reload. Mirrors AgentContinuation; the Gemini history and calls are kept as-is.
+ */
+export const AgentContinuationSchema = z.object({
+  history: z.array(z.any()),
+  pendingCalls: z.array(z.any()),
+  skippedCalls: z.array(z.object({ name: z.string(), args: z.any() })),
+  toolResults: z.array(z.any()),
+  toolTrace: z.array(ToolTraceEntrySchema),
+  citations: z.array(z.any()),
+  turnsUsed: z.number(),
+});
 
 export const ChatMessageSchema = z.object({
   id: z.string(),
@@ -10,6 +49,13 @@ export const ChatMessageSchema = z.object({
   isError: z.boolean().optional(),
   relatedData: z.any().optional(),
   trace: z.array(z.string()).optional(),
+  // Detail panels only: a malformed one is dropped rather than failing the message
+  toolTrace: z.array(ToolTraceEntrySchema).optional().catch(undefined),
+  budgetExhausted: z.boolean().optional(),
+  // Present while a budget-exhausted answer can still be continued
+  continuation: AgentContinuationSchema.optional().catch(undefined),
+  evidence: EvidenceSchema.optional().catch(undefined),
+  error: AppErrorInfoSchema.optional().catch(undefined),
 });
 
 export const ChatSessionSchema = z.object({
@@ -20,9 +66,11 @@ export const ChatSessionSchema = z.object({
     typeof val === 'string' ? new Date(val) : val
   ),
   pinned: z.boolean().optional(),
+  maxTurns: z.number().int().positive().optional(),
 });
 
 export const ChatSessionsArraySchema = z.array(ChatSessionSchema);
 
 export type ChatSession = z.infer<typeof ChatSessionSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
+export type ToolTraceEntry = z.infer<typeof ToolTraceEntrySchema>;
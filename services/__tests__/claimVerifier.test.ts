@@ -0,0 +1,102 @@
+/**
+ * Unit tests for answer claim verification
+ * @module services/__tests__/claimVerifier.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { extractClaims, verifyClaims, annotateClaims } from '../claimVerifier';
+import type { Evidence } from '../../schemas/evidenceSchema';
+
+const evidence: Evidence = {
+  entities: [{ query: 'rapamycin', name: 'Sirolimus', type: 'drug' }],
+  edges: [{ source: 'Sirolimus', target: 'MTOR', relation: 'target', tool: 'getNeighbors' }],
+  toolCalls: [],
+  literature: [{ ref: 1, pmid: '123', title: 'Everolimus in LAM' }],
+  webSources: [],
+};
+
+describe('claimVerifier', () => {
+  describe('extractClaims', () => {
+    it('should pair adjacent entity mentions within a sentence', () => {
+      const claims = extractClaims('Sirolimus directly inhibits **MTOR**. Nothing else here.', ['Sirolimus', 'MTOR']);
+
+      expect(claims).toEqual([
+        { id: 0, sentence: 'Sirolimus directly inhibits **MTOR**.', subject: 'Sirolimus', object: 'MTOR', relation: 'directly inhibits' },
+      ]);
+    });
+
+    it('should prefer the longer of overlapping entity names', () => {
+      const claims = extractClaims('Breast cancer is linked to BRCA1.', ['cancer', 'Breast cancer', 'BRCA1']);
+
+      expect(claims.map(c => [c.subject, c.object])).toEqual([['Breast cancer', 'BRCA1']]);
+    });
+  });
+
+  describe('verifyClaims', () => {
+    it('should classify claims as graph, literature or unverified', async () => {
+      const text = 'Sirolimus targets MTOR. MTOR is also relevant to Everolimus [1]. Sirolimus treats Everolimus toxicity.';
+      const withEverolimus: Evidence = { ...evidence, entities: [...evidence.entities, { query: 'everolimus', name: 'Everolimus', type: 'drug' }] };
+
+      const claims = await verifyClaims(text, withEverolimus);
+
+      expect(claims.map(c => c.status)).toEqual(['graph', 'literature', 'unverified']);
+      expect(claims[0].edge).toEqual({ source: 'Sirolimus', target: 'MTOR', relation: 'target' });
+    });
+
+    it('should not verify a sentence that denies the relation', async () => {
+      const claims = await verifyClaims('Sirolimus does not target MTOR.', evidence);
+
+      expect(claims[0]).toMatchObject({ negated: true, status: 'unverified' });
+      expect(claims[0].edge).toBeUndefined();
+    });
+
+    it('should mark entities joined by a different relation as related, not verified', async () => {
+      const withContraindication: Evidence = {
+        ...evidence,
+        entities: [...evidence.entities, { query: 'lam', name: 'lymphangioleiomyomatosis', type: 'disease' }],
+        edges: [...evidence.edges, { source: 'Sirolimus', target: 'lymphangioleiomyomatosis', relation: 'contraindication', tool: 'getNeighbors' }],
+      };
+
+      const claims = await verifyClaims('Sirolimus causes lymphangioleiomyomatosis. Sirolimus is contraindicated in lymphangioleiomyomatosis.', withContraindication);
+
+      expect(claims.map(c => c.status)).toEqual(['related', 'graph']);
+      expect(claims[0].edge).toMatchObject({ relation: 'contraindication' });
+    });
+
+    it('should keep denied relations PrimeKG records, like absent expression', async () => {
+      const expression: Evidence = {
+        ...evidence,
+        edges: [{ source: 'liver', target: 'MTOR', relation: 'expression_absent', tool: 'getNeighbors' }],
+      };
+
+      const claims = await verifyClaims('MTOR is not expressed in the liver.', expression);
+
+      expect(claims[0]).toMatchObject({ status: 'graph' });
+      expect(claims[0].negated).toBeUndefined();
+    });
+
+    it('should promote claims confirmed by re-querying neighbors', async () => {
+      const requery = vi.fn().mockResolvedValue({
+        nodes: [],
+        edges: [{ source: 'Everolimus', target: 'MTOR', relation: 'target' }],
+      });
+      const withEverolimus: Evidence = { ...evidence, entities: [...evidence.entities, { query: 'everolimus', name: 'Everolimus', type: 'drug' }] };
+
+      const claims = await verifyClaims('Everolimus also binds MTOR.', withEverolimus, { requery });
+
+      expect(requery).toHaveBeenCalledWith('Everolimus', undefined);
+      expect(claims[0]).toMatchObject({ status: 'graph', edge: { relation: 'target' } });
+    });
+  });
+
+  describe('annotateClaims', () => {
+    it('should append one marker per sentence with the weakest status', () => {
+      const claims = [
+        { id: 0, sentence: 'A binds B and C.', subject: 'A', object: 'B', relation: 'binds', status: 'graph' as const },
+        { id: 1, sentence: 'A binds B and C.', subject: 'B', object: 'C', relation: 'and', status: 'unverified' as const },
+      ];
+
+      expect(annotateClaims('A binds B and C. Done.', claims)).toBe('A binds B and C. [unverified](#claim-1) Done.');
+    });
+  });
+});
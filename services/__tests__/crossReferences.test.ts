@@ -0,0 +1,59 @@
+/**
+ * Unit tests for ontology cross-references and external ID lookup
+ * @module services/__tests__/crossReferences.test
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createLocalKgBackend } from '../localKgBackend';
+import { setKgBackend, getKgBackend } from '../kgService';
+import { crossReferencesFor, parseExternalId, findByExternalId, getSynonyms } from '../crossReferences';
+
+const SLICE = [
+  'relation,display_relation,x_index,x_id,x_type,x_name,x_source,y_index,y_id,y_type,y_name,y_source',
+  'disease_protein,associated with,0,5148_24300,disease,type 2 diabetes mellitus,MONDO_grouped,1,3630,gene/protein,INS,NCBI',
+  'disease_protein,associated with,2,5148_24300,disease,diabetes mellitus type 2,MONDO_grouped,1,3630,gene/protein,INS,NCBI',
+  'indication,indication,3,DB00331,drug,Metformin,DrugBank,0,5148_24300,disease,type 2 diabetes mellitus,MONDO_grouped',
+].join('\n');
+
+describe('crossReferences', () => {
+  const original = getKgBackend();
+
+  afterEach(() => {
+    setKgBackend(original);
+  });
+
+  it('should build padded CURIEs and links, one per grouped MONDO ID', () => {
+    const refs = crossReferencesFor({ source: 'MONDO_grouped', db_id: '5148_24300' });
+
+    expect(refs.map(r => r.curie)).toEqual(['MONDO:0005148', 'MONDO:0024300']);
+    expect(refs[0].url).toBe('https://monarchinitiative.org/MONDO:0005148');
+    expect(crossReferencesFor({ source: 'DrugBank', db_id: 'DB00945' })[0]).toMatchObject({
+      ontology: 'drugbank',
+      curie: 'DRUGBANK:DB00945',
+      url: 'https://go.drugbank.com/drugs/DB00945',
+    });
+    expect(crossReferencesFor({ source: 'unknown', db_id: '1' })).toEqual([]);
+  });
+
+  it('should recognize external IDs and leave plain names alone', () => {
+    expect(parseExternalId('DB00945')).toEqual({ ontology: 'drugbank', id: 'DB00945' });
+    expect(parseExternalId('MONDO:0005148')).toEqual({ ontology: 'mondo', id: '5148' });
+    expect(parseExternalId('HP_0001250')).toEqual({ ontology: 'hpo', id: '1250' });
+    expect(parseExternalId('NCBIGene:7157')).toEqual({ ontology: 'entrez', id: '7157' });
+    expect(parseExternalId('aspirin')).toBeNull();
+    expect(parseExternalId('type 2 diabetes')).toBeNull();
+  });
+
+  it('should find nodes by external ID and list names sharing an identifier', async () => {
+    setKgBackend(createLocalKgBackend({ csv: SLICE }));
+
+    const drugs = await findByExternalId(parseExternalId('DB00331')!);
+    expect(drugs.map(d => d.name)).toEqual(['Metformin']);
+
+    const diseases = await findByExternalId(parseExternalId('MONDO:0024300')!);
+    expect(diseases).toHaveLength(2);
+
+    const synonyms = await getSynonyms({ name: 'type 2 diabetes mellitus', source: 'MONDO_grouped', db_id: '5148_24300' });
+    expect(synonyms).toEqual(['diabetes mellitus type 2']);
+  });
+});
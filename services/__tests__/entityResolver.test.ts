@@ -0,0 +1,108 @@
+/**
+ * Unit tests for mention-to-entity resolution
+ * @module services/__tests__/entityResolver.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { kgService, setKgBackend, getKgBackend } from '../kgService';
+import { notFoundError } from '../kgBackend';
+import {
+  rankCandidates,
+  resolveMention,
+  resolveMentions,
+  confirmMapping,
+  resetResolver,
+  SEARCH_CONCURRENCY,
+} from '../entityResolver';
+
+describe('entityResolver', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    resetResolver();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should flag near-tied candidates as ambiguous unless the top one is an exact match', () => {
+    const close = rankCandidates('breast ca', [
+      { name: 'breast carcinoma', type: 'disease', score: 0.81 },
+      { name: 'breast cancer', type: 'disease', score: 0.83 },
+    ]);
+    expect(close.best?.name).toBe('breast cancer');
+    expect(close.ambiguous).toBe(true);
+
+    const exact = rankCandidates('Breast Cancer', [
+      { name: 'breast cancer', type: 'disease', score: 0.83 },
+      { name: 'breast carcinoma', type: 'disease', score: 0.82 },
+    ]);
+    expect(exact.ambiguous).toBe(false);
+  });
+
+  it('should resolve a batch through /resolve, in input order', async () => {
+    const batch = vi.spyOn(kgService, 'resolveEntities').mockResolvedValue([
+      { mention: 'aspirin', candidates: [{ name: 'Aspirin', type: 'drug', score: 0.99 }] },
+      { mention: 'mtor', candidates: [{ name: 'MTOR', type: 'gene/protein', score: 0.97 }] },
+    ]);
+    const search = vi.spyOn(kgService, 'searchSemantic');
+
+    const results = await resolveMentions(['MTOR', 'Aspirin']);
+
+    expect(batch).toHaveBeenCalledWith(['MTOR', 'Aspirin'], undefined);
+    expect(search).not.toHaveBeenCalled();
+    expect(results.map(r => r.best?.name)).toEqual(['MTOR', 'Aspirin']);
+  });
+
+  it('should fall back to semantic search when the server has no batch endpoint', async () => {
+    const batch = vi.spyOn(kgService, 'resolveEntities').mockRejectedValue(notFoundError('/resolve'));
+    vi.spyOn(kgService, 'searchSemantic').mockImplementation(async query => [{ name: query.toUpperCase(), type: 'gene/protein', score: 0.9 }]);
+
+    const first = await resolveMentions(['tp53', 'brca1']);
+    await resolveMentions(['egfr', 'kras']);
+
+    expect(first.map(r => r.best?.name)).toEqual(['TP53', 'BRCA1']);
+    expect(batch).toHaveBeenCalledTimes(1);
+
+    // Another backend may have the endpoint
+    setKgBackend(getKgBackend());
+    await resolveMentions(['egfr', 'kras']);
+    expect(batch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should search mentions a few at a time and leave failed ones unresolved', async () => {
+    vi.spyOn(kgService, 'resolveEntities').mockRejectedValue(notFoundError('/resolve'));
+    let inFlight = 0;
+    let peak = 0;
+    vi.spyOn(kgService, 'searchSemantic').mockImplementation(async query => {
+      peak = Math.max(peak, ++inFlight);
+      await Promise.resolve();
+      inFlight--;
+      if (query === 'bad') throw new Error('HTTP error! status: 500');
+      return [{ name: query.toUpperCase(), type: 'gene/protein', score: 0.9 }];
+    });
+    const mentions = ['bad', ...Array.from({ length: SEARCH_CONCURRENCY + 2 }, (_, i) => `gene${i}`)];
+
+    const results = await resolveMentions(mentions);
+
+    expect(peak).toBe(SEARCH_CONCURRENCY);
+    expect(results[0]).toMatchObject({ mention: 'bad', candidates: [], best: null });
+    expect(results.slice(1).map(r => r.best?.name)).toEqual(mentions.slice(1).map(m => m.toUpperCase()));
+  });
+
+  it('should apply confirmed mappings only within their project', async () => {
+    const search = vi.spyOn(kgService, 'searchSemantic').mockResolvedValue([
+      { name: 'breast carcinoma', type: 'disease', score: 0.8 },
+      { name: 'breast cancer', type: 'disease', score: 0.8 },
+    ]);
+    confirmMapping('Breast  CA', { name: 'breast cancer', type: 'disease', score: 0.8 }, 'project_1');
+
+    const inProject = await resolveMention('breast ca', { projectId: 'project_1' });
+    expect(inProject).toMatchObject({ confirmed: true, ambiguous: false, best: { name: 'breast cancer', score: 1 } });
+    expect(search).not.toHaveBeenCalled();
+
+    const elsewhere = await resolveMention('breast ca', { projectId: 'project_2' });
+    expect(elsewhere).toMatchObject({ confirmed: false, ambiguous: true });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Unit tests for the shared error model
+ * @module services/__tests__/errors.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  errorFromStatus,
+  toAppError,
+  describeError,
+  isNotFoundError,
+  NotFoundError,
+  RateLimitedError,
+  AuthError,
+  TimeoutError,
+  NetworkError,
+  UpstreamError,
+} from '../errors';
+
+describe('errors', () => {
+  it('should map HTTP statuses to error classes', () => {
+    const options = { service: 'kg' as const };
+    expect(errorFromStatus(404, 'missing', options)).toBeInstanceOf(NotFoundError);
+    expect(errorFromStatus(429, 'slow down', options)).toBeInstanceOf(RateLimitedError);
+    expect(errorFromStatus(401, 'who', options)).toBeInstanceOf(AuthError);
+    expect(errorFromStatus(504, 'late', options)).toBeInstanceOf(TimeoutError);
+
+    const upstream = errorFromStatus(502, 'bad gateway', options);
+    expect(upstream).toBeInstanceOf(UpstreamError);
+    expect(upstream).toMatchObject({ status: 502, service: 'kg', retryable: true });
+    expect(errorFromStatus(400, 'bad request', options).retryable).toBe(false);
+  });
+
+  it('should classify provider and fetch errors by their messages', () => {
+    const quota = toAppError(new Error('429 RESOURCE_EXHAUSTED: quota exceeded, please retry in 12.5s'), 'llm');
+    expect(quota).toBeInstanceOf(RateLimitedError);
+    expect(quota.retryAfterMs).toBe(12500);
+
+    expect(toAppError(new Error('API key not valid. Please pass a valid API key.'), 'llm')).toBeInstanceOf(AuthError);
+    expect(toAppError(new TypeError('Failed to fetch'), 'kg')).toBeInstanceOf(NetworkError);
+    expect(toAppError(new Error('API Error: 404 Not Found - no such node'), 'kg')).toBeInstanceOf(NotFoundError);
+    expect(toAppError('something odd', 'kg')).toBeInstanceOf(UpstreamError);
+  });
+
+  it('should keep legacy "404" messages recognizable as not found', () => {
+    expect(isNotFoundError(new Error('API Error: 404 Not Found - x'))).toBe(true);
+    expect(isNotFoundError(new UpstreamError('API Error: 500 - 404 lines', { service: 'kg', status: 500 }))).toBe(false);
+  });
+
+  it('should describe errors as plain serializable objects', () => {
+    const info = describeError(new NetworkError('blocked', { service: 'kg', cors: true }), 'kg');
+    expect(info).toEqual({ kind: 'network', service: 'kg', message: 'blocked', cors: true });
+    expect(JSON.parse(JSON.stringify(info))).toEqual(info);
+  });
+});
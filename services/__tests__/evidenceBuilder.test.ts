@@ -0,0 +1,51 @@
+/**
+ * Unit tests for the answer evidence bundle
+ * @module services/__tests__/evidenceBuilder.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buildEvidence, isEmptyEvidence } from '../evidenceBuilder';
+import { EvidenceSchema } from '../../schemas/evidenceSchema';
+import type { ToolTraceEntry } from '../../types';
+
+const trace = (name: string, args: any, status: ToolTraceEntry['status'], resultSize: number): ToolTraceEntry => ({
+  id: name, name, args, turn: 1, status, startedAt: 0, endedAt: 5, durationMs: 5, resultSize,
+});
+
+describe('evidenceBuilder', () => {
+  describe('buildEvidence', () => {
+    it('should collect resolved entities, deduped edges, tool calls and sources', () => {
+      const evidence = buildEvidence(
+        [
+          { name: 'searchSemantic', args: { query: 'rapamycin' }, result: [{ name: 'Sirolimus', type: 'drug', db_id: 'DB00877', score: 0.9 }, { name: 'Everolimus', type: 'drug' }] },
+          { name: 'getNeighbors', args: { nodeId: 'MTOR' }, result: { nodes: [], edges: [{ source: 'Sirolimus', target: 'MTOR', relation: 'target' }] } },
+          // Truncated edge lists arrive wrapped in { items }
+          { name: 'getSubgraph', args: { entity: 'MTOR' }, result: { items: [{ source: 'Sirolimus', target: 'MTOR', relation: 'target' }, { source: 'MTOR', target: 'LAM', relation: 'associated_with' }] } },
+        ],
+        [trace('searchSemantic', { query: 'rapamycin' }, 'success', 2), trace('getNeighbors', { nodeId: 'MTOR' }, 'success', 2)],
+        [{ ref: 1, pmid: '123', title: 'mTOR inhibition', authors: 'A', journal: 'J', year: '2020', citedByCount: 3, url: 'https://pubmed.ncbi.nlm.nih.gov/123/' }],
+        [{ title: 'Sirolimus - Wikipedia', uri: 'https://en.wikipedia.org/wiki/Sirolimus' }]
+      );
+
+      expect(evidence.entities).toEqual([{ query: 'rapamycin', name: 'Sirolimus', type: 'drug', id: 'DB00877', score: 0.9 }]);
+      expect(evidence.edges).toEqual([
+        { source: 'Sirolimus', target: 'MTOR', relation: 'target', tool: 'getNeighbors' },
+        { source: 'MTOR', target: 'LAM', relation: 'associated_with', tool: 'getSubgraph' },
+      ]);
+      expect(evidence.toolCalls.map(c => c.name)).toEqual(['searchSemantic', 'getNeighbors']);
+      expect(evidence.literature).toEqual([{ ref: 1, pmid: '123', title: 'mTOR inhibition', url: 'https://pubmed.ncbi.nlm.nih.gov/123/' }]);
+      expect(EvidenceSchema.safeParse(evidence).success).toBe(true);
+    });
+
+    it('should store numeric entity ids as strings so the bundle stays valid', () => {
+      const evidence = buildEvidence([{ name: 'searchText', args: { query: 'TP53' }, result: [{ name: 'TP53', type: 'gene/protein', db_id: 7157 }] }], [], [], []);
+
+      expect(evidence.entities[0].id).toBe('7157');
+      expect(EvidenceSchema.safeParse(evidence).success).toBe(true);
+    });
+
+    it('should produce an empty bundle for a tool-free answer', () => {
+      expect(isEmptyEvidence(buildEvidence([], [], [], []))).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the Gemini agent loop
+ * @module services/__tests__/geminiService.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { generateResponseStream, generateResponse, AgentStreamEvent } from '../geminiService';
+import { setKgBackend, getKgBackend } from '../kgService';
+import { createLocalKgBackend } from '../localKgBackend';
+
+// Scripted model turns: each turn is a list of streamed chunks
+const scriptedTurns: any[][] = [];
+const sentMessages: any[] = [];
+const createdHistories: any[] = [];
+
+vi.mock('@google/genai', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('@google/genai')>();
+  class FakeGoogleGenAI {
+    chats = {
+      create: ({ history }: { history?: any[] }) => {
+        createdHistories.push(history);
+        return {
+          getHistory: () => [{ role: 'user', parts: [{ text: 'Investigate MTOR' }] }],
+          sendMessageStream: async ({ message }: { message: any }) => {
+            sentMessages.push(message);
+            const chunks = scriptedTurns.shift() ?? [];
+            return (async function* () {
+              for (const chunk of chunks) yield chunk;
+            })();
+          },
+        };
+      },
+    };
+  }
+  return { ...actual, GoogleGenAI: FakeGoogleGenAI };
+});
+
+const textChunk = (text: string, usage?: any) => ({
+  candidates: [{ content: { parts: [{ text }] } }],
+  usageMetadata: usage,
+});
+
+const callChunk = (name: string, args: any, id = `${name}-1`) => ({
+  candidates: [{ content: { parts: [{ functionCall: { name, args, id } }] } }],
+  functionCalls: [{ name, args, id }],
+});
+
+const SLICE = [
+  'source,target,relation,source_type,target_type',
+  'Sirolimus,MTOR,target,drug,gene/protein',
+  'MTOR,Lymphangioleiomyomatosis,associated with,gene/protein,disease',
+].join('\n');
+
+async function collect(stream: AsyncGenerator<AgentStreamEvent, void>): Promise<AgentStreamEvent[]> {
+  const events: AgentStreamEvent[] = [];
+  for await (const event of stream) events.push(event);
+  return events;
+}
+
+describe('geminiService', () => {
+  const original = getKgBackend();
+
+  beforeEach(() => {
+    scriptedTurns.length = 0;
+    sentMessages.length = 0;
+    createdHistories.length = 0;
+    setKgBackend(createLocalKgBackend({ csv: SLICE }));
+  });
+
+  afterEach(() => {
+    setKgBackend(original);
+  });
+
+  describe('generateResponseStream', () => {
+    it('should stream text, tool events and graph data before the final answer', async () => {
+      scriptedTurns.push(
+        [callChunk('getNeighbors', { nodeId: 'MTOR' })],
+        [textChunk('MTOR is targeted ', { promptTokenCount: 10, candidatesTokenCount: 3 }), textChunk('by Sirolimus.')]
+      );
+
+      const events = await collect(generateResponseStream('What targets MTOR?', [], undefined, 'test-key'));
+      const types = events.map(e => e.type);
+
+      expect(types).toEqual(['tool_start', 'tool_end', 'graph', 'text', 'text', 'done']);
+      expect(events[1]).toMatchObject({ type: 'tool_end', name: 'getNeighbors', status: 'success' });
+      expect(events[2]).toMatchObject({ type: 'graph', data: { nodes: expect.any(Array) } });
+
+      const done = events[events.length - 1] as Extract<AgentStreamEvent, { type: 'done' }>;
+      expect(done.response.text).toBe('MTOR is targeted by Sirolimus.');
+      expect(done.response.data).toHaveLength(1);
+      expect(done.response.usage).toEqual({ promptTokens: 10, completionTokens: 3 });
+      // The asserted relationship came back from getNeighbors
+      expect(done.response.evidence?.claims).toEqual([
+        expect.objectContaining({ subject: 'MTOR', object: 'Sirolimus', status: 'graph' }),
+      ]);
+
+      // The tool result went back to the model as a function response
+      expect(sentMessages[1][0].functionResponse).toMatchObject({ name: 'getNeighbors', id: 'getNeighbors-1' });
+    });
+
+    it('should report unknown entities as empty rather than failed', async () => {
+      scriptedTurns.push(
+        [callChunk('getSubgraph', { entity: 'Unobtainium' })],
+        [textChunk('Nothing found.')]
+      );
+
+      const events = await collect(generateResponseStream('Show Unobtainium', [], undefined, 'test-key'));
+
+      expect(events.find(e => e.type === 'tool_end')).toMatchObject({ status: 'empty', result: [] });
+    });
+
+    it('should run independent calls in a turn concurrently and time each one', async () => {
+      const local = createLocalKgBackend({ csv: SLICE });
+      const delays: Record<string, number> = { Sirolimus: 30, MTOR: 5 };
+      setKgBackend({
+        ...local,
+        searchSemantic: async (query, signal) => {
+          await new Promise(resolve => setTimeout(resolve, delays[query] ?? 0));
+          return local.searchSemantic(query, signal);
+        },
+      });
+      scriptedTurns.push(
+        [{
+          candidates: [{ content: { parts: [] } }],
+          functionCalls: [
+            { name: 'searchSemantic', args: { query: 'Sirolimus' }, id: 'a' },
+            { name: 'searchSemantic', args: { query: 'MTOR' }, id: 'b' },
+          ],
+        }],
+        [textChunk('Both resolved.')]
+      );
+
+      const events = await collect(generateResponseStream('Link them', [], undefined, 'test-key'));
+      const toolEvents = events.filter(e => e.type === 'tool_start' || e.type === 'tool_end').map(e => `${e.type}:${(e as any).callId}`);
+
+      // Both start before either finishes, and the faster call finishes first
+      expect(toolEvents).toEqual(['tool_start:a', 'tool_start:b', 'tool_end:b', 'tool_end:a']);
+
+      const done = events[events.length - 1] as Extract<AgentStreamEvent, { type: 'done' }>;
+      expect(done.response.toolTrace).toHaveLength(2);
+      expect(done.response.toolTrace![0]).toMatchObject({ id: 'a', turn: 1, status: 'success', resultSize: 1 });
+      expect(done.response.toolTrace![0].durationMs).toBeGreaterThanOrEqual(done.response.toolTrace![1].durationMs);
+
+      // Responses go back to the model in request order
+      expect(sentMessages[1].map((p: any) => p.functionResponse.id)).toEqual(['a', 'b']);
+      expect(done.response.data!.map(r => r.args.query)).toEqual(['Sirolimus', 'MTOR']);
+    });
+
+    it('should stop at the turn budget and resume from the continuation', async () => {
+      scriptedTurns.push(
+        [callChunk('getNeighbors', { nodeId: 'MTOR' })],
+        [callChunk('getNeighbors', { nodeId: 'Sirolimus' }, 'n2')],
+        [textChunk('So far: MTOR is targeted by Sirolimus.')]
+      );
+
+      const first = await generateResponse('Investigate MTOR', [], undefined, 'test-key', undefined, undefined, undefined, { maxTurns: 1 });
+
+      expect(first.budgetExhausted).toBe(true);
+      expect(first.text).toBe('So far: MTOR is targeted by Sirolimus.');
+      expect(first.continuation).toMatchObject({
+        pendingCalls: [],
+        skippedCalls: [{ name: 'getNeighbors', args: { nodeId: 'Sirolimus' } }],
+        turnsUsed: 1,
+      });
+      // The cut-off call was answered with a skip notice, not executed
+      expect(sentMessages[2][0].functionResponse.response.result).toMatchObject({ skipped: true });
+
+      scriptedTurns.push(
+        [callChunk('getNeighbors', { nodeId: 'Sirolimus' }, 'n3')],
+        [textChunk('Sirolimus also treats lymphangioleiomyomatosis.')]
+      );
+
+      const second = await generateResponse('', [], undefined, 'test-key', undefined, undefined, undefined, { maxTurns: 3, resume: first.continuation });
+
+      expect(second.budgetExhausted).toBeUndefined();
+      expect(createdHistories[1]).toEqual(first.continuation!.history);
+      expect(sentMessages[3]).toContain('getNeighbors({"nodeId":"Sirolimus"})');
+      // Earlier results and trace carry over, and turn numbers keep counting
+      expect(second.data).toHaveLength(2);
+      expect(second.toolTrace!.map(t => t.turn)).toEqual([1, 2]);
+    });
+
+    it('should throw AbortError when stopped mid-stream', async () => {
+      const controller = new AbortController();
+      scriptedTurns.push([textChunk('Partial '), textChunk('answer')]);
+
+      const stream = generateResponseStream('Hi', [], undefined, 'test-key', undefined, undefined, controller.signal);
+      const first = await stream.next();
+      expect(first.value).toEqual({ type: 'text', delta: 'Partial ' });
+
+      controller.abort();
+      await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('generateResponse', () => {
+    it('should resolve with the same answer the stream produces', async () => {
+      scriptedTurns.push([textChunk('Hello from PrimeAI.')]);
+
+      const response = await generateResponse('Hi', [], undefined, 'test-key');
+
+      expect(response.text).toBe('Hello from PrimeAI.');
+      expect(response.data).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the HTTP backend's retries, circuit breaker and error classification
+ * @module services/__tests__/httpKgBackend.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createHttpKgBackend } from '../httpKgBackend';
+import { NotFoundError } from '../errors';
+
+const json = (body: unknown) => new Response(JSON.stringify(body), { status: 200 });
+const status = (code: number, statusText: string) => new Response('upstream says no', { status: code, statusText });
+
+const FAST = { retryBaseDelayMs: 1, timeoutMs: 1000 };
+
+describe('httpKgBackend', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('should retry idempotent GETs after a 5xx and return the eventual result', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(status(503, 'Service Unavailable'))
+      .mockResolvedValueOnce(json([{ name: 'MTOR' }]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const backend = createHttpKgBackend('http://kg.test', FAST);
+
+    expect(await backend.searchSemantic('mtor')).toEqual([{ name: 'MTOR' }]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry 4xx and should expose them as typed errors', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => status(404, 'Not Found'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const backend = createHttpKgBackend('http://kg.test', FAST);
+    const error = await backend.getNeighbors('Unobtainium').catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error).toMatchObject({ kind: 'not_found', service: 'kg', status: 404 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    // Hypothesis endpoints still treat "not found" as no candidates
+    expect(await backend.getDrugRepurposing('Unobtainium')).toEqual([]);
+  });
+
+  it('should open the circuit after repeated 5xx and fail fast while open', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => status(500, 'Internal Server Error'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const backend = createHttpKgBackend('http://kg.test', { ...FAST, retries: 0, failureThreshold: 2 });
+    await expect(backend.getStats()).rejects.toMatchObject({ kind: 'upstream', status: 500 });
+    await expect(backend.getStats()).rejects.toMatchObject({ kind: 'upstream' });
+    expect(backend.circuit?.getState()).toBe('open');
+
+    await expect(backend.getStats()).rejects.toMatchObject({ kind: 'upstream', degraded: true });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should recover through a half-open trial even when a trial is aborted or times out', async () => {
+    let clock = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => clock);
+    let respond: (init: RequestInit) => Promise<Response> = async () => status(500, 'Internal Server Error');
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => respond(init)));
+    const hang = (init: RequestInit) => new Promise<Response>((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    });
+
+    const backend = createHttpKgBackend('http://kg.test', { ...FAST, retries: 0, failureThreshold: 1, cooldownMs: 1000, timeoutMs: 10 });
+    await expect(backend.getStats()).rejects.toMatchObject({ status: 500 });
+    expect(backend.circuit?.getState()).toBe('open');
+
+    // The trial is aborted by its caller: the next request gets to be the trial
+    clock = 1000;
+    respond = hang;
+    const controller = new AbortController();
+    const aborted = backend.getStats(controller.signal);
+    controller.abort();
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' });
+    expect(backend.circuit?.getState()).toBe('half-open');
+
+    // The trial times out: the circuit reopens instead of staying stuck
+    await expect(backend.getStats()).rejects.toMatchObject({ kind: 'timeout' });
+    expect(backend.circuit?.getState()).toBe('open');
+
+    clock = 2000;
+    respond = async () => json({ node_count: 1 });
+    expect(await backend.getStats()).toEqual({ node_count: 1 });
+    expect(backend.circuit?.getState()).toBe('closed');
+  });
+
+  it('should classify timeouts', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })));
+
+    const backend = createHttpKgBackend('http://kg.test', { ...FAST, retries: 0, timeoutMs: 10 });
+
+    await expect(backend.getStats()).rejects.toMatchObject({ kind: 'timeout' });
+  });
+
+  it('should tell CORS blocks apart from unreachable servers', async () => {
+    // The real request fails, but an opaque probe gets through: the server is up
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) =>
+      init.mode === 'no-cors' ? Promise.resolve(new Response(null)) : Promise.reject(new TypeError('Failed to fetch'))
+    ));
+
+    const backend = createHttpKgBackend('http://kg.test', { ...FAST, retries: 0 });
+
+    await expect(backend.getStats()).rejects.toMatchObject({ kind: 'network', cors: true });
+  });
+
+  it('should rethrow caller aborts untouched', async () => {
+    vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => new Promise((_, reject) => {
+      init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+    })));
+    const controller = new AbortController();
+
+    const backend = createHttpKgBackend('http://kg.test', FAST);
+    const pending = backend.getStats(controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('should not send a request whose caller already aborted', async () => {
+    const fetchMock = vi.fn(async () => new Response('{}'));
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+    controller.abort();
+
+    const backend = createHttpKgBackend('http://kg.test', FAST);
+
+    await expect(backend.getStats(controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the PrimeKG response cache
+ * @module services/__tests__/kgCache.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { createKgCache, CACHE_TTL_MS } from '../kgCache';
+
+describe('kgCache', () => {
+  it('should serve repeat requests from memory until the class TTL expires', async () => {
+    let time = 0;
+    const cache = createKgCache({ dbName: null, now: () => time });
+    const load = vi.fn().mockResolvedValue([{ name: 'MTOR' }]);
+
+    await cache.fetch('kg|searchSemantic|["mtor"]', 'search', load);
+    await cache.fetch('kg|searchSemantic|["mtor"]', 'search', load);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    time = CACHE_TTL_MS.search + 1;
+    await cache.fetch('kg|searchSemantic|["mtor"]', 'search', load);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(await cache.stats()).toMatchObject({ hits: 1, misses: 2, entries: 1 });
+  });
+
+  it('should coalesce identical requests in flight', async () => {
+    const cache = createKgCache({ dbName: null });
+    let resolve!: (value: unknown) => void;
+    const load = vi.fn(() => new Promise(r => { resolve = r; }));
+
+    const first = cache.fetch('k', 'hypothesis', load);
+    const second = cache.fetch('k', 'hypothesis', load);
+    await Promise.resolve();
+    await Promise.resolve();
+    resolve({ candidates: [] });
+
+    expect(await Promise.all([first, second])).toEqual([{ candidates: [] }, { candidates: [] }]);
+    expect(load).toHaveBeenCalledTimes(1);
+    expect((await cache.stats()).coalesced).toBe(1);
+  });
+
+  it('should only abort the shared request once every caller has aborted', async () => {
+    const cache = createKgCache({ dbName: null });
+    let loaderSignal!: AbortSignal;
+    let resolve!: (value: unknown) => void;
+    const load = vi.fn((signal: AbortSignal) => {
+      loaderSignal = signal;
+      return new Promise(r => { resolve = r; });
+    });
+    const a = new AbortController();
+    const b = new AbortController();
+
+    const first = cache.fetch('k', 'graph', load, a.signal);
+    const second = cache.fetch('k', 'graph', load, b.signal);
+    await new Promise(r => setTimeout(r, 0));
+
+    a.abort();
+    await expect(first).rejects.toThrow('Aborted');
+    expect(loaderSignal.aborted).toBe(false);
+
+    resolve({ nodes: [] });
+    expect(await second).toEqual({ nodes: [] });
+  });
+
+  it('should not cache failures', async () => {
+    const cache = createKgCache({ dbName: null });
+    const load = vi.fn()
+      .mockRejectedValueOnce(new Error('API Error: 500 Internal Server Error - '))
+      .mockResolvedValueOnce({ nodes: [] });
+
+    await expect(cache.fetch('k', 'graph', load)).rejects.toThrow('500');
+    expect(await cache.fetch('k', 'graph', load)).toEqual({ nodes: [] });
+  });
+
+  it('should list entries and clear them', async () => {
+    const cache = createKgCache({ dbName: null });
+    await cache.fetch('kg|getStats|[]', 'status', async () => ({ node_count: 1 }));
+
+    expect((await cache.entries()).map(e => [e.key, e.cacheClass])).toEqual([['kg|getStats|[]', 'status']]);
+    await cache.clear();
+    expect(await cache.entries()).toEqual([]);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Unit tests for the in-memory PrimeKG backend
+ * @module services/__tests__/localKgBackend.test
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { parseKgCsv, createLocalKgBackend, toRelationKey } from '../localKgBackend';
+import { kgService, setKgBackend, getKgBackend } from '../kgService';
+
+// Small PrimeKG-shaped slice; names with commas are quoted like in kg.csv
+const PRIMEKG_SLICE = [
+  'relation,display_relation,x_index,x_id,x_type,x_name,x_source,y_index,y_id,y_type,y_name,y_source',
+  'disease_protein,associated with,0,9796,disease,"sarcoma, soft tissue",MONDO,1,7157,gene/protein,TP53,NCBI',
+  'protein_disease,associated with,1,7157,gene/protein,TP53,NCBI,0,9796,disease,"sarcoma, soft tissue",MONDO',
+  'disease_protein,associated with,0,9796,disease,"sarcoma, soft tissue",MONDO,2,2475,gene/protein,MTOR,NCBI',
+  'drug_protein,target,3,DB00877,drug,Sirolimus,DrugBank,2,2475,gene/protein,MTOR,NCBI',
+  'drug_protein,target,4,DB01590,drug,Everolimus,DrugBank,2,2475,gene/protein,MTOR,NCBI',
+  'drug_protein,target,4,DB01590,drug,Everolimus,DrugBank,1,7157,gene/protein,TP53,NCBI',
+  'indication,indication,3,DB00877,drug,Sirolimus,DrugBank,5,5044,disease,lymphangioleiomyomatosis,MONDO',
+  'indication,indication,4,DB01590,drug,Everolimus,DrugBank,0,9796,disease,"sarcoma, soft tissue",MONDO',
+  'drug_drug,synergistic interaction,3,DB00877,drug,Sirolimus,DrugBank,4,DB01590,drug,Everolimus,DrugBank',
+  'disease_phenotype_positive,phenotype present,0,9796,disease,"sarcoma, soft tissue",MONDO,6,HP:0002664,effect/phenotype,Neoplasm,HPO',
+  'disease_phenotype_positive,phenotype present,5,5044,disease,lymphangioleiomyomatosis,MONDO,6,HP:0002664,effect/phenotype,Neoplasm,HPO',
+  'exposure_disease,linked to,7,D014028,exposure,Tobacco Smoke Pollution,CTD,0,9796,disease,"sarcoma, soft tissue",MONDO',
+].join('\n');
+
+describe('localKgBackend', () => {
+  const original = getKgBackend();
+
+  afterEach(() => {
+    setKgBackend(original);
+  });
+
+  describe('parseKgCsv', () => {
+    it('should parse PrimeKG rows and collapse mirrored edges', () => {
+      const index = parseKgCsv(PRIMEKG_SLICE);
+
+      expect(index.nodes.size).toBe(8);
+      expect(index.nodes.get('sarcoma, soft tissue')).toMatchObject({ type: 'disease', db_id: '9796', source: 'MONDO' });
+      // The TP53 <-> sarcoma association appears twice in kg.csv but once here
+      expect(index.edgeCount).toBe(11);
+    });
+
+    it('should accept a plain source,target,relation edge list', () => {
+      const index = parseKgCsv('source\ttarget\trelation\nA\tB\tinteracts with\nB\tC\tinteracts with');
+
+      expect(index.nodes.size).toBe(3);
+      expect(index.adjacency.get('B')).toHaveLength(2);
+      expect(index.adjacency.get('A')?.[0].relation).toBe('interacts_with');
+    });
+
+    it('should reject files without recognizable columns', () => {
+      expect(() => parseKgCsv('foo,bar\n1,2')).toThrow(/Unrecognized KG file/);
+    });
+  });
+
+  describe('toRelationKey', () => {
+    it('should snake_case display relations', () => {
+      expect(toRelationKey('off-label use')).toBe('off_label_use');
+      expect(toRelationKey('Phenotype Present')).toBe('phenotype_present');
+    });
+  });
+
+  describe('queries', () => {
+    const backend = createLocalKgBackend({ csv: PRIMEKG_SLICE });
+
+    it('should rank exact text matches first', async () => {
+      const results = await backend.searchText('sirolimus');
+
+      expect(results[0]).toMatchObject({ name: 'Sirolimus', type: 'drug', score: 1 });
+    });
+
+    it('should return 1-hop neighbors with the center node', async () => {
+      const graph = await backend.getNeighbors('MTOR');
+
+      expect(graph.nodes.map(n => n.name).sort()).toEqual(['Everolimus', 'MTOR', 'Sirolimus', 'sarcoma, soft tissue']);
+      expect(graph.edges).toHaveLength(3);
+    });
+
+    it('should cap subgraphs at the node limit', async () => {
+      const graph = await backend.getSubgraph('MTOR', 2, 3);
+
+      expect(graph.nodes).toHaveLength(3);
+      graph.edges.forEach(e => {
+        expect(graph.nodes.some(n => n.id === e.source)).toBe(true);
+        expect(graph.nodes.some(n => n.id === e.target)).toBe(true);
+      });
+    });
+
+    it('should only expand through nodes and relations the filter keeps', async () => {
+      const graph = await backend.getSubgraph('MTOR', 1, 10, undefined, { excludeNodeTypes: ['disease'] });
+
+      expect(graph.nodes.map(n => n.name).sort()).toEqual(['Everolimus', 'MTOR', 'Sirolimus']);
+    });
+
+    it('should find the shortest path between two entities', async () => {
+      const path = await backend.getShortestPath('Sirolimus', 'sarcoma, soft tissue');
+
+      expect(path.nodes.map(n => n.name)).toEqual(['Sirolimus', 'MTOR', 'sarcoma, soft tissue']);
+      expect(path.edges).toHaveLength(2);
+    });
+
+    it('should list simple paths shortest first for k-shortest and all-simple-paths queries', async () => {
+      const chains = (paths: Array<{ nodes: Array<{ name: string }> }>) => paths.map(p => p.nodes.map(n => n.name).join(' > '));
+
+      const shortest = await backend.getPaths('Sirolimus', 'sarcoma, soft tissue', { mode: 'k_shortest', maxDepth: 3, limit: 2 });
+      expect(chains(shortest).sort()).toEqual([
+        'Sirolimus > Everolimus > sarcoma, soft tissue',
+        'Sirolimus > MTOR > sarcoma, soft tissue',
+      ]);
+
+      const all = await backend.getPaths('Sirolimus', 'sarcoma, soft tissue', { mode: 'all_simple', maxDepth: 3, limit: 50 });
+      expect(all.map(p => p.edges.length)).toEqual([...all.map(p => p.edges.length)].sort());
+      expect(chains(all)).toContain('Sirolimus > lymphangioleiomyomatosis > Neoplasm > sarcoma, soft tissue');
+      expect(all.every(p => new Set(p.nodes).size === p.nodes.length)).toBe(true);
+
+      await expect(backend.getPaths('Sirolimus', 'Tobacco Smoke Pollution', { mode: 'k_shortest', maxDepth: 1, limit: 5 })).rejects.toThrow(/404/);
+    });
+
+    it('should throw a 404-shaped error for unknown entities', async () => {
+      await expect(backend.getNeighbors('Unobtainium')).rejects.toThrow(/404/);
+    });
+
+    it('should propose repurposing candidates through shared targets', async () => {
+      const candidates = await backend.getDrugRepurposing('sarcoma, soft tissue');
+
+      // Everolimus is already indicated, so only Sirolimus remains
+      expect(candidates).toEqual([
+        expect.objectContaining({ drug: 'Sirolimus', shared_target: 'MTOR', original_indication: 'lymphangioleiomyomatosis' }),
+      ]);
+    });
+
+    it('should rank therapeutic targets by drug coverage', async () => {
+      const targets = await backend.getTherapeuticTargets('sarcoma, soft tissue');
+
+      expect(targets.map(t => t.gene)).toEqual(['MTOR', 'TP53']);
+      expect(targets[0].score).toBe(1);
+    });
+
+    it('should answer combinations, phenotypes and exposures', async () => {
+      expect(await backend.getDrugCombinations('Sirolimus')).toEqual([
+        expect.objectContaining({ drug: 'Everolimus' }),
+      ]);
+      expect(await backend.getPhenotypeMatching('sarcoma, soft tissue')).toEqual([
+        { drug: 'Sirolimus', shared_phenotypes: ['Neoplasm'], overlap_score: 1 },
+      ]);
+      expect(await backend.getEnvironmentalRisks('sarcoma, soft tissue')).toEqual([
+        expect.objectContaining({ exposure: 'Tobacco Smoke Pollution', relationship: 'linked to' }),
+      ]);
+    });
+
+    it('should return empty hypothesis results for unknown diseases', async () => {
+      expect(await backend.getDrugRepurposing('Unobtainium')).toEqual([]);
+      expect(await backend.getDrugMechanism('Sirolimus', 'Unobtainium')).toEqual({ nodes: [], edges: [] });
+    });
+
+    it('should honour an aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(backend.searchText('MTOR', controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    });
+  });
+
+  describe('kgService delegation', () => {
+    it('should route kgService calls to the active backend', async () => {
+      setKgBackend(createLocalKgBackend({ csv: PRIMEKG_SLICE }));
+
+      const stats = await kgService.getStats();
+
+      expect(stats).toEqual({ node_count: 8, edge_count: 11, disease_count: 2, drug_count: 2 });
+      expect(getKgBackend().kind).toBe('local');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Unit tests for the OpenAI-compatible provider's tool-calling translation
+ * @module services/__tests__/openaiProvider.test
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Type } from '@google/genai';
+import { createOpenAICompatibleProvider, toOpenAITools, toOpenAIMessages } from '../openaiProvider';
+
+const sseResponse = (events: any[]) => {
+  const body = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { status: 200 });
+};
+
+describe('openaiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('toOpenAITools', () => {
+    it('should convert Gemini declarations to JSON-schema function tools', () => {
+      const tools = toOpenAITools([
+        {
+          functionDeclarations: [
+            { name: 'checkHealth', description: 'Health' },
+            {
+              name: 'getSubgraph',
+              description: 'Subgraph',
+              parameters: {
+                type: Type.OBJECT,
+                properties: { entity: { type: Type.STRING }, hops: { type: Type.NUMBER } },
+                required: ['entity'],
+              },
+            },
+          ],
+        },
+        { googleSearch: {} },
+      ]);
+
+      expect(tools).toEqual([
+        { type: 'function', function: { name: 'checkHealth', description: 'Health', parameters: { type: 'object', properties: {} } } },
+        {
+          type: 'function',
+          function: {
+            name: 'getSubgraph',
+            description: 'Subgraph',
+            parameters: { type: 'object', properties: { entity: { type: 'string' }, hops: { type: 'number' } }, required: ['entity'] },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('toOpenAIMessages', () => {
+    it('should map function calls and responses to tool_calls and tool messages', () => {
+      const messages = toOpenAIMessages('Be precise.', [
+        { role: 'user', parts: [{ text: 'What targets MTOR?' }] },
+        { role: 'model', parts: [{ functionCall: { id: 'c1', name: 'getNeighbors', args: { nodeId: 'MTOR' } } }] },
+        { role: 'user', parts: [{ functionResponse: { id: 'c1', name: 'getNeighbors', response: { result: [] } } }] },
+      ]);
+
+      expect(messages).toEqual([
+        { role: 'system', content: 'Be precise.' },
+        { role: 'user', content: 'What targets MTOR?' },
+        { role: 'assistant', content: null, tool_calls: [{ id: 'c1', type: 'function', function: { name: 'getNeighbors', arguments: '{"nodeId":"MTOR"}' } }] },
+        { role: 'tool', tool_call_id: 'c1', content: '{"result":[]}' },
+      ]);
+    });
+
+    it('should decode UTF-8 text attachments', () => {
+      const data = Buffer.from('β-catenin → CTNNB1', 'utf-8').toString('base64');
+
+      const [, message] = toOpenAIMessages('Be precise.', [
+        { role: 'user', parts: [{ inlineData: { mimeType: 'text/plain', data } }] },
+      ]);
+
+      expect(message).toEqual({ role: 'user', content: 'β-catenin → CTNNB1' });
+    });
+  });
+
+  describe('createChat', () => {
+    it('should stream text and reassemble fragmented tool calls into Gemini chunks', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+        { choices: [{ delta: { content: 'Looking up ' } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: 'call_1', function: { name: 'getNeighbors', arguments: '{"node' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'Id":"MTOR"}' } }] } }] },
+        { choices: [], usage: { prompt_tokens: 12, completion_tokens: 4 } },
+      ]));
+      vi.stubGlobal('fetch', fetchMock);
+
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1/', model: 'llama' });
+      const chat = provider.createChat({ model: 'llama', systemInstruction: 'sys', tools: [] });
+      const chunks = [];
+      for await (const chunk of await chat.sendMessageStream({ message: 'MTOR?' })) chunks.push(chunk);
+
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/chat/completions');
+      expect(chunks[0].candidates![0].content!.parts![0].text).toBe('Looking up ');
+      expect(chunks[1].functionCalls).toEqual([{ id: 'call_1', name: 'getNeighbors', args: { nodeId: 'MTOR' } }]);
+      expect(chunks[1].usageMetadata).toEqual({ promptTokenCount: 12, candidatesTokenCount: 4 });
+
+      // The completed exchange is kept for the next turn
+      expect(chat.getHistory().map(c => c.role)).toEqual(['user', 'model']);
+      expect(chat.getHistory()[1].parts).toEqual([
+        { text: 'Looking up ' },
+        { functionCall: { id: 'call_1', name: 'getNeighbors', args: { nodeId: 'MTOR' } } },
+      ]);
+    });
+
+    it('should surface HTTP errors in the shared "API Error" format', async () => {
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response('rate limited', { status: 429, statusText: 'Too Many Requests' })));
+
+      const provider = createOpenAICompatibleProvider({ baseUrl: 'http://localhost:8000/v1', model: 'llama' });
+
+      await expect(provider.generateText({ model: 'llama', prompt: 'hi' })).rejects.toThrow('API Error: 429 Too Many Requests - rate limited');
+    });
+  });
+});
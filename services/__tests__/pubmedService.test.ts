@@ -11,6 +11,7 @@ import {
   searchEntityCitations,
   searchRelationshipCitations,
   searchMechanismCitations,
+  toInlineCitation,
 } from '../pubmedService';
 import type { SearchParams } from '../../types/pubmed';
 
@@ -136,6 +137,41 @@ describe('pubmedService', () => {
     });
   });
 
+  describe('toInlineCitation', () => {
+    const base = transformCitation({
+      id: '12345678',
+      pmid: '12345678',
+      doi: '10.1000/example',
+      title: 'TP53 mutations in human cancers',
+      authorString: 'Smith J, Doe J',
+      journalTitle: 'Nature',
+      pubYear: '2024',
+      citedByCount: 42,
+    });
+
+    it('should number the citation and link to PubMed', () => {
+      const result = toInlineCitation(base, 3);
+
+      expect(result).toEqual({
+        ref: 3,
+        pmid: '12345678',
+        sourceId: '12345678',
+        title: 'TP53 mutations in human cancers',
+        authors: 'Smith J, Doe J',
+        journal: 'Nature',
+        year: '2024',
+        citedByCount: 42,
+        url: 'https://pubmed.ncbi.nlm.nih.gov/12345678/',
+      });
+    });
+
+    it('should fall back to the DOI link without a PMID', () => {
+      const result = toInlineCitation({ ...base, pmid: undefined }, 1);
+
+      expect(result.url).toBe('https://doi.org/10.1000/example');
+    });
+  });
+
   describe('buildQuery', () => {
     it('should return query as-is with no filters', () => {
       const params: SearchParams = {
@@ -304,6 +340,21 @@ describe('pubmedService', () => {
       });
     });
 
+    it('should throw INVALID_QUERY error on a rejected query', async () => {
+      (global.fetch as any).mockResolvedValueOnce({
+        ok: false,
+        status: 400,
+        statusText: 'Bad Request',
+      });
+
+      await expect(
+        searchCitations({ query: 'TP53 AND (' })
+      ).rejects.toMatchObject({
+        code: 'INVALID_QUERY',
+        message: 'HTTP 400: Bad Request',
+      });
+    });
+
     it('should use custom sort parameter', async () => {
       const mockResponse = {
         hitCount: 10,
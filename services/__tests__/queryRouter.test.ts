@@ -0,0 +1,138 @@
+/**
+ * Unit tests for hybrid query routing
+ * @module services/__tests__/queryRouter.test
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { generateHybridResponseStream, heuristicRoute, planRoute } from '../queryRouter';
+import type { LLMProvider } from '../llmProvider';
+import type { AgentResponse, AgentStreamEvent } from '../geminiService';
+import { AuthError } from '../errors';
+
+// Sub-agent answers by mode; the merge chat and provider are set per test
+const subAgents: { graph: AgentResponse; web: AgentResponse } = { graph: { text: '' }, web: { text: '' } };
+let hybridProvider: LLMProvider | null = null;
+// Awaited by each sub-agent before it answers, when set
+let subAgentGate: ((args: any[]) => Promise<void>) | null = null;
+
+vi.mock('../geminiService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../geminiService')>()),
+  generateResponseStream: async function* (...args: any[]) {
+    await subAgentGate?.(args);
+    yield { type: 'done', response: args[7]?.enableWebSearch ? subAgents.web : subAgents.graph };
+  },
+}));
+
+vi.mock('../llmService', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../llmService')>()),
+  getLlmProvider: () => hybridProvider,
+}));
+
+const providerReturning = (generateText: LLMProvider['generateText']): LLMProvider => ({
+  kind: 'gemini',
+  label: 'Test',
+  supportsWebSearch: true,
+  createChat: vi.fn(),
+  generateText,
+});
+
+describe('queryRouter', () => {
+  describe('heuristicRoute', () => {
+    it('should send recency questions to both the graph and the web', () => {
+      const prompt = 'What targets MTOR and are there recent clinical trials?';
+      expect(heuristicRoute(prompt)).toEqual({ graph: [prompt], web: [prompt] });
+    });
+
+    it('should keep mechanism questions on the graph only', () => {
+      expect(heuristicRoute('Which genes are associated with asthma?')).toEqual({
+        graph: ['Which genes are associated with asthma?'],
+        web: [],
+      });
+    });
+  });
+
+  describe('planRoute', () => {
+    it('should use the model plan when it is valid JSON', async () => {
+      const provider = providerReturning(vi.fn().mockResolvedValue(
+        JSON.stringify({ graph: ['What does metformin target?'], web: ['Ongoing metformin trials in cancer?'] })
+      ));
+
+      const route = await planRoute('Metformin targets and ongoing trials', provider, 'model');
+
+      expect(route).toEqual({ graph: ['What does metformin target?'], web: ['Ongoing metformin trials in cancer?'] });
+    });
+
+    it('should fall back to keyword routing when the plan is malformed', async () => {
+      const provider = providerReturning(vi.fn().mockResolvedValue('not json'));
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const route = await planRoute('Latest FDA approvals for ALS', provider, 'model');
+
+      expect(route).toEqual({ graph: ['Latest FDA approvals for ALS'], web: ['Latest FDA approvals for ALS'] });
+    });
+  });
+
+  describe('generateHybridResponseStream', () => {
+    const BOTH = JSON.stringify({ graph: ['What does metformin target?'], web: ['Ongoing metformin trials?'] });
+
+    async function finalResponse(createChat: LLMProvider['createChat']): Promise<AgentResponse> {
+      hybridProvider = { ...providerReturning(vi.fn().mockResolvedValue(BOTH)), createChat };
+      const events: AgentStreamEvent[] = [];
+      for await (const event of generateHybridResponseStream('Metformin targets and trials', [])) events.push(event);
+      const done = events.find(e => e.type === 'done');
+      return done?.type === 'done' ? done.response : { text: '' };
+    }
+
+    it('should answer from the other sub-agent instead of merging a failure notice', async () => {
+      const createChat = vi.fn();
+      subAgents.graph = { text: 'Metformin targets PRKAB1.' };
+      subAgents.web = { text: 'Quota exceeded', error: { kind: 'rate_limited', service: 'llm', message: 'quota' } };
+
+      const response = await finalResponse(createChat);
+
+      expect(response).toEqual(subAgents.graph);
+      expect(createChat).not.toHaveBeenCalled();
+    });
+
+    it('should report a failed merge with its typed error', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      subAgents.graph = { text: 'Metformin targets PRKAB1.', citations: [] };
+      subAgents.web = { text: 'Two trials are recruiting.' };
+      const createChat = vi.fn().mockReturnValue({
+        sendMessageStream: vi.fn().mockRejectedValue(new AuthError('API key not valid', { service: 'llm', status: 401 })),
+      });
+
+      const response = await finalResponse(createChat);
+
+      expect(response.error).toMatchObject({ kind: 'auth', service: 'llm' });
+      expect(response.citations).toEqual([]);
+    });
+
+    it('should run both sub-agents at once and abort them together', async () => {
+      hybridProvider = { ...providerReturning(vi.fn().mockResolvedValue(BOTH)), createChat: vi.fn() };
+      const signals: AbortSignal[] = [];
+      let bothStarted: () => void = () => {};
+      const started = new Promise<void>(resolve => { bothStarted = resolve; });
+      // Each sub-agent waits until aborted, so neither finishes before the other starts
+      subAgentGate = args => new Promise((_, reject) => {
+        const signal: AbortSignal = args[6];
+        signals.push(signal);
+        if (signals.length === 2) bothStarted();
+        signal.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      });
+      const controller = new AbortController();
+
+      const run = (async () => {
+        for await (const _ of generateHybridResponseStream('Metformin targets and trials', [], undefined, undefined, undefined, undefined, controller.signal)) { /* drain */ }
+      })();
+      await started;
+      subAgentGate = null;
+      controller.abort();
+
+      await expect(run).rejects.toMatchObject({ name: 'AbortError' });
+      expect(signals).toHaveLength(2);
+      expect(signals[0]).toBe(signals[1]);
+      expect(signals[0].aborted).toBe(true);
+    });
+  });
+});
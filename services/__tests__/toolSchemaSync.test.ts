@@ -0,0 +1,133 @@
+/**
+ * Unit tests for syncing agent tools from the KG server's /tools/schema
+ * @module services/__tests__/toolSchemaSync.test
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Type } from '@google/genai';
+import { kgService, setKgBackend, getKgBackend } from '../kgService';
+import {
+  parseToolSchema,
+  toFunctionDeclaration,
+  buildToolRequest,
+  syncToolSchema,
+  resetToolSchema,
+  getToolSchemaSource,
+  mergeToolDeclarations,
+  callServerTool,
+  getServerTool,
+  getDeclaredTool,
+  serverToolLabel,
+} from '../toolSchemaSync';
+
+const SCHEMA = {
+  tools: [
+    {
+      name: 'getPathwayMembers',
+      description: 'Genes in a pathway',
+      endpoint: '/pathways/{pathway}/members',
+      parameters: {
+        type: 'object',
+        properties: { pathway: { type: 'string' }, limit: { type: 'integer' } },
+        required: ['pathway'],
+      },
+    },
+    { type: 'function', function: { name: 'getNeighbors', description: 'Server copy' }, endpoint: '/neighbors/{node_name}' },
+    { name: 'noEndpoint', description: 'Cannot be dispatched' },
+  ],
+};
+
+describe('toolSchemaSync', () => {
+  beforeEach(() => {
+    resetToolSchema();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should parse flat and OpenAI-style entries and drop ones without an endpoint', () => {
+    const tools = parseToolSchema(SCHEMA);
+
+    expect(tools.map(t => t.name)).toEqual(['getPathwayMembers', 'getNeighbors']);
+    expect(tools[1]).toMatchObject({ endpoint: '/neighbors/{node_name}', method: 'GET', description: 'Server copy' });
+  });
+
+  it('should generate a Gemini declaration from the JSON schema', () => {
+    const [tool] = parseToolSchema(SCHEMA);
+
+    expect(toFunctionDeclaration(tool)).toEqual({
+      name: 'getPathwayMembers',
+      description: 'Genes in a pathway',
+      parameters: {
+        type: Type.OBJECT,
+        properties: { pathway: { type: Type.STRING }, limit: { type: Type.INTEGER } },
+        required: ['pathway'],
+      },
+    });
+  });
+
+  it('should label progress with the first sentence of the description', () => {
+    const [members] = parseToolSchema(SCHEMA);
+
+    expect(serverToolLabel(members)).toBe('Genes in a pathway...');
+    expect(serverToolLabel({ ...members, description: 'Ranks every gene in a pathway by network centrality. Slow.' }))
+      .toBe('Ranks every gene in a pathway by netw...');
+  });
+
+  it('should fill path placeholders and send the rest as query parameters', () => {
+    const [tool] = parseToolSchema(SCHEMA);
+
+    expect(buildToolRequest(tool, { pathway: 'mTOR signaling', limit: 5 })).toEqual({
+      path: '/pathways/mTOR%20signaling/members?limit=5',
+    });
+  });
+
+  it('should add unknown server tools and let the server describe known ones', async () => {
+    vi.spyOn(kgService, 'getToolSchema').mockResolvedValue(SCHEMA);
+    await syncToolSchema();
+
+    const bundledParameters = { type: Type.OBJECT, properties: { node_name: { type: Type.STRING } } };
+    const merged = mergeToolDeclarations([
+      { name: 'getNeighbors', description: 'Bundled', parameters: bundledParameters },
+      { name: 'checkHealth', description: 'Bundled health' },
+    ]);
+
+    expect(getToolSchemaSource()).toBe('server');
+    expect(merged.map(d => d.name)).toEqual(['getNeighbors', 'checkHealth', 'getPathwayMembers']);
+    // The server gave a description but no parameters, so the bundled ones stay
+    expect(merged[0]).toEqual({ name: 'getNeighbors', description: 'Server copy', parameters: bundledParameters });
+    expect(merged[1]).toEqual({ name: 'checkHealth', description: 'Bundled health' });
+    expect(getDeclaredTool('getPathwayMembers')?.description).toBe('Genes in a pathway');
+  });
+
+  it('should forget the synced tools when the KG backend changes', async () => {
+    vi.spyOn(kgService, 'getToolSchema').mockResolvedValue(SCHEMA);
+    await syncToolSchema();
+    const original = getKgBackend();
+
+    setKgBackend(original);
+
+    expect(getToolSchemaSource()).toBe('bundled');
+    expect(getServerTool('getPathwayMembers')).toBeUndefined();
+  });
+
+  it('should dispatch server tools through kgService.callTool', async () => {
+    vi.spyOn(kgService, 'getToolSchema').mockResolvedValue(SCHEMA);
+    const callTool = vi.spyOn(kgService, 'callTool').mockResolvedValue({ nodes: [] });
+    await syncToolSchema();
+
+    await callServerTool(getServerTool('getPathwayMembers')!, { pathway: 'Autophagy' });
+
+    expect(callTool).toHaveBeenCalledWith('/pathways/Autophagy/members', { method: 'GET', body: undefined, signal: undefined });
+  });
+
+  it('should fall back to the bundled tools when the endpoint is unavailable', async () => {
+    vi.spyOn(kgService, 'getToolSchema').mockRejectedValue(new Error('API Error: 404 Not Found - '));
+
+    expect(await syncToolSchema()).toEqual([]);
+    expect(getToolSchemaSource()).toBe('bundled');
+    expect(mergeToolDeclarations([{ name: 'checkHealth' }]).map(d => d.name)).toEqual(['checkHealth']);
+  });
+});
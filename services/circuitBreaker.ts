@@ -0,0 +1,105 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing dependency after repeated failures, then lets a single
+ * trial request through after a cooldown to check whether it has recovered.
+ * @module services/circuitBreaker
+ */
+
+/**
+ * - closed: requests flow normally
+ * - open: requests fail fast until the cooldown ends
+ * - half-open: one trial request is in flight; its outcome closes or reopens the circuit
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit. Default: 5 */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial request. Default: 30s */
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+export interface CircuitBreaker {
+  getState(): CircuitState;
+  /** False while open (or while the half-open trial is in flight) */
+  canRequest(): boolean;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** The half-open trial ended without an answer (caller aborted); the next request becomes the trial */
+  release(): void;
+  /** Milliseconds until a trial request is allowed; 0 unless open */
+  retryInMs(): number;
+  subscribe(listener: (state: CircuitState) => void): () => void;
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions = {}): CircuitBreaker {
+  const { failureThreshold = 5, cooldownMs = 30_000, now = Date.now } = options;
+  const listeners = new Set<(state: CircuitState) => void>();
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  const setState = (next: CircuitState) => {
+    if (next === state) return;
+    state = next;
+    listeners.forEach(listener => listener(state));
+  };
+
+  // An open circuit becomes half-open once its cooldown has passed
+  const refresh = () => {
+    if (state === 'open' && now() - openedAt >= cooldownMs) {
+      trialInFlight = false;
+      setState('half-open');
+    }
+  };
+
+  return {
+    getState() {
+      refresh();
+      return state;
+    },
+
+    canRequest() {
+      refresh();
+      if (state === 'closed') return true;
+      if (state === 'half-open' && !trialInFlight) {
+        trialInFlight = true;
+        return true;
+      }
+      return false;
+    },
+
+    recordSuccess() {
+      failures = 0;
+      trialInFlight = false;
+      setState('closed');
+    },
+
+    recordFailure() {
+      failures += 1;
+      trialInFlight = false;
+      if (state === 'half-open' || failures >= failureThreshold) {
+        openedAt = now();
+        setState('open');
+      }
+    },
+
+    release() {
+      trialInFlight = false;
+    },
+
+    retryInMs() {
+      refresh();
+      return state === 'open' ? Math.max(0, cooldownMs - (now() - openedAt)) : 0;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
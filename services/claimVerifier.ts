@@ -0,0 +1,235 @@
+/**
+ * Claim Verifier
+ * Checks the entity-relation-entity claims in an answer against the graph edges
+ * the agent actually retrieved, so asserted relationships can be flagged in the UI
+ * @module services/claimVerifier
+ */
+
+import type { GraphData } from '../types';
+import type { Evidence, EvidenceEdge, VerifiedClaim } from '../schemas/evidenceSchema';
+import { normalizeRelation, RelationType } from '../constants/kgTaxonomy';
+
+// Entity names shorter than this match too much ordinary text ("AR", "MS")
+const MIN_ENTITY_LENGTH = 3;
+
+// Re-queries are sequential network calls; cap them so verification stays quick
+const MAX_REQUERIES = 3;
+
+export interface ClaimVerifierOptions {
+  /**
+   * Look up an entity's neighborhood for claims the turn's edges don't cover
+   * (typically kgService.getNeighbors)
+   */
+  requery?: (entity: string, signal?: AbortSignal) => Promise<GraphData>;
+  signal?: AbortSignal;
+}
+
+// How prose phrases each PrimeKG relation; a phrase may fit several ("binds" a drug target,
+// a carrier or a partner protein). Phrases not listed fall back to normalizeRelation.
+const RELATION_PHRASES: Array<{ re: RegExp; relations: RelationType[] }> = [
+  { re: /\boff[- ]label\b/i, relations: ['off_label_use'] },
+  { re: /\bcontraindicat|\bavoid/i, relations: ['contraindication'] },
+  { re: /\bsynerg|\bin combination\b|\bcombined with\b/i, relations: ['synergistic_interaction'] },
+  { re: /\bmetaboli[sz]/i, relations: ['enzyme'] },
+  { re: /\btransport/i, relations: ['transporter'] },
+  { re: /\bcarri(?:er|ed)\b/i, relations: ['carrier'] },
+  { re: /\btarget|\binhibit|\bblock|\bantagoni|\bagoni|\bactivat|\bacts? on\b|\bmodulat/i, relations: ['target'] },
+  { re: /\bbind/i, relations: ['target', 'carrier', 'ppi'] },
+  { re: /\btreat|\bindicat|\bapproved\b|\btherapy\b|\bused (?:for|in|to)\b/i, relations: ['indication', 'off_label_use'] },
+  { re: /\bside effect|\bcaus|\binduc|\badverse/i, relations: ['side_effect'] },
+  { re: /\bexpress/i, relations: ['expression_present'] },
+  { re: /\bphenotype|\bsymptom|\bpresents? with\b|\bmanifest/i, relations: ['phenotype_present'] },
+  { re: /\bsubtype|\b(?:type|form|kind) of\b/i, relations: ['parent_child'] },
+  { re: /\binteract|\bcomplex\b/i, relations: ['ppi', 'interacts_with', 'synergistic_interaction'] },
+  { re: /\bpathway|\bparticipat|\bmember|\binvolved in\b/i, relations: ['interacts_with'] },
+  { re: /\bassociat|\blinked|\bimplicated|\bmutat|\brisk\b|\bcorrelat/i, relations: ['associated_with', 'linked_to'] },
+];
+
+const NEGATION = /\b(?:not|no|never|neither|nor|without|lacks?|fails? to|cannot)\b|n't\b/i;
+
+// Denied relations PrimeKG records as relations of their own ("is not expressed in")
+const NEGATED_RELATIONS: Partial<Record<RelationType, RelationType>> = {
+  expression_present: 'expression_absent',
+  phenotype_present: 'phenotype_absent',
+};
+
+/**
+ * The relations the text between two entities asserts (empty when it names none PrimeKG
+ * knows) and whether it denies them rather than affirming them
+ */
+function assertedRelations(phrase: string): { relations: RelationType[]; negated: boolean } {
+  let relations = Array.from(new Set(RELATION_PHRASES.filter(p => p.re.test(phrase)).flatMap(p => p.relations)));
+  if (relations.length === 0) {
+    const relation = normalizeRelation(phrase);
+    if (relation) relations = [relation];
+  }
+  if (!NEGATION.test(phrase)) return { relations, negated: false };
+
+  const absent = relations.flatMap(r => NEGATED_RELATIONS[r] ? [NEGATED_RELATIONS[r]!] : []);
+  return absent.length > 0 ? { relations: absent, negated: false } : { relations, negated: true };
+}
+
+const escapeRegExp = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const pairKey = (a: string, b: string) => [a.toLowerCase(), b.toLowerCase()].sort().join('|');
+
+/**
+ * Split an answer into sentence-sized units; table rows and list items count as one each
+ */
+const splitSentences = (text: string): string[] =>
+  text
+    .split(/\n+|(?<=[.!?])\s+(?=[A-Z*_\[(])/)
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+
+/**
+ * Extract claims: every pair of known entities mentioned in the same sentence,
+ * with the text between them as the asserted relation. Sentences denying the
+ * relation ("does not target") are marked `negated`.
+ *
+ * @param text - Model answer
+ * @param entities - Entity names the turn retrieved (evidence entities and edge endpoints)
+ */
+export function extractClaims(text: string, entities: string[]): Array<Omit<VerifiedClaim, 'status'>> {
+  const names = Array.from(new Set(entities.filter(e => e.length >= MIN_ENTITY_LENGTH)))
+    // Longest first so "breast cancer" wins over "cancer"
+    .sort((a, b) => b.length - a.length);
+  if (names.length < 2) return [];
+
+  const patterns = names.map(name => ({ name, re: new RegExp(`(?<![\\w-])${escapeRegExp(name)}(?![\\w-])`, 'i') }));
+  const claims: Array<Omit<VerifiedClaim, 'status'>> = [];
+  const seen = new Set<string>();
+
+  for (const sentence of splitSentences(text)) {
+    const mentions: Array<{ name: string; index: number; end: number }> = [];
+    for (const { name, re } of patterns) {
+      const match = re.exec(sentence);
+      if (!match) continue;
+      const end = match.index + match[0].length;
+      // Skip names inside a longer name already matched
+      if (mentions.some(m => match.index < m.end && end > m.index)) continue;
+      mentions.push({ name, index: match.index, end });
+    }
+    mentions.sort((a, b) => a.index - b.index);
+
+    for (let i = 0; i < mentions.length - 1; i++) {
+      const subject = mentions[i];
+      const object = mentions[i + 1];
+      const key = `${pairKey(subject.name, object.name)}|${sentence}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const relation = sentence.slice(subject.end, object.index).replace(/[*_`]/g, '').trim();
+      claims.push({
+        id: claims.length,
+        sentence,
+        subject: subject.name,
+        object: object.name,
+        relation,
+        ...(assertedRelations(relation).negated ? { negated: true } : {}),
+      });
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Entity names worth looking for in an answer
+ */
+export const evidenceEntityNames = (evidence: Evidence): string[] => [
+  ...evidence.entities.map(e => e.name),
+  ...evidence.edges.flatMap(e => [e.source, e.target]),
+];
+
+/**
+ * Classify each claim:
+ * - graph: an edge of the asserted relation joins the two entities (either direction),
+ *   from a tool or from re-querying the subject's neighbors
+ * - related: the entities are joined, but by another relation, or the sentence names
+ *   none PrimeKG knows
+ * - literature: no such edge (or the sentence denies the relation), but it cites a retrieved paper
+ * - unverified: neither
+ */
+export async function verifyClaims(
+  text: string,
+  evidence: Evidence,
+  options: ClaimVerifierOptions = {}
+): Promise<VerifiedClaim[]> {
+  const claims = extractClaims(text, evidenceEntityNames(evidence));
+  if (claims.length === 0) return [];
+
+  // Every relation between a pair, not just the first: a drug can be a target's ligand and its substrate
+  const edgesByPair = new Map<string, EvidenceEdge[]>();
+  const addEdge = (edge: EvidenceEdge) => {
+    const key = pairKey(edge.source, edge.target);
+    const edges = edgesByPair.get(key) ?? [];
+    if (!edges.some(e => e.relation === edge.relation)) edgesByPair.set(key, [...edges, edge]);
+  };
+  evidence.edges.forEach(addEdge);
+
+  const matchEdge = (claim: Omit<VerifiedClaim, 'status'>): { edge: EvidenceEdge; exact: boolean } | null => {
+    const edges = edgesByPair.get(pairKey(claim.subject, claim.object));
+    if (!edges) return null;
+    const { relations } = assertedRelations(claim.relation);
+    const exact = edges.find(e => relations.includes(normalizeRelation(e.relation) as RelationType));
+    return { edge: exact ?? edges[0], exact: !!exact };
+  };
+
+  const refs = new Set(evidence.literature.map(l => l.ref));
+  const citesLiterature = (sentence: string) =>
+    Array.from(sentence.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g))
+      .some(m => m[1].split(',').some(r => refs.has(parseInt(r.trim(), 10))));
+
+  // Re-query subjects whose claims the turn's edges don't confirm
+  if (options.requery) {
+    const subjects = Array.from(new Set(
+      claims.filter(c => !c.negated && !matchEdge(c)?.exact).map(c => c.subject)
+    )).slice(0, MAX_REQUERIES);
+
+    for (const subject of subjects) {
+      try {
+        const graph = await options.requery(subject, options.signal);
+        (graph.edges || []).forEach(edge =>
+          addEdge({ source: edge.source, target: edge.target, relation: edge.relation, tool: 'getNeighbors' })
+        );
+      } catch (e: any) {
+        if (e?.name === 'AbortError') throw e;
+        // Unknown entity or KG unavailable: leave its claims as they are
+      }
+    }
+  }
+
+  return claims.map(claim => {
+    const match = claim.negated ? null : matchEdge(claim);
+    if (match) {
+      const { source, target, relation } = match.edge;
+      return { ...claim, status: match.exact ? 'graph' as const : 'related' as const, edge: { source, target, relation } };
+    }
+    return { ...claim, status: citesLiterature(claim.sentence) ? 'literature' as const : 'unverified' as const };
+  });
+}
+
+/**
+ * Append a "#claim-n" marker link after each claimed sentence (worst status wins when a
+ * sentence holds several claims) so the markdown renderer can draw a badge
+ */
+export const annotateClaims = (content: string, claims: VerifiedClaim[] | undefined): string => {
+  if (!claims || claims.length === 0) return content;
+
+  const rank = { unverified: 0, related: 1, literature: 2, graph: 3 };
+  const bySentence = new Map<string, VerifiedClaim>();
+  claims.forEach(claim => {
+    const current = bySentence.get(claim.sentence);
+    if (!current || rank[claim.status] < rank[current.status]) bySentence.set(claim.sentence, claim);
+  });
+
+  let annotated = content;
+  bySentence.forEach((claim, sentence) => {
+    const index = annotated.indexOf(sentence);
+    if (index < 0) return;
+    // Table rows keep the marker inside their last cell
+    const end = index + sentence.length - (sentence.endsWith('|') ? 1 : 0);
+    annotated = `${annotated.slice(0, end)} [${claim.status}](#claim-${claim.id})${annotated.slice(end)}`;
+  });
+  return annotated;
+};
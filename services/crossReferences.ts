@@ -0,0 +1,195 @@
+/**
+ * Ontology Cross-References
+ * PrimeKG nodes keep the identifier of the ontology they were imported from (`source` + `db_id`).
+ * This module turns that pair into CURIEs and outbound links, parses external IDs typed by
+ * the user ("DB00945", "MONDO:0005148") back into a lookup, and collects synonyms: other
+ * PrimeKG names stored under the same identifier.
+ * @module services/crossReferences
+ */
+
+import type { KGNode, SearchResult } from '../types';
+import { kgService } from './kgService';
+
+export type OntologyId = 'mondo' | 'hpo' | 'drugbank' | 'entrez' | 'go' | 'uberon' | 'reactome' | 'ctd' | 'umls';
+
+interface OntologyInfo {
+  label: string;
+  /** CURIE prefix */
+  prefix: string;
+  /** Values of PrimeKG's x_source / y_source column for this ontology */
+  sources: string[];
+  /** Zero-padded width of numeric IDs in CURIEs (PrimeKG stores them unpadded) */
+  padTo?: number;
+  url: (id: string) => string;
+}
+
+export const ONTOLOGIES: Record<OntologyId, OntologyInfo> = {
+  mondo: {
+    label: 'MONDO',
+    prefix: 'MONDO',
+    sources: ['MONDO', 'MONDO_grouped'],
+    padTo: 7,
+    url: id => `https://monarchinitiative.org/MONDO:${id}`,
+  },
+  hpo: {
+    label: 'Human Phenotype Ontology',
+    prefix: 'HP',
+    sources: ['HPO'],
+    padTo: 7,
+    url: id => `https://hpo.jax.org/browse/term/HP:${id}`,
+  },
+  drugbank: {
+    label: 'DrugBank',
+    prefix: 'DRUGBANK',
+    sources: ['DrugBank'],
+    url: id => `https://go.drugbank.com/drugs/${id}`,
+  },
+  entrez: {
+    label: 'Entrez Gene',
+    prefix: 'NCBIGene',
+    sources: ['NCBI'],
+    url: id => `https://www.ncbi.nlm.nih.gov/gene/${id}`,
+  },
+  go: {
+    label: 'Gene Ontology',
+    prefix: 'GO',
+    sources: ['GO'],
+    padTo: 7,
+    url: id => `https://amigo.geneontology.org/amigo/term/GO:${id}`,
+  },
+  uberon: {
+    label: 'UBERON',
+    prefix: 'UBERON',
+    sources: ['UBERON'],
+    padTo: 7,
+    url: id => `https://www.ebi.ac.uk/ols4/ontologies/uberon/classes?obo_id=UBERON:${id}`,
+  },
+  reactome: {
+    label: 'Reactome',
+    prefix: 'REACTOME',
+    sources: ['REACTOME'],
+    url: id => `https://reactome.org/content/detail/${id}`,
+  },
+  ctd: {
+    label: 'CTD (MeSH)',
+    prefix: 'MESH',
+    sources: ['CTD'],
+    url: id => `https://ctdbase.org/detail.go?type=chem&acc=${id}`,
+  },
+  umls: {
+    label: 'UMLS',
+    prefix: 'UMLS',
+    sources: ['UMLS'],
+    url: id => `https://uts.nlm.nih.gov/uts/umls/concept/${id}`,
+  },
+};
+
+export interface CrossReference {
+  ontology: OntologyId;
+  label: string;
+  /** Identifier as PrimeKG stores it */
+  id: string;
+  /** Display form, e.g. "MONDO:0005148" */
+  curie: string;
+  url: string;
+}
+
+export interface ExternalIdQuery {
+  ontology: OntologyId;
+  /** Identifier in PrimeKG's form (numeric IDs unpadded) */
+  id: string;
+}
+
+export const ontologyForSource = (source?: string): OntologyId | null => {
+  const key = (source || '').toUpperCase();
+  const match = (Object.keys(ONTOLOGIES) as OntologyId[]).find(o => ONTOLOGIES[o].sources.some(s => s.toUpperCase() === key));
+  return match ?? null;
+};
+
+const pad = (ontology: OntologyId, id: string) => {
+  const width = ONTOLOGIES[ontology].padTo;
+  return width && /^\d+$/.test(id) ? id.padStart(width, '0') : id;
+};
+
+const unpad = (ontology: OntologyId, id: string) =>
+  ONTOLOGIES[ontology].padTo && /^\d+$/.test(id) ? String(Number(id)) : id;
+
+const toReference = (ontology: OntologyId, id: string): CrossReference => {
+  // Some exports keep the prefix in the ID ("HP:0002664")
+  const padded = pad(ontology, id.replace(/^[A-Za-z]+:/, ''));
+  return {
+    ontology,
+    label: ONTOLOGIES[ontology].label,
+    id,
+    curie: `${ONTOLOGIES[ontology].prefix}:${padded}`,
+    url: ONTOLOGIES[ontology].url(padded),
+  };
+};
+
+/**
+ * Cross-references for a node. Grouped MONDO diseases carry several IDs joined by "_".
+ */
+export function crossReferencesFor(node: Pick<KGNode, 'source' | 'db_id'>): CrossReference[] {
+  const ontology = ontologyForSource(node.source);
+  if (!ontology || !node.db_id) return [];
+  const ids = ontology === 'mondo' ? String(node.db_id).split('_') : [String(node.db_id)];
+  return ids.filter(Boolean).map(id => toReference(ontology, id));
+}
+
+// Bare IDs with a recognizable shape; everything else needs a prefix
+const BARE_PATTERNS: Array<[RegExp, OntologyId]> = [
+  [/^DB\d{5}$/i, 'drugbank'],
+  [/^R-[A-Z]{3}-\d+$/i, 'reactome'],
+  [/^C\d{7}$/i, 'umls'],
+  [/^[CD]\d{6,9}$/i, 'ctd'],
+];
+
+const PREFIXES: Record<string, OntologyId> = {
+  MONDO: 'mondo',
+  HP: 'hpo',
+  HPO: 'hpo',
+  DRUGBANK: 'drugbank',
+  NCBIGENE: 'entrez',
+  ENTREZ: 'entrez',
+  GO: 'go',
+  UBERON: 'uberon',
+  REACTOME: 'reactome',
+  MESH: 'ctd',
+  CTD: 'ctd',
+  UMLS: 'umls',
+};
+
+/**
+ * Recognize an external identifier ("DB00945", "MONDO:0005148", "HP_0001250", "NCBIGene:7157").
+ * Returns null for anything that looks like a plain name.
+ */
+export function parseExternalId(input: string): ExternalIdQuery | null {
+  const text = input.trim();
+  const bare = BARE_PATTERNS.find(([pattern]) => pattern.test(text));
+  if (bare) return { ontology: bare[1], id: text.toUpperCase() };
+
+  const match = text.match(/^([A-Za-z]+)[:_](\S+)$/);
+  const ontology = match && PREFIXES[match[1].toUpperCase()];
+  if (!match || !ontology) return null;
+  return { ontology, id: unpad(ontology, match[2]) };
+}
+
+/**
+ * Nodes whose identifier matches an external ID
+ */
+export async function findByExternalId(query: ExternalIdQuery, signal?: AbortSignal): Promise<SearchResult[]> {
+  const matches = await kgService.searchByExternalId(ONTOLOGIES[query.ontology].sources[0], query.id, signal);
+  return matches.filter(m => m.name);
+}
+
+/**
+ * Other PrimeKG names sharing the node's identifier (e.g. members of a grouped MONDO disease)
+ */
+export async function getSynonyms(node: Pick<KGNode, 'name' | 'source' | 'db_id'>, signal?: AbortSignal): Promise<string[]> {
+  if (!node.source || !node.db_id) return [];
+  const results = await kgService.searchByExternalId(node.source, String(node.db_id), signal);
+  const names = results
+    .map(r => r.name)
+    .filter(name => name && name.toLowerCase() !== node.name.toLowerCase());
+  return Array.from(new Set(names));
+}
@@ -0,0 +1,212 @@
+/**
+ * Entity Resolver
+ * Maps free-text mentions ("breast ca", "metformin") to ranked PrimeKG candidates.
+ * Batches go through the server's /resolve endpoint when it has one, falling back to one
+ * semantic search per mention. Mappings the user confirmed win over search results and are
+ * remembered per project, so the same mention resolves the same way every time.
+ * @module services/entityResolver
+ */
+
+import type { EntityResolutionResponse, SearchResult } from '../types';
+import { kgService } from './kgService';
+import { isNotFoundError } from './errors';
+
+export interface EntityCandidate {
+  name: string;
+  type: string;
+  db_id?: string;
+  /** Relevance in [0, 1]; confirmed mappings score 1 */
+  score: number;
+}
+
+export interface EntityResolution {
+  mention: string;
+  /** Best first; empty when nothing matched */
+  candidates: EntityCandidate[];
+  best: EntityCandidate | null;
+  /** The top candidates are too close to pick without asking the user */
+  ambiguous: boolean;
+  /** `best` comes from a mapping the user confirmed earlier */
+  confirmed: boolean;
+}
+
+export interface ResolveOptions {
+  /** Project whose confirmed mappings apply; mappings without a project are shared */
+  projectId?: string | null;
+  /** Candidates kept per mention. Default: 5 */
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+/** Score gap under which the top two candidates count as a tie */
+export const AMBIGUITY_MARGIN = 0.05;
+
+/** Semantic searches in flight at once when resolving mentions one by one */
+export const SEARCH_CONCURRENCY = 6;
+
+const STORAGE_KEY = 'primekg_entity_mappings';
+const GLOBAL_SCOPE = '_global';
+
+// Set once the server answers /resolve with 404, so later batches skip straight to search
+let batchUnsupported = false;
+
+/**
+ * Case, whitespace and punctuation-insensitive key for a mention
+ */
+export const normalizeMention = (mention: string): string =>
+  mention.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const toCandidate = (result: SearchResult): EntityCandidate => ({
+  name: result.name,
+  type: result.type,
+  ...(result.db_id ? { db_id: result.db_id } : {}),
+  score: typeof result.score === 'number' ? result.score : 0,
+});
+
+/**
+ * Sort, dedupe (same name and type) and flag close calls.
+ * An exact name match is never ambiguous.
+ */
+export function rankCandidates(mention: string, results: SearchResult[], limit = 5): Omit<EntityResolution, 'confirmed'> {
+  const seen = new Set<string>();
+  const candidates = results
+    .filter(r => r && r.name)
+    .map(toCandidate)
+    .sort((a, b) => b.score - a.score)
+    .filter(c => {
+      const key = `${c.name.toLowerCase()}|${c.type}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, limit);
+
+  const [first, second] = candidates;
+  const exact = !!first && normalizeMention(first.name) === normalizeMention(mention);
+  return {
+    mention,
+    candidates,
+    best: first ?? null,
+    ambiguous: !exact && !!second && first.score - second.score < AMBIGUITY_MARGIN,
+  };
+}
+
+type MappingStore = Record<string, Record<string, EntityCandidate>>;
+
+const readMappings = (): MappingStore => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeMappings = (store: MappingStore) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(store));
+  } catch (error) {
+    console.warn('[Resolver] Could not save confirmed mappings:', error);
+  }
+};
+
+/**
+ * Confirmed mappings for a project, keyed by normalized mention
+ */
+export const getConfirmedMappings = (projectId?: string | null): Record<string, EntityCandidate> =>
+  readMappings()[projectId || GLOBAL_SCOPE] || {};
+
+/**
+ * Remember that `mention` means `candidate` within a project
+ */
+export function confirmMapping(mention: string, candidate: EntityCandidate, projectId?: string | null): void {
+  const store = readMappings();
+  const scope = projectId || GLOBAL_SCOPE;
+  store[scope] = { ...store[scope], [normalizeMention(mention)]: { ...candidate, score: 1 } };
+  writeMappings(store);
+}
+
+export function forgetMapping(mention: string, projectId?: string | null): void {
+  const store = readMappings();
+  const scope = projectId || GLOBAL_SCOPE;
+  if (!store[scope]) return;
+  delete store[scope][normalizeMention(mention)];
+  writeMappings(store);
+}
+
+/**
+ * Raw candidates per mention, from /resolve or from per-mention semantic search
+ */
+async function fetchCandidates(mentions: string[], signal?: AbortSignal): Promise<SearchResult[][]> {
+  if (!batchUnsupported && mentions.length > 1) {
+    try {
+      const response: EntityResolutionResponse[] = await kgService.resolveEntities(mentions, signal);
+      // The payload comes from the server unchecked, so malformed rows are skipped
+      const rows = Array.isArray(response) ? response : [];
+      const byMention = new Map(rows.map(row => [normalizeMention(String(row?.mention ?? '')), row?.candidates]));
+      return mentions.map(mention => {
+        const candidates = byMention.get(normalizeMention(mention));
+        return Array.isArray(candidates) ? candidates : [];
+      });
+    } catch (error) {
+      if (!isNotFoundError(error)) throw error;
+      console.warn('[Resolver] Batch endpoint unavailable, resolving mentions one by one');
+      batchUnsupported = true;
+    }
+  }
+
+  // A mention whose search fails stays unresolved instead of failing the batch
+  const results: SearchResult[][] = [];
+  for (let i = 0; i < mentions.length; i += SEARCH_CONCURRENCY) {
+    const batch = mentions.slice(i, i + SEARCH_CONCURRENCY);
+    const outcomes = await Promise.allSettled(batch.map(mention => kgService.searchSemantic(mention, signal)));
+    outcomes.forEach((outcome, j) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+        return;
+      }
+      if (outcome.reason?.name === 'AbortError') throw outcome.reason;
+      console.warn(`[Resolver] Could not resolve "${batch[j]}":`, outcome.reason);
+      results.push([]);
+    });
+  }
+  return results;
+}
+
+/**
+ * Resolve several mentions at once, in input order. Confirmed mappings are applied
+ * without a request; the rest are fetched together.
+ */
+export async function resolveMentions(mentions: string[], options: ResolveOptions = {}): Promise<EntityResolution[]> {
+  const { projectId, limit = 5, signal } = options;
+  const confirmed = getConfirmedMappings(projectId);
+  const pending = Array.from(new Set(
+    mentions.map(m => m.trim()).filter(m => m && !confirmed[normalizeMention(m)])
+  ));
+
+  const fetched = new Map<string, SearchResult[]>();
+  if (pending.length > 0) {
+    const results = await fetchCandidates(pending, signal);
+    pending.forEach((mention, i) => fetched.set(mention, results[i] || []));
+  }
+
+  return mentions.map(raw => {
+    const mention = raw.trim();
+    const mapping = confirmed[normalizeMention(mention)];
+    if (mapping) {
+      return { mention, candidates: [mapping], best: mapping, ambiguous: false, confirmed: true };
+    }
+    return { ...rankCandidates(mention, fetched.get(mention) || [], limit), confirmed: false };
+  });
+}
+
+export async function resolveMention(mention: string, options: ResolveOptions = {}): Promise<EntityResolution> {
+  const [resolution] = await resolveMentions([mention], options);
+  return resolution;
+}
+
+/**
+ * Forget that the server lacks /resolve (after switching KG backends, and in tests)
+ */
+export function resetResolver(): void {
+  batchUnsupported = false;
+}
@@ -0,0 +1,190 @@
+/**
+ * Shared Error Model
+ * Every service turns transport and API failures into one of these classes, so callers
+ * branch on the class (or `kind`) instead of matching message text, and UI code can offer
+ * the recovery action that fits: retry, wait, fix the key, or try another name.
+ * @module services/errors
+ */
+
+/** Which dependency failed */
+export type ErrorService = 'kg' | 'pubmed' | 'llm' | 'supabase';
+
+export type AppErrorKind = 'not_found' | 'rate_limited' | 'timeout' | 'network' | 'upstream' | 'auth';
+
+export interface AppErrorOptions {
+  service: ErrorService;
+  /** HTTP status, when the failure was an HTTP response */
+  status?: number;
+  endpoint?: string;
+  /** From a Retry-After header or the provider's quota message */
+  retryAfterMs?: number;
+  cause?: unknown;
+}
+
+export abstract class AppError extends Error {
+  abstract readonly kind: AppErrorKind;
+  readonly service: ErrorService;
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, options: AppErrorOptions) {
+    super(message);
+    this.name = new.target.name;
+    this.service = options.service;
+    this.status = options.status;
+    this.endpoint = options.endpoint;
+    this.retryAfterMs = options.retryAfterMs;
+    if (options.cause !== undefined) (this as { cause?: unknown }).cause = options.cause;
+  }
+
+  /** Worth another attempt: the same request may succeed later */
+  get retryable(): boolean {
+    return false;
+  }
+}
+
+/** The entity, path or record doesn't exist (usually shown as an empty result) */
+export class NotFoundError extends AppError {
+  readonly kind = 'not_found' as const;
+}
+
+/** Too many requests or quota exhausted; `retryAfterMs` says how long to wait when known */
+export class RateLimitedError extends AppError {
+  readonly kind = 'rate_limited' as const;
+
+  get retryable() {
+    return true;
+  }
+}
+
+export class TimeoutError extends AppError {
+  readonly kind = 'timeout' as const;
+
+  get retryable() {
+    return true;
+  }
+}
+
+/** The server couldn't be reached, or (`cors`) it answered but the browser blocked the response */
+export class NetworkError extends AppError {
+  readonly kind = 'network' as const;
+  readonly cors: boolean;
+
+  constructor(message: string, options: AppErrorOptions & { cors?: boolean }) {
+    super(message, options);
+    this.cors = options.cors ?? false;
+  }
+
+  get retryable() {
+    return !this.cors;
+  }
+}
+
+/**
+ * The service answered with an error (5xx, or a 4xx other than the ones above).
+ * `degraded` marks requests not attempted because the service keeps failing.
+ */
+export class UpstreamError extends AppError {
+  readonly kind = 'upstream' as const;
+  readonly degraded: boolean;
+
+  constructor(message: string, options: AppErrorOptions & { degraded?: boolean }) {
+    super(message, options);
+    this.degraded = options.degraded ?? false;
+  }
+
+  get retryable() {
+    return !this.degraded && (this.status === undefined || this.status >= 500);
+  }
+}
+
+/** Missing, invalid or unauthorized credentials */
+export class AuthError extends AppError {
+  readonly kind = 'auth' as const;
+}
+
+/**
+ * Class for an HTTP error status
+ */
+export function errorFromStatus(status: number, message: string, options: AppErrorOptions): AppError {
+  const withStatus = { ...options, status };
+  if (status === 404) return new NotFoundError(message, withStatus);
+  if (status === 429) return new RateLimitedError(message, withStatus);
+  if (status === 401 || status === 403) return new AuthError(message, withStatus);
+  if (status === 408 || status === 504) return new TimeoutError(message, withStatus);
+  return new UpstreamError(message, withStatus);
+}
+
+export const isAppError = (error: unknown): error is AppError => error instanceof AppError;
+
+/**
+ * True for "no such entity / no result" answers, which callers usually turn into empty results.
+ * Plain errors in the "API Error: 404 ..." shape count too.
+ */
+export function isNotFoundError(error: unknown): boolean {
+  if (error instanceof AppError) return error instanceof NotFoundError;
+  return error instanceof Error && error.message.includes('404');
+}
+
+/**
+ * Classify an error thrown by code that doesn't use this model (SDKs, fetch, older callers).
+ * AbortErrors are the caller's decision and should be rethrown before calling this.
+ */
+export function toAppError(error: unknown, service: ErrorService): AppError {
+  if (error instanceof AppError) return error;
+
+  const message = error instanceof Error ? error.message : String(error ?? 'Unknown error');
+  const raw = error as { status?: unknown; code?: unknown; name?: string } | undefined;
+  const status = typeof raw?.status === 'number' ? raw.status
+    : typeof raw?.code === 'number' ? raw.code
+    : Number(message.match(/\b(?:API Error|HTTP|got status):?\s*(\d{3})\b/i)?.[1]) || undefined;
+
+  // Provider SDKs often carry the reason only in the message
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) {
+    const retrySeconds = Number(message.match(/retry in ([\d.]+)s/i)?.[1]);
+    return new RateLimitedError(message, {
+      service,
+      status,
+      retryAfterMs: retrySeconds ? Math.ceil(retrySeconds * 1000) : undefined,
+      cause: error,
+    });
+  }
+  if (/API key not valid|API_KEY_INVALID|PERMISSION_DENIED|UNAUTHENTICATED|invalid api key/i.test(message)) {
+    return new AuthError(message, { service, status, cause: error });
+  }
+  if (status) return errorFromStatus(status, message, { service, cause: error });
+  if (raw?.name === 'TimeoutError' || /timed out|timeout/i.test(message)) {
+    return new TimeoutError(message, { service, cause: error });
+  }
+  if (error instanceof TypeError || /failed to fetch|network|ECONNREFUSED/i.test(message)) {
+    return new NetworkError(message, { service, cause: error });
+  }
+  return new UpstreamError(message, { service, cause: error });
+}
+
+/**
+ * Serializable summary kept on chat messages and in component state
+ */
+export interface AppErrorInfo {
+  kind: AppErrorKind;
+  service: ErrorService;
+  message: string;
+  retryAfterMs?: number;
+  /** Present for network errors caused by a CORS block */
+  cors?: boolean;
+  /** Present when the service is in its degraded (circuit open) state */
+  degraded?: boolean;
+}
+
+export function describeError(error: unknown, service: ErrorService): AppErrorInfo {
+  const appError = toAppError(error, service);
+  return {
+    kind: appError.kind,
+    service: appError.service,
+    message: appError.message,
+    ...(appError.retryAfterMs !== undefined ? { retryAfterMs: appError.retryAfterMs } : {}),
+    ...(appError instanceof NetworkError && appError.cors ? { cors: true } : {}),
+    ...(appError instanceof UpstreamError && appError.degraded ? { degraded: true } : {}),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Evidence Builder
+ * Collects what an agent answer was grounded on into a typed Evidence bundle
+ * @module services/evidenceBuilder
+ */
+
+import type { ToolTraceEntry } from '../types';
+import type { InlineCitation } from '../types/pubmed';
+import type { Evidence, EvidenceEdge, EvidenceEntity } from '../schemas/evidenceSchema';
+
+const SEARCH_TOOLS = new Set(['searchText', 'searchSemantic']);
+
+/**
+ * Tool results as returned to the model: plain lists, truncated `{ items }` lists,
+ * graphs with `{ nodes, edges }`, or edge lists
+ */
+const listItems = (result: any): any[] => {
+  if (Array.isArray(result)) return result;
+  if (result && Array.isArray(result.items)) return result.items;
+  return [];
+};
+
+const graphEdges = (result: any): any[] => {
+  if (result && Array.isArray(result.edges)) return result.edges;
+  return listItems(result).filter(item => item?.source && item?.target && item?.relation);
+};
+
+/**
+ * Build the evidence bundle for one answer
+ *
+ * @param toolResults - Tool calls with the results the model received
+ * @param toolTrace - Per-call outcome, in call order
+ * @param citations - Papers the model could cite as [n]
+ * @param webSources - Google Search grounding sources
+ */
+export function buildEvidence(
+  toolResults: Array<{ name: string; args: any; result: any }>,
+  toolTrace: ToolTraceEntry[],
+  citations: InlineCitation[],
+  webSources: Array<{ title: string; uri: string }>
+): Evidence {
+  const entities: EvidenceEntity[] = [];
+  const edges: EvidenceEdge[] = [];
+  const seenEntities = new Set<string>();
+  const seenEdges = new Set<string>();
+
+  const addEntity = (query: unknown, top: any) => {
+    if (!top?.name || seenEntities.has(top.name)) return;
+    seenEntities.add(top.name);
+    // Backends may return numeric ids
+    const id = top.db_id || top.id;
+    entities.push({
+      query: String(query ?? ''),
+      name: top.name,
+      type: top.type || 'unknown',
+      id: id != null ? String(id) : undefined,
+      score: typeof top.score === 'number' ? top.score : undefined,
+    });
+  };
+
+  for (const { name, args, result } of toolResults) {
+    if (SEARCH_TOOLS.has(name)) {
+      // The top hit is what the model goes on to use
+      addEntity(args?.query, listItems(result)[0]);
+      continue;
+    }
+    if (name === 'resolveEntities') {
+      listItems(result).forEach(resolution => addEntity(resolution?.mention, resolution?.best));
+      continue;
+    }
+
+    for (const edge of graphEdges(result)) {
+      const key = `${edge.source}|${edge.relation}|${edge.target}`;
+      if (seenEdges.has(key)) continue;
+      seenEdges.add(key);
+      edges.push({ source: String(edge.source), target: String(edge.target), relation: String(edge.relation), tool: name });
+    }
+  }
+
+  return {
+    entities,
+    edges,
+    toolCalls: toolTrace.map(t => ({ name: t.name, args: t.args, status: t.status, resultSize: t.resultSize })),
+    literature: citations.map(c => ({ ref: c.ref, pmid: c.pmid, title: c.title, url: c.url })),
+    webSources,
+  };
+}
+
+/**
+ * True when the bundle has nothing worth showing
+ */
+export const isEmptyEvidence = (evidence: Evidence): boolean =>
+  evidence.entities.length === 0 &&
+  evidence.edges.length === 0 &&
+  evidence.toolCalls.length === 0 &&
+  evidence.literature.length === 0 &&
+  evidence.webSources.length === 0;
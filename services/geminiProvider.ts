@@ -0,0 +1,44 @@
+/**
+ * Gemini LLM Provider
+ * Thin wrapper over @google/genai; the provider interface already uses its shapes
+ * @module services/geminiProvider
+ */
+
+import { GoogleGenAI } from '@google/genai';
+import { GeminiModel } from '../types';
+import type { LLMProvider } from './llmProvider';
+
+export function createGeminiProvider(apiKey: string): LLMProvider {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    kind: 'gemini',
+    label: 'Gemini',
+    defaultModel: GeminiModel.FLASH,
+    supportsWebSearch: true,
+
+    createChat: ({ model, systemInstruction, tools, history, abortSignal }) =>
+      ai.chats.create({
+        model,
+        config: { tools, abortSignal, systemInstruction },
+        history,
+      }),
+
+    async generateText({ model, prompt, json, maxOutputTokens, signal }) {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        config: {
+          abortSignal: signal,
+          maxOutputTokens,
+          ...(json ? { responseMimeType: 'application/json' } : {}),
+        },
+      });
+      return response.text ?? '';
+    },
+
+    async listModels() {
+      return Object.values(GeminiModel);
+    },
+  };
+}
@@ -1,7 +1,27 @@
-import { GoogleGenAI, Type, FunctionDeclaration, Tool, Part } from "@google/genai";
-import { GeminiModel } from '../types';
+import {
+  Type,
+  FunctionDeclaration,
+  Tool,
+  Part,
+  Content,
+  FunctionCall,
+  PartListUnion,
+  GenerateContentResponseUsageMetadata,
+  GroundingMetadata
+} from "@google/genai";
+import { GeminiModel, ToolCallStatus, ToolTraceEntry } from '../types';
 import { kgService } from './kgService';
-import { searchEntityCitations } from './pubmedService';
+import { resolveMentions } from './entityResolver';
+import { describeTaxonomyForPrompt } from '../constants/kgTaxonomy';
+import { searchEntityCitations, toInlineCitation } from './pubmedService';
+import type { InlineCitation } from '../types/pubmed';
+import type { Evidence } from '../schemas/evidenceSchema';
+import { buildEvidence, isEmptyEvidence } from './evidenceBuilder';
+import { verifyClaims } from './claimVerifier';
+import type { LLMChat } from './llmProvider';
+import { getLlmProvider, getLlmSettings, resolveModel } from './llmService';
+import { AppErrorInfo, RateLimitedError, AuthError, UpstreamError, describeError, isNotFoundError, toAppError } from './errors';
+import { callServerTool, getServerTool, mergeToolDeclarations } from './toolSchemaSync';
 
 // --- Tool Definitions ---
 
@@ -43,6 +63,22 @@ const searchSemanticDecl: FunctionDeclaration = {
   },
 };
 
+const resolveEntitiesDecl: FunctionDeclaration = {
+  name: "resolveEntities",
+  description: "Resolve several entity mentions (e.g. a drug and a disease from the question) to canonical Knowledge Graph names in one call. Returns ranked candidates per mention, flags ambiguous ones, and applies mappings the user has confirmed.",
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      mentions: {
+        type: Type.ARRAY,
+        items: { type: Type.STRING },
+        description: "Free-text mentions, as written by the user.",
+      },
+    },
+    required: ["mentions"],
+  },
+};
+
 // 5. Neighbors
 const getNeighborsDecl: FunctionDeclaration = {
   name: "getNeighbors",
@@ -186,6 +222,12 @@ export const TOKEN_OPTIMIZATION_CONFIG = {
   INCLUDE_HISTORY_SUMMARY: true,
 };
 
+// Independent tool calls requested in the same turn run concurrently, up to this many at once
+const MAX_PARALLEL_TOOL_CALLS = 4;
+
+// Tool-calling turns allowed per answer unless the session overrides it
+export const DEFAULT_MAX_TURNS = 5;
+
 /**
  * Prepara el historial de chat para enviar al LLM con optimización de tokens.
  * Implementa sliding window + truncado de mensajes largos.
@@ -306,26 +348,357 @@ function truncateToolResponse(
   return result;
 }
 
-const tools: Tool[] = [{
-  functionDeclarations: [
-    checkHealthDecl,
-    getGraphStatsDecl,
-    searchTextDecl,
-    searchSemanticDecl,
-    getNeighborsDecl,
-    getSubgraphDecl,
-    getShortestPathDecl,
-    getDrugRepurposingDecl,
-    getTherapeuticTargetsDecl,
-    getMechanismDecl,
-    getDrugCombinationsDecl,
-    getPhenotypeMatchingDecl,
-    getEnvironmentalRisksDecl,
-    getLiteratureDecl
-  ]
-}];
+// Tools with hand-written handlers in executeToolCall; server-advertised extras are appended at request time
+const bundledDeclarations: FunctionDeclaration[] = [
+  checkHealthDecl,
+  getGraphStatsDecl,
+  searchTextDecl,
+  searchSemanticDecl,
+  resolveEntitiesDecl,
+  getNeighborsDecl,
+  getSubgraphDecl,
+  getShortestPathDecl,
+  getDrugRepurposingDecl,
+  getTherapeuticTargetsDecl,
+  getMechanismDecl,
+  getDrugCombinationsDecl,
+  getPhenotypeMatchingDecl,
+  getEnvironmentalRisksDecl,
+  getLiteratureDecl
+];
 
-export const generateResponse = async (
+/**
+ * One tool invocation and what it returned, in call order
+ */
+export interface AgentToolResult {
+  name: string;
+  args: any;
+  result: any;
+  /** Why the call failed, when it did (the model only sees a short message in `result`) */
+  error?: AppErrorInfo;
+}
+
+/**
+ * Chat state captured when an answer hit its turn budget, enough to pick the
+ * investigation back up without re-running the tools already called
+ */
+export interface AgentContinuation {
+  /** Full Gemini chat history, including function calls and responses */
+  history: Content[];
+  /** Calls the model asked for in its last turn that are still unanswered in `history` */
+  pendingCalls: FunctionCall[];
+  /** Calls that were cut off by the budget and answered with a "skipped" notice */
+  skippedCalls: Array<{ name: string; args: any }>;
+  toolResults: AgentToolResult[];
+  toolTrace: ToolTraceEntry[];
+  citations: InlineCitation[];
+  /** Turns already spent across earlier runs, so trace turn numbers keep counting */
+  turnsUsed: number;
+}
+
+export interface AgentOptions {
+  enableWebSearch?: boolean;
+  /** Tool-calling turns allowed for this run (default DEFAULT_MAX_TURNS) */
+  maxTurns?: number;
+  /** Resume a run that stopped at its turn budget; `history` and attachments are ignored */
+  resume?: AgentContinuation;
+  /** Re-query getNeighbors for claims the turn's own edges don't cover (default false) */
+  requeryClaims?: boolean;
+  /** Project whose confirmed entity mappings resolveEntities applies */
+  projectId?: string | null;
+}
+
+/**
+ * Final answer produced by the agent loop
+ */
+export interface AgentResponse {
+  text: string;
+  /** True when the turn budget ran out while the model still wanted to call tools */
+  budgetExhausted?: boolean;
+  /** Present with budgetExhausted; pass back as `options.resume` to keep investigating */
+  continuation?: AgentContinuation;
+  data?: AgentToolResult[];
+  /** Per-call timings, in call order */
+  toolTrace?: ToolTraceEntry[];
+  citations?: InlineCitation[];
+  /** Entities, graph edges, tool calls, papers and web sources the answer was grounded on */
+  evidence?: Evidence;
+  usage?: { promptTokens: number; completionTokens: number };
+  /** Set when the answer is an error notice rather than a real answer */
+  error?: AppErrorInfo;
+}
+
+/**
+ * Incremental events emitted by generateResponseStream
+ * - text: next chunk of the answer as the model writes it
+ * - tool_start / tool_end: a tool call began or finished
+ * - graph: a tool returned nodes/edges that can be previewed right away
+ * - done: the complete answer (always the last event)
+ */
+export type AgentStreamEvent =
+  | { type: 'text'; delta: string }
+  | { type: 'tool_start'; callId: string; name: string; args: any }
+  | { type: 'tool_end'; callId: string; name: string; status: ToolCallStatus; result: any; trace: ToolTraceEntry }
+  | { type: 'graph'; callId: string; name: string; data: { nodes: any[]; edges: any[] } }
+  | { type: 'done'; response: AgentResponse };
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+/**
+ * Everything a tool call may need besides its arguments
+ */
+interface ToolContext {
+  abortSignal?: AbortSignal;
+  onLog?: (entry: string) => void;
+  /** Papers retrieved this answer, numbered in retrieval order and deduped by PMID */
+  citationRegistry: Map<string, InlineCitation>;
+  /** Project whose confirmed entity mappings apply */
+  projectId?: string | null;
+}
+
+/**
+ * Dispatch one model-requested tool call to the KG / literature services.
+ * Throws on transport errors; "not found" cases that carry meaning are turned into results here.
+ */
+async function executeToolCall(name: string, args: any, ctx: ToolContext): Promise<any> {
+  const { abortSignal, onLog, citationRegistry, projectId } = ctx;
+
+  switch (name) {
+    case "checkHealth":
+      onLog?.('→ PrimeKG: /health');
+      return kgService.getHealth(abortSignal);
+    case "getGraphStats":
+      onLog?.('→ PrimeKG: /stats');
+      return kgService.getStats(abortSignal);
+    case "searchText":
+      onLog?.(`→ PrimeKG: /search/text?q=${String(args.query ?? '')}`);
+      return truncateToolResponse(await kgService.searchText(args.query as string, abortSignal));
+    case "searchSemantic":
+      onLog?.(`→ PrimeKG: /search/semantic?q=${String(args.query ?? '')}`);
+      return truncateToolResponse(await kgService.searchSemantic(args.query as string, abortSignal));
+    case "resolveEntities": {
+      const mentions: string[] = Array.isArray(args.mentions) ? args.mentions.map(String) : [];
+      onLog?.(`→ PrimeKG: resolve ${mentions.join(', ')}`);
+      const resolutions = await resolveMentions(mentions, { projectId, limit: 3, signal: abortSignal });
+      return resolutions.map(({ mention, best, ambiguous, confirmed, candidates }) => ({
+        mention,
+        best,
+        ...(ambiguous ? { ambiguous, candidates } : {}),
+        ...(confirmed ? { confirmed } : {}),
+      }));
+    }
+    case "getSubgraph": {
+      const hops = (args.hops as number) || 1;
+      const limit = (args.limit as number) || 50;
+      onLog?.(`→ PrimeKG: subgraph for ${String(args.entity ?? '')} (hops=${hops}, limit=${limit})`);
+      return truncateToolResponse(await kgService.getSubgraph(args.entity as string, hops, limit, abortSignal));
+    }
+    case "getDrugRepurposing":
+      onLog?.(`→ PrimeKG: repurposing for ${String(args.disease ?? '')}`);
+      return truncateToolResponse(await kgService.getDrugRepurposing(args.disease as string, abortSignal));
+    case "getTherapeuticTargets":
+      onLog?.(`→ PrimeKG: targets for ${String(args.disease ?? '')}`);
+      return truncateToolResponse(await kgService.getTherapeuticTargets(args.disease as string, abortSignal));
+    case "getMechanism":
+      onLog?.(`→ PrimeKG: mechanisms ${String(args.drug ?? '')} ↔ ${String(args.disease ?? '')}`);
+      try {
+        return truncateToolResponse(await kgService.getDrugMechanism(args.drug as string, args.disease as string, abortSignal));
+      } catch (err: any) {
+        // If 404, it just means no mechanism known, not a system failure.
+        if (isNotFoundError(err)) {
+          return { result: "No direct mechanism of action found in Knowledge Graph." };
+        }
+        throw err; // Re-throw actual errors
+      }
+    case "getShortestPath":
+      onLog?.(`→ PrimeKG: path ${String(args.source ?? '')} → ${String(args.target ?? '')}`);
+      try {
+        return truncateToolResponse(await kgService.getShortestPath(args.source as string, args.target as string, abortSignal));
+      } catch (err: any) {
+        if (isNotFoundError(err)) {
+          return { result: "No path found between these entities within limit." };
+        }
+        throw err;
+      }
+    case "getNeighbors":
+      onLog?.(`→ PrimeKG: neighbors for ${String(args.nodeId ?? '')}`);
+      try {
+        return truncateToolResponse(await kgService.getNeighbors(args.nodeId as string, abortSignal));
+      } catch (err: any) {
+        if (isNotFoundError(err)) {
+          return { result: "Entity found, but has no recorded neighbors in this graph view." };
+        }
+        throw err;
+      }
+    case "getDrugCombinations":
+      onLog?.(`→ PrimeKG: combinations for ${String(args.drug ?? '')}`);
+      return truncateToolResponse(await kgService.getDrugCombinations(args.drug as string, abortSignal));
+    case "getPhenotypeMatching":
+      onLog?.(`→ PrimeKG: phenotype matching for ${String(args.disease ?? '')}`);
+      return truncateToolResponse(await kgService.getPhenotypeMatching(args.disease as string, abortSignal));
+    case "getEnvironmentalRisks":
+      onLog?.(`→ PrimeKG: environmental risks for ${String(args.disease ?? '')}`);
+      return truncateToolResponse(await kgService.getEnvironmentalRisks(args.disease as string, abortSignal));
+    case "getLiterature": {
+      onLog?.(`→ PubMed: citations for ${String(args.entity ?? '')}`);
+      const rawLit = await searchEntityCitations(args.entity as string, (args.type as any) || 'gene', 5);
+      onLog?.(`📚 ${rawLit.length} papers retrieved`);
+
+      // Simplified for LLM consumption; `ref` is the number the model cites inline
+      return rawLit.map(p => {
+        const key = p.pmid || p.id;
+        let citation = citationRegistry.get(key);
+        if (!citation) {
+          citation = toInlineCitation(p, citationRegistry.size + 1);
+          citationRegistry.set(key, citation);
+        }
+        return {
+          ref: citation.ref,
+          pmid: p.pmid,
+          title: p.title,
+          authors: p.authors,
+          journal: p.journal,
+          year: p.year,
+          cited: p.citedByCount,
+          abstract: p.abstract ? p.abstract.substring(0, 300) + '...' : 'No abstract'
+        };
+      });
+    }
+    default: {
+      // Server-advertised tool without a bundled handler
+      const serverTool = getServerTool(name);
+      if (!serverTool) return { error: "Unknown function" };
+      onLog?.(`→ PrimeKG: ${serverTool.endpoint}`);
+      return truncateToolResponse(await callServerTool(serverTool, args || {}, abortSignal));
+    }
+  }
+}
+
+/**
+ * Number of records in a tool result (list items or graph nodes), for the timeline
+ */
+function measureResult(result: any): number {
+  if (!result || result.error) return 0;
+  if (Array.isArray(result)) return result.length;
+  if (Array.isArray(result.nodes)) return result.nodes.length;
+  if (Array.isArray(result.items)) return result.items.length;
+  return 1;
+}
+
+/**
+ * Run `worker` over `items` with at most `limit` in flight, re-yielding the events
+ * workers emit as soon as they happen. Rejects with the first worker error.
+ */
+async function* runConcurrently<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number, emit: (event: AgentStreamEvent) => void) => Promise<void>
+): AsyncGenerator<AgentStreamEvent, void> {
+  const queue: AgentStreamEvent[] = [];
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+  const emit = (event: AgentStreamEvent) => {
+    queue.push(event);
+    notify();
+  };
+
+  let nextIndex = 0;
+  let active = 0;
+  let settled = 0;
+  let failure: unknown = null;
+
+  const launch = () => {
+    while (!failure && active < limit && nextIndex < items.length) {
+      const index = nextIndex++;
+      active++;
+      worker(items[index], index, emit)
+        .catch(err => { failure = failure ?? err; })
+        .finally(() => {
+          active--;
+          settled++;
+          launch();
+          notify();
+        });
+    }
+  };
+  launch();
+
+  while (queue.length > 0 || (!failure && settled < items.length)) {
+    if (queue.length > 0) {
+      yield queue.shift()!;
+      continue;
+    }
+    await new Promise<void>(resolve => { wake = resolve; });
+  }
+
+  if (failure) throw failure;
+}
+
+/**
+ * What one streamed model turn produced
+ */
+interface TurnOutput {
+  text: string;
+  functionCalls: FunctionCall[];
+  usage?: GenerateContentResponseUsageMetadata;
+  groundingMetadata?: GroundingMetadata;
+  /** False when the stream ended without a single candidate */
+  hasCandidate: boolean;
+}
+
+/**
+ * Send one message on the chat and re-yield its text as it streams in.
+ * Function calls, usage and grounding are collected and returned once the turn completes.
+ */
+async function* streamTurn(
+  chat: LLMChat,
+  message: PartListUnion,
+  abortSignal?: AbortSignal
+): AsyncGenerator<AgentStreamEvent, TurnOutput> {
+  if (abortSignal?.aborted) throw abortError();
+  const stream = await chat.sendMessageStream({ message });
+
+  const output: TurnOutput = { text: '', functionCalls: [], hasCandidate: false };
+
+  for await (const chunk of stream) {
+    if (abortSignal?.aborted) throw abortError();
+
+    const candidate = chunk.candidates?.[0];
+    if (candidate) output.hasCandidate = true;
+
+    const delta = (candidate?.content?.parts || []).map(part => part.text || '').join('');
+    if (delta) {
+      output.text += delta;
+      yield { type: 'text', delta };
+    }
+
+    if (chunk.functionCalls?.length) output.functionCalls.push(...chunk.functionCalls);
+    if (chunk.usageMetadata) output.usage = chunk.usageMetadata;
+    if (candidate?.groundingMetadata) output.groundingMetadata = candidate.groundingMetadata;
+  }
+
+  return output;
+}
+
+/**
+ * Message that picks a budget-limited investigation back up
+ */
+function buildContinuationPrompt(resume: AgentContinuation, guidance: string, maxTurns: number): string {
+  const skipped = resume.skippedCalls.length > 0
+    ? `\nTool calls you requested that were not run:\n${resume.skippedCalls.map(c => `- ${c.name}(${JSON.stringify(c.args)})`).join('\n')}\n`
+    : '';
+  return `Continue the investigation from where you stopped. You have a fresh budget of ${maxTurns} tool-calling turns; do not repeat calls whose results you already have.${skipped}${guidance ? `\nUser guidance: ${guidance}` : ''}\nWhen done, write the complete final answer.`;
+}
+
+/**
+ * Streaming agent loop: yields answer text, tool activity and graph data as they happen,
+ * finishing with a single `done` event that carries the complete response.
+ * Throws an AbortError when `abortSignal` fires; any text already yielded is the partial answer.
+ */
+export async function* generateResponseStream(
   prompt: string,
   history: Array<{ role: string; parts: Array<{ text: string }> }>,
   modelName: GeminiModel = GeminiModel.FLASH,
@@ -333,33 +706,31 @@ export const generateResponse = async (
   fileAttachments?: Array<{ name: string; data: string; mimeType: string }>,
   onLog?: (entry: string) => void,
   abortSignal?: AbortSignal,
-  options?: { enableWebSearch?: boolean }
-): Promise<{ text: string; data?: any; usage?: { promptTokens: number; completionTokens: number } }> => {
+  options?: AgentOptions
+): AsyncGenerator<AgentStreamEvent, void> {
   // Get active tool context from sessionStorage
   const activeTool = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem('activeTool') : null;
   const toolContext = typeof sessionStorage !== 'undefined' ? sessionStorage.getItem('toolContext') : null;
 
-  // Priority: 1) User-provided key, 2) localStorage key, 3) env key
-  let geminiApiKey = userApiKey || '';
-
-  // Try to get from localStorage if running in browser
-  if (!geminiApiKey && typeof window !== 'undefined') {
-    geminiApiKey = localStorage.getItem('primekg_gemini_api_key') || '';
+  // Gemini key priority: 1) User-provided key, 2) localStorage key, 3) env key
+  const settings = getLlmSettings();
+  const provider = getLlmProvider(settings, userApiKey);
+
+  if (!provider) {
+    const text = settings.provider === 'openai'
+      ? "⚠️ **Your model server is not fully configured.**\n\nOpen **⚙️ Set API Key**, choose **OpenAI-compatible server**, and enter its base URL and model name."
+      : "⚠️ **You don't have an API key set.**\n\nTo use PrimeAI, add your own Google Gemini API key.\n\nClick the **⚙️ Set API Key** button at the top to add it.\n\n📖 You can get one for free at [Google AI Studio](https://aistudio.google.com/app/apikey).";
+    yield { type: 'text', delta: text };
+    yield { type: 'done', response: { text, error: { kind: 'auth', service: 'llm', message: 'No model provider configured' } } };
+    return;
   }
 
-  // Fallback to env vars (for development)
-  if (!geminiApiKey) {
-    geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY || import.meta.env.GEMINI_API_KEY || '';
+  // Google Search grounding only exists on Gemini; elsewhere stay on the graph tools
+  const enableWebSearch = !!options?.enableWebSearch && provider.supportsWebSearch;
+  if (options?.enableWebSearch && !enableWebSearch) {
+    onLog?.(`⚠️ Web search is not available with ${provider.label}; using PrimeKG tools`);
   }
 
-  if (!geminiApiKey) {
-    return {
-      text: "⚠️ **You don't have an API key set.**\n\nTo use PrimeAI, add your own Google Gemini API key.\n\nClick the **⚙️ Set API Key** button at the top to add it.\n\n📖 You can get one for free at [Google AI Studio](https://aistudio.google.com/app/apikey)."
-    };
-  }
-
-  const ai = new GoogleGenAI({ apiKey: geminiApiKey });
-
   // Build tools dynamically based on options
   // IMPORTANT: Google Search and Function Calling are MUTUALLY EXCLUSIVE in current API versions.
   // We must choose one or the other to avoid 400 "Tool use with function calling is unsupported".
@@ -367,7 +738,7 @@ export const generateResponse = async (
   let activeTools: Tool[] = [];
   let modeSystemInstruction = "";
 
-  if (options?.enableWebSearch) {
+  if (enableWebSearch) {
     // MODE: WEB SEARCH (Graph access disabled to prevent API error)
     activeTools = [{ googleSearch: {} }];
     modeSystemInstruction = `
@@ -381,23 +752,7 @@ Use Google Search when:
 `;
   } else {
     // MODE: PRIMEKG GRAPH (Default)
-    activeTools = [{
-      functionDeclarations: [
-        checkHealthDecl,
-        getGraphStatsDecl,
-        searchTextDecl,
-        searchSemanticDecl,
-        getNeighborsDecl,
-        getSubgraphDecl,
-        getShortestPathDecl,
-        getDrugRepurposingDecl,
-        getTherapeuticTargetsDecl,
-        getMechanismDecl,
-        getDrugCombinationsDecl,
-        getPhenotypeMatchingDecl,
-        getEnvironmentalRisksDecl
-      ]
-    }];
+    activeTools = [{ functionDeclarations: mergeToolDeclarations(bundledDeclarations) }];
     modeSystemInstruction = `
 ## MODE: PRIMEKG KNOWLEDGE GRAPH
 You have access to the **PrimeKG** precision medicine knowledge graph.
@@ -407,7 +762,7 @@ Use the available tools (searchSemantic, getNeighbors, etc.) to query the graph.
 
   // --- Model-Specific Intelligence Enhancements ---
   let modelEnhancements = "";
-  
+
   if (modelName === GeminiModel.FLASH_2_0_EXP) {
     // Gemini 2.0 Flash: Maximum intelligence mode
     modelEnhancements = `
@@ -448,11 +803,12 @@ Provide thorough analysis with biological context. Prioritize accuracy over spee
 `;
   }
 
-  const chat = ai.chats.create({
-    model: modelName,
-    config: {
-      tools: activeTools,
-      systemInstruction: `You are PrimeAI, an advanced biomedical research assistant with access to the PrimeKG knowledge graph.
+  const chat = provider.createChat({
+    model: resolveModel(provider, modelName),
+    tools: activeTools,
+    // Cancels the in-flight HTTP stream when the user stops generation
+    abortSignal,
+    systemInstruction: `You are PrimeAI, an advanced biomedical research assistant with access to the PrimeKG knowledge graph.
 
 ${modeSystemInstruction}
 
@@ -467,6 +823,7 @@ First, resolve entities using semantic search. Then query appropriate tools. Fin
 
 ## TOOL SELECTION
 - **searchSemantic**: **PRIMARY TOOL**. Use this for ALL entity resolution triggers ("tibia fracture", "Aspirin"). It searches across all types (Disease, Phenotype, Drug, etc.) and handles synonyms.
+- **resolveEntities**: Resolve several mentions in one call (e.g. a drug and a disease). Prefer it over repeated searchSemantic calls. If a mention comes back ambiguous, pick using the question's context or ask the user.
 - **searchText**: **FALLBACK ONLY**. Use only if semantic search fails to find a specific exact name.
 - **getNeighbors**: Find direct connections to an entity
 - **getSubgraph**: Visualize local network around an entity
@@ -479,13 +836,18 @@ First, resolve entities using semantic search. Then query appropriate tools. Fin
 - **getEnvironmentalRisks**: Identify disease risk factors (toxins, lifestyle)
 - **getLiterature**: Find scientific papers to ground your answer with real citations
 
+## GRAPH VOCABULARY
+${describeTaxonomyForPrompt()}
+Relations are returned as these names; describe them with their meaning, not the raw key.
+
 ## CRITICAL RULES
-1. **Always start with searchSemantic** - Even for specific names like "Aspirin", use semantic search to get the canonical ID and Type (e.g. is it a Drug or Phenotype?).
+1. **Always resolve entities first** - Even for specific names like "Aspirin", use searchSemantic (one mention) or resolveEntities (several) to get the canonical ID and Type (e.g. is it a Drug or Phenotype?).
 2. **Pivot when needed** - If direct search fails, try indirect strategies (e.g., for TP53, search MDM2 regulators)
 3. **Synthesize, don't dump** - Never show raw JSON. Explain biological meaning
 4. **Handle empty results gracefully** - Explain why and suggest alternatives
 5. **Be scientifically accurate** - Explain mechanisms, pathways, and significance
 6. **Use clear formatting** - Use hyphens (-) not em dashes (—)
+7. **Cite literature by ref number** - Each getLiterature result has a \`ref\`. When a sentence relies on a paper, end it with its number in square brackets, e.g. [1] or [2][3]. Only cite refs returned by getLiterature and never invent references
 
 ## RESPONSE STYLE
 Professional but accessible. Explain biological mechanisms clearly. Provide context for findings. Cite specific relationships from the graph.
@@ -493,17 +855,61 @@ ${modelEnhancements}${toolContext ? `
 
 ## ACTIVE CONTEXT
 ${toolContext}` : ''}`,
-    },
-    history: prepareOptimizedHistory(history),
+    history: options?.resume ? options.resume.history : prepareOptimizedHistory(history),
   });
 
   // Log active mode
-  if (options?.enableWebSearch) {
+  if (provider.kind !== 'gemini') onLog?.(`🖥️ Model: ${provider.label} (${resolveModel(provider, modelName)})`);
+  if (enableWebSearch) {
     onLog?.('🌐 Mode: Web Search (Graph Tools Disabled)');
   } else {
     onLog?.('🧬 Mode: PrimeKG Graph');
   }
 
+  const resume = options?.resume;
+  const maxTurns = Math.max(1, options?.maxTurns ?? DEFAULT_MAX_TURNS);
+  const turnOffset = resume?.turnsUsed ?? 0;
+
+  // A resumed run starts from everything the earlier run already gathered
+  const accumulatedToolResults: AgentToolResult[] = resume ? [...resume.toolResults] : [];
+  const toolTrace: ToolTraceEntry[] = resume ? [...resume.toolTrace] : [];
+  const citationRegistry = new Map<string, InlineCitation>(
+    (resume?.citations ?? []).map(c => [c.pmid || c.sourceId || `ref-${c.ref}`, c] as [string, InlineCitation])
+  );
+  const citationsOrUndefined = () => citationRegistry.size > 0 ? Array.from(citationRegistry.values()) : undefined;
+
+  // Track total token usage across all turns
+  let totalPromptTokens = 0;
+  let totalCandidateTokens = 0;
+
+  // 📊 Log token usage for one turn
+  const recordUsage = (usage: GenerateContentResponseUsageMetadata | undefined, label: string) => {
+    if (!usage) return;
+    const { promptTokenCount, candidatesTokenCount, totalTokenCount } = usage;
+    totalPromptTokens += promptTokenCount || 0;
+    totalCandidateTokens += candidatesTokenCount || 0;
+    onLog?.(`📊 Tokens${label}: ${promptTokenCount || 0} in → ${candidatesTokenCount || 0} out (${totalTokenCount || 0} total)`);
+  };
+
+  // Text shown to the user so far; turns are separated by a blank line
+  let responseText = "";
+  async function* relay(turn: AsyncGenerator<AgentStreamEvent, TurnOutput>): AsyncGenerator<AgentStreamEvent, TurnOutput> {
+    let first = true;
+    while (true) {
+      const next = await turn.next();
+      if (next.done) return next.value as TurnOutput;
+      const event = next.value as AgentStreamEvent;
+      if (event.type === 'text') {
+        const delta = first && responseText && !responseText.endsWith('\n') ? `\n\n${event.delta}` : event.delta;
+        first = false;
+        responseText += delta;
+        yield { type: 'text', delta };
+      } else {
+        yield event;
+      }
+    }
+  }
+
   try {
     onLog?.(`Model: ${modelName}`);
     // Prepare message with optional file attachments
@@ -520,264 +926,174 @@ ${toolContext}` : ''}`,
       });
     }
 
-    if (abortSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
-    let result = await chat.sendMessage({ message: messageParts.length === 1 ? prompt : messageParts });
-
-    // Validate result structure
-    if (!result) {
-      console.error("Empty result from Gemini");
-      return {
-        text: "I encountered an error connecting to the AI model. Please try again.",
-        data: null
-      };
-    }
-
-    // Track total token usage across all turns
-    let totalPromptTokens = 0;
-    let totalCandidateTokens = 0;
-
-    // 📊 Log token usage (Initial Turn)
-    if (result?.usageMetadata) {
-      const { promptTokenCount, candidatesTokenCount, totalTokenCount } = result.usageMetadata;
-      totalPromptTokens += promptTokenCount || 0;
-      totalCandidateTokens += candidatesTokenCount || 0;
-      onLog?.(`📊 Tokens: ${promptTokenCount || 0} in → ${candidatesTokenCount || 0} out (${totalTokenCount || 0} total)`);
+    let turn: TurnOutput;
+    if (resume && resume.pendingCalls.length > 0) {
+      // The history ends on unanswered calls: run them first, as the next turn
+      onLog?.(`↻ Resuming with ${resume.pendingCalls.length} pending tool calls`);
+      turn = { text: '', functionCalls: resume.pendingCalls, hasCandidate: true };
+    } else if (resume) {
+      onLog?.('↻ Resuming investigation');
+      turn = yield* relay(streamTurn(chat, buildContinuationPrompt(resume, prompt, maxTurns), abortSignal));
+      recordUsage(turn.usage, '');
+    } else {
+      turn = yield* relay(streamTurn(chat, messageParts.length === 1 ? prompt : messageParts, abortSignal));
+      recordUsage(turn.usage, '');
     }
 
-    let functionCalls = result.functionCalls;
-    const accumulatedToolResults: Array<{ name: string; args: any; result: any }> = [];
+    let functionCalls = turn.functionCalls;
     let turns = 0;
+    let budgetExhausted = false;
+    let skippedCalls: Array<{ name: string; args: any }> = [];
 
-    if (functionCalls?.length) {
+    if (functionCalls.length) {
       onLog?.(`Tool calls requested: ${functionCalls.length}`);
     }
 
-    while (functionCalls && functionCalls.length > 0 && turns < 5) {
-      if (abortSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    while (functionCalls.length > 0) {
+      if (turns >= maxTurns) {
+        budgetExhausted = true;
+        break;
+      }
+      if (abortSignal?.aborted) throw abortError();
       turns++;
-      const functionResponseParts: Part[] = [];
-
-      for (const call of functionCalls) {
-        const { name, args } = call;
+      const turnNumber = turnOffset + turns;
+      // Filled by index so results keep request order regardless of which call finishes first
+      const turnResults: AgentToolResult[] = new Array(functionCalls.length);
+      const turnTrace: ToolTraceEntry[] = new Array(functionCalls.length);
+      const functionResponseParts: Part[] = new Array(functionCalls.length);
+
+      yield* runConcurrently(functionCalls, MAX_PARALLEL_TOOL_CALLS, async (call, index, emit) => {
+        const name = call.name || 'unknown';
+        const args = call.args || {};
+        const callId = call.id || `${turnNumber}-${index}-${name}`;
         console.log(`[Gemini] Calling tool: ${name}`, args);
-        onLog?.(`Calling tool: ${name} ${args ? JSON.stringify(args) : ''}`);
+        onLog?.(`Calling tool: ${name} ${call.args ? JSON.stringify(call.args) : ''}`);
+        emit({ type: 'tool_start', callId, name, args });
 
+        const startedAt = Date.now();
         let apiResult;
+        let status: ToolCallStatus = 'success';
+        let failure: AppErrorInfo | undefined;
         try {
-          switch (name) {
-            case "checkHealth":
-              onLog?.('→ PrimeKG: /health');
-              apiResult = await kgService.getHealth(abortSignal);
-              break;
-            case "getGraphStats":
-              onLog?.('→ PrimeKG: /stats');
-              apiResult = await kgService.getStats(abortSignal);
-              break;
-            case "searchText":
-              onLog?.(`→ PrimeKG: /search/text?q=${String(args.query ?? '')}`);
-              const rawText = await kgService.searchText(args.query as string, abortSignal);
-              apiResult = truncateToolResponse(rawText);
-              break;
-            case "searchSemantic":
-              onLog?.(`→ PrimeKG: /search/semantic?q=${String(args.query ?? '')}`);
-              const rawSemantic = await kgService.searchSemantic(args.query as string, abortSignal);
-              apiResult = truncateToolResponse(rawSemantic);
-              break;
-            case "getSubgraph":
-              const hops = (args.hops as number) || 1;
-              const limit = (args.limit as number) || 50;
-              onLog?.(`→ PrimeKG: subgraph for ${String(args.entity ?? '')} (hops=${hops}, limit=${limit})`);
-              const rawSubgraph = await kgService.getSubgraph(args.entity as string, hops, limit, abortSignal);
-              apiResult = truncateToolResponse(rawSubgraph);
-              break;
-            case "getDrugRepurposing":
-              onLog?.(`→ PrimeKG: repurposing for ${String(args.disease ?? '')}`);
-              const rawRepurpose = await kgService.getDrugRepurposing(args.disease as string, abortSignal);
-              apiResult = truncateToolResponse(rawRepurpose);
-              break;
-            case "getTherapeuticTargets":
-              onLog?.(`→ PrimeKG: targets for ${String(args.disease ?? '')}`);
-              const rawTargets = await kgService.getTherapeuticTargets(args.disease as string, abortSignal);
-              apiResult = truncateToolResponse(rawTargets);
-              break;
-            case "getMechanism":
-              onLog?.(`→ PrimeKG: mechanisms ${String(args.drug ?? '')} ↔ ${String(args.disease ?? '')}`);
-              try {
-                  const rawMech = await kgService.getDrugMechanism(args.drug as string, args.disease as string, abortSignal);
-                  apiResult = truncateToolResponse(rawMech);
-              } catch (err: any) {
-                  // If 404, it just means no mechanism known, not a system failure.
-                  if (err.message?.includes('404')) {
-                      apiResult = { result: "No direct mechanism of action found in Knowledge Graph." };
-                  } else {
-                      throw err; // Re-throw actual errors
-                  }
-              }
-              break;
-            case "getShortestPath":
-              onLog?.(`→ PrimeKG: path ${String(args.source ?? '')} → ${String(args.target ?? '')}`);
-              try {
-                  const rawPath = await kgService.getShortestPath(args.source as string, args.target as string, abortSignal);
-                  apiResult = truncateToolResponse(rawPath);
-              } catch (err: any) {
-                  if (err.message?.includes('404')) {
-                       apiResult = { result: "No path found between these entities within limit." };
-                  } else {
-                       throw err;
-                  }
-              }
-              break;
-            case "getNeighbors":
-              onLog?.(`→ PrimeKG: neighbors for ${String(args.nodeId ?? '')}`);
-              try {
-                  const rawNeighbors = await kgService.getNeighbors(args.nodeId as string, abortSignal);
-                  apiResult = truncateToolResponse(rawNeighbors);
-              } catch (err: any) {
-                  if (err.message?.includes('404')) {
-                       apiResult = { result: "Entity found, but has no recorded neighbors in this graph view." };
-                  } else {
-                       throw err;
-                  }
-              }
-              break;
-            case "getDrugCombinations":
-              onLog?.(`→ PrimeKG: combinations for ${String(args.drug ?? '')}`);
-              const rawCombos = await kgService.getDrugCombinations(args.drug as string, abortSignal);
-              apiResult = truncateToolResponse(rawCombos);
-              break;
-            case "getPhenotypeMatching":
-              onLog?.(`→ PrimeKG: phenotype matching for ${String(args.disease ?? '')}`);
-              const rawPheno = await kgService.getPhenotypeMatching(args.disease as string, abortSignal);
-              apiResult = truncateToolResponse(rawPheno);
-              break;
-            case "getEnvironmentalRisks":
-              onLog?.(`→ PrimeKG: environmental risks for ${String(args.disease ?? '')}`);
-              const rawEnv = await kgService.getEnvironmentalRisks(args.disease as string, abortSignal);
-              apiResult = truncateToolResponse(rawEnv);
-              break;
-            case "getLiterature":
-              onLog?.(`→ PubMed: citations for ${String(args.entity ?? '')}`);
-              const rawLit = await searchEntityCitations(args.entity as string, (args.type as any) || 'gene', 5);
-              
-              // Simplified for LLM consumption
-              apiResult = rawLit.map(p => ({
-                id: p.pmid,
-                title: p.title,
-                year: p.year,
-                cited: p.citedByCount,
-                abstract: p.abstract ? p.abstract.substring(0, 300) + '...' : 'No abstract'
-              }));
-              break;
-            default:
-              apiResult = { error: "Unknown function" };
-          }
-          accumulatedToolResults.push({ name, args, result: apiResult });
+          apiResult = await executeToolCall(name, args, { abortSignal, onLog, citationRegistry, projectId: options?.projectId });
         } catch (e: any) {
+          if (e?.name === 'AbortError') throw e;
           // Gracefully handle 404s as empty results
-          if (e.message && e.message.includes('404')) {
-             apiResult = []; // Treat as empty list
-             accumulatedToolResults.push({ name, args, result: apiResult });
-             onLog?.(`✓ Tool result received (No matches): ${name}`);
+          if (isNotFoundError(e)) {
+            apiResult = []; // Treat as empty list
+            status = 'empty';
+            onLog?.(`✓ Tool result received (No matches): ${name}`);
           } else {
-             console.error(e);
-             apiResult = { error: "Failed to fetch data from KG API." };
-             accumulatedToolResults.push({ name, args, result: apiResult });
-             onLog?.(`✗ Tool failed: ${name}`);
+            console.error(e);
+            failure = describeError(e, name === 'getLiterature' ? 'pubmed' : 'kg');
+            apiResult = {
+              error: e instanceof UpstreamError && e.degraded
+                ? "PrimeKG is temporarily unavailable after repeated server errors. Do not retry; answer from the results you have."
+                : "Failed to fetch data from KG API."
+            };
+            status = 'error';
+            onLog?.(`✗ Tool failed: ${name}`);
           }
         }
-        functionResponseParts.push({
+        const endedAt = Date.now();
+
+        const trace: ToolTraceEntry = {
+          id: callId,
+          name,
+          args,
+          turn: turnNumber,
+          status,
+          startedAt,
+          endedAt,
+          durationMs: endedAt - startedAt,
+          resultSize: measureResult(apiResult),
+        };
+        turnTrace[index] = trace;
+        emit({ type: 'tool_end', callId, name, status, result: apiResult, trace });
+
+        if (apiResult && Array.isArray(apiResult.nodes) && apiResult.nodes.length > 0) {
+          emit({ type: 'graph', callId, name, data: { nodes: apiResult.nodes, edges: apiResult.edges || [] } });
+        }
+
+        turnResults[index] = { name, args, result: apiResult, ...(failure ? { error: failure } : {}) };
+        functionResponseParts[index] = {
           functionResponse: {
             name: name,
             response: { result: apiResult },
             id: call.id
           }
-        });
-      }
-
-      if (abortSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
-      result = await chat.sendMessage({
-        message: functionResponseParts
-      });
-      if (!result) {
-        onLog?.('✗ No response returned from model');
-        return {
-          text: "I encountered an error connecting to the Precision Medicine Engine. Please try again or switch models.",
-          data: accumulatedToolResults
         };
-      }
+      });
+
+      if (abortSignal?.aborted) throw abortError();
+      accumulatedToolResults.push(...turnResults);
+      toolTrace.push(...turnTrace);
 
+      turn = yield* relay(streamTurn(chat, functionResponseParts, abortSignal));
       // 📊 Log token usage for tool response processing
-      if (result?.usageMetadata) {
-        const { promptTokenCount, candidatesTokenCount, totalTokenCount } = result.usageMetadata;
-        totalPromptTokens += promptTokenCount || 0;
-        totalCandidateTokens += candidatesTokenCount || 0;
-        onLog?.(`📊 Tokens (turn ${turns}): ${promptTokenCount || 0} in → ${candidatesTokenCount || 0} out (${totalTokenCount || 0} total)`);
-      }
+      recordUsage(turn.usage, ` (turn ${turnNumber})`);
 
-      functionCalls = result.functionCalls;
+      functionCalls = turn.functionCalls;
     }
 
-    // Extract text safely. The SDK warns if accessing .text when function calls are present.
-    // However, if we exited the loop successfully, there shouldn't be pending function calls.
-    // We check for candidates directly or via response to be robust.
-    // @ts-ignore - Validating structure dynamically to prevent crashes
-    const candidate = result?.candidates?.[0] || result?.response?.candidates?.[0];
-
-    if (!candidate) {
-      console.error("No candidate in result:", JSON.stringify(result, null, 2));
-      return {
-        text: "The AI model returned an unexpected response format. Please try again or use a different model.",
-        data: accumulatedToolResults
-      };
+    if (budgetExhausted) {
+      onLog?.(`⚠️ Turn budget reached (${maxTurns}); ${functionCalls.length} requested tool calls not run`);
+      skippedCalls = functionCalls.map(call => ({ name: call.name || 'unknown', args: call.args || {} }));
+
+      // Answer the cut-off calls so the chat history stays valid, and ask for an interim answer
+      const skippedParts: Part[] = functionCalls.map(call => ({
+        functionResponse: {
+          name: call.name,
+          id: call.id,
+          response: {
+            result: {
+              skipped: true,
+              reason: "Tool-call budget for this answer is exhausted. Do not call more tools now. Summarize what you found so far, state clearly that the investigation is incomplete, and list what you would check next."
+            }
+          }
+        }
+      }));
+      turn = yield* relay(streamTurn(chat, skippedParts, abortSignal));
+      recordUsage(turn.usage, ' (budget wrap-up)');
+      functionCalls = turn.functionCalls;
     }
 
-    let responseText = "";
-    if (candidate?.content?.parts) {
-      responseText = candidate.content.parts
-        .map((part: any) => part.text || "")
-        .join("");
-    } else {
-      // Fallback to SDK getter if manual extraction fails
-      responseText = result?.text || "";
+    if (!turn.hasCandidate && !responseText) {
+      console.error("No candidate in final turn");
+      const text = "The AI model returned an unexpected response format. Please try again or use a different model.";
+      yield { type: 'done', response: { text, data: accumulatedToolResults, citations: citationsOrUndefined() } };
+      return;
     }
 
     // If we only got tool parts and no readable text, force a finalization step.
-    if (!responseText && accumulatedToolResults.length > 0) {
+    // (Not possible while calls are pending: the next message must answer them.)
+    if (!responseText && accumulatedToolResults.length > 0 && functionCalls.length === 0) {
       onLog?.('No text content returned; requesting final answer...');
       try {
-        const final = await chat.sendMessage({
-          message: "Using the tool results already provided, write a complete final answer in the user's language. Do not call any tools. If results are empty, explain that and propose next queries."
-        });
-
-        // @ts-ignore - dynamic structure
-        const finalCandidate = final?.candidates?.[0] || final?.response?.candidates?.[0];
-        if (finalCandidate?.content?.parts) {
-          responseText = finalCandidate.content.parts.map((p: any) => p.text || '').join('');
-        } else {
-          // @ts-ignore
-          responseText = final?.text || '';
-        }
-
+        const final = yield* relay(streamTurn(
+          chat,
+          "Using the tool results already provided, write a complete final answer in the user's language. Do not call any tools. If results are empty, explain that and propose next queries.",
+          abortSignal
+        ));
         // 📊 Log token usage for finalization
-        if (final?.usageMetadata) {
-          const { promptTokenCount, candidatesTokenCount, totalTokenCount } = final.usageMetadata;
-          totalPromptTokens += promptTokenCount || 0;
-          totalCandidateTokens += candidatesTokenCount || 0;
-          onLog?.(`📊 Tokens (finalization): ${promptTokenCount || 0} in → ${candidatesTokenCount || 0} out (${totalTokenCount || 0} total)`);
-        }
-      } catch (e) {
+        recordUsage(final.usage, ' (finalization)');
+      } catch (e: any) {
+        if (e?.name === 'AbortError') throw e;
         console.error(e);
       }
     }
 
-    if (!responseText && accumulatedToolResults.length > 0) {
-      responseText = "I have retrieved the relevant data from the Knowledge Graph. Please review the structured output below.";
-    } else if (!responseText) {
-      responseText = "I'm sorry, I couldn't generate a response based on the available information.";
+    if (!responseText) {
+      const fallback = accumulatedToolResults.length > 0
+        ? "I have retrieved the relevant data from the Knowledge Graph. Please review the structured output below."
+        : "I'm sorry, I couldn't generate a response based on the available information.";
+      responseText = fallback;
+      yield { type: 'text', delta: fallback };
     }
 
     // Process Grounding Metadata (Google Search Sources)
-    const groundingMetadata = candidate?.groundingMetadata;
+    const groundingMetadata = turn.groundingMetadata;
+    const webSources: Array<{ title: string; uri: string }> = [];
     if (groundingMetadata?.groundingChunks) {
       const uniqueSources = new Map<string, string>();
 
@@ -787,39 +1103,120 @@ ${toolContext}` : ''}`,
         }
       });
 
+      uniqueSources.forEach((title, uri) => webSources.push({ title, uri }));
+
       if (uniqueSources.size > 0) {
-        responseText += "\n\n---\n**Sources:**\n";
+        let sources = "\n\n---\n**Sources:**\n";
         Array.from(uniqueSources.entries()).forEach(([url, title], index) => {
-          responseText += `${index + 1}. [${title}](${url})\n`;
+          sources += `${index + 1}. [${title}](${url})\n`;
         });
+        responseText += sources;
+        yield { type: 'text', delta: sources };
 
         onLog?.(`📚 Found ${uniqueSources.size} web sources`);
       }
     }
 
+    const evidence = buildEvidence(accumulatedToolResults, toolTrace, citationsOrUndefined() ?? [], webSources);
+
+    // Check the relationships the answer asserts against the edges the tools returned
+    if (evidence.edges.length > 0 || evidence.entities.length > 0) {
+      const claims = await verifyClaims(responseText, evidence, {
+        requery: options?.requeryClaims ? kgService.getNeighbors : undefined,
+        signal: abortSignal,
+      });
+      if (claims.length > 0) {
+        evidence.claims = claims;
+        const verified = claims.filter(c => c.status === 'graph' || c.status === 'literature').length;
+        onLog?.(`🔎 Verified ${verified}/${claims.length} claims against the graph and literature`);
+      }
+    }
+
     onLog?.('Done');
 
-    return {
-      text: responseText,
-      data: accumulatedToolResults.length > 0 ? accumulatedToolResults : undefined,
-      usage: { promptTokens: totalPromptTokens, completionTokens: totalCandidateTokens }
+    const continuation: AgentContinuation | undefined = budgetExhausted
+      ? {
+          history: chat.getHistory(),
+          pendingCalls: functionCalls,
+          skippedCalls,
+          toolResults: [...accumulatedToolResults],
+          toolTrace: [...toolTrace],
+          citations: citationsOrUndefined() ?? [],
+          turnsUsed: turnOffset + turns,
+        }
+      : undefined;
+
+    yield {
+      type: 'done',
+      response: {
+        text: responseText,
+        budgetExhausted: budgetExhausted || undefined,
+        continuation,
+        data: accumulatedToolResults.length > 0 ? accumulatedToolResults : undefined,
+        toolTrace: toolTrace.length > 0 ? toolTrace : undefined,
+        citations: citationsOrUndefined(),
+        evidence: isEmptyEvidence(evidence) ? undefined : evidence,
+        usage: { promptTokens: totalPromptTokens, completionTokens: totalCandidateTokens }
+      }
     };
 
   } catch (error: any) {
+    // Cancellation is the caller's decision; let it see the AbortError
+    if (error?.name === 'AbortError' || abortSignal?.aborted) {
+      throw error?.name === 'AbortError' ? error : abortError();
+    }
+
     console.error("Gemini Interaction Error:", error);
+    yield { type: 'done', response: llmFailureResponse(error) };
+  }
+}
 
-    // Check for Rate Limits (429 / Resource Exhausted)
-    const errString = JSON.stringify(error, Object.getOwnPropertyNames(error)) + (error.message || '');
-    if (errString.includes('429') || errString.includes('Quota exceeded') || errString.includes('RESOURCE_EXHAUSTED')) {
-      return {
-        text: "⚠️ **Google Gemini API Quota Exceeded**\n\n" +
-              "You have hit the free tier rate limits for the Gemini API. " +
-              "This is a restriction from Google, not PrimeKG.\n\n" +
-              "**Please wait about 30-60 seconds and try again.**\n\n" +
-              "If this persists, consider checking your [Google Cloud Console](https://console.cloud.google.com/apis/dashboard) or upgrading your plan."
-      };
-    }
+/**
+ * Final answer when the model call fails: a notice the user can act on, with the typed error
+ */
+export function llmFailureResponse(error: unknown): AgentResponse {
+  const failure = toAppError(error, 'llm');
 
-    return { text: "I encountered an error connecting to the Precision Medicine Engine. Please check your connection and try again." };
+  if (failure instanceof RateLimitedError) {
+    return {
+      text: "⚠️ **Google Gemini API Quota Exceeded**\n\n" +
+            "You have hit the free tier rate limits for the Gemini API. " +
+            "This is a restriction from Google, not PrimeKG.\n\n" +
+            "**Please wait about 30-60 seconds and try again.**\n\n" +
+            "If this persists, consider checking your [Google Cloud Console](https://console.cloud.google.com/apis/dashboard) or upgrading your plan.",
+      error: describeError(failure, 'llm')
+    };
+  }
+
+  if (failure instanceof AuthError) {
+    return {
+      text: "⚠️ **The model provider rejected your credentials.**\n\nCheck the key in **⚙️ Set API Key** and try again.",
+      error: describeError(failure, 'llm')
+    };
+  }
+
+  return {
+    text: "I encountered an error connecting to the Precision Medicine Engine. Please check your connection and try again.",
+    error: describeError(failure, 'llm')
+  };
+}
+
+/**
+ * Non-streaming wrapper: runs the same agent loop and resolves with the final answer.
+ */
+export const generateResponse = async (
+  prompt: string,
+  history: Array<{ role: string; parts: Array<{ text: string }> }>,
+  modelName: GeminiModel = GeminiModel.FLASH,
+  userApiKey?: string,
+  fileAttachments?: Array<{ name: string; data: string; mimeType: string }>,
+  onLog?: (entry: string) => void,
+  abortSignal?: AbortSignal,
+  options?: AgentOptions
+): Promise<AgentResponse> => {
+  let response: AgentResponse = { text: "" };
+  for await (const event of generateResponseStream(prompt, history, modelName, userApiKey, fileAttachments, onLog, abortSignal, options)) {
+    if (event.type === 'done') response = event.response;
   }
-};
\ No newline at end of file
+  return response;
+};
@@ -0,0 +1,341 @@
+/**
+ * HTTP backend for the PrimeKG REST API (hosted instance or self-hosted mirror)
+ * @module services/httpKgBackend
+ */
+
+import toast from 'react-hot-toast';
+import type {
+  GraphData,
+  PathsResponse,
+  SubgraphFilter,
+  Stats,
+  SearchResult,
+  EntityResolutionResponse,
+  DrugRepurposingResponse,
+  TherapeuticTargetsResponse,
+  DrugCombinationsResponse,
+  PhenotypeMatchingResponse,
+  EnvironmentalRiskResponse
+} from '../types';
+import type { KGBackend } from './kgBackend';
+import { throwIfAborted } from './kgBackend';
+import { AppError, NetworkError, TimeoutError, UpstreamError, errorFromStatus, isNotFoundError } from './errors';
+import { createCircuitBreaker } from './circuitBreaker';
+
+export const DEFAULT_KG_API_URL = 'https://kg.sarkome.com';
+
+const headers: Record<string, string> = {
+  'Content-Type': 'application/json',
+};
+
+export interface HttpKgBackendOptions {
+  /** Per-attempt timeout. Default: 30s */
+  timeoutMs?: number;
+  /** Extra attempts for idempotent GETs after timeouts, network errors, 429 and 5xx. Default: 2 */
+  retries?: number;
+  /** First backoff step; doubles each retry, with full jitter. Default: 500ms */
+  retryBaseDelayMs?: number;
+  /** Consecutive 5xx responses that put the backend in the degraded (circuit open) state. Default: 5 */
+  failureThreshold?: number;
+  /** Time spent degraded before a trial request. Default: 30s */
+  cooldownMs?: number;
+}
+
+const MAX_RETRY_DELAY_MS = 8000;
+
+/**
+ * Wait `ms`, rejecting early with an AbortError if `signal` aborts
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'));
+    const id = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(id);
+      reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Seconds or HTTP-date from a Retry-After header, in ms
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Subgraph filter as query parameters ("&node_types=drug,pathway&exclude_relations=side_effect").
+ * Servers without filter support ignore them.
+ */
+function filterParams(filter?: SubgraphFilter): string {
+  if (!filter) return '';
+  const params: Array<[string, string[] | undefined]> = [
+    ['node_types', filter.includeNodeTypes],
+    ['exclude_node_types', filter.excludeNodeTypes],
+    ['relations', filter.includeRelations],
+    ['exclude_relations', filter.excludeRelations],
+  ];
+  return params
+    .filter(([, values]) => values && values.length > 0)
+    .map(([name, values]) => `&${name}=${encodeURIComponent(values!.join(','))}`)
+    .join('');
+}
+
+/**
+ * Create a backend that talks to a PrimeKG API server
+ * @param baseUrl - Server origin, e.g. "https://kg.sarkome.com" or "http://localhost:8000"
+ */
+export function createHttpKgBackend(baseUrl: string = DEFAULT_KG_API_URL, options: HttpKgBackendOptions = {}): KGBackend {
+  const {
+    timeoutMs = 30_000,
+    retries = 2,
+    retryBaseDelayMs = 500,
+    failureThreshold = 5,
+    cooldownMs = 30_000,
+  } = options;
+  const root = baseUrl.replace(/\/+$/, '');
+  const host = root.replace(/^https?:\/\//, '');
+  const circuit = createCircuitBreaker({ failureThreshold, cooldownMs });
+
+  circuit.subscribe(state => {
+    if (state === 'open') {
+      toast.error(`PrimeKG (${host}) is failing repeatedly. Pausing requests for ${Math.round(cooldownMs / 1000)}s.`, { id: 'kg-degraded' });
+    } else if (state === 'closed') {
+      toast.success('PrimeKG is responding again.', { id: 'kg-degraded' });
+    }
+  });
+
+  /**
+   * The browser reports CORS blocks and unreachable servers as the same TypeError.
+   * An opaque (no-cors) request succeeds only if the server is actually reachable.
+   */
+  async function classifyFetchFailure(endpoint: string, cause: unknown): Promise<NetworkError> {
+    try {
+      await fetch(`${root}/health`, { mode: 'no-cors', signal: AbortSignal.timeout?.(5000) });
+      return new NetworkError(`Request to ${host} was blocked by CORS`, { service: 'kg', endpoint, cors: true, cause });
+    } catch {
+      return new NetworkError(`Connection failed. The server (${host}) might be down or unreachable.`, { service: 'kg', endpoint, cause });
+    }
+  }
+
+  // One attempt: timeout, HTTP status and transport failures become AppErrors
+  async function attempt<T>(endpoint: string, options: RequestInit): Promise<T> {
+    // An already-aborted signal never fires 'abort', so it would not stop the request below
+    throwIfAborted(options.signal);
+    const controller = new AbortController();
+    let timedOut = false;
+    const id = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const onCallerAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onCallerAbort, { once: true });
+
+    try {
+      const response = await fetch(`${root}${endpoint}`, { headers, ...options, signal: controller.signal });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => response.statusText);
+        throw errorFromStatus(response.status, `API Error: ${response.status} ${response.statusText} - ${errorText}`, {
+          service: 'kg',
+          endpoint,
+          retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+        });
+      }
+      const text = await response.text();
+      try {
+        return text ? JSON.parse(text) : {} as T;
+      } catch {
+        // If parsing fails but response was ok, assume it's valid text or empty
+        return text as unknown as T;
+      }
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      if ((error as { name?: string })?.name === 'AbortError') {
+        if (timedOut) throw new TimeoutError(`Request timed out after ${Math.round(timeoutMs / 1000)}s`, { service: 'kg', endpoint });
+        throw error;
+      }
+      throw await classifyFetchFailure(endpoint, error);
+    } finally {
+      clearTimeout(id);
+      options.signal?.removeEventListener('abort', onCallerAbort);
+    }
+  }
+
+  async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    const idempotent = !options.method || options.method === 'GET';
+    const maxAttempts = idempotent ? retries + 1 : 1;
+
+    for (let attemptNo = 1; ; attemptNo++) {
+      if (!circuit.canRequest()) {
+        const error = new UpstreamError(
+          `PrimeKG is degraded; retrying in ${Math.ceil(circuit.retryInMs() / 1000)}s`,
+          { service: 'kg', endpoint, degraded: true, retryAfterMs: circuit.retryInMs() }
+        );
+        console.warn(`[KG Service] ${error.message} (${endpoint})`);
+        throw error;
+      }
+
+      try {
+        const result = await attempt<T>(endpoint, options);
+        circuit.recordSuccess();
+        return result;
+      } catch (error) {
+        if (!(error instanceof AppError)) {
+          // Caller aborted; a half-open trial must not stay in flight forever
+          circuit.release();
+          throw error;
+        }
+
+        // Only 5xx count toward degraded; a 4xx means the server is up and answering
+        if (error.status !== undefined && error.status >= 500) circuit.recordFailure();
+        else if (error.status !== undefined) circuit.recordSuccess();
+        // Timeouts and network errors don't open the circuit, but they do fail a trial
+        else if (circuit.getState() === 'half-open') circuit.recordFailure();
+
+        if (error.retryable && attemptNo < maxAttempts && circuit.getState() === 'closed') {
+          const backoff = Math.random() * Math.min(MAX_RETRY_DELAY_MS, retryBaseDelayMs * 2 ** (attemptNo - 1));
+          const delay = error.retryAfterMs ?? backoff;
+          console.warn(`[KG Service] ${endpoint} failed (${error.message}); retry ${attemptNo}/${maxAttempts - 1} in ${Math.round(delay)}ms`);
+          await sleep(Math.min(delay, MAX_RETRY_DELAY_MS), options.signal);
+          throwIfAborted(options.signal);
+          continue;
+        }
+
+        console.error(`[KG Service] Error on ${endpoint}:`, error.message);
+        // 404s are handled by callers; the degraded state already has its own toast
+        if (error.status !== 404 && circuit.getState() === 'closed') {
+          const userMessage = error.message;
+          toast.error(
+            `PrimeKG API Error: ${userMessage.slice(0, 100)}${userMessage.length > 100 ? '...' : ''}`,
+            { id: `kg-${error.kind}-${error.status ?? ''}` }
+          );
+        }
+        throw error;
+      }
+    }
+  }
+
+  // Helper to handle 404s gracefully (return default value instead of throwing)
+  async function fetchAPIOrDefault<T>(endpoint: string, defaultValue: T, options: RequestInit = {}): Promise<T> {
+    try {
+      return await fetchAPI<T>(endpoint, options);
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        return defaultValue;
+      }
+      throw error;
+    }
+  }
+
+  return {
+    kind: 'http',
+    label: host,
+    circuit,
+
+    getHealth: (signal) => fetchAPI<{ status: string }>('/health', { signal }),
+
+    getStats: (signal) => fetchAPI<Stats>('/stats', { signal }),
+
+    searchText: (query, signal) => fetchAPI<SearchResult[]>(`/search/text?q=${encodeURIComponent(query)}`, { signal }),
+
+    searchSemantic: (query, signal) => fetchAPI<SearchResult[]>(`/search/semantic?q=${encodeURIComponent(query)}`, { signal }),
+
+    resolveEntities: (mentions, signal) =>
+      fetchAPI<EntityResolutionResponse[]>('/resolve', {
+        method: 'POST',
+        body: JSON.stringify({ mentions }),
+        signal,
+      }),
+
+    searchByExternalId: (source, id, signal) =>
+      fetchAPIOrDefault<SearchResult[]>(
+        `/search/id?source=${encodeURIComponent(source)}&id=${encodeURIComponent(id)}`,
+        [],
+        { signal }
+      ),
+
+    getNeighbors: (nodeId, signal) => fetchAPI<GraphData>(`/neighbors/${encodeURIComponent(nodeId)}`, { signal }),
+
+    getSubgraph: (entity, hops, limit, signal, filter) =>
+      fetchAPI<GraphData>(`/subgraph/${encodeURIComponent(entity)}?hops=${hops}&limit=${limit}${filterParams(filter)}`, { signal }),
+
+    getShortestPath: (source, target, signal) =>
+      fetchAPI<GraphData>(`/path/${encodeURIComponent(source)}/${encodeURIComponent(target)}?max_depth=3`, { signal }),
+
+    // Servers without /paths answer 404 there; they still give the shortest path within the depth
+    getPaths: async (source, target, query, signal) => {
+      const pair = `${encodeURIComponent(source)}/${encodeURIComponent(target)}`;
+      if (query.mode !== 'shortest') {
+        try {
+          return await fetchAPI<PathsResponse>(`/paths/${pair}?mode=${query.mode}&max_depth=${query.maxDepth}&limit=${query.limit}`, { signal });
+        } catch (error) {
+          if (!isNotFoundError(error)) throw error;
+        }
+      }
+      return [await fetchAPI<GraphData>(`/path/${pair}?max_depth=${query.maxDepth}`, { signal })];
+    },
+
+    getDrugRepurposing: (disease, signal) =>
+      fetchAPIOrDefault<DrugRepurposingResponse>(
+        `/hypothesis/repurposing/${encodeURIComponent(disease)}`,
+        [],
+        { signal }
+      ),
+
+    getTherapeuticTargets: (disease, signal) =>
+      fetchAPIOrDefault<TherapeuticTargetsResponse>(
+        `/hypothesis/targets/${encodeURIComponent(disease)}`,
+        [],
+        { signal }
+      ),
+
+    getDrugCombinations: (drug, signal) =>
+      fetchAPIOrDefault<DrugCombinationsResponse>(
+        `/hypothesis/combinations/${encodeURIComponent(drug)}`,
+        [],
+        { signal }
+      ),
+
+    getDrugMechanism: (drug, disease, signal) =>
+      fetchAPIOrDefault<GraphData>(
+        `/hypothesis/mechanisms/${encodeURIComponent(drug)}/${encodeURIComponent(disease)}`,
+        { nodes: [], edges: [] },
+        { signal }
+      ),
+
+    getPhenotypeMatching: (disease, signal) =>
+      fetchAPIOrDefault<PhenotypeMatchingResponse>(
+        `/hypothesis/phenotypes/${encodeURIComponent(disease)}`,
+        [],
+        { signal }
+      ),
+
+    getEnvironmentalRisks: (disease, signal) =>
+      fetchAPIOrDefault<EnvironmentalRiskResponse>(
+        `/risk/environmental/${encodeURIComponent(disease)}`,
+        [],
+        { signal }
+      ),
+
+    getContext: (signal) => fetchAPI<any>('/context', { signal }),
+
+    getToolSchema: (signal) => fetchAPI<any>('/tools/schema', { signal }),
+
+    callTool: (path, { method = 'GET', body, signal } = {}) =>
+      fetchAPI<any>(path, {
+        method,
+        body: body === undefined ? undefined : JSON.stringify(body),
+        signal,
+      }),
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * PrimeKG backend adapter contract
+ * Every kgService method delegates to the active backend, so the explorer can
+ * run against the hosted API, a self-hosted mirror, or an in-memory slice.
+ * @module services/kgBackend
+ */
+
+import type {
+  GraphData,
+  PathQuery,
+  PathsResponse,
+  SubgraphFilter,
+  Stats,
+  SearchResult,
+  EntityResolutionResponse,
+  DrugRepurposingResponse,
+  TherapeuticTargetsResponse,
+  DrugCombinationsResponse,
+  PhenotypeMatchingResponse,
+  EnvironmentalRiskResponse
+} from '../types';
+import type { CircuitBreaker } from './circuitBreaker';
+import { NotFoundError } from './errors';
+
+export type KGBackendKind = 'http' | 'local';
+
+/**
+ * Operations every PrimeKG backend must answer with the same shapes as the HTTP API.
+ */
+export interface KGBackend {
+  readonly kind: KGBackendKind;
+  /** Human readable origin shown in logs and status badges */
+  readonly label: string;
+  /** Present on network backends; open means the server is failing and requests fail fast */
+  readonly circuit?: CircuitBreaker;
+
+  getHealth(signal?: AbortSignal): Promise<{ status: string }>;
+  getStats(signal?: AbortSignal): Promise<Stats>;
+  searchText(query: string, signal?: AbortSignal): Promise<SearchResult[]>;
+  searchSemantic(query: string, signal?: AbortSignal): Promise<SearchResult[]>;
+  /** Ranked candidates for several free-text mentions in one request, in input order */
+  resolveEntities(mentions: string[], signal?: AbortSignal): Promise<EntityResolutionResponse[]>;
+  /** Nodes imported from `source` (PrimeKG x_source, e.g. "DrugBank") under identifier `id` */
+  searchByExternalId(source: string, id: string, signal?: AbortSignal): Promise<SearchResult[]>;
+  getNeighbors(nodeId: string, signal?: AbortSignal): Promise<GraphData>;
+  /** Backends that can't filter server-side may ignore `filter`; callers re-apply it */
+  getSubgraph(entity: string, hops: number, limit: number, signal?: AbortSignal, filter?: SubgraphFilter): Promise<GraphData>;
+  getShortestPath(source: string, target: string, signal?: AbortSignal): Promise<GraphData>;
+  /** Several paths between two entities; not found when none is within `query.maxDepth` hops */
+  getPaths(source: string, target: string, query: PathQuery, signal?: AbortSignal): Promise<PathsResponse>;
+  getDrugRepurposing(disease: string, signal?: AbortSignal): Promise<DrugRepurposingResponse>;
+  getTherapeuticTargets(disease: string, signal?: AbortSignal): Promise<TherapeuticTargetsResponse>;
+  getDrugCombinations(drug: string, signal?: AbortSignal): Promise<DrugCombinationsResponse>;
+  getDrugMechanism(drug: string, disease: string, signal?: AbortSignal): Promise<GraphData>;
+  getPhenotypeMatching(disease: string, signal?: AbortSignal): Promise<PhenotypeMatchingResponse>;
+  getEnvironmentalRisks(disease: string, signal?: AbortSignal): Promise<EnvironmentalRiskResponse>;
+  getContext(signal?: AbortSignal): Promise<any>;
+  getToolSchema(signal?: AbortSignal): Promise<any>;
+  /** Call a server-advertised tool endpoint the client has no typed method for */
+  callTool(path: string, init?: ToolRequestInit): Promise<any>;
+}
+
+export interface ToolRequestInit {
+  method?: 'GET' | 'POST';
+  /** JSON body for POST tools */
+  body?: unknown;
+  signal?: AbortSignal;
+}
+
+/**
+ * Build a "not found" error with the same message shape the HTTP backend produces,
+ * so callers that special-case 404s behave identically for every backend.
+ */
+export function notFoundError(detail: string): Error {
+  return new NotFoundError(`API Error: 404 Not Found - ${detail}`, { service: 'kg', status: 404 });
+}
+
+/**
+ * Throw the same AbortError fetch would if the caller cancelled the request.
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new DOMException('Aborted', 'AbortError');
+  }
+}
@@ -0,0 +1,254 @@
+/**
+ * KG Response Cache
+ * Memory + IndexedDB cache for PrimeKG responses, keyed by backend, method and arguments.
+ * Entries expire per endpoint class, and identical requests in flight share one fetch.
+ * @module services/kgCache
+ */
+
+/**
+ * Endpoint classes, each with its own lifetime:
+ * - status: stats / context / tool schema (cheap, but can change on deploy)
+ * - search: text and semantic entity search
+ * - graph: neighbors, subgraphs, paths, mechanisms
+ * - hypothesis: repurposing, targets, combinations, phenotypes, environmental risks
+ */
+export type CacheClass = 'status' | 'search' | 'graph' | 'hypothesis';
+
+export const CACHE_TTL_MS: Record<CacheClass, number> = {
+  status: 5 * 60_000,
+  search: 30 * 60_000,
+  graph: 6 * 60 * 60_000,
+  hypothesis: 24 * 60 * 60_000,
+};
+
+export interface CacheEntryInfo {
+  key: string;
+  cacheClass: CacheClass;
+  storedAt: number;
+  expiresAt: number;
+  /** Approximate serialized size in characters */
+  size: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  size: number;
+  hits: number;
+  misses: number;
+  /** Requests that joined an identical request already in flight */
+  coalesced: number;
+  persistent: boolean;
+}
+
+interface CacheRecord extends CacheEntryInfo {
+  value: unknown;
+}
+
+interface InFlight {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+export interface KgCacheOptions {
+  /** Memory entries kept before the oldest are evicted. Default: 500 */
+  maxEntries?: number;
+  /** IndexedDB database name; pass null to keep the cache in memory only */
+  dbName?: string | null;
+  now?: () => number;
+}
+
+const STORE = 'responses';
+
+const abortError = () => new DOMException('Aborted', 'AbortError');
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+function openDatabase(name: string): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+  return new Promise(resolve => {
+    const request = indexedDB.open(name, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    // Private browsing and blocked storage: keep working from memory
+    request.onerror = () => resolve(null);
+    request.onblocked = () => resolve(null);
+  });
+}
+
+export interface KgCache {
+  /**
+   * Cached value for `key`, or the result of `load`. The loader gets a signal that only
+   * aborts once every caller waiting on it has aborted.
+   */
+  fetch<T>(key: string, cacheClass: CacheClass, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T>;
+  entries(): Promise<CacheEntryInfo[]>;
+  stats(): Promise<CacheStats>;
+  /** Drop every entry, in memory and on disk */
+  clear(): Promise<void>;
+}
+
+export function createKgCache(options: KgCacheOptions = {}): KgCache {
+  const { maxEntries = 500, dbName = 'primekg-cache', now = Date.now } = options;
+  // Map order doubles as LRU order: reads re-insert the entry at the end
+  const memory = new Map<string, CacheRecord>();
+  const inFlight = new Map<string, InFlight>();
+  const counters = { hits: 0, misses: 0, coalesced: 0 };
+
+  let db: IDBDatabase | null = null;
+  let hydrated: Promise<void> | null = null;
+
+  const store = (mode: IDBTransactionMode) => db!.transaction(STORE, mode).objectStore(STORE);
+
+  // Load unexpired entries from the previous session once, on first use
+  const hydrate = () => {
+    if (!hydrated) {
+      hydrated = (async () => {
+        if (!dbName) return;
+        db = await openDatabase(dbName);
+        if (!db) return;
+        try {
+          const records = await requestToPromise(store('readonly').getAll()) as CacheRecord[];
+          const time = now();
+          records
+            .sort((a, b) => a.storedAt - b.storedAt)
+            .forEach(record => {
+              if (record.expiresAt > time) memory.set(record.key, record);
+              else store('readwrite').delete(record.key);
+            });
+          evict();
+        } catch (error) {
+          console.warn('[KG Cache] Could not read persisted responses:', error);
+        }
+      })();
+    }
+    return hydrated;
+  };
+
+  const evict = () => {
+    while (memory.size > maxEntries) {
+      const oldest = memory.keys().next().value as string;
+      memory.delete(oldest);
+      if (db) store('readwrite').delete(oldest);
+    }
+  };
+
+  const remember = (key: string, cacheClass: CacheClass, value: unknown) => {
+    const storedAt = now();
+    let size = 0;
+    let serializable = true;
+    try {
+      size = JSON.stringify(value)?.length ?? 0;
+    } catch {
+      serializable = false; // Kept in memory only
+    }
+
+    const record: CacheRecord = { key, cacheClass, storedAt, expiresAt: storedAt + CACHE_TTL_MS[cacheClass], size, value };
+    memory.delete(key);
+    memory.set(key, record);
+    evict();
+    if (db && serializable) {
+      try {
+        store('readwrite').put(record);
+      } catch (error) {
+        console.warn('[KG Cache] Could not persist response:', error);
+      }
+    }
+  };
+
+  // Resolve with the shared request, but reject this caller alone when its signal aborts
+  const join = <T>(entry: InFlight, signal?: AbortSignal): Promise<T> => {
+    entry.waiters += 1;
+    if (!signal) return entry.promise as Promise<T>;
+    if (signal.aborted) {
+      entry.waiters -= 1;
+      return Promise.reject(abortError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiters -= 1;
+        if (entry.waiters === 0) entry.controller.abort();
+        reject(abortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      entry.promise.then(
+        value => { signal.removeEventListener('abort', onAbort); resolve(value as T); },
+        error => { signal.removeEventListener('abort', onAbort); reject(error); }
+      );
+    });
+  };
+
+  return {
+    async fetch<T>(key: string, cacheClass: CacheClass, load: (signal: AbortSignal) => Promise<T>, signal?: AbortSignal): Promise<T> {
+      await hydrate();
+      if (signal?.aborted) throw abortError();
+
+      const cached = memory.get(key);
+      if (cached && cached.expiresAt > now()) {
+        counters.hits += 1;
+        memory.delete(key);
+        memory.set(key, cached);
+        return cached.value as T;
+      }
+
+      const pending = inFlight.get(key);
+      if (pending && !pending.controller.signal.aborted) {
+        counters.coalesced += 1;
+        return join<T>(pending, signal);
+      }
+
+      counters.misses += 1;
+      const controller = new AbortController();
+      const entry: InFlight = { controller, waiters: 0, promise: Promise.resolve() };
+      entry.promise = load(controller.signal)
+        .then(value => {
+          remember(key, cacheClass, value);
+          return value;
+        })
+        .finally(() => {
+          if (inFlight.get(key) === entry) inFlight.delete(key);
+        });
+      // Nobody may be left to observe a rejection after every caller aborted
+      entry.promise.catch(() => {});
+      inFlight.set(key, entry);
+      return join<T>(entry, signal);
+    },
+
+    async entries() {
+      await hydrate();
+      const time = now();
+      return Array.from(memory.values())
+        .filter(record => record.expiresAt > time)
+        .map(({ value: _value, ...info }) => info)
+        .reverse();
+    },
+
+    async stats() {
+      const entries = await this.entries();
+      return {
+        entries: entries.length,
+        size: entries.reduce((sum, e) => sum + e.size, 0),
+        ...counters,
+        persistent: !!db,
+      };
+    },
+
+    async clear() {
+      await hydrate();
+      memory.clear();
+      counters.hits = 0;
+      counters.misses = 0;
+      counters.coalesced = 0;
+      if (db) await requestToPromise(store('readwrite').clear());
+    },
+  };
+}
+
+export const kgCache = createKgCache();
@@ -1,141 +1,124 @@
-import toast from 'react-hot-toast';
-import { 
-  GraphData, 
-  Stats, 
-  SearchResult, 
-  DrugRepurposingResponse, 
-  TherapeuticTargetsResponse, 
+import {
+  GraphData,
+  PathQuery,
+  PathsResponse,
+  SubgraphFilter,
+  Stats,
+  SearchResult,
+  EntityResolutionResponse,
+  DrugRepurposingResponse,
+  TherapeuticTargetsResponse,
   DrugCombinationsResponse,
   PhenotypeMatchingResponse,
   EnvironmentalRiskResponse
 } from '../types';
+import type { KGBackend, ToolRequestInit } from './kgBackend';
+import { createHttpKgBackend, DEFAULT_KG_API_URL } from './httpKgBackend';
+import { createLocalKgBackend } from './localKgBackend';
+import { kgCache, CacheClass } from './kgCache';
+import { resetToolSchema } from './toolSchemaSync';
+import { resetResolver } from './entityResolver';
+
+/**
+ * Pick the backend from env:
+ * - VITE_KG_BACKEND=local + VITE_KG_LOCAL_DATA=/primekg-slice.csv -> in-memory slice
+ * - VITE_KG_API_URL=http://localhost:8000 -> self-hosted mirror
+ * - otherwise the hosted API
+ */
+function createDefaultBackend(): KGBackend {
+  const env = import.meta.env;
+  if (env.VITE_KG_BACKEND === 'local' && env.VITE_KG_LOCAL_DATA) {
+    return createLocalKgBackend({ url: env.VITE_KG_LOCAL_DATA });
+  }
+  return createHttpKgBackend(env.VITE_KG_API_URL || DEFAULT_KG_API_URL);
+}
 
-const BASE_URL = 'https://kg.sarkome.com';
-
-const headers: Record<string, string> = {
-  'Content-Type': 'application/json',
-};
+let backend: KGBackend = createDefaultBackend();
+
+/**
+ * Swap the backend every kgService call goes through (tests, offline mode, mirrors).
+ * What was learned about the old backend (its tool schema, whether it has /resolve) is
+ * dropped; call syncToolSchema again to pick up the new one's tools.
+ */
+export function setKgBackend(next: KGBackend): void {
+  backend = next;
+  resetToolSchema();
+  resetResolver();
+}
 
-// Helper to handle fetch errors with CORS support
-async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
-  try {
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(new Error("Request timed out after 30s")), 30000);
-
-    const fetchOptions: RequestInit = {
-      headers,
-      signal: controller.signal,
-      ...options
-    };
-
-    const response = await fetch(`${BASE_URL}${endpoint}`, fetchOptions);
-
-    clearTimeout(id);
-
-    if (!response.ok) {
-      const errorText = await response.text().catch(() => response.statusText);
-      throw new Error(`API Error: ${response.status} ${response.statusText} - ${errorText}`);
-    }
-    const text = await response.text();
-    try {
-      return text ? JSON.parse(text) : {} as T;
-    } catch {
-      // If parsing fails but response was ok, assume it's valid text or empty
-      return text as unknown as T;
-    }
-  } catch (error) {
-    if (error instanceof Error && error.name === 'AbortError') {
-      throw error;
-    }
-
-    const message = error instanceof Error ? error.message : 'Unknown technical error';
-    console.error(`[KG Service] Error on ${endpoint}:`, message);
-
-    // Skip global toast for 404 (Not Found) to allow components to handle it gracefully
-    if (!message.includes('404')) {
-      let userMessage = message;
-      if (message === 'Failed to fetch') {
-        userMessage = 'Connection failed. The server (kg.sarkome.com) might be down, returning a 500 error, or blocked by CORS.';
-      }
-      toast.error(`PrimeKG API Error: ${userMessage.slice(0, 100)}${userMessage.length > 100 ? '...' : ''}`);
-    }
-
-    throw error;
-  }
+export function getKgBackend(): KGBackend {
+  return backend;
 }
 
-// Helper to handle 404s gracefully (return default value instead of throwing)
-async function fetchAPIOrDefault<T>(endpoint: string, defaultValue: T, options: RequestInit = {}): Promise<T> {
-  try {
-    return await fetchAPI<T>(endpoint, options);
-  } catch (error: any) {
-    if (error.message && error.message.includes('404')) {
-      return defaultValue;
-    }
-    throw error;
-  }
+/**
+ * Serve a backend call through kgCache (keyed by backend, method and arguments).
+ * The local backend is already in memory, so it is called directly.
+ */
+function cached<T>(
+  cacheClass: CacheClass,
+  method: string,
+  args: unknown[],
+  signal: AbortSignal | undefined,
+  load: (signal?: AbortSignal) => Promise<T>
+): Promise<T> {
+  if (backend.kind === 'local') return load(signal);
+  return kgCache.fetch(`${backend.label}|${method}|${JSON.stringify(args)}`, cacheClass, load, signal);
 }
 
 export const kgService = {
-  getHealth: (signal?: AbortSignal) => fetchAPI<{ status: string }>('/health', { signal }),
+  // Liveness must reflect the server right now, so health is never cached
+  getHealth: (signal?: AbortSignal): Promise<{ status: string }> => backend.getHealth(signal),
+
+  getStats: (signal?: AbortSignal): Promise<Stats> =>
+    cached('status', 'getStats', [], signal, s => backend.getStats(s)),
+
+  searchText: (query: string, signal?: AbortSignal): Promise<SearchResult[]> =>
+    cached('search', 'searchText', [query], signal, s => backend.searchText(query, s)),
 
-  getStats: (signal?: AbortSignal) => fetchAPI<Stats>('/stats', { signal }),
+  searchSemantic: (query: string, signal?: AbortSignal): Promise<SearchResult[]> =>
+    cached('search', 'searchSemantic', [query], signal, s => backend.searchSemantic(query, s)),
 
-  searchText: (query: string, signal?: AbortSignal) => fetchAPI<SearchResult[]>(`/search/text?q=${encodeURIComponent(query)}`, { signal }),
+  resolveEntities: (mentions: string[], signal?: AbortSignal): Promise<EntityResolutionResponse[]> =>
+    cached('search', 'resolveEntities', [mentions], signal, s => backend.resolveEntities(mentions, s)),
 
-  searchSemantic: (query: string, signal?: AbortSignal) => fetchAPI<SearchResult[]>(`/search/semantic?q=${encodeURIComponent(query)}`, { signal }),
+  searchByExternalId: (source: string, id: string, signal?: AbortSignal): Promise<SearchResult[]> =>
+    cached('search', 'searchByExternalId', [source, id], signal, s => backend.searchByExternalId(source, id, s)),
 
-  getNeighbors: (nodeId: string, signal?: AbortSignal) => fetchAPI<GraphData>(`/neighbors/${encodeURIComponent(nodeId)}`, { signal }),
+  getNeighbors: (nodeId: string, signal?: AbortSignal): Promise<GraphData> =>
+    cached('graph', 'getNeighbors', [nodeId], signal, s => backend.getNeighbors(nodeId, s)),
 
-  getSubgraph: (entity: string, hops: number = 1, limit: number = 50, signal?: AbortSignal) =>
-    fetchAPI<GraphData>(`/subgraph/${encodeURIComponent(entity)}?hops=${hops}&limit=${limit}`, { signal }),
+  getSubgraph: (entity: string, hops: number = 1, limit: number = 50, signal?: AbortSignal, filter?: SubgraphFilter): Promise<GraphData> =>
+    cached('graph', 'getSubgraph', filter ? [entity, hops, limit, filter] : [entity, hops, limit], signal,
+      s => backend.getSubgraph(entity, hops, limit, s, filter)),
 
+  getShortestPath: (source: string, target: string, signal?: AbortSignal): Promise<GraphData> =>
+    cached('graph', 'getShortestPath', [source, target], signal, s => backend.getShortestPath(source, target, s)),
 
-  getShortestPath: (source: string, target: string, signal?: AbortSignal) => fetchAPI<GraphData>(`/path/${encodeURIComponent(source)}/${encodeURIComponent(target)}?max_depth=3`, { signal }),
+  getPaths: (source: string, target: string, query: PathQuery, signal?: AbortSignal): Promise<PathsResponse> =>
+    cached('graph', 'getPaths', [source, target, query], signal, s => backend.getPaths(source, target, query, s)),
 
-  getDrugRepurposing: (disease: string, signal?: AbortSignal) => 
-    fetchAPIOrDefault<DrugRepurposingResponse>(
-      `/hypothesis/repurposing/${encodeURIComponent(disease)}`, 
-      [], 
-      { signal }
-    ),
+  getDrugRepurposing: (disease: string, signal?: AbortSignal): Promise<DrugRepurposingResponse> =>
+    cached('hypothesis', 'getDrugRepurposing', [disease], signal, s => backend.getDrugRepurposing(disease, s)),
 
-  getTherapeuticTargets: (disease: string, signal?: AbortSignal) => 
-    fetchAPIOrDefault<TherapeuticTargetsResponse>(
-      `/hypothesis/targets/${encodeURIComponent(disease)}`, 
-      [],
-      { signal }
-    ),
+  getTherapeuticTargets: (disease: string, signal?: AbortSignal): Promise<TherapeuticTargetsResponse> =>
+    cached('hypothesis', 'getTherapeuticTargets', [disease], signal, s => backend.getTherapeuticTargets(disease, s)),
 
-  getDrugCombinations: (drug: string, signal?: AbortSignal) => 
-    fetchAPIOrDefault<DrugCombinationsResponse>(
-      `/hypothesis/combinations/${encodeURIComponent(drug)}`, 
-      [],
-      { signal }
-    ),
+  getDrugCombinations: (drug: string, signal?: AbortSignal): Promise<DrugCombinationsResponse> =>
+    cached('hypothesis', 'getDrugCombinations', [drug], signal, s => backend.getDrugCombinations(drug, s)),
 
-  getDrugMechanism: (drug: string, disease: string, signal?: AbortSignal) => 
-    fetchAPIOrDefault<GraphData>(
-      `/hypothesis/mechanisms/${encodeURIComponent(drug)}/${encodeURIComponent(disease)}`, 
-      { nodes: [], edges: [] },
-      { signal }
-    ),
+  getDrugMechanism: (drug: string, disease: string, signal?: AbortSignal): Promise<GraphData> =>
+    cached('graph', 'getDrugMechanism', [drug, disease], signal, s => backend.getDrugMechanism(drug, disease, s)),
 
-  getPhenotypeMatching: (disease: string, signal?: AbortSignal) =>
-    fetchAPIOrDefault<PhenotypeMatchingResponse>(
-      `/hypothesis/phenotypes/${encodeURIComponent(disease)}`, 
-      [],
-      { signal }
-    ),
+  getPhenotypeMatching: (disease: string, signal?: AbortSignal): Promise<PhenotypeMatchingResponse> =>
+    cached('hypothesis', 'getPhenotypeMatching', [disease], signal, s => backend.getPhenotypeMatching(disease, s)),
 
-  getEnvironmentalRisks: (disease: string, signal?: AbortSignal) =>
-    fetchAPIOrDefault<EnvironmentalRiskResponse>(
-      `/risk/environmental/${encodeURIComponent(disease)}`, 
-      [],
-      { signal }
-    ),
+  getEnvironmentalRisks: (disease: string, signal?: AbortSignal): Promise<EnvironmentalRiskResponse> =>
+    cached('hypothesis', 'getEnvironmentalRisks', [disease], signal, s => backend.getEnvironmentalRisks(disease, s)),
 
-  getContext: (signal?: AbortSignal) => fetchAPI<any>('/context', { signal }),
+  getContext: (signal?: AbortSignal) => cached('status', 'getContext', [], signal, s => backend.getContext(s)),
 
-  getToolSchema: (signal?: AbortSignal) => fetchAPI<any>('/tools/schema', { signal }),
-};
\ No newline at end of file
+  getToolSchema: (signal?: AbortSignal) => cached('status', 'getToolSchema', [], signal, s => backend.getToolSchema(s)),
+
+  // Server tools may be POSTs with side effects; always go to the server
+  callTool: (path: string, init?: ToolRequestInit) => backend.callTool(path, init),
+};
@@ -0,0 +1,69 @@
+/**
+ * LLM Provider Interface
+ * The agent talks to every model through this interface. Messages, tool declarations and
+ * streamed chunks use the @google/genai shapes; other providers translate to and from them.
+ * @module services/llmProvider
+ */
+
+import type {
+  Content,
+  FunctionCall,
+  GenerateContentResponseUsageMetadata,
+  GroundingMetadata,
+  PartListUnion,
+  Tool,
+} from '@google/genai';
+
+export type LLMProviderKind = 'gemini' | 'openai';
+
+/**
+ * One streamed piece of a model turn (a structural subset of GenerateContentResponse)
+ */
+export interface LLMChunk {
+  candidates?: Array<{ content?: Content; groundingMetadata?: GroundingMetadata }>;
+  functionCalls?: FunctionCall[];
+  usageMetadata?: GenerateContentResponseUsageMetadata;
+}
+
+export interface LLMChatConfig {
+  model: string;
+  systemInstruction: string;
+  /** Function declarations, plus `googleSearch` where the provider supports it */
+  tools: Tool[];
+  history?: Content[];
+  /** Cancels in-flight requests for the lifetime of the chat */
+  abortSignal?: AbortSignal;
+}
+
+/**
+ * Multi-turn chat that keeps its own history, including function calls and responses
+ */
+export interface LLMChat {
+  sendMessageStream(params: { message: PartListUnion }): Promise<AsyncIterable<LLMChunk>>;
+  getHistory(): Content[];
+}
+
+export interface LLMTextRequest {
+  model: string;
+  prompt: string;
+  /** Ask for a JSON-only reply */
+  json?: boolean;
+  maxOutputTokens?: number;
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly kind: LLMProviderKind;
+  /** Human-readable name for logs and settings, e.g. "Gemini" or "vLLM @ localhost:8000" */
+  readonly label: string;
+  /** Model used when the caller's model name belongs to another provider */
+  readonly defaultModel?: string;
+  /** Google Search grounding; function calling is always available */
+  readonly supportsWebSearch: boolean;
+
+  createChat(config: LLMChatConfig): LLMChat;
+  /** Single-shot completion without tools */
+  generateText(request: LLMTextRequest): Promise<string>;
+  /** Models the endpoint serves, when it can list them */
+  listModels?(signal?: AbortSignal): Promise<string[]>;
+}
@@ -0,0 +1,90 @@
+/**
+ * LLM Service
+ * Picks the model provider from the user's settings (API-key modal) or env, so callers
+ * never construct a client directly.
+ *
+ * Env (used when the user hasn't chosen in the browser):
+ * - VITE_LLM_PROVIDER=openai with VITE_OPENAI_BASE_URL, VITE_OPENAI_MODEL and optional VITE_OPENAI_API_KEY
+ * - otherwise Gemini with VITE_GEMINI_API_KEY
+ * @module services/llmService
+ */
+
+import type { LLMProvider, LLMProviderKind } from './llmProvider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAICompatibleProvider } from './openaiProvider';
+
+const GEMINI_KEY_STORAGE = 'primekg_gemini_api_key';
+const SETTINGS_STORAGE = 'primekg_llm_provider';
+
+export interface LLMSettings {
+  provider: LLMProviderKind;
+  /** OpenAI-compatible server root, e.g. http://localhost:8000/v1 */
+  baseUrl?: string;
+  /** Key for the OpenAI-compatible server (Gemini keys live under their own storage key) */
+  apiKey?: string;
+  model?: string;
+}
+
+const hasStorage = () => typeof window !== 'undefined' && typeof localStorage !== 'undefined';
+
+export function getLlmSettings(): LLMSettings {
+  if (hasStorage()) {
+    try {
+      const raw = localStorage.getItem(SETTINGS_STORAGE);
+      if (raw) return JSON.parse(raw) as LLMSettings;
+    } catch {
+      // Fall through to env defaults
+    }
+  }
+
+  if (import.meta.env.VITE_LLM_PROVIDER === 'openai') {
+    return {
+      provider: 'openai',
+      baseUrl: import.meta.env.VITE_OPENAI_BASE_URL,
+      apiKey: import.meta.env.VITE_OPENAI_API_KEY,
+      model: import.meta.env.VITE_OPENAI_MODEL,
+    };
+  }
+  return { provider: 'gemini' };
+}
+
+export function saveLlmSettings(settings: LLMSettings): void {
+  localStorage.setItem(SETTINGS_STORAGE, JSON.stringify(settings));
+}
+
+const getGeminiApiKey = (override?: string): string =>
+  override ||
+  (hasStorage() ? localStorage.getItem(GEMINI_KEY_STORAGE) || '' : '') ||
+  import.meta.env.VITE_GEMINI_API_KEY ||
+  import.meta.env.GEMINI_API_KEY ||
+  '';
+
+/**
+ * True when the active provider has what it needs to answer (a Gemini key, or a server URL and model)
+ */
+export function isLlmConfigured(settings: LLMSettings = getLlmSettings()): boolean {
+  if (settings.provider === 'openai') return !!settings.baseUrl && !!settings.model;
+  return !!getGeminiApiKey();
+}
+
+/**
+ * Build the provider for the given (or saved) settings; null when it isn't configured
+ *
+ * @param geminiApiKey - Overrides the stored Gemini key (e.g. a key being verified)
+ */
+export function getLlmProvider(settings: LLMSettings = getLlmSettings(), geminiApiKey?: string): LLMProvider | null {
+  if (settings.provider === 'openai') {
+    if (!settings.baseUrl || !settings.model) return null;
+    return createOpenAICompatibleProvider({ baseUrl: settings.baseUrl, apiKey: settings.apiKey, model: settings.model });
+  }
+
+  const apiKey = getGeminiApiKey(geminiApiKey);
+  return apiKey ? createGeminiProvider(apiKey) : null;
+}
+
+/**
+ * Model to request from `provider`: Gemini honours the caller's choice,
+ * other providers use the model configured for their server
+ */
+export const resolveModel = (provider: LLMProvider, requested: string): string =>
+  provider.kind === 'gemini' ? requested : provider.defaultModel || requested;
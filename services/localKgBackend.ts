@@ -0,0 +1,674 @@
+/**
+ * In-memory PrimeKG backend
+ * Loads a PrimeKG `kg.csv` slice (or a plain edge list) and answers every
+ * kgService query locally, so the explorer and the test suite run offline.
+ * @module services/localKgBackend
+ */
+
+import type {
+  KGNode,
+  KGEdge,
+  GraphData,
+  SubgraphFilter,
+  SearchResult,
+  DrugCandidate,
+  TherapeuticTarget,
+  DrugCombination,
+  PhenotypeCandidate,
+  EnvironmentalRisk
+} from '../types';
+import { KGBackend, notFoundError, throwIfAborted } from './kgBackend';
+import { normalizeNodeType } from '../constants/kgTaxonomy';
+import { nodePassesFilter, relationPassesFilter } from '../utils/graphFilter';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where the local backend gets its triples from
+ */
+export interface LocalKgSource {
+  /** Raw CSV/TSV text (PrimeKG kg.csv columns or source,target,relation) */
+  csv?: string;
+  /** URL of a CSV/TSV file, fetched lazily on the first query */
+  url?: string;
+}
+
+/**
+ * Parsed in-memory graph
+ */
+export interface LocalKgIndex {
+  nodes: Map<string, KGNode>;
+  /** Edges keyed by node id, each edge listed under both endpoints */
+  adjacency: Map<string, KGEdge[]>;
+  edgeCount: number;
+}
+
+/** Max shortest-path depth, same as the HTTP API's max_depth */
+const MAX_PATH_DEPTH = 3;
+const SEARCH_LIMIT = 20;
+const HYPOTHESIS_LIMIT = 50;
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Split one CSV line, honouring double-quoted fields ("sarcoma, soft tissue")
+ */
+function splitLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+  return fields.map(f => f.trim());
+}
+
+/**
+ * "off-label use" -> "off_label_use", matching the relation keys the API returns
+ */
+export function toRelationKey(relation: string): string {
+  return relation.trim().toLowerCase().replace(/[\s\-/]+/g, '_');
+}
+
+function addEdge(index: LocalKgIndex, seen: Set<string>, edge: KGEdge): void {
+  if (edge.source === edge.target) return;
+
+  // PrimeKG lists most relations in both directions; keep one copy per pair
+  const [a, b] = edge.source < edge.target ? [edge.source, edge.target] : [edge.target, edge.source];
+  const key = `${a}|${b}|${edge.relation}`;
+  if (seen.has(key)) return;
+  seen.add(key);
+
+  for (const id of [edge.source, edge.target]) {
+    const list = index.adjacency.get(id);
+    if (list) list.push(edge);
+    else index.adjacency.set(id, [edge]);
+  }
+  index.edgeCount++;
+}
+
+function addNode(index: LocalKgIndex, node: KGNode): void {
+  if (!index.nodes.has(node.id)) {
+    index.nodes.set(node.id, node);
+  }
+}
+
+/**
+ * Parse PrimeKG kg.csv or a simple edge list into an in-memory index.
+ *
+ * Accepted headers:
+ * - PrimeKG: relation, display_relation, x_id, x_type, x_name, x_source, y_id, y_type, y_name, y_source
+ * - Edge list: source, target, relation, and optionally source_type, target_type
+ */
+export function parseKgCsv(text: string): LocalKgIndex {
+  const index: LocalKgIndex = { nodes: new Map(), adjacency: new Map(), edgeCount: 0 };
+  const seen = new Set<string>();
+
+  const lines = text.split(/\r?\n/).filter(l => l.trim().length > 0);
+  if (lines.length === 0) return index;
+
+  const delimiter = lines[0].includes('\t') ? '\t' : ',';
+  const header = splitLine(lines[0], delimiter).map(h => h.toLowerCase());
+  const col = (name: string) => header.indexOf(name);
+
+  const isPrimeKg = col('x_name') !== -1 && col('y_name') !== -1;
+  if (!isPrimeKg && (col('source') === -1 || col('target') === -1)) {
+    throw new Error('Unrecognized KG file: expected PrimeKG kg.csv columns or source,target,relation');
+  }
+
+  for (let i = 1; i < lines.length; i++) {
+    const row = splitLine(lines[i], delimiter);
+    const get = (name: string) => {
+      const c = col(name);
+      return c === -1 ? '' : (row[c] ?? '');
+    };
+
+    if (isPrimeKg) {
+      const xName = get('x_name');
+      const yName = get('y_name');
+      if (!xName || !yName) continue;
+
+      addNode(index, { id: xName, name: xName, type: get('x_type') || 'unknown', source: get('x_source') || undefined, db_id: get('x_id') || undefined });
+      addNode(index, { id: yName, name: yName, type: get('y_type') || 'unknown', source: get('y_source') || undefined, db_id: get('y_id') || undefined });
+
+      const display = get('display_relation');
+      addEdge(index, seen, {
+        source: xName,
+        target: yName,
+        relation: toRelationKey(display || get('relation') || 'related_to'),
+        display_relation: display || undefined,
+      });
+    } else {
+      const source = get('source');
+      const target = get('target');
+      if (!source || !target) continue;
+
+      addNode(index, { id: source, name: source, type: get('source_type') || 'unknown' });
+      addNode(index, { id: target, name: target, type: get('target_type') || 'unknown' });
+
+      const relation = get('relation') || 'related_to';
+      addEdge(index, seen, { source, target, relation: toRelationKey(relation), display_relation: relation });
+    }
+  }
+
+  return index;
+}
+
+// ============================================================================
+// Node classification
+// ============================================================================
+
+const typeOf = (node?: KGNode) => normalizeNodeType(node?.type);
+
+const isGene = (node?: KGNode) => typeOf(node) === 'gene/protein';
+const isDrug = (node?: KGNode) => typeOf(node) === 'drug';
+const isDisease = (node?: KGNode) => typeOf(node) === 'disease';
+const isPhenotype = (node?: KGNode) => typeOf(node) === 'effect/phenotype';
+const isExposure = (node?: KGNode) => typeOf(node) === 'exposure';
+
+const otherEnd = (edge: KGEdge, id: string) => (edge.source === id ? edge.target : edge.source);
+
+// ============================================================================
+// Backend
+// ============================================================================
+
+/**
+ * Create a backend that answers kgService queries from an in-memory PrimeKG slice
+ */
+export function createLocalKgBackend(source: LocalKgSource): KGBackend {
+  let loading: Promise<LocalKgIndex> | null = null;
+
+  function load(): Promise<LocalKgIndex> {
+    if (!loading) {
+      loading = (async () => {
+        if (source.csv !== undefined) return parseKgCsv(source.csv);
+        if (!source.url) throw new Error('Local KG backend needs either csv text or a url');
+
+        const response = await fetch(source.url);
+        if (!response.ok) {
+          throw new Error(`Failed to load local KG from ${source.url}: ${response.status} ${response.statusText}`);
+        }
+        return parseKgCsv(await response.text());
+      })();
+      // Allow a retry after a failed download
+      loading.catch(() => { loading = null; });
+    }
+    return loading;
+  }
+
+  async function ready(signal?: AbortSignal): Promise<LocalKgIndex> {
+    throwIfAborted(signal);
+    const index = await load();
+    throwIfAborted(signal);
+    return index;
+  }
+
+  /**
+   * Case-insensitive lookup by name, falling back to the source database id
+   */
+  function resolve(index: LocalKgIndex, name: string): KGNode | undefined {
+    const direct = index.nodes.get(name);
+    if (direct) return direct;
+
+    const needle = name.trim().toLowerCase();
+    for (const node of index.nodes.values()) {
+      if (node.name.toLowerCase() === needle || node.db_id?.toLowerCase() === needle) {
+        return node;
+      }
+    }
+    return undefined;
+  }
+
+  function requireNode(index: LocalKgIndex, name: string): KGNode {
+    const node = resolve(index, name);
+    if (!node) throw notFoundError(`Entity '${name}' not found`);
+    return node;
+  }
+
+  const neighborsOf = (index: LocalKgIndex, id: string) => index.adjacency.get(id) ?? [];
+
+  function toSearchResult(node: KGNode, score: number): SearchResult {
+    return { name: node.name, type: node.type, db_id: node.db_id, score: Math.round(score * 1000) / 1000 };
+  }
+
+  /**
+   * Collect every node within `hops` of the center (breadth-first, capped at `limit`)
+   * and return the edges between them
+   */
+  function expand(index: LocalKgIndex, center: KGNode, hops: number, limit: number, filter: SubgraphFilter = {}): GraphData {
+    const included = new Set<string>([center.id]);
+    let frontier = [center.id];
+    // Filtered-out edges aren't traversed, so the limit is spent on matching nodes
+    const edgePasses = (edge: KGEdge) => relationPassesFilter(edge.display_relation || edge.relation, filter);
+
+    for (let depth = 0; depth < hops && included.size < limit; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const edge of neighborsOf(index, id)) {
+          const neighbor = otherEnd(edge, id);
+          if (included.has(neighbor) || !edgePasses(edge)) continue;
+          if (!nodePassesFilter(index.nodes.get(neighbor)?.type, filter)) continue;
+          if (included.size >= limit) break;
+          included.add(neighbor);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+
+    const edges: KGEdge[] = [];
+    const seen = new Set<KGEdge>();
+    for (const id of included) {
+      for (const edge of neighborsOf(index, id)) {
+        if (!seen.has(edge) && included.has(edge.source) && included.has(edge.target) && edgePasses(edge)) {
+          seen.add(edge);
+          edges.push(edge);
+        }
+      }
+    }
+
+    return { nodes: [...included].map(id => index.nodes.get(id)!), edges };
+  }
+
+  /**
+   * Breadth-first shortest path, returned as the nodes and edges along it
+   */
+  function shortestPath(index: LocalKgIndex, from: KGNode, to: KGNode, maxDepth: number): GraphData | null {
+    const previous = new Map<string, { id: string; edge: KGEdge } | null>([[from.id, null]]);
+    let frontier = [from.id];
+
+    for (let depth = 0; depth < maxDepth && frontier.length > 0 && !previous.has(to.id); depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const edge of neighborsOf(index, id)) {
+          const neighbor = otherEnd(edge, id);
+          if (previous.has(neighbor)) continue;
+          previous.set(neighbor, { id, edge });
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+
+    if (!previous.has(to.id)) return null;
+
+    const nodes: KGNode[] = [];
+    const edges: KGEdge[] = [];
+    let cursor: string | undefined = to.id;
+    while (cursor) {
+      nodes.unshift(index.nodes.get(cursor)!);
+      const step = previous.get(cursor);
+      if (step) edges.unshift(step.edge);
+      cursor = step?.id;
+    }
+    return { nodes, edges };
+  }
+
+  /**
+   * Simple paths (no repeated node), shortest first, up to `limit`. Each length is searched
+   * depth-first, pruned by the hop distance to the target.
+   */
+  function simplePaths(index: LocalKgIndex, from: KGNode, to: KGNode, maxDepth: number, limit: number): GraphData[] {
+    // Hops from each node to the target, within maxDepth
+    const distance = new Map<string, number>([[to.id, 0]]);
+    let frontier = [to.id];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const edge of neighborsOf(index, id)) {
+          const neighbor = otherEnd(edge, id);
+          if (distance.has(neighbor)) continue;
+          distance.set(neighbor, depth);
+          next.push(neighbor);
+        }
+      }
+      frontier = next;
+    }
+
+    const paths: GraphData[] = [];
+    const visit = (length: number, ids: string[], edges: KGEdge[]) => {
+      if (paths.length >= limit) return;
+      const id = ids[ids.length - 1];
+      const remaining = length - edges.length;
+      if (remaining === 0) {
+        if (id === to.id) paths.push({ nodes: ids.map(n => index.nodes.get(n)!), edges });
+        return;
+      }
+      for (const edge of neighborsOf(index, id)) {
+        const neighbor = otherEnd(edge, id);
+        const hops = distance.get(neighbor);
+        if (hops === undefined || hops > remaining - 1 || ids.includes(neighbor)) continue;
+        if (neighbor === to.id && remaining > 1) continue;
+        visit(length, [...ids, neighbor], [...edges, edge]);
+      }
+    };
+    for (let length = distance.get(from.id) ?? Infinity; length <= maxDepth && paths.length < limit; length++) {
+      visit(length, [from.id], []);
+    }
+    return paths;
+  }
+
+  /** Genes/proteins directly linked to a node */
+  function linkedGenes(index: LocalKgIndex, id: string): Set<string> {
+    const genes = new Set<string>();
+    for (const edge of neighborsOf(index, id)) {
+      const other = otherEnd(edge, id);
+      if (isGene(index.nodes.get(other))) genes.add(other);
+    }
+    return genes;
+  }
+
+  function linkedByRelation(index: LocalKgIndex, id: string, relation: string, accept: (node?: KGNode) => boolean): string[] {
+    return neighborsOf(index, id)
+      .filter(e => e.relation === relation)
+      .map(e => otherEnd(e, id))
+      .filter(other => accept(index.nodes.get(other)));
+  }
+
+  return {
+    kind: 'local',
+    label: source.url ? `local:${source.url}` : 'local:inline',
+
+    async getHealth(signal) {
+      await ready(signal);
+      return { status: 'ok' };
+    },
+
+    async getStats(signal) {
+      const index = await ready(signal);
+      let diseaseCount = 0;
+      let drugCount = 0;
+      for (const node of index.nodes.values()) {
+        if (isDisease(node)) diseaseCount++;
+        else if (isDrug(node)) drugCount++;
+      }
+      return {
+        node_count: index.nodes.size,
+        edge_count: index.edgeCount,
+        disease_count: diseaseCount,
+        drug_count: drugCount,
+      };
+    },
+
+    async searchText(query, signal) {
+      const index = await ready(signal);
+      const needle = query.trim().toLowerCase();
+      if (!needle) return [];
+
+      const results: SearchResult[] = [];
+      for (const node of index.nodes.values()) {
+        const name = node.name.toLowerCase();
+        const score = name === needle ? 1 : name.startsWith(needle) ? 0.8 : name.includes(needle) ? 0.5 : 0;
+        if (score > 0) results.push(toSearchResult(node, score));
+      }
+      return results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).slice(0, SEARCH_LIMIT);
+    },
+
+    /**
+     * Token-overlap ranking; a local stand-in for the server's embedding search
+     */
+    async searchSemantic(query, signal) {
+      const index = await ready(signal);
+      const tokenize = (s: string) => new Set(s.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1));
+      const queryTokens = tokenize(query);
+      if (queryTokens.size === 0) return [];
+      const needle = query.trim().toLowerCase();
+
+      const results: SearchResult[] = [];
+      for (const node of index.nodes.values()) {
+        const nameTokens = tokenize(node.name);
+        let shared = 0;
+        queryTokens.forEach(t => { if (nameTokens.has(t)) shared++; });
+        const union = queryTokens.size + nameTokens.size - shared;
+        let score = union > 0 ? shared / union : 0;
+        if (node.name.toLowerCase() === needle) score = 1;
+        else if (node.name.toLowerCase().includes(needle)) score = Math.max(score, 0.6);
+        if (score > 0) results.push(toSearchResult(node, score));
+      }
+      return results.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).slice(0, SEARCH_LIMIT);
+    },
+
+    async resolveEntities(mentions, signal) {
+      return Promise.all(mentions.map(async mention => ({
+        mention,
+        candidates: await this.searchSemantic(mention, signal),
+      })));
+    },
+
+    async searchByExternalId(externalSource, id, signal) {
+      const index = await ready(signal);
+      // MONDO and MONDO_grouped share identifiers, so compare the ontology part only
+      const ontology = externalSource.toUpperCase().split('_')[0];
+      const results: SearchResult[] = [];
+      for (const node of index.nodes.values()) {
+        if (!node.db_id || !node.source || node.source.toUpperCase().split('_')[0] !== ontology) continue;
+        if (node.db_id === id || node.db_id.split('_').includes(id)) {
+          results.push({ ...toSearchResult(node, 1), source: node.source });
+        }
+      }
+      return results.slice(0, SEARCH_LIMIT);
+    },
+
+    async getNeighbors(nodeId, signal) {
+      const index = await ready(signal);
+      const center = requireNode(index, nodeId);
+      const edges = neighborsOf(index, center.id);
+      const ids = new Set([center.id, ...edges.map(e => otherEnd(e, center.id))]);
+      return { nodes: [...ids].map(id => index.nodes.get(id)!), edges: [...edges] };
+    },
+
+    async getSubgraph(entity, hops, limit, signal, filter) {
+      const index = await ready(signal);
+      const center = requireNode(index, entity);
+      return expand(index, center, hops, limit, filter);
+    },
+
+    async getShortestPath(source, target, signal) {
+      const index = await ready(signal);
+      const path = shortestPath(index, requireNode(index, source), requireNode(index, target), MAX_PATH_DEPTH);
+      if (!path) throw notFoundError(`No path between '${source}' and '${target}' within ${MAX_PATH_DEPTH} hops`);
+      return path;
+    },
+
+    async getPaths(source, target, query, signal) {
+      const index = await ready(signal);
+      const from = requireNode(index, source);
+      const to = requireNode(index, target);
+      const paths = query.mode === 'shortest'
+        ? [shortestPath(index, from, to, query.maxDepth)].filter((p): p is GraphData => p !== null)
+        : simplePaths(index, from, to, query.maxDepth, query.limit);
+      if (!paths.length) throw notFoundError(`No path between '${source}' and '${target}' within ${query.maxDepth} hops`);
+      return paths;
+    },
+
+    /**
+     * Drugs that target genes associated with the disease, excluding drugs already indicated for it
+     */
+    async getDrugRepurposing(disease, signal) {
+      const index = await ready(signal);
+      const node = resolve(index, disease);
+      if (!node) return [];
+
+      const diseaseGenes = linkedGenes(index, node.id);
+      const indicated = new Set(linkedByRelation(index, node.id, 'indication', isDrug));
+      const offLabel = new Set(linkedByRelation(index, node.id, 'off_label_use', isDrug));
+
+      const sharedByDrug = new Map<string, string[]>();
+      for (const gene of diseaseGenes) {
+        for (const edge of neighborsOf(index, gene)) {
+          const drug = otherEnd(edge, gene);
+          if (!isDrug(index.nodes.get(drug)) || indicated.has(drug)) continue;
+          const shared = sharedByDrug.get(drug) ?? [];
+          if (!shared.includes(gene)) shared.push(gene);
+          sharedByDrug.set(drug, shared);
+        }
+      }
+
+      const candidates: DrugCandidate[] = [...sharedByDrug.entries()].map(([drug, shared]) => {
+        const otherIndication = linkedByRelation(index, drug, 'indication', isDisease)[0];
+        return {
+          drug,
+          original_indication: otherIndication ?? 'Unknown',
+          shared_target: shared[0],
+          confidence: shared.length >= 2 ? 'High' : 'Medium',
+          is_off_label: offLabel.has(drug),
+          score: diseaseGenes.size > 0 ? shared.length / diseaseGenes.size : 0,
+        };
+      });
+
+      return candidates.sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).slice(0, HYPOTHESIS_LIMIT);
+    },
+
+    /**
+     * Disease-associated genes ranked by how many drugs already reach them
+     */
+    async getTherapeuticTargets(disease, signal) {
+      const index = await ready(signal);
+      const node = resolve(index, disease);
+      if (!node) return [];
+
+      const counts = [...linkedGenes(index, node.id)].map(gene => ({
+        gene,
+        drugs: neighborsOf(index, gene).filter(e => isDrug(index.nodes.get(otherEnd(e, gene)))).length,
+        evidence: neighborsOf(index, gene).length,
+      }));
+      const maxDrugs = Math.max(1, ...counts.map(c => c.drugs));
+
+      const targets: TherapeuticTarget[] = counts.map(c => ({
+        gene: c.gene,
+        score: c.drugs / maxDrugs,
+        evidence_count: c.evidence,
+      }));
+
+      return targets.sort((a, b) => b.score - a.score).slice(0, HYPOTHESIS_LIMIT);
+    },
+
+    /**
+     * Drugs with a synergistic interaction, scored by how many targets they share
+     */
+    async getDrugCombinations(drug, signal) {
+      const index = await ready(signal);
+      const node = resolve(index, drug);
+      if (!node) return [];
+
+      const targets = linkedGenes(index, node.id);
+      const partners = linkedByRelation(index, node.id, 'synergistic_interaction', isDrug);
+
+      const combinations: DrugCombination[] = partners.map(partner => {
+        const partnerTargets = linkedGenes(index, partner);
+        let shared = 0;
+        partnerTargets.forEach(t => { if (targets.has(t)) shared++; });
+        const union = targets.size + partnerTargets.size - shared;
+        return {
+          drug: partner,
+          score: union > 0 ? shared / union : 0,
+        };
+      });
+
+      return combinations.sort((a, b) => b.score - a.score).slice(0, HYPOTHESIS_LIMIT);
+    },
+
+    async getDrugMechanism(drug, disease, signal) {
+      const index = await ready(signal);
+      const from = resolve(index, drug);
+      const to = resolve(index, disease);
+      if (!from || !to) return { nodes: [], edges: [] };
+      return shortestPath(index, from, to, MAX_PATH_DEPTH) ?? { nodes: [], edges: [] };
+    },
+
+    /**
+     * Drugs indicated for other diseases that present the same phenotypes
+     */
+    async getPhenotypeMatching(disease, signal) {
+      const index = await ready(signal);
+      const node = resolve(index, disease);
+      if (!node) return [];
+
+      const phenotypes = new Set(linkedByRelation(index, node.id, 'phenotype_present', isPhenotype));
+      if (phenotypes.size === 0) return [];
+
+      const sharedByDrug = new Map<string, Set<string>>();
+      for (const phenotype of phenotypes) {
+        for (const other of linkedByRelation(index, phenotype, 'phenotype_present', isDisease)) {
+          if (other === node.id) continue;
+          for (const drug of linkedByRelation(index, other, 'indication', isDrug)) {
+            const shared = sharedByDrug.get(drug) ?? new Set<string>();
+            shared.add(phenotype);
+            sharedByDrug.set(drug, shared);
+          }
+        }
+      }
+
+      const candidates: PhenotypeCandidate[] = [...sharedByDrug.entries()].map(([drug, shared]) => ({
+        drug,
+        shared_phenotypes: [...shared],
+        overlap_score: shared.size / phenotypes.size,
+      }));
+
+      return candidates.sort((a, b) => b.overlap_score - a.overlap_score).slice(0, HYPOTHESIS_LIMIT);
+    },
+
+    async getEnvironmentalRisks(disease, signal) {
+      const index = await ready(signal);
+      const node = resolve(index, disease);
+      if (!node) return [];
+
+      const risks: EnvironmentalRisk[] = neighborsOf(index, node.id)
+        .filter(e => isExposure(index.nodes.get(otherEnd(e, node.id))))
+        .map(e => {
+          const exposure = index.nodes.get(otherEnd(e, node.id))!;
+          return {
+            exposure: exposure.name,
+            exposure_type: exposure.source || exposure.type,
+            relationship: e.display_relation || e.relation,
+            evidence_score: neighborsOf(index, exposure.id).length,
+          };
+        });
+
+      return risks.sort((a, b) => (b.evidence_score ?? 0) - (a.evidence_score ?? 0)).slice(0, HYPOTHESIS_LIMIT);
+    },
+
+    async getContext(signal) {
+      const index = await ready(signal);
+      return {
+        backend: 'local',
+        source: source.url ?? 'inline',
+        node_count: index.nodes.size,
+        edge_count: index.edgeCount,
+      };
+    },
+
+    async getToolSchema(signal) {
+      await ready(signal);
+      return {};
+    },
+
+    async callTool(path, init) {
+      await ready(init?.signal);
+      throw notFoundError(`${path} is only available on a PrimeKG server`);
+    },
+  };
+}
@@ -0,0 +1,291 @@
+/**
+ * OpenAI-Compatible LLM Provider
+ * Talks to any /v1/chat/completions server (vLLM, llama.cpp, Ollama, LM Studio, OpenAI),
+ * translating Gemini-shaped history, tool declarations and streamed chunks
+ * @module services/openaiProvider
+ */
+
+import type { Content, FunctionCall, FunctionDeclaration, Part, PartListUnion, Schema, Tool } from '@google/genai';
+import type { LLMChat, LLMChunk, LLMProvider } from './llmProvider';
+
+export interface OpenAICompatibleConfig {
+  /** API root including the version segment, e.g. http://localhost:8000/v1 */
+  baseUrl: string;
+  /** Optional for local servers that don't check keys */
+  apiKey?: string;
+  model: string;
+}
+
+type OpenAIMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | Array<Record<string, any>> }
+  | { role: 'assistant'; content: string | null; tool_calls?: OpenAIToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+interface OpenAIToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+/**
+ * Gemini Schema (upper-case Type enum) to JSON Schema
+ */
+export function toJsonSchema(schema: Schema | undefined): Record<string, any> {
+  if (!schema) return { type: 'object', properties: {} };
+
+  const json: Record<string, any> = {};
+  if (schema.type) json.type = String(schema.type).toLowerCase();
+  if (schema.description) json.description = schema.description;
+  if (schema.enum) json.enum = schema.enum;
+  if (schema.items) json.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    json.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required?.length) json.required = schema.required;
+  return json;
+}
+
+/**
+ * Function declarations to OpenAI `tools`; Google Search has no equivalent and is dropped
+ */
+export function toOpenAITools(tools: Tool[]): Array<Record<string, any>> {
+  return tools
+    .flatMap(tool => tool.functionDeclarations || [])
+    .map((decl: FunctionDeclaration) => ({
+      type: 'function',
+      function: {
+        name: decl.name,
+        description: decl.description || '',
+        parameters: decl.parameters ? toJsonSchema(decl.parameters) : { type: 'object', properties: {} },
+      },
+    }));
+}
+
+const toParts = (message: PartListUnion): Part[] =>
+  (Array.isArray(message) ? message : [message]).map(p => (typeof p === 'string' ? { text: p } : p));
+
+const decodeBase64Text = (data: string): string => {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(Uint8Array.from(atob(data), c => c.charCodeAt(0)));
+  } catch {
+    return '';
+  }
+};
+
+/**
+ * User content parts as an OpenAI message body: plain text when possible,
+ * content blocks when images are attached
+ */
+function toUserContent(parts: Part[]): string | Array<Record<string, any>> {
+  const blocks: Array<Record<string, any>> = [];
+  for (const part of parts) {
+    if (part.text) {
+      blocks.push({ type: 'text', text: part.text });
+    } else if (part.inlineData?.data) {
+      const { mimeType = '', data } = part.inlineData;
+      if (mimeType.startsWith('image/')) {
+        blocks.push({ type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } });
+      } else if (mimeType.startsWith('text/') || mimeType === 'application/json') {
+        blocks.push({ type: 'text', text: decodeBase64Text(data) });
+      } else {
+        blocks.push({ type: 'text', text: `[Attachment of type ${mimeType} omitted: not supported by this model server]` });
+      }
+    }
+  }
+  return blocks.every(b => b.type === 'text') ? blocks.map(b => b.text).join('\n\n') : blocks;
+}
+
+/**
+ * Gemini history to OpenAI chat messages. Function responses become `tool` messages
+ * and model function calls become assistant `tool_calls`, matched by call id.
+ */
+export function toOpenAIMessages(systemInstruction: string, history: Content[]): OpenAIMessage[] {
+  const messages: OpenAIMessage[] = [];
+  if (systemInstruction) messages.push({ role: 'system', content: systemInstruction });
+
+  for (const content of history) {
+    const parts = content.parts || [];
+
+    if (content.role === 'model') {
+      const text = parts.map(p => p.text || '').join('');
+      const toolCalls = parts
+        .filter(p => p.functionCall)
+        .map((p, i) => ({
+          id: p.functionCall!.id || `${p.functionCall!.name}-${i}`,
+          type: 'function' as const,
+          function: { name: p.functionCall!.name || '', arguments: JSON.stringify(p.functionCall!.args || {}) },
+        }));
+      messages.push({ role: 'assistant', content: text || null, ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}) });
+      continue;
+    }
+
+    const responses = parts.filter(p => p.functionResponse);
+    responses.forEach((p, i) => {
+      messages.push({
+        role: 'tool',
+        tool_call_id: p.functionResponse!.id || `${p.functionResponse!.name}-${i}`,
+        content: JSON.stringify(p.functionResponse!.response ?? {}),
+      });
+    });
+
+    const rest = parts.filter(p => !p.functionResponse);
+    if (rest.length > 0) messages.push({ role: 'user', content: toUserContent(rest) });
+  }
+
+  return messages;
+}
+
+/**
+ * Read a server-sent-events body and yield each `data:` payload until [DONE]
+ */
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<any> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+        const payload = trimmed.slice(5).trim();
+        if (payload === '[DONE]') return;
+        if (payload) yield JSON.parse(payload);
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+const parseArguments = (raw: string): Record<string, unknown> => {
+  if (!raw) return {};
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+};
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): LLMProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`API Error: ${response.status} ${response.statusText} - ${detail}`);
+    }
+    return response;
+  };
+
+  let host = baseUrl;
+  try {
+    host = new URL(baseUrl).host;
+  } catch {
+    // Keep the raw value in the label
+  }
+
+  return {
+    kind: 'openai',
+    label: `OpenAI-compatible @ ${host}`,
+    defaultModel: config.model,
+    supportsWebSearch: false,
+
+    createChat({ model, systemInstruction, tools, history = [], abortSignal }): LLMChat {
+      const chatHistory: Content[] = [...history];
+      const openAITools = toOpenAITools(tools);
+
+      return {
+        getHistory: () => [...chatHistory],
+
+        async sendMessageStream({ message }) {
+          const userContent: Content = { role: 'user', parts: toParts(message) };
+          const response = await post('/chat/completions', {
+            model,
+            messages: toOpenAIMessages(systemInstruction, [...chatHistory, userContent]),
+            ...(openAITools.length > 0 ? { tools: openAITools, tool_choice: 'auto' } : {}),
+            stream: true,
+            stream_options: { include_usage: true },
+          }, abortSignal);
+
+          return (async function* (): AsyncGenerator<LLMChunk> {
+            let text = '';
+            let usage: LLMChunk['usageMetadata'];
+            // Tool calls arrive as fragments keyed by index; arguments are streamed JSON text
+            const pending = new Map<number, { id?: string; name: string; args: string }>();
+
+            for await (const event of readServerSentEvents(response.body!)) {
+              if (event.usage) {
+                usage = { promptTokenCount: event.usage.prompt_tokens, candidatesTokenCount: event.usage.completion_tokens };
+              }
+              const delta = event.choices?.[0]?.delta;
+              if (!delta) continue;
+
+              if (delta.content) {
+                text += delta.content;
+                yield { candidates: [{ content: { role: 'model', parts: [{ text: delta.content }] } }] };
+              }
+              for (const fragment of delta.tool_calls || []) {
+                const call = pending.get(fragment.index ?? 0) ?? { name: '', args: '' };
+                if (fragment.id) call.id = fragment.id;
+                if (fragment.function?.name) call.name += fragment.function.name;
+                if (fragment.function?.arguments) call.args += fragment.function.arguments;
+                pending.set(fragment.index ?? 0, call);
+              }
+            }
+
+            const functionCalls: FunctionCall[] = Array.from(pending.entries())
+              .sort(([a], [b]) => a - b)
+              .map(([index, call]) => ({ id: call.id || `call_${chatHistory.length}_${index}`, name: call.name, args: parseArguments(call.args) }));
+
+            const modelParts: Part[] = [
+              ...(text ? [{ text }] : []),
+              ...functionCalls.map(functionCall => ({ functionCall })),
+            ];
+            // Same as Gemini: the exchange joins the history only once the turn completes
+            chatHistory.push(userContent, { role: 'model', parts: modelParts });
+
+            if (functionCalls.length > 0 || usage) {
+              yield {
+                candidates: [{ content: { role: 'model', parts: functionCalls.map(functionCall => ({ functionCall })) } }],
+                functionCalls: functionCalls.length > 0 ? functionCalls : undefined,
+                usageMetadata: usage,
+              };
+            }
+          })();
+        },
+      };
+    },
+
+    async generateText({ model, prompt, json, maxOutputTokens, signal }) {
+      const response = await post('/chat/completions', {
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        ...(maxOutputTokens ? { max_tokens: maxOutputTokens } : {}),
+        ...(json ? { response_format: { type: 'json_object' } } : {}),
+      }, signal);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+
+    async listModels(signal) {
+      const response = await fetch(`${baseUrl}/models`, { headers, signal });
+      if (!response.ok) throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      const data = await response.json();
+      return (data.data || []).map((m: { id: string }) => m.id);
+    },
+  };
+}
@@ -9,15 +9,20 @@ import type {
   SearchResponse, 
   SearchParams, 
   DisplayCitation,
+  InlineCitation,
   PubMedError,
+  ErrorCode,
   EntityType
 } from '../types/pubmed';
 import { withRateLimit } from '../utils/rateLimiter';
+import { AppError, NetworkError, TimeoutError, UpstreamError, errorFromStatus } from './errors';
 
 const BASE_URL = 'https://www.ebi.ac.uk/europepmc/webservices/rest';
 const DEFAULT_PAGE_SIZE = 10;
 const REQUEST_TIMEOUT = 10000; // 10 seconds
 
+const withCode = (error: AppError, code: ErrorCode): PubMedError => Object.assign(error, { code });
+
 /**
  * Transform raw API response to display format
  * @param raw - Raw citation data from Europe PMC API
@@ -54,6 +59,28 @@ export function transformCitation(raw: any): DisplayCitation {
   };
 }
 
+/**
+ * Reduce a display citation to the numbered form used for inline references
+ * @param citation - Citation returned by a search
+ * @param ref - Reference number shown in the answer text
+ * @returns Citation with a stable link (PubMed, then DOI, then Europe PMC)
+ */
+export function toInlineCitation(citation: DisplayCitation, ref: number): InlineCitation {
+  return {
+    ref,
+    pmid: citation.pmid,
+    sourceId: citation.id,
+    title: citation.title,
+    authors: citation.authors,
+    journal: citation.journal,
+    year: citation.year,
+    citedByCount: citation.citedByCount,
+    url: citation.pmid
+      ? `https://pubmed.ncbi.nlm.nih.gov/${citation.pmid}/`
+      : citation.doiUrl || citation.pmcUrl,
+  };
+}
+
 /**
  * Build query string with entity context and filters
  * @param params - Search parameters
@@ -114,7 +141,17 @@ export async function searchCitations(params: SearchParams): Promise<SearchRespo
     );
 
     if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+      const retryAfter = Number(response.headers?.get('Retry-After'));
+      throw withCode(
+        errorFromStatus(response.status, `HTTP ${response.status}: ${response.statusText}`, {
+          service: 'pubmed',
+          retryAfterMs: retryAfter ? retryAfter * 1000 : undefined,
+        }),
+        response.status === 429 ? 'RATE_LIMIT'
+          : response.status === 400 ? 'INVALID_QUERY'
+          : response.status >= 500 ? 'NETWORK'
+          : 'UNKNOWN'
+      );
     }
 
     const data = await response.json();
@@ -125,22 +162,14 @@ export async function searchCitations(params: SearchParams): Promise<SearchRespo
       results: (data.resultList?.result || []).map(transformCitation),
     };
   } catch (error) {
+    if (error instanceof AppError) throw error;
     if (error instanceof Error) {
       if (error.name === 'AbortError') {
-        throw { 
-          code: 'TIMEOUT', 
-          message: 'Request timed out after 10 seconds' 
-        } as PubMedError;
+        throw withCode(new TimeoutError('Request timed out after 10 seconds', { service: 'pubmed', cause: error }), 'TIMEOUT');
       }
-      throw { 
-        code: 'NETWORK', 
-        message: error.message 
-      } as PubMedError;
+      throw withCode(new NetworkError(error.message, { service: 'pubmed', cause: error }), 'NETWORK');
     }
-    throw { 
-      code: 'UNKNOWN', 
-      message: 'An unexpected error occurred' 
-    } as PubMedError;
+    throw withCode(new UpstreamError('An unexpected error occurred', { service: 'pubmed', cause: error }), 'UNKNOWN');
   } finally {
     clearTimeout(timeoutId);
   }
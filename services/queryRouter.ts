@@ -0,0 +1,296 @@
+/**
+ * Query Router
+ * Hybrid mode: splits a question into knowledge-graph and web sub-questions, answers each
+ * with the matching agent (function calling vs. Google Search grounding, which the API
+ * won't combine in one chat), then merges both into one answer with separated sources
+ * @module services/queryRouter
+ */
+
+import { z } from 'zod';
+import { GeminiModel } from '../types';
+import { generateResponseStream, llmFailureResponse, AgentOptions, AgentResponse, AgentStreamEvent } from './geminiService';
+import { getLlmProvider, getLlmSettings, resolveModel } from './llmService';
+import { buildEvidence } from './evidenceBuilder';
+import { verifyClaims } from './claimVerifier';
+import { kgService } from './kgService';
+import type { LLMProvider } from './llmProvider';
+
+export interface QueryRoute {
+  /** Sub-questions for the PrimeKG function-calling agent */
+  graph: string[];
+  /** Sub-questions for the search-grounded agent (recency, trials, approvals, news) */
+  web: string[];
+}
+
+const QueryRouteSchema = z.object({
+  graph: z.array(z.string()).default([]),
+  web: z.array(z.string()).default([]),
+});
+
+// Signals that a question needs information newer or wider than the graph
+const WEB_CUES = /\b(recent(ly)?|latest|current(ly)?|new(est)?|ongoing|clinical trials?|phase [1-4i]+|fda|ema|approv(al|ed)|guidelines?|news|this year|20[2-3]\d)\b/i;
+
+const ROUTER_PROMPT = `Split the user's question into self-contained sub-questions and route each one:
+- "graph": biomedical relationships a knowledge graph can answer (drug targets, gene-disease associations, mechanisms, pathways, repurposing, phenotypes, side effects)
+- "web": anything needing current or external information (recent or ongoing clinical trials, approvals, guidelines, news, prevalence statistics, anything time-sensitive)
+Reply with JSON only: {"graph": ["..."], "web": ["..."]}. Keep the user's wording and leave a list empty when nothing fits.
+
+Question: `;
+
+/**
+ * Keyword fallback when the model can't plan: everything goes to the graph, and the
+ * whole question also goes to the web when it has recency cues
+ */
+export const heuristicRoute = (prompt: string): QueryRoute => ({
+  graph: [prompt],
+  web: WEB_CUES.test(prompt) ? [prompt] : [],
+});
+
+/**
+ * Ask the model to split and route the question
+ */
+export async function planRoute(prompt: string, provider: LLMProvider, model: string, signal?: AbortSignal): Promise<QueryRoute> {
+  try {
+    const text = await provider.generateText({ model, prompt: `${ROUTER_PROMPT}${prompt}`, json: true, signal });
+    const route = QueryRouteSchema.parse(JSON.parse(text));
+    if (route.graph.length === 0 && route.web.length === 0) return heuristicRoute(prompt);
+    return route;
+  } catch (e: any) {
+    if (e?.name === 'AbortError') throw e;
+    console.warn('[Router] Planning failed, using keyword routing:', e);
+    return heuristicRoute(prompt);
+  }
+}
+
+const SYNTHESIS_INSTRUCTION = `You are PrimeAI, a biomedical research assistant. Merge the findings below into one answer to the user's question.
+- Use two sections: "From the PrimeKG knowledge graph" and "From the web". Never attribute a web finding to the graph or the reverse.
+- Keep literature citations like [1] exactly as they appear in the graph findings.
+- Cite web findings with the source labels given, e.g. [W1]. Do not invent sources and do not add a sources list.
+- If the two disagree, say so. Use hyphens (-) not em dashes.`;
+
+// generateResponseStream arguments up to (not including) its options
+type AgentArgs = Parameters<typeof generateResponseStream> extends [...infer Head, AgentOptions?] ? Head : never;
+
+// The web agent appends its own sources list; the merged answer lists them once, at the end
+const stripSourcesBlock = (text: string) => text.split('\n\n---\n**Sources:**')[0].trim();
+
+/**
+ * Run one sub-agent, relaying its tool and graph events (its text is only an input to the merge)
+ */
+async function* runSubAgent(
+  label: string,
+  questions: string[],
+  args: AgentArgs,
+  options: AgentOptions
+): AsyncGenerator<AgentStreamEvent, AgentResponse> {
+  const [, history, modelName, userApiKey, fileAttachments, onLog, abortSignal] = args;
+  const prompt = questions.length === 1 ? questions[0] : questions.map((q, i) => `${i + 1}. ${q}`).join('\n');
+  let response: AgentResponse = { text: '' };
+
+  const stream = generateResponseStream(
+    prompt, history, modelName, userApiKey, fileAttachments,
+    entry => onLog?.(`[${label}] ${entry}`),
+    abortSignal,
+    options
+  );
+  for await (const event of stream) {
+    if (event.type === 'done') response = event.response;
+    else if (event.type !== 'text') yield event;
+  }
+  return response;
+}
+
+/**
+ * Run the graph and web sub-agents side by side, relaying their events as they arrive.
+ * Both share one abort: the caller aborting, a sub-agent throwing or the consumer
+ * stopping early cancels the other one too.
+ */
+async function* runSubAgentsInParallel(
+  route: QueryRoute,
+  args: AgentArgs,
+  options: AgentOptions
+): AsyncGenerator<AgentStreamEvent, [AgentResponse, AgentResponse]> {
+  const abortSignal = args[6];
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (abortSignal?.aborted) controller.abort();
+  abortSignal?.addEventListener('abort', onAbort, { once: true });
+  const shared = [...args] as AgentArgs;
+  shared[6] = controller.signal;
+
+  const queue: AgentStreamEvent[] = [];
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+
+  const drain = async (label: string, questions: string[], enableWebSearch: boolean): Promise<AgentResponse> => {
+    const agent = runSubAgent(label, questions, shared, { ...options, enableWebSearch });
+    try {
+      for (;;) {
+        const step = await agent.next();
+        if (step.done === true) return step.value;
+        queue.push(step.value);
+        notify();
+      }
+    } catch (error) {
+      controller.abort();
+      throw error;
+    }
+  };
+
+  let settled = false;
+  const both = Promise.all([drain('graph', route.graph, false), drain('web', route.web, true)]);
+  const onSettled = () => {
+    settled = true;
+    notify();
+  };
+  both.then(onSettled, onSettled);
+
+  try {
+    while (!settled || queue.length > 0) {
+      if (queue.length > 0) yield queue.shift()!;
+      else await new Promise<void>(resolve => { wake = resolve; });
+    }
+    return await both;
+  } finally {
+    abortSignal?.removeEventListener('abort', onAbort);
+    if (!settled) controller.abort();
+  }
+}
+
+/**
+ * Hybrid agent: same signature and events as generateResponseStream. Graph tools and web
+ * search run as separate sub-agents; only the merged answer is streamed as text.
+ * Falls back to a single agent when routing finds just one kind of sub-question.
+ */
+export async function* generateHybridResponseStream(
+  prompt: string,
+  history: Array<{ role: string; parts: Array<{ text: string }> }>,
+  modelName: GeminiModel = GeminiModel.FLASH,
+  userApiKey?: string,
+  fileAttachments?: Array<{ name: string; data: string; mimeType: string }>,
+  onLog?: (entry: string) => void,
+  abortSignal?: AbortSignal,
+  options?: Omit<AgentOptions, 'enableWebSearch'>
+): AsyncGenerator<AgentStreamEvent, void> {
+  const provider = getLlmProvider(getLlmSettings(), userApiKey);
+  const args: AgentArgs = [prompt, history, modelName, userApiKey, fileAttachments, onLog, abortSignal];
+
+  // Without a provider, or without search grounding, there is nothing to route
+  if (!provider || !provider.supportsWebSearch) {
+    if (provider) onLog?.(`⚠️ Hybrid routing needs web search, which ${provider.label} lacks; using PrimeKG only`);
+    yield* generateResponseStream(...args, options);
+    return;
+  }
+
+  const model = resolveModel(provider, modelName);
+  onLog?.('🧭 Routing sub-questions...');
+  const route = await planRoute(prompt, provider, model, abortSignal);
+  onLog?.(`🧭 Route: ${route.graph.length} graph, ${route.web.length} web`);
+
+  if (route.web.length === 0 || route.graph.length === 0) {
+    yield* generateResponseStream(...args, { ...options, enableWebSearch: route.graph.length === 0 });
+    return;
+  }
+
+  const [graph, web] = yield* runSubAgentsInParallel(route, args, options ?? {});
+
+  // A failed sub-agent returns a notice (quota, credentials), not findings: answer from the
+  // other one alone, or report the failure when both failed
+  if (graph.error || web.error) {
+    const answer = !graph.error ? graph : !web.error ? web : graph;
+    if (!answer.error) onLog?.(`⚠️ ${graph.error ? 'Graph' : 'Web'} sub-agent failed; answering from the other one only`);
+    yield { type: 'text', delta: answer.text };
+    yield { type: 'done', response: answer };
+    return;
+  }
+
+  const webSources = web.evidence?.webSources ?? [];
+  const sourceLabels = webSources.map((s, i) => `[W${i + 1}] ${s.title} - ${s.uri}`).join('\n');
+
+  onLog?.('🔀 Merging graph and web findings');
+  let text = '';
+  let mergeUsage = { promptTokens: 0, completionTokens: 0 };
+  try {
+    const chat = provider.createChat({ model, systemInstruction: SYNTHESIS_INSTRUCTION, tools: [], abortSignal });
+    const stream = await chat.sendMessageStream({
+      message: `User question: ${prompt}
+
+## Graph findings (PrimeKG)
+Sub-questions: ${route.graph.join(' | ')}
+${graph.text}
+
+## Web findings
+Sub-questions: ${route.web.join(' | ')}
+${stripSourcesBlock(web.text)}
+
+## Web source labels
+${sourceLabels || '(none)'}`,
+    });
+
+    for await (const chunk of stream) {
+      if (abortSignal?.aborted) throw new DOMException('Aborted', 'AbortError');
+      const delta = (chunk.candidates?.[0]?.content?.parts || []).map(p => p.text || '').join('');
+      if (delta) {
+        text += delta;
+        yield { type: 'text', delta };
+      }
+      if (chunk.usageMetadata) {
+        mergeUsage = {
+          promptTokens: chunk.usageMetadata.promptTokenCount || 0,
+          completionTokens: chunk.usageMetadata.candidatesTokenCount || 0,
+        };
+      }
+    }
+  } catch (error: any) {
+    if (error?.name === 'AbortError') throw error;
+    console.error('[Router] Merge failed:', error);
+    yield { type: 'done', response: { ...llmFailureResponse(error), data: graph.data, toolTrace: graph.toolTrace, citations: graph.citations } };
+    return;
+  }
+
+  const graphSources = graph.evidence
+    ? `\n*Graph-derived (PrimeKG):* ${graph.evidence.edges.length} relationships from ${graph.evidence.toolCalls.length} tool calls${graph.citations?.length ? `, ${graph.citations.length} papers` : ''}`
+    : '';
+  const webSourceList = webSources.length > 0
+    ? `\n\n*Web-derived:*\n${webSources.map((s, i) => `${i + 1}. [W${i + 1}] [${s.title}](${s.uri})`).join('\n')}`
+    : '';
+  if (graphSources || webSourceList) {
+    const sources = `\n\n---\n**Sources**\n${graphSources}${webSourceList}\n`;
+    text += sources;
+    yield { type: 'text', delta: sources };
+  }
+
+  // Link [Wn] markers to their pages in the stored answer
+  const linked = text.replace(/\[W(\d+)\](?!\])/g, (match, n: string) => {
+    const source = webSources[Number(n) - 1];
+    return source ? `[\\[W${n}\\]](${source.uri})` : match;
+  });
+
+  const evidence = {
+    ...(graph.evidence ?? buildEvidence([], [], [], [])),
+    webSources,
+  };
+  const claims = await verifyClaims(linked, evidence, { requery: options?.requeryClaims ? kgService.getNeighbors : undefined, signal: abortSignal });
+  evidence.claims = claims.length > 0 ? claims : undefined;
+
+  const sum = (key: 'promptTokens' | 'completionTokens') =>
+    (graph.usage?.[key] || 0) + (web.usage?.[key] || 0) + mergeUsage[key];
+
+  onLog?.('Done');
+  yield {
+    type: 'done',
+    response: {
+      text: linked,
+      budgetExhausted: graph.budgetExhausted,
+      continuation: graph.continuation,
+      data: graph.data,
+      toolTrace: graph.toolTrace,
+      citations: graph.citations,
+      evidence,
+      usage: { promptTokens: sum('promptTokens'), completionTokens: sum('completionTokens') },
+    },
+  };
+}
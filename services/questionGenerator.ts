@@ -1,6 +1,6 @@
 
-import { GoogleGenAI } from "@google/genai";
 import { GeminiModel } from '../types';
+import { getLlmProvider, resolveModel } from './llmService';
 
 /**
  * Generates dynamic suggested questions using Gemini Flash
@@ -25,14 +25,12 @@ export async function generateSuggestedQuestions(count: number = 4): Promise<Arr
     // Ignore cache errors
   }
 
-  // Get API key from storage or env
-  const apiKey = localStorage.getItem('primekg_gemini_api_key') || 
-                 (import.meta.env.VITE_GEMINI_API_KEY as string);
+  // Active model provider (Gemini key or self-hosted server) from settings or env
+  const provider = getLlmProvider();
   
-  if (!apiKey) return [];
+  if (!provider) return [];
 
   try {
-    const ai = new GoogleGenAI({ apiKey });
     
     // Use Flash model for speed and low cost
     const prompt = `Generate 12 unique, scientific, and specific questions about precision medicine, genetics, drugs, or diseases that a researcher might ask a knowledge graph AI.
@@ -53,20 +51,17 @@ export async function generateSuggestedQuestions(count: number = 4): Promise<Arr
     Topics to mix: Oncology, Neurology, Cardiology, Rare Diseases, CRISPR, Immunotherapy, Drug Interactions.
     Make them sound professional yet curious. Example label: "CRISPR targets for HIV", query: "What genes are potential targets for CRISPR-based HIV therapies?"`;
 
-    const result = await ai.models.generateContent({
-        model: GeminiModel.FLASH,
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        config: { responseMimeType: 'application/json' }
+    const text = await provider.generateText({
+        model: resolveModel(provider, GeminiModel.FLASH),
+        prompt,
+        json: true
     });
 
-    let text = "";
-    if (result.candidates && result.candidates.length > 0 && result.candidates[0].content?.parts) {
-      text = result.candidates[0].content.parts.map(p => p.text).join('');
-    }
-
     if (!text) throw new Error("No text generated");
     
-    const questions = JSON.parse(text);
+    const parsed = JSON.parse(text);
+    // OpenAI-style JSON mode only returns objects, so the array may come wrapped in one
+    const questions = Array.isArray(parsed) ? parsed : Object.values(parsed || {}).find(Array.isArray);
 
     // Validate structure briefly
     if (!Array.isArray(questions)) return [];
@@ -1,4 +1,5 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { AppError, AuthError, NotFoundError, toAppError } from './errors';
 
 // Initialize Supabase client
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || '';
@@ -41,6 +42,11 @@ export interface ChatMessageRow {
   created_at: string;
   related_data?: any;
   trace?: string[];
+  tool_trace?: any;
+  budget_exhausted?: boolean | null;
+  continuation?: any;
+  evidence?: any;
+  error?: any;
 }
 
 export interface ChatSessionRow {
@@ -48,6 +54,7 @@ export interface ChatSessionRow {
   user_fingerprint: string;
   title: string;
   pinned: boolean;
+  max_turns?: number | null;
   created_at: string;
   updated_at: string;
   messages?: ChatMessageRow[]; // Joined data
@@ -60,15 +67,37 @@ export interface UserRow {
 }
 
 /**
- * Database operations with normalized schema
+ * PostgREST errors carry string codes; map the ones with a clear meaning, classify the rest generically
+ */
+function toSupabaseError(error: unknown): AppError {
+  const code = (error as { code?: unknown } | null)?.code;
+  const message = (error as { message?: string } | null)?.message ?? String(error);
+  // 42501: row-level security / privilege; PGRST301/302: missing or expired JWT
+  if (code === '42501' || code === 'PGRST301' || code === 'PGRST302') {
+    return new AuthError(message, { service: 'supabase', cause: error });
+  }
+  if (code === 'PGRST116') return new NotFoundError(message, { service: 'supabase', cause: error });
+  return toAppError(error, 'supabase');
+}
+
+const logFailure = (operation: string, error: unknown): AppError => {
+  const failure = toSupabaseError(error);
+  console.error(`[Supabase] ${operation} failed (${failure.kind}):`, failure.message);
+  return failure;
+};
+
+/**
+ * Database operations with normalized schema.
+ * Failures throw the classified error (AuthError, NotFoundError, ...). Without a configured
+ * client, sync is off: writes do nothing and loads return no sessions.
  */
 export const chatSyncService = {
   /**
    * Ensure user exists in the database
    */
-  async ensureUser(fingerprint: string): Promise<boolean> {
+  async ensureUser(fingerprint: string): Promise<void> {
     const client = getSupabaseClient();
-    if (!client) return false;
+    if (!client) return;
 
     try {
       const { error } = await client
@@ -78,14 +107,9 @@ export const chatSyncService = {
           last_active_at: new Date().toISOString()
         }, { onConflict: 'fingerprint' });
 
-      if (error) {
-        console.error('[Supabase] Ensure user error:', error.message);
-        return false;
-      }
-      return true;
+      if (error) throw logFailure('Ensure user', error);
     } catch (e) {
-      console.error('[Supabase] Ensure user exception:', e);
-      return false;
+      throw e instanceof AppError ? e : logFailure('Ensure user', e);
     }
   },
 
@@ -98,10 +122,11 @@ export const chatSyncService = {
     title: string;
     messages: any[];
     pinned?: boolean;
+    maxTurns?: number;
     fingerprint: string;
-  }): Promise<boolean> {
+  }): Promise<void> {
     const client = getSupabaseClient();
-    if (!client) return false;
+    if (!client) return;
 
     try {
       // 1. Ensure user exists
@@ -115,13 +140,11 @@ export const chatSyncService = {
           user_fingerprint: session.fingerprint,
           title: session.title,
           pinned: session.pinned || false,
+          max_turns: session.maxTurns ?? null,
           updated_at: new Date().toISOString()
         }, { onConflict: 'id' });
 
-      if (sessionError) {
-        console.error('[Supabase] Session upsert error:', sessionError.message);
-        return false;
-      }
+      if (sessionError) throw logFailure('Session upsert', sessionError);
 
       // 3. Delete existing messages for this session and insert new ones
       // This is simpler than trying to diff and update (and faster for small sessions)
@@ -130,10 +153,7 @@ export const chatSyncService = {
         .delete()
         .eq('session_id', session.id);
 
-      if (deleteError) {
-        console.error('[Supabase] Delete messages error:', deleteError.message);
-        return false;
-      }
+      if (deleteError) throw logFailure('Delete messages', deleteError);
 
       // 4. Insert all messages
       if (session.messages.length > 0) {
@@ -143,23 +163,22 @@ export const chatSyncService = {
           content: msg.content,
           created_at: msg.timestamp || new Date(Date.now() + index).toISOString(),
           related_data: msg.relatedData || null,
-          trace: msg.trace || null
+          trace: msg.trace || null,
+          tool_trace: msg.toolTrace || null,
+          budget_exhausted: msg.budgetExhausted || null,
+          continuation: msg.continuation || null,
+          evidence: msg.evidence || null,
+          error: msg.error || null
         }));
 
         const { error: insertError } = await client
           .from('chat_messages')
           .insert(messagesData);
 
-        if (insertError) {
-          console.error('[Supabase] Insert messages error:', insertError.message);
-          return false;
-        }
+        if (insertError) throw logFailure('Insert messages', insertError);
       }
-
-      return true;
     } catch (e) {
-      console.error('[Supabase] Upsert session exception:', e);
-      return false;
+      throw e instanceof AppError ? e : logFailure('Upsert session', e);
     }
   },
 
@@ -182,10 +201,7 @@ export const chatSyncService = {
         .order('updated_at', { ascending: false })
         .limit(50);
 
-      if (sessionsError) {
-        console.error('[Supabase] Load sessions error:', sessionsError.message);
-        return [];
-      }
+      if (sessionsError) throw logFailure('Load sessions', sessionsError);
 
       if (!sessions || sessions.length === 0) return [];
 
@@ -198,7 +214,7 @@ export const chatSyncService = {
         .order('created_at', { ascending: true });
 
       if (messagesError) {
-        console.error('[Supabase] Load messages error:', messagesError.message);
+        logFailure('Load messages', messagesError);
         return sessions as ChatSessionRow[];
       }
 
@@ -217,17 +233,16 @@ export const chatSyncService = {
         messages: messagesBySession.get(session.id) || []
       })) as ChatSessionRow[];
     } catch (e) {
-      console.error('[Supabase] Load sessions exception:', e);
-      return [];
+      throw e instanceof AppError ? e : logFailure('Load sessions', e);
     }
   },
 
   /**
    * Delete a session (cascade deletes messages automatically)
    */
-  async deleteSession(id: string): Promise<boolean> {
+  async deleteSession(id: string): Promise<void> {
     const client = getSupabaseClient();
-    if (!client) return false;
+    if (!client) return;
 
     try {
       const { error } = await client
@@ -235,23 +250,18 @@ export const chatSyncService = {
         .delete()
         .eq('id', id);
 
-      if (error) {
-        console.error('[Supabase] Delete session error:', error.message);
-        return false;
-      }
-      return true;
+      if (error) throw logFailure('Delete session', error);
     } catch (e) {
-      console.error('[Supabase] Delete session exception:', e);
-      return false;
+      throw e instanceof AppError ? e : logFailure('Delete session', e);
     }
   },
 
   /**
    * Delete all sessions for a fingerprint
    */
-  async deleteAllSessions(fingerprint: string): Promise<boolean> {
+  async deleteAllSessions(fingerprint: string): Promise<void> {
     const client = getSupabaseClient();
-    if (!client) return false;
+    if (!client) return;
 
     try {
       const { error } = await client
@@ -259,14 +269,9 @@ export const chatSyncService = {
         .delete()
         .eq('user_fingerprint', fingerprint);
 
-      if (error) {
-        console.error('[Supabase] Delete all sessions error:', error.message);
-        return false;
-      }
-      return true;
+      if (error) throw logFailure('Delete all sessions', error);
     } catch (e) {
-      console.error('[Supabase] Delete all sessions exception:', e);
-      return false;
+      throw e instanceof AppError ? e : logFailure('Delete all sessions', e);
     }
   }
 };
@@ -0,0 +1,200 @@
+/**
+ * Tool Schema Sync
+ * Reads the tools the KG server advertises at /tools/schema and turns the ones the client
+ * doesn't know into function declarations plus a generic HTTP dispatcher, so new server
+ * endpoints reach the agent without a frontend release. Bundled tools keep their hand-written
+ * handlers, but take the server's description and parameters when it advertises them; when
+ * the endpoint is unavailable only the bundled declarations are used.
+ * @module services/toolSchemaSync
+ */
+
+import { z } from 'zod';
+import { Type, FunctionDeclaration, Schema } from '@google/genai';
+import { kgService } from './kgService';
+
+export interface ServerTool {
+  name: string;
+  description: string;
+  /** Path template relative to the KG server, e.g. "/neighbors/{node_name}" */
+  endpoint: string;
+  method: 'GET' | 'POST';
+  /** JSON Schema for the arguments */
+  parameters?: Record<string, any>;
+}
+
+export type ToolSchemaSource = 'server' | 'bundled';
+
+// Gemini function names: letters, digits, underscores, dots and dashes, up to 64 chars
+const VALID_NAME = /^[a-zA-Z_][a-zA-Z0-9_.-]{0,63}$/;
+
+const ServerToolSchema = z.object({
+  name: z.string().regex(VALID_NAME),
+  description: z.string().optional(),
+  endpoint: z.string().optional(),
+  path: z.string().optional(),
+  method: z.string().optional(),
+  parameters: z.record(z.string(), z.any()).optional(),
+});
+
+/**
+ * Accepts a bare array or `{ tools: [...] }`, with entries either flat or
+ * OpenAI-style (`{ type: 'function', function: {...}, endpoint }`).
+ * Entries without an endpoint can't be dispatched and are dropped.
+ */
+export function parseToolSchema(raw: unknown): ServerTool[] {
+  const list = Array.isArray(raw) ? raw : Array.isArray((raw as any)?.tools) ? (raw as any).tools : [];
+
+  return list.flatMap((entry: any): ServerTool[] => {
+    const flat = entry?.function ? { ...entry.function, ...entry, function: undefined } : entry;
+    const parsed = ServerToolSchema.safeParse(flat);
+    if (!parsed.success) return [];
+
+    const { name, description, endpoint, path, method, parameters } = parsed.data;
+    const route = endpoint || path;
+    if (!route) return [];
+    return [{
+      name,
+      description: description || name,
+      endpoint: route.startsWith('/') ? route : `/${route}`,
+      method: method?.toUpperCase() === 'POST' ? 'POST' : 'GET',
+      parameters,
+    }];
+  });
+}
+
+/**
+ * JSON Schema (lower-case types) to Gemini Schema
+ */
+export function fromJsonSchema(json: Record<string, any>): Schema {
+  const schema: Schema = {};
+  const type = typeof json.type === 'string' ? Type[json.type.toUpperCase() as keyof typeof Type] : undefined;
+  if (type) schema.type = type;
+  if (json.description) schema.description = json.description;
+  if (Array.isArray(json.enum)) schema.enum = json.enum.map(String);
+  if (json.items) schema.items = fromJsonSchema(json.items);
+  if (json.properties) {
+    schema.properties = Object.fromEntries(
+      Object.entries(json.properties).map(([key, value]) => [key, fromJsonSchema(value as Record<string, any>)])
+    );
+  }
+  if (Array.isArray(json.required) && json.required.length > 0) schema.required = json.required;
+  return schema;
+}
+
+export function toFunctionDeclaration(tool: ServerTool): FunctionDeclaration {
+  const hasParams = tool.parameters && Object.keys(tool.parameters.properties || {}).length > 0;
+  return {
+    name: tool.name,
+    description: tool.description,
+    ...(hasParams ? { parameters: fromJsonSchema({ type: 'object', ...tool.parameters }) } : {}),
+  };
+}
+
+/**
+ * Fill `{placeholders}` in the endpoint from `args`; the rest go in the query string
+ * (GET) or the JSON body (POST)
+ */
+export function buildToolRequest(tool: ServerTool, args: Record<string, unknown> = {}): { path: string; body?: Record<string, unknown> } {
+  const rest: Record<string, unknown> = { ...args };
+  const path = tool.endpoint.replace(/\{(\w+)\}/g, (_, key: string) => {
+    const value = rest[key];
+    delete rest[key];
+    return encodeURIComponent(String(value ?? ''));
+  });
+
+  const defined = Object.entries(rest).filter(([, value]) => value !== undefined && value !== null);
+  if (tool.method === 'POST') return { path, body: Object.fromEntries(defined) };
+  if (defined.length === 0) return { path };
+
+  const query = new URLSearchParams(defined.map(([key, value]) => [key, String(value)]));
+  return { path: `${path}${path.includes('?') ? '&' : '?'}${query}` };
+}
+
+let serverTools: ServerTool[] = [];
+let source: ToolSchemaSource = 'bundled';
+let inFlight: Promise<ServerTool[]> | null = null;
+// Declarations last handed to the agent, for progress labels
+let declaredTools: FunctionDeclaration[] = [];
+
+/**
+ * Fetch the server's tool schema once; concurrent callers share the request.
+ * Failures leave the bundled tools in place.
+ */
+export function syncToolSchema(signal?: AbortSignal): Promise<ServerTool[]> {
+  if (!inFlight) {
+    inFlight = kgService.getToolSchema(signal)
+      .then(raw => {
+        serverTools = parseToolSchema(raw);
+        source = serverTools.length > 0 ? 'server' : 'bundled';
+        return serverTools;
+      })
+      .catch(error => {
+        console.warn('[Tools] Tool schema unavailable, using bundled definitions:', error?.message ?? error);
+        serverTools = [];
+        source = 'bundled';
+        inFlight = null; // Allow a retry later
+        return serverTools;
+      });
+  }
+  return inFlight;
+}
+
+/**
+ * Forget the synced schema (after switching KG backends, and in tests)
+ */
+export function resetToolSchema(): void {
+  serverTools = [];
+  source = 'bundled';
+  inFlight = null;
+  declaredTools = [];
+}
+
+export const getToolSchemaSource = (): ToolSchemaSource => source;
+
+export const getServerTool = (name: string): ServerTool | undefined =>
+  serverTools.find(tool => tool.name === name);
+
+/** Declaration the agent was last given for `name` (see mergeToolDeclarations) */
+export const getDeclaredTool = (name: string): FunctionDeclaration | undefined =>
+  declaredTools.find(decl => decl.name === name);
+
+/**
+ * Progress label for a tool the client has no hand-written one for: the first
+ * sentence of its description, shortened
+ */
+export function serverToolLabel(tool: { name?: string; description?: string }): string {
+  const sentence = (tool.description || tool.name || 'Running tool').split(/(?<=\.)\s/)[0].replace(/\.$/, '');
+  return `${sentence.length > 40 ? sentence.slice(0, 37).trimEnd() : sentence}...`;
+}
+
+/**
+ * Bundled declarations, updated with the description and parameters the server advertises
+ * for them, plus generated ones for server tools the client has no handler for
+ */
+export function mergeToolDeclarations(bundled: FunctionDeclaration[]): FunctionDeclaration[] {
+  const known = new Set(bundled.map(decl => decl.name));
+  const merged = [
+    ...bundled.map(decl => {
+      const tool = decl.name ? getServerTool(decl.name) : undefined;
+      if (!tool) return decl;
+      const generated = toFunctionDeclaration(tool);
+      return {
+        ...decl,
+        // parseToolSchema falls back to the name when the server gives no description
+        ...(tool.description !== tool.name ? { description: generated.description } : {}),
+        ...(generated.parameters ? { parameters: generated.parameters } : {}),
+      };
+    }),
+    ...serverTools.filter(tool => !known.has(tool.name)).map(toFunctionDeclaration),
+  ];
+  declaredTools = merged;
+  return merged;
+}
+
+/**
+ * Generic dispatcher for a server-advertised tool
+ */
+export function callServerTool(tool: ServerTool, args: Record<string, unknown>, signal?: AbortSignal): Promise<any> {
+  const { path, body } = buildToolRequest(tool, args);
+  return kgService.callTool(path, { method: tool.method, body, signal });
+}
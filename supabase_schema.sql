@@ -28,6 +28,8 @@ CREATE TABLE IF NOT EXISTS chat_sessions (
   user_fingerprint TEXT NOT NULL REFERENCES users(fingerprint) ON DELETE CASCADE,
   title TEXT NOT NULL DEFAULT 'New Chat',
   pinned BOOLEAN NOT NULL DEFAULT false,
+  -- Optional: Per-session agent turn budget (NULL = app default)
+  max_turns INT,
   created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
   updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
 );
@@ -53,7 +55,22 @@ CREATE TABLE IF NOT EXISTS chat_messages (
   related_data JSONB,
   
   -- Optional: Execution trace for debugging
-  trace TEXT[]
+  trace TEXT[],
+
+  -- Optional: Per-tool-call timings (name, args, status, start/end, result size)
+  tool_trace JSONB,
+
+  -- Optional: Answer was cut off by the agent turn budget
+  budget_exhausted BOOLEAN,
+
+  -- Optional: Agent state for continuing a budget-exhausted answer (cleared once continued)
+  continuation JSONB,
+
+  -- Optional: Evidence bundle (resolved entities, edges used, tool calls, PMIDs, web sources)
+  evidence JSONB,
+
+  -- Optional: Classified failure shown with a recovery action (kind, service, message)
+  error JSONB
 );
 
 -- Critical indexes for chat message queries
@@ -115,6 +132,17 @@ CREATE TRIGGER trigger_update_session_timestamp
 -- 2. Strategic denormalization applied:
 --    - `related_data` JSONB: Tool results are truly dynamic schema
 --    - `trace` array: Small, rarely queried, no need for separate table
+--    - `tool_trace` JSONB: Per-call timeline, only ever read with its message
+--      (existing databases: ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS tool_trace JSONB;)
+--    - `max_turns` / `budget_exhausted`: Agent turn budget per session, and answers it cut off
+--      (existing databases: ALTER TABLE chat_sessions ADD COLUMN IF NOT EXISTS max_turns INT;
+--       ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS budget_exhausted BOOLEAN;)
+--    - `continuation` JSONB: Validated by AgentContinuationSchema on load, only ever read with its message
+--      (existing databases: ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS continuation JSONB;)
+--    - `evidence` JSONB: Validated by EvidenceSchema on load, only ever read with its message
+--      (existing databases: ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS evidence JSONB;)
+--    - `error` JSONB: Validated by AppErrorInfoSchema on load, only ever read with its message
+--      (existing databases: ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS error JSONB;)
 --
 -- 3. Index strategy optimized for:
 --    - Loading user's sessions sorted by time: idx_sessions_user_updated
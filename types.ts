@@ -1,3 +1,8 @@
+import type { Evidence } from './schemas/evidenceSchema';
+import type { ToolTraceEntry } from './schemas/sessionSchema';
+import type { AppErrorInfo } from './services/errors';
+import type { NodeType, RelationType } from './constants/kgTaxonomy';
+
 export interface KGNode {
   id: string;
   type: string;
@@ -22,12 +27,50 @@ export interface GraphData {
   edges: KGEdge[];
 }
 
+/**
+ * Node-type and relation filter for subgraph queries. An include list keeps only the
+ * listed types; an exclude list drops them. Empty or missing lists don't filter.
+ */
+export interface SubgraphFilter {
+  includeNodeTypes?: NodeType[];
+  excludeNodeTypes?: NodeType[];
+  includeRelations?: RelationType[];
+  excludeRelations?: RelationType[];
+}
+
+/**
+ * How getPaths enumerates the paths between two entities: the single shortest path, the
+ * `limit` shortest simple paths, or every simple path (up to `limit`) within `maxDepth` hops
+ */
+export type PathSearchMode = 'shortest' | 'k_shortest' | 'all_simple';
+
+export interface PathQuery {
+  mode: PathSearchMode;
+  /** Max hops per path */
+  maxDepth: number;
+  /** Paths returned at most */
+  limit: number;
+}
+
+/** One GraphData per path, nodes and edges in order from source to target; shortest first */
+export type PathsResponse = GraphData[];
+
 export interface SearchResult {
   db_id?: string;
   name: string;
   type: string;
   score?: number;
   description?: string;
+  /** Ontology the identifier comes from (PrimeKG x_source), when known */
+  source?: string;
+}
+
+/**
+ * One mention's candidates from the batch resolution endpoint (POST /resolve)
+ */
+export interface EntityResolutionResponse {
+  mention: string;
+  candidates: SearchResult[];
 }
 
 export enum GeminiModel {
@@ -36,6 +79,10 @@ export enum GeminiModel {
   FLASH_2_0_EXP = 'gemini-2.0-flash-exp',
 }
 
+export type { ToolTraceEntry };
+
+export type ToolCallStatus = ToolTraceEntry['status'];
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model' | 'system';
@@ -44,6 +91,10 @@ export interface ChatMessage {
   isError?: boolean;
   relatedData?: any; // To store graphs or structured data returned by tools
   trace?: string[]; // Tool-call / retrieval trace shown in UI (not chain-of-thought)
+  toolTrace?: ToolTraceEntry[]; // Structured per-call timings for the timeline view
+  budgetExhausted?: boolean; // Agent stopped at its turn budget; the answer may be partial
+  evidence?: Evidence; // What the answer was grounded on (entities, edges, tool calls, sources)
+  error?: AppErrorInfo; // Typed failure, for the retry / settings actions shown under an error message
 }
 
 export interface Stats {
@@ -3,6 +3,8 @@
  * @module types/pubmed
  */
 
+import type { AppError } from '../services/errors';
+
 /**
  * Author information from Europe PMC
  */
@@ -121,6 +123,23 @@ export interface DisplayCitation {
   tags: string[];
 }
 
+/**
+ * Paper cited inline in an agent answer as [ref]
+ * Kept small because it is persisted with the chat message
+ */
+export interface InlineCitation {
+  ref: number;
+  pmid?: string;
+  /** Europe PMC record id; identifies papers without a PMID */
+  sourceId?: string;
+  title: string;
+  authors: string;
+  journal: string;
+  year: string;
+  citedByCount: number;
+  url?: string;
+}
+
 /**
  * Loading state for async operations
  */
@@ -132,13 +151,9 @@ export type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 export type ErrorCode = 'NETWORK' | 'TIMEOUT' | 'RATE_LIMIT' | 'INVALID_QUERY' | 'UNKNOWN';
 
 /**
- * Error with context
+ * Shared service error, plus the PubMed-specific code older callers branch on
  */
-export interface PubMedError {
-  code: ErrorCode;
-  message: string;
-  retryAfter?: number;
-}
+export type PubMedError = AppError & { code: ErrorCode };
 
 /**
  * Entity types supported for literature search
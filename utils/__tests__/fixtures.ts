@@ -0,0 +1,9 @@
+/**
+ * Fixtures shared by the utils tests
+ * @module utils/__tests__/fixtures
+ */
+
+import type { KGNode } from '../../types';
+
+/** Graph node named after its id */
+export const node = (id: string, type = 'gene/protein'): KGNode => ({ id, name: id, type });
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the force layout (main-thread engine; jsdom has no Worker, one is stubbed where needed)
+ * @module utils/__tests__/forceLayout.test
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { createForceLayout, ForceLayout, Point } from '../forceLayout';
+import { node } from './fixtures';
+
+describe('forceLayout', () => {
+  let layout: ForceLayout;
+
+  afterEach(() => {
+    layout.dispose();
+    vi.unstubAllGlobals();
+  });
+
+  it('should put nodes back where they were when they reappear', () => {
+    layout = createForceLayout({ width: 600, height: 400, preset: 'svg' });
+    layout.pause();
+    expect(layout.inWorker).toBe(false);
+
+    layout.setGraph([node('MTOR'), node('RPTOR')], [{ source: 'MTOR', target: 'RPTOR' }]);
+    const placed = layout.positionOf('MTOR');
+    expect(placed).toBeDefined();
+
+    layout.setGraph([node('RPTOR')], []);
+    let latest: ReadonlyMap<string, Point> = new Map();
+    layout.subscribe(positions => { latest = positions; });
+    layout.setGraph([node('MTOR'), node('AKT1')], []);
+
+    expect(latest.get('MTOR')).toEqual(placed);
+    expect(latest.has('AKT1')).toBe(true);
+  });
+
+  it('should move a dragged node while paused', () => {
+    layout = createForceLayout({ width: 600, height: 400, preset: 'canvas' });
+    layout.pause();
+    layout.setGraph([node('MTOR')], []);
+
+    let latest: ReadonlyMap<string, Point> = new Map();
+    layout.subscribe(positions => { latest = positions; });
+    layout.drag('MTOR', 12, 34);
+
+    expect(latest.get('MTOR')).toEqual({ x: 12, y: 34 });
+  });
+
+  it('should keep the paused, frozen and arranged state when the worker fails', () => {
+    let worker: { onerror: ((error: unknown) => void) | null } | null = null;
+    vi.stubGlobal('Worker', class {
+      onmessage = null;
+      onerror = null;
+      constructor() { worker = this; }
+      postMessage() {}
+      terminate() {}
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    layout = createForceLayout({ width: 600, height: 400, preset: 'svg' });
+    expect(layout.inWorker).toBe(true);
+
+    layout.pause();
+    layout.setGraph([node('MTOR'), node('RPTOR')], [{ source: 'MTOR', target: 'RPTOR' }]);
+    layout.setFrozen(true);
+    layout.arrange(new Map([['MTOR', { x: 10, y: 20 }], ['RPTOR', { x: 30, y: 40 }]]));
+    worker!.onerror!(new Event('error'));
+
+    let latest: ReadonlyMap<string, Point> = new Map();
+    layout.subscribe(positions => { latest = positions; });
+    layout.drag('RPTOR', 50, 60);
+
+    expect(layout.inWorker).toBe(false);
+    expect(latest.get('MTOR')).toEqual({ x: 10, y: 20 });
+    expect(latest.get('RPTOR')).toEqual({ x: 50, y: 60 });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit tests for gene-list parsing and the gene-set overlay
+ * @module utils/__tests__/geneSetAnalysis.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { EntityResolution } from '../../services/entityResolver';
+import type { GraphData } from '../../types';
+import { analyzeGeneSet, geneFromResolution, parseGeneList } from '../geneSetAnalysis';
+import { node } from './fixtures';
+
+// Neighborhood of `gene`: one edge to each of `others`
+const neighborhood = (gene: string, others: Array<[string, string, string]>): { gene: string; graph: GraphData } => ({
+  gene,
+  graph: {
+    nodes: [node(gene, 'gene/protein'), ...others.map(([name, type]) => node(name, type))],
+    edges: others.map(([name, , relation]) => ({ source: gene, target: name, relation })),
+  },
+});
+
+describe('parseGeneList', () => {
+  it('reads one symbol per line, the first column of a table, or a single separated line', () => {
+    expect(parseGeneList('TP53\nBRCA1\n\nEGFR\n')).toEqual(['TP53', 'BRCA1', 'EGFR']);
+    expect(parseGeneList('gene_symbol\tlog2FC\tpadj\nTP53\t2.1\t0.001\nMYC\t-1.4\t0.02')).toEqual(['TP53', 'MYC']);
+    expect(parseGeneList('TP53, BRCA1; egfr  KRAS')).toEqual(['TP53', 'BRCA1', 'egfr', 'KRAS']);
+    expect(parseGeneList('TP53\ntp53\n"BRCA1"')).toEqual(['TP53', 'BRCA1']);
+  });
+});
+
+describe('geneFromResolution', () => {
+  it('prefers a gene/protein candidate over a better-scoring entity of another type', () => {
+    const resolution: EntityResolution = {
+      mention: 'CAT',
+      candidates: [
+        { name: 'cat allergy', type: 'disease', score: 0.9 },
+        { name: 'CAT', type: 'gene/protein', score: 0.85 },
+      ],
+      best: { name: 'cat allergy', type: 'disease', score: 0.9 },
+      ambiguous: false,
+      confirmed: false,
+    };
+    expect(geneFromResolution(resolution)).toBe('CAT');
+    expect(geneFromResolution({ ...resolution, confirmed: true })).toBe('cat allergy');
+    expect(geneFromResolution({ ...resolution, candidates: [resolution.candidates[0]] })).toBeNull();
+  });
+});
+
+describe('analyzeGeneSet', () => {
+  const neighborhoods = [
+    neighborhood('TP53', [
+      ['MDM2', 'gene/protein', 'ppi'],
+      ['breast cancer', 'disease', 'associated_with'],
+      ['Li-Fraumeni syndrome', 'disease', 'associated_with'],
+      ['Nutlin-3', 'drug', 'target'],
+    ]),
+    neighborhood('MDM2', [
+      ['TP53', 'gene/protein', 'ppi'],
+      ['breast cancer', 'disease', 'associated_with'],
+      ['Nutlin-3', 'drug', 'target'],
+      ['liver', 'anatomy', 'expression_present'],
+    ]),
+    neighborhood('BRCA1', [
+      ['breast cancer', 'disease', 'associated_with'],
+      ['DNA repair', 'pathway', 'interacts_with'],
+    ]),
+    neighborhood('OR2A4', []),
+  ];
+
+  it('ranks diseases and drugs shared by at least two set genes', () => {
+    const analysis = analyzeGeneSet(neighborhoods);
+
+    expect(analysis.diseases).toEqual([
+      { name: 'breast cancer', type: 'disease', genes: ['TP53', 'MDM2', 'BRCA1'], coverage: 0.75 },
+    ]);
+    expect(analysis.drugs).toEqual([
+      { name: 'Nutlin-3', type: 'drug', genes: ['TP53', 'MDM2'], coverage: 0.5 },
+    ]);
+    expect(analysis.pathways).toEqual([]);
+    expect(analyzeGeneSet(neighborhoods, { minShared: 1 }).pathways.map(hit => hit.name)).toEqual(['DNA repair']);
+  });
+
+  it('keeps the set genes, the ranked entities and the edges among them', () => {
+    const { graph, isolated } = analyzeGeneSet(neighborhoods);
+
+    expect(graph.nodes.map(n => n.id).sort()).toEqual(['BRCA1', 'MDM2', 'Nutlin-3', 'OR2A4', 'TP53', 'breast cancer']);
+    // TP53 → MDM2 and MDM2 → TP53, each listed once
+    expect(graph.edges.filter(e => e.relation === 'ppi')).toHaveLength(2);
+    expect(graph.edges.some(e => e.target === 'liver' || e.target === 'Li-Fraumeni syndrome')).toBe(false);
+    expect(isolated).toEqual(['OR2A4']);
+  });
+});
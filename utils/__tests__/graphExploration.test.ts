@@ -0,0 +1,78 @@
+/**
+ * Unit tests for graph explorer state operations
+ * @module utils/__tests__/graphExploration.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GraphData } from '../../types';
+import {
+  EMPTY_EXPLORATION,
+  startExploration,
+  expandNode,
+  collapseNode,
+  togglePin,
+  hideNode,
+  visibleExplorationGraph,
+  serializeExploration,
+  parseSavedGraph,
+  normalizeGraph,
+} from '../graphExploration';
+import { node } from './fixtures';
+
+const edge = (source: string, target: string, relation = 'ppi') => ({ source, target, relation });
+
+const mtor: GraphData = {
+  nodes: [node('MTOR'), node('Sirolimus', 'drug')],
+  edges: [edge('Sirolimus', 'MTOR', 'target')],
+};
+
+describe('graphExploration', () => {
+  it('should normalize numeric server ids to strings', () => {
+    const graph = normalizeGraph({
+      nodes: [{ id: 7157, name: 'TP53', type: 'gene/protein', db_id: 7157 }, { id: 42, node_name: 42, node_type: 'disease' }] as any,
+      edges: [{ source: 'TP53', target: 42, relation: 'associated_with' }] as any,
+    });
+
+    expect(graph.nodes.map(n => [n.id, n.name, n.db_id])).toEqual([['TP53', 'TP53', '7157'], ['42', '42', undefined]]);
+    expect(graph.edges[0]).toMatchObject({ source: 'TP53', target: '42' });
+  });
+
+  it('should collapse an expansion and everything expanded from it', () => {
+    let state = startExploration(EMPTY_EXPLORATION, mtor, 'MTOR', 'MTOR');
+    state = expandNode(state, 'Sirolimus', { nodes: [node('FKBP1A')], edges: [edge('Sirolimus', 'FKBP1A', 'target')] });
+    state = expandNode(state, 'FKBP1A', { nodes: [node('TGFBR1')], edges: [edge('FKBP1A', 'TGFBR1')] });
+
+    const collapsed = collapseNode(state, 'Sirolimus');
+
+    expect(collapsed.graph.nodes.map(n => n.id)).toEqual(['MTOR', 'Sirolimus']);
+    expect(collapsed.graph.edges).toHaveLength(1);
+    expect(collapsed.expansions).toEqual({});
+  });
+
+  it('should carry pinned nodes and their edges into a new query', () => {
+    let state = startExploration(EMPTY_EXPLORATION, mtor, 'MTOR', 'MTOR');
+    state = togglePin(state, 'Sirolimus');
+
+    const next = startExploration(state, { nodes: [node('MTOR'), node('RPTOR')], edges: [edge('MTOR', 'RPTOR')] }, 'RPTOR', 'RPTOR');
+
+    expect(next.graph.nodes.map(n => n.id).sort()).toEqual(['MTOR', 'RPTOR', 'Sirolimus']);
+    expect(next.graph.edges).toHaveLength(2);
+    expect(next.pinned).toEqual(['Sirolimus']);
+  });
+
+  it('should hide nodes without hiding the query center', () => {
+    const state = startExploration(EMPTY_EXPLORATION, mtor, 'MTOR', 'MTOR');
+
+    expect(hideNode(state, 'MTOR')).toBe(state);
+    expect(visibleExplorationGraph(hideNode(state, 'Sirolimus'))).toEqual({ nodes: [node('MTOR')], edges: [] });
+  });
+
+  it('should restore a serialized exploration exactly', () => {
+    let state = startExploration(EMPTY_EXPLORATION, mtor, 'MTOR', 'MTOR');
+    state = togglePin(hideNode(state, 'Sirolimus'), 'MTOR');
+    const saved = JSON.parse(JSON.stringify(serializeExploration(state, { excludeRelations: ['side_effect'] })));
+
+    expect(parseSavedGraph(saved)).toEqual({ exploration: state, filter: { excludeRelations: ['side_effect'] } });
+    expect(parseSavedGraph({ version: 2 })).toBeNull();
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Unit tests for graph export serializers
+ * @module utils/__tests__/graphExport.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GraphData } from '../../types';
+import { toGraphML, toGEXF, toCytoscapeJSON, toCSV, toSVG, GraphExportInput } from '../graphExport';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'Sirolimus', name: 'Sirolimus', type: 'drug', db_id: 'DB00877' },
+    { id: 'MTOR', name: 'MTOR', type: 'gene/protein' },
+    { id: 'TSC', name: 'Tuberous sclerosis, type "1" & <2>', type: 'disease' },
+  ],
+  edges: [
+    { source: 'Sirolimus', target: 'MTOR', relation: 'target' },
+    { source: 'MTOR', target: 'TSC', relation: 'associated_with' },
+  ],
+};
+
+const input: GraphExportInput = {
+  graph,
+  positions: new Map([['Sirolimus', { x: 10, y: 20 }], ['MTOR', { x: 110.456, y: 20 }]]),
+  filter: { includeNodeTypes: ['drug', 'gene/protein', 'disease'] },
+  highlightedEdges: new Set(['Sirolimus-MTOR-target']),
+  pinned: new Set(['MTOR']),
+  title: 'Sirolimus network',
+};
+
+const parseXml = (xml: string) => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  expect(doc.getElementsByTagName('parsererror')).toHaveLength(0);
+  return doc;
+};
+
+describe('graphExport', () => {
+  it('should write well-formed GraphML with positions, colors, pins and highlights', () => {
+    const doc = parseXml(toGraphML(input));
+    const nodes = Array.from(doc.getElementsByTagName('node'));
+    const data = (el: Element, key: string) =>
+      Array.from(el.getElementsByTagName('data')).find(d => d.getAttribute('key') === key)?.textContent;
+
+    expect(nodes.map(n => n.getAttribute('id'))).toEqual(['Sirolimus', 'MTOR', 'TSC']);
+    expect(data(nodes[1], 'n_x')).toBe('110.46');
+    expect(data(nodes[1], 'n_pinned')).toBe('true');
+    expect(data(nodes[0], 'n_color')).toBe('#3b82f6');
+    expect(data(nodes[0], 'n_db_id')).toBe('DB00877');
+    // Unpositioned nodes still get coordinates
+    expect(Number(data(nodes[2], 'n_x'))).not.toBeNaN();
+    expect(data(nodes[2], 'n_name')).toBe('Tuberous sclerosis, type "1" & <2>');
+
+    const edges = Array.from(doc.getElementsByTagName('edge'));
+    expect(edges.map(e => data(e, 'e_highlighted'))).toEqual(['true', 'false']);
+    expect(edges[1].getAttribute('directed')).toBe('false');
+    expect(data(doc.getElementsByTagName('graph')[0], 'g_filter')).toContain('includeNodeTypes');
+  });
+
+  it('should write GEXF with viz colors and positions', () => {
+    const doc = parseXml(toGEXF(input));
+    const node = doc.getElementsByTagName('node')[0];
+    expect(node.getAttribute('label')).toBe('Sirolimus');
+    expect(node.getElementsByTagName('viz:color')[0].getAttribute('b')).toBe('246');
+    expect(node.getElementsByTagName('viz:position')[0].getAttribute('y')).toBe('-20');
+    expect(doc.getElementsByTagName('edge')[1].getAttribute('type')).toBe('undirected');
+  });
+
+  it('should build Cytoscape.js elements with classes for pins and highlighted edges', () => {
+    const cy = toCytoscapeJSON(input);
+    expect(cy.data.name).toBe('Sirolimus network');
+    expect(cy.elements.nodes[1]).toMatchObject({ data: { id: 'MTOR', pinned: true }, position: { x: 110.46, y: 20 }, classes: 'pinned' });
+    expect(cy.elements.edges[0]).toMatchObject({ data: { source: 'Sirolimus', target: 'MTOR', relation: 'target' }, classes: 'highlighted' });
+  });
+
+  it('should quote CSV cells and write a self-contained SVG', () => {
+    const { nodes, edges } = toCSV(input);
+    expect(nodes.split('\n')[0]).toBe('id,name,type,source,db_id,color,x,y,pinned');
+    expect(nodes).toContain('"Tuberous sclerosis, type ""1"" & <2>"');
+    expect(edges.split('\n')[1]).toBe('Sirolimus,MTOR,target,Target,true,#f59e0b,true');
+
+    const svg = parseXml(toSVG(input));
+    expect(svg.getElementsByTagName('circle').length).toBeGreaterThanOrEqual(4);
+    expect(svg.documentElement.getAttribute('viewBox')).toMatch(/^0 0 [\d.]+ [\d.]+$/);
+  });
+});
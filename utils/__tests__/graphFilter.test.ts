@@ -0,0 +1,58 @@
+/**
+ * Unit tests for subgraph node-type and relation filtering
+ * @module utils/__tests__/graphFilter.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GraphData } from '../../types';
+import { applyGraphFilter, countGraphTypes, cycleNodeType, isFilterActive, MECHANISM_FILTER } from '../graphFilter';
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'Metformin', name: 'Metformin', type: 'drug' },
+    { id: 'PRKAB1', name: 'PRKAB1', type: 'gene/protein' },
+    { id: 'AMPK signaling', name: 'AMPK signaling', type: 'pathway' },
+    { id: 'Nausea', name: 'Nausea', type: 'effect/phenotype' },
+    { id: 'Lactic acidosis', name: 'Lactic acidosis', type: 'Phenotype' },
+  ],
+  edges: [
+    { source: 'Metformin', target: 'PRKAB1', relation: 'drug_protein', display_relation: 'target' },
+    { source: 'PRKAB1', target: 'AMPK signaling', relation: 'pathway_protein' },
+    { source: 'Metformin', target: 'Nausea', relation: 'drug_effect' },
+    { source: 'Metformin', target: 'Lactic acidosis', relation: 'drug_effect' },
+  ],
+};
+
+describe('graphFilter', () => {
+  it('should count nodes by canonical type and edges by display relation', () => {
+    const counts = countGraphTypes(graph);
+
+    expect(counts.nodeTypes).toEqual({ drug: 1, 'gene/protein': 1, pathway: 1, 'effect/phenotype': 2 });
+    expect(counts.relations).toMatchObject({ target: 1, side_effect: 2 });
+  });
+
+  it('should keep only drug-target-pathway structure with the mechanism preset', () => {
+    const filtered = applyGraphFilter(graph, MECHANISM_FILTER);
+
+    expect(filtered.nodes.map(n => n.name)).toEqual(['Metformin', 'PRKAB1', 'AMPK signaling']);
+    expect(filtered.edges).toHaveLength(2);
+  });
+
+  it('should drop orphaned nodes but never the pinned center', () => {
+    const filtered = applyGraphFilter(graph, { excludeRelations: ['side_effect', 'target'] }, ['Metformin']);
+
+    expect(filtered.nodes.map(n => n.name)).toEqual(['Metformin', 'PRKAB1', 'AMPK signaling']);
+    expect(filtered.edges).toHaveLength(1);
+  });
+
+  it('should cycle a type through include, exclude and cleared', () => {
+    const included = cycleNodeType({}, 'drug');
+    const excluded = cycleNodeType(included, 'drug');
+    const cleared = cycleNodeType(excluded, 'drug');
+
+    expect(included.includeNodeTypes).toEqual(['drug']);
+    expect(excluded).toMatchObject({ includeNodeTypes: [], excludeNodeTypes: ['drug'] });
+    expect(isFilterActive(cleared)).toBe(false);
+    expect(applyGraphFilter(graph, cleared)).toBe(graph);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Unit tests for graph import parsing and entity mapping
+ * @module utils/__tests__/graphImport.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { EntityResolution } from '../../services/entityResolver';
+import type { GraphData } from '../../types';
+import { toCytoscapeJSON, toGraphML } from '../graphExport';
+import {
+  parseGraphImport,
+  applyImportResolutions,
+  GraphImportError,
+  IMPORTED_RELATION,
+  AMBIGUOUS_SOURCE,
+  UNMATCHED_SOURCE,
+} from '../graphImport';
+
+const resolution = (mention: string, name?: string, type = 'gene/protein'): EntityResolution => {
+  const best = name ? { name, type, score: 0.9 } : null;
+  return { mention, candidates: best ? [best] : [], best, ambiguous: false, confirmed: false };
+};
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'Sirolimus', name: 'Sirolimus', type: 'drug' },
+    { id: 'MTOR', name: 'MTOR', type: 'gene/protein' },
+  ],
+  edges: [{ source: 'Sirolimus', target: 'MTOR', relation: 'target' }],
+};
+
+describe('graphImport', () => {
+  it('should read CSV edge lists with or without a header', () => {
+    const withHeader = parseGraphImport('Gene A\tGene B\tInteraction\nTP53\tMDM2\tppi\n"BRCA1, isoform 1"\tBARD1\t\n', 'lab.tsv');
+    expect(withHeader.format).toBe('csv');
+    expect(withHeader.edges).toEqual([
+      { source: 'TP53', target: 'MDM2', relation: 'ppi' },
+      { source: 'BRCA1, isoform 1', target: 'BARD1', relation: IMPORTED_RELATION },
+    ]);
+    expect(withHeader.nodes.map(n => n.id)).toEqual(['TP53', 'MDM2', 'BRCA1, isoform 1', 'BARD1']);
+
+    const bare = parseGraphImport('TP53,MDM2\nMDM2,CDKN1A');
+    expect(bare.edges).toHaveLength(2);
+    expect(bare.nodes).toHaveLength(3);
+  });
+
+  it('should read entity lists, one per line or on one line', () => {
+    expect(parseGraphImport('gene\nTP53\nBRCA1\nTP53\n').nodes.map(n => n.name)).toEqual(['TP53', 'BRCA1']);
+    const line = parseGraphImport('TP53, BRCA1, EGFR');
+    expect(line.format).toBe('entities');
+    expect(line.nodes).toHaveLength(3);
+    expect(line.edges).toEqual([]);
+  });
+
+  it('should read back its own Cytoscape JSON and GraphML exports', () => {
+    const cy = parseGraphImport(JSON.stringify(toCytoscapeJSON({ graph })), 'net.cyjs');
+    const graphml = parseGraphImport(toGraphML({ graph }), 'net.graphml');
+    for (const imported of [cy, graphml]) {
+      expect(imported.nodes).toEqual([
+        { id: 'Sirolimus', name: 'Sirolimus', type: 'drug' },
+        { id: 'MTOR', name: 'MTOR', type: 'gene/protein' },
+      ]);
+      expect(imported.edges).toEqual([{ source: 'Sirolimus', target: 'MTOR', relation: 'target' }]);
+    }
+    expect(() => parseGraphImport('<graphml><oops', 'bad.graphml')).toThrow(GraphImportError);
+  });
+
+  it('should rename matched nodes to PrimeKG entities and flag the rest', () => {
+    const imported = parseGraphImport('source,target\np53,MDM2\np53,LAB-042\n');
+    const result = applyImportResolutions(imported, [
+      resolution('p53', 'TP53'),
+      resolution('MDM2', 'MDM2'),
+      resolution('LAB-042'),
+    ]);
+
+    expect(result.matched.get('p53')).toBe('TP53');
+    expect(result.unmatched).toEqual(['LAB-042']);
+    expect(result.graph.nodes.find(n => n.id === 'LAB-042')).toMatchObject({ source: UNMATCHED_SOURCE, type: 'unknown' });
+    expect(result.graph.edges).toEqual([
+      { source: 'TP53', target: 'MDM2', relation: IMPORTED_RELATION },
+      { source: 'TP53', target: 'LAB-042', relation: IMPORTED_RELATION },
+    ]);
+  });
+
+  it('should skip weak matches, prefer the file\'s node type and flag close calls', () => {
+    const imported = parseGraphImport(JSON.stringify({
+      elements: {
+        nodes: [
+          { data: { id: 'a', name: 'Lab protein X' } },
+          { data: { id: 'b', name: 'BRCA', type: 'disease' } },
+          { data: { id: 'c', name: 'MAPK' } },
+        ],
+        edges: [],
+      },
+    }), 'net.cyjs');
+    const close = (mention: string): EntityResolution => {
+      const candidates = [
+        { name: 'MAPK1', type: 'gene/protein', score: 0.82 },
+        { name: 'MAPK3', type: 'gene/protein', score: 0.8 },
+      ];
+      return { mention, candidates, best: candidates[0], ambiguous: true, confirmed: false };
+    };
+    const typed = (mention: string): EntityResolution => {
+      const candidates = [
+        { name: 'BRCA1', type: 'gene/protein', score: 0.81 },
+        { name: 'hereditary breast carcinoma', type: 'disease', score: 0.79 },
+      ];
+      return { mention, candidates, best: candidates[0], ambiguous: true, confirmed: false };
+    };
+    const weak: EntityResolution = {
+      mention: 'Lab protein X',
+      candidates: [{ name: 'XPC', type: 'gene/protein', score: 0.3 }],
+      best: { name: 'XPC', type: 'gene/protein', score: 0.3 },
+      ambiguous: false,
+      confirmed: false,
+    };
+
+    const result = applyImportResolutions(imported, [weak, typed('BRCA'), close('MAPK')]);
+
+    expect(result.unmatched).toEqual(['a']);
+    expect(result.matched.get('b')).toBe('hereditary breast carcinoma');
+    expect(result.matched.get('c')).toBe('MAPK1');
+    expect(result.ambiguous).toEqual(['c']);
+    expect(result.graph.nodes.find(n => n.id === 'MAPK1')?.source).toBe(AMBIGUOUS_SOURCE);
+    expect(result.graph.nodes.find(n => n.id === 'hereditary breast carcinoma')?.source).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Unit tests for the fixed graph layouts
+ * @module utils/__tests__/graphLayouts.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GraphData } from '../../types';
+import { computeGraphLayout } from '../graphLayouts';
+import { node } from './fixtures';
+
+const edge = (source: string, target: string, relation: string) => ({ source, target, relation });
+
+// Sirolimus → MTOR → PI3K-Akt signaling → Tuberous sclerosis, plus a second target
+const mechanism: GraphData = {
+  nodes: [
+    node('Tuberous sclerosis', 'disease'),
+    node('PI3K-Akt signaling', 'pathway'),
+    node('MTOR', 'gene/protein'),
+    node('FKBP1A', 'gene/protein'),
+    node('Sirolimus', 'drug'),
+  ],
+  edges: [
+    edge('Sirolimus', 'MTOR', 'target'),
+    edge('Sirolimus', 'FKBP1A', 'target'),
+    edge('MTOR', 'PI3K-Akt signaling', 'interacts_with'),
+    edge('PI3K-Akt signaling', 'Tuberous sclerosis', 'associated_with'),
+  ],
+};
+
+const frame = { width: 800, height: 600 };
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+
+describe('graphLayouts', () => {
+  it('should lay a mechanism out left to right as drug, protein, pathway, disease', () => {
+    const positions = computeGraphLayout('layered', mechanism, frame);
+    const x = (id: string) => positions.get(id)!.x;
+
+    expect(x('Sirolimus')).toBeLessThan(x('MTOR'));
+    expect(x('MTOR')).toBe(x('FKBP1A'));
+    expect(x('MTOR')).toBeLessThan(x('PI3K-Akt signaling'));
+    expect(x('PI3K-Akt signaling')).toBeLessThan(x('Tuberous sclerosis'));
+    expect(positions.get('MTOR')!.y).not.toBe(positions.get('FKBP1A')!.y);
+  });
+
+  it('should put the center in the middle and place nodes on rings by hop', () => {
+    const middle = { x: 400, y: 300 };
+    for (const mode of ['radial', 'concentric'] as const) {
+      const positions = computeGraphLayout(mode, mechanism, { ...frame, centerId: 'MTOR' });
+      const r = (id: string) => distance(positions.get(id)!, middle);
+
+      expect(positions.get('MTOR')).toEqual(middle);
+      expect(r('Sirolimus')).toBeCloseTo(r('PI3K-Akt signaling'));
+      expect(r('FKBP1A')).toBeGreaterThan(r('Sirolimus'));
+      expect(r('Tuberous sclerosis')).toBeCloseTo(r('FKBP1A'));
+    }
+  });
+
+  it('should center on the best-connected node when none is given', () => {
+    const positions = computeGraphLayout('concentric', mechanism, frame);
+    expect(positions.size).toBe(mechanism.nodes.length);
+    expect(['Sirolimus', 'MTOR', 'PI3K-Akt signaling']).toContain(
+      [...positions].find(([, p]) => p.x === 400 && p.y === 300)?.[0]
+    );
+  });
+});
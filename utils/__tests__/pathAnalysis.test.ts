@@ -0,0 +1,51 @@
+/**
+ * Unit tests for path ordering and plausibility ranking
+ * @module utils/__tests__/pathAnalysis.test
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { GraphData } from '../../types';
+import { hubPenalty, intermediateNodeIds, orderPath, rankPaths, RELATION_WEIGHTS } from '../pathAnalysis';
+import { node } from './fixtures';
+
+// Sirolimus → MTOR ← sarcoma, listed out of order and against the path's direction
+const viaTarget: GraphData = {
+  nodes: [node('sarcoma, soft tissue', 'disease'), node('Sirolimus', 'drug'), node('MTOR', 'gene/protein')],
+  edges: [
+    { source: 'sarcoma, soft tissue', target: 'MTOR', relation: 'associated_with' },
+    { source: 'Sirolimus', target: 'MTOR', relation: 'target' },
+  ],
+};
+
+const viaTissue: GraphData = {
+  nodes: [node('Sirolimus', 'drug'), node('liver', 'anatomy'), node('sarcoma, soft tissue', 'disease')],
+  edges: [
+    { source: 'Sirolimus', target: 'liver', relation: 'expression_present' },
+    { source: 'liver', target: 'sarcoma, soft tissue', relation: 'expression_present' },
+  ],
+};
+
+describe('orderPath', () => {
+  it('walks the edges from the source whatever order and direction they were listed in', () => {
+    const steps = orderPath(viaTarget, 'Sirolimus')!;
+
+    expect(steps.map(s => s.node.name)).toEqual(['Sirolimus', 'MTOR', 'sarcoma, soft tissue']);
+    expect(steps.map(s => s.forward)).toEqual([undefined, true, false]);
+    expect(orderPath({ nodes: viaTarget.nodes, edges: [viaTarget.edges[0], viaTissue.edges[0]] }, 'Sirolimus')).toBeNull();
+  });
+});
+
+describe('rankPaths', () => {
+  it('ranks by edge-type weights and penalizes hub intermediates', () => {
+    const ranked = rankPaths([viaTissue, viaTarget, viaTarget], 'Sirolimus');
+
+    expect(ranked.map(p => p.steps[1].node.name)).toEqual(['MTOR', 'liver']);
+    expect(ranked[0].score).toBeCloseTo(RELATION_WEIGHTS.target * RELATION_WEIGHTS.associated_with);
+    expect(ranked[0].edgeKeys).toEqual(['Sirolimus-MTOR-target', 'sarcoma, soft tissue-MTOR-associated_with']);
+    expect(intermediateNodeIds(ranked)).toEqual(['MTOR', 'liver']);
+
+    const withHub = rankPaths([viaTarget], 'Sirolimus', new Map([['MTOR', 500]]))[0];
+    expect(withHub.hubScore).toBeCloseTo(hubPenalty(500));
+    expect(withHub.score).toBeLessThan(ranked[0].score);
+  });
+});
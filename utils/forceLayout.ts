@@ -0,0 +1,459 @@
+/**
+ * Force Layout
+ * Runs the graph's D3 force simulation in a Web Worker and streams node positions back, so
+ * a large graph settling doesn't block typing elsewhere in the app. Where workers aren't
+ * available (tests, old browsers) the same engine runs on the main thread.
+ *
+ * A layout remembers every position it has computed, so nodes that leave and come back
+ * (collapse then re-expand, undo/redo) return to where they were. It can also be handed fixed
+ * target positions (see utils/graphLayouts), which nodes move to in a short animation.
+ * @module utils/forceLayout
+ */
+
+import * as d3 from 'd3';
+
+export interface LayoutNode {
+  id: string;
+  type: string;
+}
+
+export interface LayoutLink {
+  source: string;
+  target: string;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Force settings per renderer: 'svg' spreads a few hundred labelled nodes out and clusters them
+ * by type; 'canvas' keeps thousands of nodes compact with cheaper, range-limited forces
+ */
+export type LayoutPreset = 'svg' | 'canvas';
+
+export interface LayoutOptions {
+  width: number;
+  height: number;
+  preset: LayoutPreset;
+  /** Smaller spacing for phone-sized viewports */
+  compact?: boolean;
+}
+
+export type LayoutCommand =
+  | { type: 'init'; options: LayoutOptions }
+  | { type: 'graph'; version: number; nodes: Array<LayoutNode & Partial<Point>>; links: LayoutLink[] }
+  | { type: 'resize'; width: number; height: number }
+  | { type: 'drag'; id: string; x: number; y: number }
+  | { type: 'release'; id: string }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'freeze'; frozen: boolean }
+  /** Fix nodes at the given positions, or hand them back to the simulation with null */
+  | { type: 'arrange'; version: number; positions: Array<{ id: string } & Point> | null }
+  | { type: 'stop' };
+
+export type LayoutEvent =
+  /** `positions` holds x, y pairs in the order of the nodes sent with `version` */
+  | { type: 'tick'; version: number; positions: Float64Array; done: boolean };
+
+interface EngineNode extends d3.SimulationNodeDatum, LayoutNode {}
+
+const MAX_REMEMBERED_POSITIONS = 10000;
+const ARRANGE_DURATION_MS = 600;
+
+/**
+ * The simulation itself, driven by commands and reporting through `post`.
+ * Shared by the worker and the main-thread fallback.
+ */
+export function createForceEngine(post: (event: LayoutEvent, transfer?: Transferable[]) => void) {
+  let options: LayoutOptions = { width: 600, height: 400, preset: 'svg' };
+  let simulation: d3.Simulation<EngineNode, d3.SimulationLinkDatum<EngineNode>> | null = null;
+  let nodes: EngineNode[] = [];
+  let version = 0;
+  let paused = false;
+  let frozen = false;
+  // Nodes sit at positions handed in by 'arrange'; the simulation stays stopped
+  let arranged = false;
+  const dragging = new Set<string>();
+
+  const report = (done: boolean) => {
+    const positions = new Float64Array(nodes.length * 2);
+    nodes.forEach((n, i) => {
+      positions[2 * i] = n.x ?? 0;
+      positions[2 * i + 1] = n.y ?? 0;
+    });
+    post({ type: 'tick', version, positions, done }, [positions.buffer]);
+  };
+
+  const build = () => {
+    simulation?.stop();
+    const { width: w, height: h, preset, compact } = options;
+    const sim = d3.forceSimulation<EngineNode>()
+      .force('center', d3.forceCenter(w / 2, h / 2))
+      .on('tick', () => report(false))
+      .on('end', () => report(true))
+      .stop();
+
+    if (preset === 'canvas') {
+      sim.force('link', d3.forceLink<EngineNode, d3.SimulationLinkDatum<EngineNode>>().id(d => d.id).distance(30))
+        .force('charge', d3.forceManyBody().strength(-30).distanceMax(300))
+        .alphaDecay(0.05);
+    } else {
+      sim.force('link', d3.forceLink<EngineNode, d3.SimulationLinkDatum<EngineNode>>().id(d => d.id).distance(compact ? 80 : 120))
+        .force('charge', d3.forceManyBody().strength(compact ? -200 : -400))
+        .force('collide', d3.forceCollide().radius(compact ? 30 : 40).strength(0.5));
+    }
+    simulation = sim;
+  };
+
+  // Adaptive decay for large graphs, and type clustering for the SVG preset
+  const configure = () => {
+    if (!simulation) return;
+    const { width: w, height: h, preset, compact } = options;
+    if (preset === 'svg') {
+      if (compact || nodes.length > 100) simulation.alphaDecay(0.05).velocityDecay(0.4);
+      if (nodes.length > 200) simulation.alphaDecay(0.08).alphaMin(0.01);
+
+      // Pull nodes of the same type towards their own sector of the canvas
+      const uniqueTypes = Array.from(new Set(nodes.map(n => n.type))).sort();
+      if (uniqueTypes.length > 1) {
+        const angleStep = (2 * Math.PI) / uniqueTypes.length;
+        const clusterRadius = Math.min(w, h) / 3;
+        const angle = (d: EngineNode) => uniqueTypes.indexOf(d.type) * angleStep;
+        simulation.force('preserve_x', d3.forceX<EngineNode>(d => w / 2 + Math.cos(angle(d)) * clusterRadius).strength(0.15));
+        simulation.force('preserve_y', d3.forceY<EngineNode>(d => h / 2 + Math.sin(angle(d)) * clusterRadius).strength(0.15));
+      } else {
+        simulation.force('preserve_x', null);
+        simulation.force('preserve_y', null);
+      }
+    }
+  };
+
+  const run = (alpha: number) => {
+    if (!simulation || paused || arranged) return;
+    simulation.alpha(alpha).restart();
+  };
+
+  // Frozen: every node keeps its place; only new or dragged nodes move
+  const fixAll = () => nodes.forEach(n => {
+    n.fx = n.x;
+    n.fy = n.y;
+  });
+
+  return {
+    handle(command: LayoutCommand) {
+      switch (command.type) {
+        case 'init':
+          options = command.options;
+          build();
+          break;
+
+        case 'graph': {
+          if (!simulation) build();
+          const previous = new Map(nodes.map(n => [n.id, n]));
+          const allPlaced = command.nodes.every(n => n.x !== undefined || previous.has(n.id));
+          version = command.version;
+          // Existing nodes keep position, velocity and (when frozen) their fixed place
+          nodes = command.nodes.map(n => ({ ...previous.get(n.id), ...n }));
+          const ids = new Set(nodes.map(n => n.id));
+          simulation!.nodes(nodes);
+          (simulation!.force('link') as d3.ForceLink<EngineNode, d3.SimulationLinkDatum<EngineNode>>)
+            .links(command.links.filter(l => ids.has(l.source) && ids.has(l.target)).map(l => ({ ...l })));
+          configure();
+          report(false);
+          // A graph whose nodes all have places only needs a nudge
+          run(allPlaced ? 0.3 : 1);
+          break;
+        }
+
+        case 'resize':
+          options = { ...options, width: command.width, height: command.height };
+          simulation?.force('center', d3.forceCenter(command.width / 2, command.height / 2));
+          configure();
+          if (!frozen) run(0.3);
+          break;
+
+        case 'drag': {
+          const node = nodes.find(n => n.id === command.id);
+          if (!node) break;
+          if (!dragging.has(command.id)) {
+            dragging.add(command.id);
+            if (!paused && !arranged) simulation?.alphaTarget(0.3).restart();
+          }
+          node.fx = command.x;
+          node.fy = command.y;
+          if (paused || frozen || arranged) {
+            node.x = command.x;
+            node.y = command.y;
+            report(false);
+          }
+          break;
+        }
+
+        case 'release': {
+          dragging.delete(command.id);
+          if (dragging.size === 0) simulation?.alphaTarget(0);
+          const node = nodes.find(n => n.id === command.id);
+          // A frozen or arranged layout keeps the node where it was dropped
+          if (node && !frozen && !arranged) {
+            node.fx = null;
+            node.fy = null;
+          }
+          break;
+        }
+
+        case 'pause':
+          paused = true;
+          simulation?.stop();
+          break;
+
+        case 'resume':
+          if (!paused) break;
+          paused = false;
+          run(Math.max(simulation?.alpha() ?? 0, 0.1));
+          break;
+
+        case 'freeze':
+          if (command.frozen === frozen) break;
+          frozen = command.frozen;
+          if (frozen) {
+            simulation?.stop();
+            fixAll();
+            report(true);
+          } else {
+            nodes.forEach(n => {
+              if (dragging.has(n.id)) return;
+              n.fx = null;
+              n.fy = null;
+            });
+            run(0.3);
+          }
+          break;
+
+        case 'arrange':
+          version = command.version;
+          if (command.positions) {
+            arranged = true;
+            simulation?.stop();
+            const targets = new Map(command.positions.map(p => [p.id, p]));
+            nodes.forEach(n => {
+              const target = targets.get(n.id);
+              if (!target) return;
+              n.x = n.fx = target.x;
+              n.y = n.fy = target.y;
+              n.vx = n.vy = 0;
+            });
+          } else {
+            arranged = false;
+            if (!frozen) nodes.forEach(n => {
+              if (dragging.has(n.id)) return;
+              n.fx = null;
+              n.fy = null;
+            });
+            run(0.5);
+          }
+          break;
+
+        case 'stop':
+          simulation?.stop();
+          simulation = null;
+          break;
+      }
+    },
+  };
+}
+
+export interface ForceLayout {
+  /** Replace the graph. Nodes this layout has placed before start where they were. */
+  setGraph(nodes: LayoutNode[], links: LayoutLink[]): void;
+  /** Called with fresh positions on every tick; `done` once the layout has settled */
+  subscribe(listener: (positions: ReadonlyMap<string, Point>, done: boolean) => void): () => void;
+  positionOf(id: string): Point | undefined;
+  /** Latest positions of the current graph's nodes */
+  positions(): ReadonlyMap<string, Point>;
+  resize(width: number, height: number): void;
+  drag(id: string, x: number, y: number): void;
+  release(id: string): void;
+  pause(): void;
+  resume(): void;
+  setFrozen(frozen: boolean): void;
+  /**
+   * Animate nodes to fixed positions (nodes without one stay put), or with null let the
+   * simulation take over again
+   */
+  arrange(targets: ReadonlyMap<string, Point> | null): void;
+  dispose(): void;
+  readonly inWorker: boolean;
+}
+
+const spawnWorker = (): Worker | null => {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('../workers/forceLayout.worker.ts', import.meta.url), { type: 'module' });
+  } catch (error) {
+    console.warn('[ForceLayout] Worker unavailable, laying out on the main thread:', error);
+    return null;
+  }
+};
+
+/**
+ * Create a layout, in a worker when possible
+ */
+export function createForceLayout(options: LayoutOptions): ForceLayout {
+  const listeners = new Set<(positions: ReadonlyMap<string, Point>, done: boolean) => void>();
+  // Everything ever placed, most recently updated last
+  const remembered = new Map<string, Point>();
+  let order: string[] = [];
+  let version = 0;
+  let current: ReadonlyMap<string, Point> = new Map();
+  let arranged = false;
+  let transition: d3.Timer | null = null;
+
+  const emit = (positions: Map<string, Point>, done: boolean) => {
+    positions.forEach((point, id) => {
+      remembered.delete(id);
+      remembered.set(id, point);
+    });
+    while (remembered.size > MAX_REMEMBERED_POSITIONS) {
+      remembered.delete(remembered.keys().next().value as string);
+    }
+    current = positions;
+    listeners.forEach(listener => listener(positions, done));
+  };
+
+  const receive = (event: LayoutEvent) => {
+    // Ticks computed for a graph (or arrangement) that has since been replaced
+    if (event.type !== 'tick' || event.version !== version) return;
+    const positions = new Map<string, Point>();
+    order.forEach((id, i) => positions.set(id, { x: event.positions[2 * i], y: event.positions[2 * i + 1] }));
+    emit(positions, event.done);
+  };
+
+  const stopTransition = () => {
+    transition?.stop();
+    transition = null;
+  };
+
+  // Engine state to replay if the worker dies and the main thread takes over
+  let lastGraph: Extract<LayoutCommand, { type: 'graph' }> | null = null;
+  let lastArrange: Extract<LayoutCommand, { type: 'arrange' }> | null = null;
+  let paused = false;
+  let frozen = false;
+  let send: (command: LayoutCommand) => void;
+  const runOnMainThread = () => {
+    const engine = createForceEngine(receive);
+    send = command => engine.handle(command);
+  };
+
+  let worker = spawnWorker();
+  if (worker) {
+    const w = worker;
+    w.onmessage = (e: MessageEvent<LayoutEvent>) => receive(e.data);
+    // The worker script failed to load or crashed: carry on without it
+    w.onerror = (error) => {
+      console.warn('[ForceLayout] Worker failed, laying out on the main thread:', error);
+      w.terminate();
+      worker = null;
+      runOnMainThread();
+      send({ type: 'init', options });
+      if (paused) send({ type: 'pause' });
+      if (lastGraph) {
+        // Nodes restart from where the worker last reported them
+        send({ ...lastGraph, version, nodes: lastGraph.nodes.map(n => ({ ...n, ...remembered.get(n.id) })) });
+      }
+      if (frozen) send({ type: 'freeze', frozen });
+      if (lastArrange) send({ ...lastArrange, version });
+    };
+    send = command => w.postMessage(command);
+  } else {
+    runOnMainThread();
+  }
+  send!({ type: 'init', options });
+
+  return {
+    get inWorker() {
+      return worker !== null;
+    },
+
+    setGraph(nodes, links) {
+      stopTransition();
+      version += 1;
+      order = nodes.map(n => n.id);
+      lastGraph = {
+        type: 'graph',
+        version,
+        nodes: nodes.map(n => ({ id: n.id, type: n.type, ...remembered.get(n.id) })),
+        links: links.map(l => ({ source: l.source, target: l.target })),
+      };
+      send(lastGraph);
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    positionOf: id => remembered.get(id),
+    positions: () => current,
+    resize: (width, height) => {
+      options = { ...options, width, height };
+      send({ type: 'resize', width, height });
+    },
+    drag: (id, x, y) => send({ type: 'drag', id, x, y }),
+    release: id => send({ type: 'release', id }),
+    pause: () => {
+      paused = true;
+      send({ type: 'pause' });
+    },
+    resume: () => {
+      paused = false;
+      send({ type: 'resume' });
+    },
+    setFrozen: value => {
+      frozen = value;
+      send({ type: 'freeze', frozen });
+    },
+
+    arrange(targets) {
+      stopTransition();
+      if (!targets && !arranged) return;
+      arranged = !!targets;
+      version += 1;
+      const command: Extract<LayoutCommand, { type: 'arrange' }> = {
+        type: 'arrange',
+        version,
+        positions: targets && order.filter(id => targets.has(id)).map(id => ({ id, ...targets.get(id)! })),
+      };
+      lastArrange = targets ? command : null;
+      send(command);
+      if (!targets) return;
+
+      // Ease from where nodes are now; the engine already holds the end positions
+      const from = current;
+      const ids = order;
+      transition = d3.timer(elapsed => {
+        const t = Math.min(1, elapsed / ARRANGE_DURATION_MS);
+        const k = d3.easeCubicInOut(t);
+        const positions = new Map<string, Point>();
+        ids.forEach(id => {
+          const end = targets.get(id) ?? from.get(id);
+          if (!end) return;
+          const start = from.get(id) ?? end;
+          positions.set(id, { x: start.x + (end.x - start.x) * k, y: start.y + (end.y - start.y) * k });
+        });
+        if (t === 1) stopTransition();
+        emit(positions, t === 1);
+      });
+    },
+
+    dispose() {
+      stopTransition();
+      send({ type: 'stop' });
+      worker?.terminate();
+      worker = null;
+      listeners.clear();
+    },
+  };
+}
@@ -0,0 +1,143 @@
+/**
+ * Gene-Set Analysis
+ * Places a gene list (e.g. differentially expressed genes) in PrimeKG: the subgraph induced
+ * by the set's genes plus the diseases, drugs and pathways several of them connect to, and
+ * those connecting entities ranked by how much of the set they touch. Works on the PrimeKG
+ * neighborhoods of the genes (see kgService.getNeighbors), fetched by the caller.
+ * @module utils/geneSetAnalysis
+ */
+
+import type { GraphData, KGEdge, KGNode } from '../types';
+import type { EntityResolution } from '../services/entityResolver';
+import { normalizeNodeType, NodeType } from '../constants/kgTaxonomy';
+import { edgeKey } from './graphExploration';
+
+/** Every symbol is resolved and expanded, so sets are capped */
+export const MAX_GENE_SET_SIZE = 300;
+
+/** Set genes a disease, drug or pathway must connect to before it joins the overlay */
+export const MIN_SHARED_GENES = 2;
+
+/** Ranked entities kept per type; only these are drawn */
+export const GENE_SET_RANK_LIMIT = 25;
+
+const CONNECTOR_TYPES: NodeType[] = ['disease', 'drug', 'pathway'];
+
+// First-column headers of expression tables ("gene_symbol, log2FC, padj")
+const HEADER_CELLS = ['gene', 'genes', 'symbol', 'gene_symbol', 'gene_name', 'hgnc_symbol', 'gene_id', 'name', 'id'];
+
+export interface GeneSetHit {
+  name: string;
+  type: NodeType;
+  /** Set genes it connects to, in set order */
+  genes: string[];
+  /** Fraction of the resolved set it connects to */
+  coverage: number;
+}
+
+export interface GeneSetAnalysis {
+  /** Set genes plus the ranked diseases, drugs and pathways, with the edges among them */
+  graph: GraphData;
+  /** Set genes with no edge in the overlay */
+  isolated: string[];
+  diseases: GeneSetHit[];
+  drugs: GeneSetHit[];
+  pathways: GeneSetHit[];
+}
+
+export interface GeneSetOptions {
+  /** Default: MIN_SHARED_GENES */
+  minShared?: number;
+  /** Default: GENE_SET_RANK_LIMIT */
+  limit?: number;
+}
+
+/**
+ * Gene symbols from pasted text or a file: one per line (the first column of a table is
+ * used, after an optional header) or a single line separated by commas or spaces.
+ * Duplicates are dropped case-insensitively, keeping the first spelling.
+ */
+export function parseGeneList(text: string): string[] {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  let symbols = lines.length === 1
+    ? lines[0].split(/[\s,;]+/)
+    : lines.map(line => line.split(/[\t,;|]|\s+/)[0]);
+  symbols = symbols.map(s => s.replace(/^["']|["']$/g, '').trim()).filter(Boolean);
+  if (lines.length > 1 && symbols.length && HEADER_CELLS.includes(symbols[0].toLowerCase())) symbols = symbols.slice(1);
+
+  const seen = new Set<string>();
+  return symbols.filter(symbol => {
+    const key = symbol.toUpperCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * The gene/protein a symbol resolved to. A confirmed mapping wins; otherwise the best
+ * gene/protein candidate, since symbols like "CAT" or "MAX" also match other entities.
+ */
+export function geneFromResolution(resolution: EntityResolution): string | null {
+  if (resolution.confirmed && resolution.best) return resolution.best.name;
+  return resolution.candidates.find(c => normalizeNodeType(c.type) === 'gene/protein')?.name ?? null;
+}
+
+/**
+ * Build the gene-set overlay from each resolved gene's PrimeKG neighborhood
+ */
+export function analyzeGeneSet(
+  neighborhoods: Array<{ gene: string; graph: GraphData }>,
+  { minShared = MIN_SHARED_GENES, limit = GENE_SET_RANK_LIMIT }: GeneSetOptions = {}
+): GeneSetAnalysis {
+  const genes = Array.from(new Set(neighborhoods.map(n => n.gene)));
+  const geneSet = new Set(genes);
+  const order = new Map(genes.map((gene, i) => [gene, i]));
+  const nodes = new Map<string, KGNode>();
+  const edges = new Map<string, KGEdge>();
+  // entity id → set genes linked to it
+  const links = new Map<string, Set<string>>();
+
+  neighborhoods.forEach(({ graph }) => {
+    graph.nodes.forEach(node => {
+      if (!nodes.has(node.id)) nodes.set(node.id, node);
+    });
+    graph.edges.forEach(edge => {
+      const key = edgeKey(edge);
+      if (edge.source === edge.target || edges.has(key)) return;
+      edges.set(key, edge);
+      [[edge.source, edge.target], [edge.target, edge.source]].forEach(([gene, other]) => {
+        if (!geneSet.has(gene) || geneSet.has(other)) return;
+        if (!links.has(other)) links.set(other, new Set());
+        links.get(other)!.add(gene);
+      });
+    });
+  });
+
+  const rank = (type: NodeType): GeneSetHit[] => Array.from(links.entries())
+    .filter(([id, linked]) => linked.size >= minShared && normalizeNodeType(nodes.get(id)?.type) === type)
+    .map(([id, linked]) => ({
+      name: nodes.get(id)?.name ?? id,
+      type,
+      genes: Array.from(linked).sort((a, b) => order.get(a)! - order.get(b)!),
+      coverage: genes.length ? linked.size / genes.length : 0,
+    }))
+    .sort((a, b) => b.genes.length - a.genes.length || a.name.localeCompare(b.name))
+    .slice(0, limit);
+
+  const [diseases, drugs, pathways] = CONNECTOR_TYPES.map(rank);
+
+  // Hit names double as node ids, which normalizeGraph sets to the entity name
+  const kept = new Set([...genes, ...[...diseases, ...drugs, ...pathways].map(hit => hit.name)]);
+  const graphEdges = Array.from(edges.values()).filter(e => kept.has(e.source) && kept.has(e.target));
+  const connected = new Set(graphEdges.flatMap(e => [e.source, e.target]));
+  const graphNodes = Array.from(kept).map(id => nodes.get(id) ?? { id, name: id, type: 'gene/protein' });
+
+  return {
+    graph: { nodes: graphNodes, edges: graphEdges },
+    isolated: genes.filter(gene => !connected.has(gene)),
+    diseases,
+    drugs,
+    pathways,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Graph Exploration State
+ * Pure operations on the graph explorer's working set: the nodes and edges on screen, the
+ * query it started from, which expansion added which nodes (so they can be collapsed again),
+ * pinned nodes that survive re-queries, and hidden nodes. Every operation returns a new state,
+ * which is what makes undo/redo and saving to a project cheap.
+ * @module utils/graphExploration
+ */
+
+import type { GraphData, KGEdge, KGNode, SubgraphFilter } from '../types';
+import { SavedGraph, SavedGraphSchema } from '../schemas/graphSchema';
+
+export interface ExplorationState {
+  graph: GraphData;
+  /** Node the current query is centred on; never collapsed or filtered away */
+  centerId: string | null;
+  query: string;
+  pinned: string[];
+  hidden: string[];
+  /** Node ids each expansion added, keyed by the expanded node */
+  expansions: Record<string, string[]>;
+}
+
+export const EMPTY_EXPLORATION: ExplorationState = {
+  graph: { nodes: [], edges: [] },
+  centerId: null,
+  query: '',
+  pinned: [],
+  hidden: [],
+  expansions: {},
+};
+
+export const edgeKey = (edge: Pick<KGEdge, 'source' | 'target' | 'relation'>) =>
+  `${edge.source}-${edge.target}-${edge.relation}`;
+
+/**
+ * Bring server nodes and edges to the explorer's shape: nodes keyed by name, with the
+ * `node_name` / `node_type` spellings some servers use folded in, and numeric ids (NCBI
+ * gene ids, node indices) as strings
+ */
+export function normalizeGraph(data: Partial<GraphData>): GraphData {
+  const nodes: KGNode[] = (data.nodes || []).map((n: any) => ({
+    id: String(n.name || n.id || n.db_id),
+    name: String(n.name || n.node_name || n.id),
+    type: n.type || n.node_type || 'unknown',
+    description: n.description || '',
+    ...(n.source ? { source: n.source } : {}),
+    ...(n.db_id ? { db_id: String(n.db_id) } : {}),
+  }));
+  const edges: KGEdge[] = (data.edges || []).map((e: any) => ({
+    source: String(e.source),
+    target: String(e.target),
+    relation: e.relation || e.display_relation || '',
+    ...(e.display_relation ? { display_relation: e.display_relation } : {}),
+  }));
+  return { nodes, edges };
+}
+
+/**
+ * Add nodes and edges that aren't in the graph yet. Returns the ids of the new nodes.
+ */
+function merge(graph: GraphData, addition: GraphData): { graph: GraphData; added: string[] } {
+  const unseen = (seen: Set<string>) => (key: string) => {
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+  const isNewNode = unseen(new Set(graph.nodes.map(n => n.id)));
+  const isNewEdge = unseen(new Set(graph.edges.map(edgeKey)));
+  const nodes = addition.nodes.filter(n => isNewNode(n.id));
+  const edges = addition.edges.filter(e => isNewEdge(edgeKey(e)));
+  return {
+    graph: { nodes: [...graph.nodes, ...nodes], edges: [...graph.edges, ...edges] },
+    added: nodes.map(n => n.id),
+  };
+}
+
+const withoutNodes = (graph: GraphData, removed: Set<string>): GraphData => ({
+  nodes: graph.nodes.filter(n => !removed.has(n.id)),
+  edges: graph.edges.filter(e => !removed.has(e.source) && !removed.has(e.target)),
+});
+
+/**
+ * Start from a new query result. Pinned nodes are carried over, along with the edges
+ * that tie them to each other and to the new result.
+ */
+export function startExploration(state: ExplorationState, graph: GraphData, centerId: string | null, query: string): ExplorationState {
+  const pinned = new Set(state.pinned);
+  const pinnedNodes = state.graph.nodes.filter(n => pinned.has(n.id));
+  const nodeIds = new Set([...graph.nodes, ...pinnedNodes].map(n => n.id));
+  const pinnedEdges = state.graph.edges.filter(e =>
+    (pinned.has(e.source) || pinned.has(e.target)) && nodeIds.has(e.source) && nodeIds.has(e.target)
+  );
+
+  return {
+    graph: merge(graph, { nodes: pinnedNodes, edges: pinnedEdges }).graph,
+    centerId,
+    query,
+    pinned: state.pinned,
+    hidden: [],
+    expansions: {},
+  };
+}
+
+/**
+ * Merge an expansion around `nodeId`, remembering what it added so it can be collapsed
+ */
+export function expandNode(state: ExplorationState, nodeId: string, addition: GraphData): ExplorationState {
+  const { graph, added } = merge(state.graph, addition);
+  if (graph.nodes.length === state.graph.nodes.length && graph.edges.length === state.graph.edges.length) return state;
+  return {
+    ...state,
+    graph,
+    expansions: added.length > 0
+      ? { ...state.expansions, [nodeId]: [...(state.expansions[nodeId] || []), ...added] }
+      : state.expansions,
+  };
+}
+
+/**
+ * Merge nodes and edges that don't belong to any one node's expansion (e.g. a path)
+ */
+export function mergeGraph(state: ExplorationState, addition: GraphData): ExplorationState {
+  const { graph } = merge(state.graph, addition);
+  return graph.nodes.length === state.graph.nodes.length && graph.edges.length === state.graph.edges.length
+    ? state
+    : { ...state, graph };
+}
+
+/**
+ * Remove everything an expansion of `nodeId` added, including nodes added by expanding
+ * those in turn. Pinned nodes and the center stay.
+ */
+export function collapseNode(state: ExplorationState, nodeId: string): ExplorationState {
+  if (!state.expansions[nodeId]) return state;
+  const keep = new Set([...state.pinned, ...(state.centerId ? [state.centerId] : []), nodeId]);
+  const removed = new Set<string>();
+  const expansions = { ...state.expansions };
+
+  const visit = (id: string) => {
+    const added = expansions[id];
+    delete expansions[id];
+    (added || []).forEach(child => {
+      if (keep.has(child) || removed.has(child)) return;
+      removed.add(child);
+      visit(child);
+    });
+  };
+  visit(nodeId);
+
+  return {
+    ...state,
+    graph: withoutNodes(state.graph, removed),
+    hidden: state.hidden.filter(id => !removed.has(id)),
+    expansions,
+  };
+}
+
+export const canCollapse = (state: ExplorationState, nodeId: string): boolean =>
+  (state.expansions[nodeId]?.length ?? 0) > 0;
+
+export function togglePin(state: ExplorationState, nodeId: string): ExplorationState {
+  const pinned = state.pinned.includes(nodeId)
+    ? state.pinned.filter(id => id !== nodeId)
+    : [...state.pinned, nodeId];
+  return { ...state, pinned };
+}
+
+export function hideNode(state: ExplorationState, nodeId: string): ExplorationState {
+  if (state.hidden.includes(nodeId) || nodeId === state.centerId) return state;
+  // Keep at least one node on screen, or there'd be nothing to unhide from
+  if (state.graph.nodes.length - state.hidden.length <= 1) return state;
+  return { ...state, hidden: [...state.hidden, nodeId] };
+}
+
+export function showAllNodes(state: ExplorationState): ExplorationState {
+  return state.hidden.length > 0 ? { ...state, hidden: [] } : state;
+}
+
+/**
+ * The graph without hidden nodes
+ */
+export function visibleExplorationGraph(state: ExplorationState): GraphData {
+  return state.hidden.length > 0 ? withoutNodes(state.graph, new Set(state.hidden)) : state.graph;
+}
+
+/**
+ * Snapshot for a project's `graph` item; `parseSavedGraph` restores it exactly
+ */
+export function serializeExploration(state: ExplorationState, filter?: SubgraphFilter): SavedGraph {
+  return { version: 1, exploration: state, ...(filter ? { filter } : {}) };
+}
+
+/**
+ * Validate a saved `graph` item, or null if it isn't one this version can restore
+ */
+export function parseSavedGraph(data: unknown): { exploration: ExplorationState; filter?: SubgraphFilter } | null {
+  const result = SavedGraphSchema.safeParse(data);
+  if (!result.success) {
+    console.warn('[GraphExploration] Saved graph is invalid:', result.error);
+    return null;
+  }
+  const { exploration, filter } = result.data;
+  return { exploration: { ...exploration, centerId: exploration.centerId ?? null }, filter };
+}
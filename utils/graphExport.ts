@@ -0,0 +1,432 @@
+/**
+ * Graph Export
+ * Serializes the graph explorer's current view for tools outside the browser: GraphML
+ * (Cytoscape, yEd), GEXF (Gephi), Cytoscape.js JSON, CSV node/edge lists, and standalone
+ * SVG/PNG figures. Every format carries node positions, type and relation colors, pinned
+ * nodes, highlighted (path) edges and the active filter.
+ * @module utils/graphExport
+ */
+
+import type { GraphData, KGNode, SubgraphFilter } from '../types';
+import { NODE_TYPE_LIST, nodeTypeColor, nodeTypeLabel, normalizeNodeType, relationColor, relationInfo, relationLabel } from '../constants/kgTaxonomy';
+import { edgeKey } from './graphExploration';
+import { isFilterActive } from './graphFilter';
+import { computeGraphLayout } from './graphLayouts';
+import type { Point } from './forceLayout';
+
+export type GraphExportFormat = 'graphml' | 'gexf' | 'cytoscape' | 'csv' | 'svg' | 'png';
+
+export interface GraphExportFormatInfo {
+  format: GraphExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+  /** Applications the format is meant for */
+  hint: string;
+}
+
+export const GRAPH_EXPORT_FORMATS: GraphExportFormatInfo[] = [
+  { format: 'graphml', label: 'GraphML', extension: 'graphml', mimeType: 'application/graphml+xml', hint: 'Cytoscape, yEd' },
+  { format: 'gexf', label: 'GEXF', extension: 'gexf', mimeType: 'application/gexf+xml', hint: 'Gephi' },
+  { format: 'cytoscape', label: 'Cytoscape.js JSON', extension: 'cyjs', mimeType: 'application/json', hint: 'Cytoscape, Cytoscape.js' },
+  { format: 'csv', label: 'CSV node/edge lists', extension: 'csv', mimeType: 'text/csv', hint: 'Spreadsheets, pandas, R' },
+  { format: 'svg', label: 'SVG', extension: 'svg', mimeType: 'image/svg+xml', hint: 'Figures, Illustrator, Inkscape' },
+  { format: 'png', label: 'PNG (high resolution)', extension: 'png', mimeType: 'image/png', hint: 'Slides, documents' },
+];
+
+export interface GraphExportInput {
+  graph: GraphData;
+  /** Node positions as laid out on screen; nodes without one are placed in rings */
+  positions?: ReadonlyMap<string, Point>;
+  filter?: SubgraphFilter;
+  /** Edge keys ("source-target-relation") of highlighted paths */
+  highlightedEdges?: ReadonlySet<string>;
+  pinned?: ReadonlySet<string>;
+  /** Graph name, e.g. the explorer query */
+  title?: string;
+}
+
+const GENERATOR = 'PrimeKG Explorer';
+
+const escapeXml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&apos;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Positions for every node: the ones given, with the rest filled in by the concentric layout
+ */
+function resolvePositions({ graph, positions }: GraphExportInput): Map<string, Point> {
+  const resolved = new Map<string, Point>();
+  const missing = graph.nodes.filter(n => !positions?.has(n.id));
+  const fallback = missing.length ? computeGraphLayout('concentric', graph, { width: 800, height: 600 }) : new Map<string, Point>();
+  graph.nodes.forEach(n => {
+    const point = positions?.get(n.id) ?? fallback.get(n.id)!;
+    resolved.set(n.id, { x: round(point.x), y: round(point.y) });
+  });
+  return resolved;
+}
+
+const filterDescription = (filter?: SubgraphFilter) =>
+  filter && isFilterActive(filter) ? JSON.stringify(filter) : '';
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return { r: (value >> 16) & 0xff, g: (value >> 8) & 0xff, b: value & 0xff };
+};
+
+interface ExportNode {
+  node: KGNode;
+  position: Point;
+  color: string;
+  pinned: boolean;
+}
+
+interface ExportEdge {
+  id: string;
+  source: string;
+  target: string;
+  relation: string;
+  label: string;
+  color: string;
+  directed: boolean;
+  highlighted: boolean;
+}
+
+// Shared attribute view of the graph all formats serialize from
+function describe(input: GraphExportInput) {
+  const positions = resolvePositions(input);
+  const nodes: ExportNode[] = input.graph.nodes.map(node => ({
+    node,
+    position: positions.get(node.id)!,
+    color: nodeTypeColor(node.type),
+    pinned: !!input.pinned?.has(node.id),
+  }));
+  const ids = new Set(input.graph.nodes.map(n => n.id));
+  const edges: ExportEdge[] = input.graph.edges
+    .filter(e => ids.has(e.source) && ids.has(e.target))
+    .map((e, i) => ({
+      id: `e${i}`,
+      source: e.source,
+      target: e.target,
+      relation: e.relation,
+      label: e.display_relation || relationLabel(e.relation),
+      color: relationColor(e.relation),
+      directed: relationInfo(e.relation)?.directed ?? true,
+      highlighted: !!input.highlightedEdges?.has(edgeKey(e)),
+    }));
+  return { nodes, edges, title: input.title || 'PrimeKG subgraph', filter: filterDescription(input.filter) };
+}
+
+/**
+ * GraphML with typed data keys; positions and colors as plain attributes (x, y, color)
+ */
+export function toGraphML(input: GraphExportInput): string {
+  const { nodes, edges, title, filter } = describe(input);
+  const data = (key: string, value: string | number | boolean) =>
+    `<data key="${key}">${escapeXml(String(value))}</data>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="http://graphml.graphdrawing.org/xmlns http://graphml.graphdrawing.org/xmlns/1.0/graphml.xsd">',
+    '  <key id="g_name" for="graph" attr.name="name" attr.type="string"/>',
+    '  <key id="g_filter" for="graph" attr.name="filter" attr.type="string"/>',
+    '  <key id="n_name" for="node" attr.name="name" attr.type="string"/>',
+    '  <key id="n_type" for="node" attr.name="type" attr.type="string"/>',
+    '  <key id="n_source" for="node" attr.name="source" attr.type="string"/>',
+    '  <key id="n_db_id" for="node" attr.name="db_id" attr.type="string"/>',
+    '  <key id="n_color" for="node" attr.name="color" attr.type="string"/>',
+    '  <key id="n_x" for="node" attr.name="x" attr.type="double"/>',
+    '  <key id="n_y" for="node" attr.name="y" attr.type="double"/>',
+    '  <key id="n_pinned" for="node" attr.name="pinned" attr.type="boolean"/>',
+    '  <key id="e_relation" for="edge" attr.name="relation" attr.type="string"/>',
+    '  <key id="e_label" for="edge" attr.name="label" attr.type="string"/>',
+    '  <key id="e_color" for="edge" attr.name="color" attr.type="string"/>',
+    '  <key id="e_highlighted" for="edge" attr.name="highlighted" attr.type="boolean"/>',
+    '  <graph id="G" edgedefault="directed">',
+    `    ${data('g_name', title)}`,
+  ];
+  if (filter) lines.push(`    ${data('g_filter', filter)}`);
+
+  nodes.forEach(({ node, position, color, pinned }) => {
+    lines.push(`    <node id="${escapeXml(node.id)}">`);
+    lines.push(`      ${data('n_name', node.name)}`);
+    lines.push(`      ${data('n_type', node.type)}`);
+    if (node.source) lines.push(`      ${data('n_source', node.source)}`);
+    if (node.db_id) lines.push(`      ${data('n_db_id', node.db_id)}`);
+    lines.push(`      ${data('n_color', color)}`);
+    lines.push(`      ${data('n_x', position.x)}`);
+    lines.push(`      ${data('n_y', position.y)}`);
+    lines.push(`      ${data('n_pinned', pinned)}`);
+    lines.push('    </node>');
+  });
+
+  edges.forEach(edge => {
+    lines.push(`    <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" directed="${edge.directed}">`);
+    lines.push(`      ${data('e_relation', edge.relation)}`);
+    lines.push(`      ${data('e_label', edge.label)}`);
+    lines.push(`      ${data('e_color', edge.color)}`);
+    lines.push(`      ${data('e_highlighted', edge.highlighted)}`);
+    lines.push('    </edge>');
+  });
+
+  lines.push('  </graph>', '</graphml>');
+  return lines.join('\n');
+}
+
+/**
+ * GEXF 1.3 with the viz extension, so Gephi opens it with positions and colors
+ */
+export function toGEXF(input: GraphExportInput): string {
+  const { nodes, edges, title, filter } = describe(input);
+  const attvalue = (id: string, value: string | boolean) =>
+    `<attvalue for="${id}" value="${escapeXml(String(value))}"/>`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">',
+    `  <meta lastmodifieddate="${new Date().toISOString().slice(0, 10)}">`,
+    `    <creator>${GENERATOR}</creator>`,
+    `    <description>${escapeXml(filter ? `${title} (filter: ${filter})` : title)}</description>`,
+    '  </meta>',
+    '  <graph mode="static" defaultedgetype="directed">',
+    '    <attributes class="node">',
+    '      <attribute id="type" title="type" type="string"/>',
+    '      <attribute id="source" title="source" type="string"/>',
+    '      <attribute id="db_id" title="db_id" type="string"/>',
+    '      <attribute id="pinned" title="pinned" type="boolean"/>',
+    '    </attributes>',
+    '    <attributes class="edge">',
+    '      <attribute id="relation" title="relation" type="string"/>',
+    '      <attribute id="highlighted" title="highlighted" type="boolean"/>',
+    '    </attributes>',
+    '    <nodes>',
+  ];
+
+  nodes.forEach(({ node, position, color, pinned }) => {
+    const { r, g, b } = hexToRgb(color);
+    lines.push(`      <node id="${escapeXml(node.id)}" label="${escapeXml(node.name)}">`);
+    lines.push('        <attvalues>');
+    lines.push(`          ${attvalue('type', node.type)}`);
+    if (node.source) lines.push(`          ${attvalue('source', node.source)}`);
+    if (node.db_id) lines.push(`          ${attvalue('db_id', node.db_id)}`);
+    lines.push(`          ${attvalue('pinned', pinned)}`);
+    lines.push('        </attvalues>');
+    lines.push(`        <viz:color r="${r}" g="${g}" b="${b}"/>`);
+    // GEXF's y axis points up; the screen's points down
+    lines.push(`        <viz:position x="${position.x}" y="${-position.y}" z="0"/>`);
+    lines.push(`        <viz:size value="${pinned ? 14 : 10}"/>`);
+    lines.push('      </node>');
+  });
+
+  lines.push('    </nodes>', '    <edges>');
+  edges.forEach(edge => {
+    const { r, g, b } = hexToRgb(edge.color);
+    lines.push(`      <edge id="${edge.id}" source="${escapeXml(edge.source)}" target="${escapeXml(edge.target)}" type="${edge.directed ? 'directed' : 'undirected'}" label="${escapeXml(edge.label)}">`);
+    lines.push('        <attvalues>');
+    lines.push(`          ${attvalue('relation', edge.relation)}`);
+    lines.push(`          ${attvalue('highlighted', edge.highlighted)}`);
+    lines.push('        </attvalues>');
+    lines.push(`        <viz:color r="${r}" g="${g}" b="${b}"/>`);
+    lines.push(`        <viz:thickness value="${edge.highlighted ? 4 : 1}"/>`);
+    lines.push('      </edge>');
+  });
+  lines.push('    </edges>', '  </graph>', '</gexf>');
+  return lines.join('\n');
+}
+
+/**
+ * Cytoscape.js elements JSON (also imported by Cytoscape desktop as "Cytoscape.js JSON")
+ */
+export function toCytoscapeJSON(input: GraphExportInput) {
+  const { nodes, edges, title, filter } = describe(input);
+  return {
+    format_version: '1.0',
+    generated_by: GENERATOR,
+    target_cytoscapejs_version: '~3',
+    data: { name: title, ...(filter ? { filter } : {}) },
+    elements: {
+      nodes: nodes.map(({ node, position, color, pinned }) => ({
+        data: { ...node, color, pinned },
+        position,
+        ...(pinned ? { classes: 'pinned' } : {}),
+      })),
+      edges: edges.map(({ directed, ...edge }) => ({
+        data: { ...edge, directed },
+        ...(edge.highlighted ? { classes: 'highlighted' } : {}),
+      })),
+    },
+  };
+}
+
+const csvCell = (value: string | number | boolean | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvRows = (header: string[], rows: Array<Array<string | number | boolean | undefined>>) =>
+  [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+
+/**
+ * Node and edge lists; `id` in nodes matches `source`/`target` in edges
+ */
+export function toCSV(input: GraphExportInput): { nodes: string; edges: string } {
+  const { nodes, edges } = describe(input);
+  return {
+    nodes: csvRows(
+      ['id', 'name', 'type', 'source', 'db_id', 'color', 'x', 'y', 'pinned'],
+      nodes.map(({ node, position, color, pinned }) =>
+        [node.id, node.name, node.type, node.source, node.db_id, color, position.x, position.y, pinned])
+    ),
+    edges: csvRows(
+      ['source', 'target', 'relation', 'label', 'directed', 'color', 'highlighted'],
+      edges.map(e => [e.source, e.target, e.relation, e.label, e.directed, e.color, e.highlighted])
+    ),
+  };
+}
+
+export interface SvgExportOptions {
+  darkMode?: boolean;
+  /** Draw every node's name, not only pinned and path nodes */
+  labels?: boolean;
+}
+
+const SVG_MARGIN = 80;
+const SVG_NODE_RADIUS = 10;
+
+/**
+ * Standalone SVG figure: edges, nodes, labels and a node-type legend, sized to the graph
+ */
+export function toSVG(input: GraphExportInput, { darkMode = false, labels = true }: SvgExportOptions = {}): string {
+  const { nodes, edges, title } = describe(input);
+  const xs = nodes.map(n => n.position.x);
+  const ys = nodes.map(n => n.position.y);
+  const minX = Math.min(...xs) - SVG_MARGIN;
+  const minY = Math.min(...ys) - SVG_MARGIN;
+  const width = round(Math.max(...xs) - minX + SVG_MARGIN * 2.5);
+  const height = round(Math.max(...ys) - minY + SVG_MARGIN);
+  const background = darkMode ? '#0f172a' : '#ffffff';
+  const text = darkMode ? '#e2e8f0' : '#0f172a';
+  const at = (p: Point) => ({ x: round(p.x - minX), y: round(p.y - minY) });
+  const positionOf = new Map(nodes.map(n => [n.node.id, at(n.position)]));
+  const onPath = new Set(edges.filter(e => e.highlighted).flatMap(e => [e.source, e.target]));
+
+  const arrowColors = Array.from(new Set(edges.filter(e => e.directed).map(e => e.color)));
+  const markerId = (color: string) => `arrow-${color.slice(1)}`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="Inter, Helvetica, Arial, sans-serif">`,
+    `  <title>${escapeXml(title)}</title>`,
+    '  <defs>',
+    ...arrowColors.map(color =>
+      `    <marker id="${markerId(color)}" viewBox="0 -5 10 10" refX="${SVG_NODE_RADIUS + 9}" refY="0" orient="auto" markerWidth="6" markerHeight="6"><path d="M0,-5L10,0L0,5" fill="${color}"/></marker>`),
+    '  </defs>',
+    `  <rect width="100%" height="100%" fill="${background}"/>`,
+    '  <g class="edges" fill="none">',
+  ];
+
+  edges.forEach(edge => {
+    const s = positionOf.get(edge.source)!;
+    const t = positionOf.get(edge.target)!;
+    const marker = edge.directed ? ` marker-end="url(#${markerId(edge.color)})"` : '';
+    lines.push(`    <line x1="${s.x}" y1="${s.y}" x2="${t.x}" y2="${t.y}" stroke="${edge.color}" stroke-width="${edge.highlighted ? 4 : 1.5}" stroke-opacity="${edge.highlighted ? 1 : 0.5}"${marker}><title>${escapeXml(edge.label)}</title></line>`);
+  });
+
+  lines.push('  </g>', '  <g class="nodes">');
+  nodes.forEach(({ node, color, pinned }) => {
+    const p = positionOf.get(node.id)!;
+    lines.push(`    <g transform="translate(${p.x},${p.y})">`);
+    if (pinned) lines.push(`      <circle r="${SVG_NODE_RADIUS + 5}" fill="none" stroke="#6366f1" stroke-width="1.5" stroke-dasharray="3 2"/>`);
+    lines.push(`      <circle r="${SVG_NODE_RADIUS}" fill="${color}" stroke="${background}" stroke-width="2"><title>${escapeXml(`${node.name} (${nodeTypeLabel(node.type)})`)}</title></circle>`);
+    if (labels || pinned || onPath.has(node.id)) {
+      lines.push(`      <text x="${SVG_NODE_RADIUS + 4}" y="4" font-size="11" font-weight="600" fill="${text}">${escapeXml(node.name)}</text>`);
+    }
+    lines.push('    </g>');
+  });
+  lines.push('  </g>');
+
+  // Legend for the node types present
+  const present = new Set(nodes.map(n => normalizeNodeType(n.node.type)));
+  const legend = NODE_TYPE_LIST.filter(t => present.has(t.type));
+  lines.push(`  <g class="legend" transform="translate(${round(width - SVG_MARGIN * 1.5 - 20)},20)" font-size="11" fill="${text}">`);
+  legend.forEach((t, i) => {
+    lines.push(`    <circle cx="6" cy="${i * 18 + 6}" r="5" fill="${t.color}"/>`);
+    lines.push(`    <text x="16" y="${i * 18 + 10}">${escapeXml(t.label)}</text>`);
+  });
+  lines.push('  </g>', '</svg>');
+  return lines.join('\n');
+}
+
+/**
+ * Rasterize an SVG export; `scale` multiplies its pixel size (3 gives print resolution)
+ */
+export function svgToPng(svg: string, scale = 3): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const size = svg.match(/<svg[^>]* width="([\d.]+)" height="([\d.]+)"/);
+    const width = Number(size?.[1] ?? 800);
+    const height = Number(size?.[2] ?? 600);
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(width * scale);
+      canvas.height = Math.round(height * scale);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        URL.revokeObjectURL(url);
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.scale(scale, scale);
+      ctx.drawImage(image, 0, 0, width, height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('PNG encoding failed')), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Could not render the SVG export'));
+    };
+    image.src = url;
+  });
+}
+
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Serialize and download the graph; CSV downloads two files (nodes and edges)
+ */
+export async function downloadGraphExport(format: GraphExportFormat, input: GraphExportInput, options: SvgExportOptions = {}): Promise<void> {
+  const info = GRAPH_EXPORT_FORMATS.find(f => f.format === format)!;
+  const base = `${(input.title || 'primekg_graph').replace(/[^a-z0-9]/gi, '_')}_${Date.now()}`;
+
+  switch (format) {
+    case 'graphml':
+      return downloadBlob(new Blob([toGraphML(input)], { type: info.mimeType }), `${base}.${info.extension}`);
+    case 'gexf':
+      return downloadBlob(new Blob([toGEXF(input)], { type: info.mimeType }), `${base}.${info.extension}`);
+    case 'cytoscape':
+      return downloadBlob(new Blob([JSON.stringify(toCytoscapeJSON(input), null, 2)], { type: info.mimeType }), `${base}.${info.extension}`);
+    case 'csv': {
+      const { nodes, edges } = toCSV(input);
+      downloadBlob(new Blob([nodes], { type: info.mimeType }), `${base}_nodes.csv`);
+      downloadBlob(new Blob([edges], { type: info.mimeType }), `${base}_edges.csv`);
+      return;
+    }
+    case 'svg':
+      return downloadBlob(new Blob([toSVG(input, options)], { type: info.mimeType }), `${base}.${info.extension}`);
+    case 'png':
+      return downloadBlob(await svgToPng(toSVG(input, options)), `${base}.${info.extension}`);
+  }
+}
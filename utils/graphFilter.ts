@@ -0,0 +1,120 @@
+/**
+ * Graph Filtering
+ * Client-side node-type and relation filtering for subgraphs, with per-type counts.
+ * Types are compared in their canonical PrimeKG form, so "Gene", "gene_protein" and
+ * "gene/protein" all match the same filter entry.
+ * @module utils/graphFilter
+ */
+
+import type { GraphData, SubgraphFilter } from '../types';
+import { NodeType, RelationType, normalizeNodeType, normalizeRelation } from '../constants/kgTaxonomy';
+
+export type FilterState = 'include' | 'exclude' | null;
+
+export interface GraphTypeCounts {
+  nodeTypes: Partial<Record<NodeType, number>>;
+  relations: Partial<Record<RelationType, number>>;
+}
+
+/**
+ * Drug–target–pathway structure, for studying mechanisms without side-effect and phenotype noise
+ */
+export const MECHANISM_FILTER: SubgraphFilter = {
+  includeNodeTypes: ['drug', 'gene/protein', 'pathway'],
+  includeRelations: ['target', 'enzyme', 'transporter', 'carrier', 'ppi', 'interacts_with'],
+};
+
+export const isFilterActive = (filter?: SubgraphFilter | null): boolean =>
+  !!filter && [filter.includeNodeTypes, filter.excludeNodeTypes, filter.includeRelations, filter.excludeRelations]
+    .some(list => !!list && list.length > 0);
+
+const passes = <T extends string>(value: T | null, include?: T[], exclude?: T[]): boolean => {
+  if (include && include.length > 0 && (!value || !include.includes(value))) return false;
+  if (exclude && exclude.length > 0 && value && exclude.includes(value)) return false;
+  return true;
+};
+
+export const nodePassesFilter = (type: string | undefined, filter: SubgraphFilter): boolean =>
+  passes(normalizeNodeType(type), filter.includeNodeTypes, filter.excludeNodeTypes);
+
+export const relationPassesFilter = (relation: string | undefined, filter: SubgraphFilter): boolean =>
+  passes(normalizeRelation(relation), filter.includeRelations, filter.excludeRelations);
+
+const edgeRelation = (edge: GraphData['edges'][number]) => edge.display_relation || edge.relation;
+
+/**
+ * Apply a filter to a graph. Edges go with either endpoint, and nodes left without any edge
+ * are dropped so the view doesn't fill with orphans. Nodes in `keep` (the query entity)
+ * always stay.
+ */
+export function applyGraphFilter(graph: GraphData, filter: SubgraphFilter, keep: string[] = []): GraphData {
+  if (!isFilterActive(filter)) return graph;
+  const pinned = new Set(keep);
+
+  const nodeIds = new Set(
+    graph.nodes.filter(n => pinned.has(n.id) || nodePassesFilter(n.type, filter)).map(n => n.id)
+  );
+  const edges = graph.edges.filter(e =>
+    nodeIds.has(e.source) && nodeIds.has(e.target) && relationPassesFilter(edgeRelation(e), filter)
+  );
+
+  const connected = new Set(pinned);
+  edges.forEach(e => {
+    connected.add(e.source);
+    connected.add(e.target);
+  });
+
+  return { nodes: graph.nodes.filter(n => nodeIds.has(n.id) && connected.has(n.id)), edges };
+}
+
+/**
+ * Nodes per canonical type and edges per display relation. Unrecognized types aren't counted.
+ */
+export function countGraphTypes(graph: GraphData): GraphTypeCounts {
+  const counts: GraphTypeCounts = { nodeTypes: {}, relations: {} };
+  graph.nodes.forEach(n => {
+    const type = normalizeNodeType(n.type);
+    if (type) counts.nodeTypes[type] = (counts.nodeTypes[type] ?? 0) + 1;
+  });
+  graph.edges.forEach(e => {
+    const relation = normalizeRelation(edgeRelation(e));
+    if (relation) counts.relations[relation] = (counts.relations[relation] ?? 0) + 1;
+  });
+  return counts;
+}
+
+export function nodeTypeState(filter: SubgraphFilter, type: NodeType): FilterState {
+  if (filter.includeNodeTypes?.includes(type)) return 'include';
+  if (filter.excludeNodeTypes?.includes(type)) return 'exclude';
+  return null;
+}
+
+export function relationState(filter: SubgraphFilter, relation: RelationType): FilterState {
+  if (filter.includeRelations?.includes(relation)) return 'include';
+  if (filter.excludeRelations?.includes(relation)) return 'exclude';
+  return null;
+}
+
+const nextState = (state: FilterState): FilterState =>
+  state === null ? 'include' : state === 'include' ? 'exclude' : null;
+
+const withState = <T extends string>(include: T[] = [], exclude: T[] = [], value: T, state: FilterState) => ({
+  include: state === 'include' ? [...include.filter(v => v !== value), value] : include.filter(v => v !== value),
+  exclude: state === 'exclude' ? [...exclude.filter(v => v !== value), value] : exclude.filter(v => v !== value),
+});
+
+/**
+ * Cycle a node type through unset → include → exclude → unset
+ */
+export function cycleNodeType(filter: SubgraphFilter, type: NodeType): SubgraphFilter {
+  const { include, exclude } = withState(filter.includeNodeTypes, filter.excludeNodeTypes, type, nextState(nodeTypeState(filter, type)));
+  return { ...filter, includeNodeTypes: include, excludeNodeTypes: exclude };
+}
+
+/**
+ * Cycle a relation through unset → include → exclude → unset
+ */
+export function cycleRelation(filter: SubgraphFilter, relation: RelationType): SubgraphFilter {
+  const { include, exclude } = withState(filter.includeRelations, filter.excludeRelations, relation, nextState(relationState(filter, relation)));
+  return { ...filter, includeRelations: include, excludeRelations: exclude };
+}
@@ -0,0 +1,316 @@
+/**
+ * Graph Import
+ * Reads a user's own network (CSV edge list, plain entity list, Cytoscape JSON or GraphML)
+ * and maps its nodes onto PrimeKG entities once they've been resolved (see
+ * services/entityResolver). Nodes that don't resolve well enough stay in the graph, marked
+ * with UNMATCHED_SOURCE, and best guesses among close candidates are marked with
+ * AMBIGUOUS_SOURCE, so the explorer can flag both.
+ * @module utils/graphImport
+ */
+
+import type { GraphData, KGEdge, KGNode } from '../types';
+import type { EntityCandidate, EntityResolution } from '../services/entityResolver';
+import { normalizeNodeType } from '../constants/kgTaxonomy';
+
+export type GraphImportFormat = 'csv' | 'entities' | 'cytoscape' | 'graphml';
+
+export interface ImportedNode {
+  id: string;
+  name: string;
+  type?: string;
+}
+
+export interface ImportedGraph {
+  format: GraphImportFormat;
+  nodes: ImportedNode[];
+  edges: Array<{ source: string; target: string; relation: string }>;
+}
+
+export class GraphImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'GraphImportError';
+  }
+}
+
+/** Every node is resolved with a semantic search, so imports are capped */
+export const MAX_IMPORT_NODES = 500;
+
+/** Relation given to imported edges whose file doesn't name one */
+export const IMPORTED_RELATION = 'imported';
+
+/** `source` of imported nodes that matched no PrimeKG entity */
+export const UNMATCHED_SOURCE = 'Imported (not in PrimeKG)';
+
+/** `source` of imported nodes mapped to a best guess among close PrimeKG candidates */
+export const AMBIGUOUS_SOURCE = 'Imported (uncertain PrimeKG match)';
+
+/** Candidates scoring below this don't map an imported node, unless their name matches exactly */
+export const MIN_IMPORT_SCORE = 0.5;
+
+const SOURCE_COLUMNS = ['source', 'from', 'node1', 'node_1', 'source_name', 'gene1', 'gene_a', 'interactor_a', 'x_name'];
+const TARGET_COLUMNS = ['target', 'to', 'node2', 'node_2', 'target_name', 'gene2', 'gene_b', 'interactor_b', 'y_name'];
+const RELATION_COLUMNS = ['relation', 'relationship', 'interaction', 'edge', 'edge_type', 'display_relation', 'type', 'label'];
+const ENTITY_COLUMNS = ['name', 'entity', 'gene', 'symbol', 'id', 'node', 'drug', 'disease'];
+
+/**
+ * Split delimited text into rows, honouring double-quoted cells
+ */
+function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell.trim() === '') {
+      quoted = true;
+      cell = '';
+    } else if (char === delimiter) {
+      row.push(cell.trim());
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell.trim());
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell.trim());
+  rows.push(row);
+  return rows.filter(r => r.some(c => c !== ''));
+}
+
+const detectDelimiter = (firstLine: string) =>
+  ['\t', ',', ';', '|'].reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+const columnIndex = (header: string[], names: string[]) =>
+  header.findIndex(h => names.includes(h.toLowerCase().replace(/[\s-]+/g, '_')));
+
+const collectNodes = (names: string[]): ImportedNode[] =>
+  Array.from(new Set(names.filter(Boolean))).map(name => ({ id: name, name }));
+
+/**
+ * Edge list (source, target[, relation]) or, with a single column, a list of entity names
+ */
+export function parseCsvImport(text: string): ImportedGraph {
+  const firstLine = text.trim().split(/\r?\n/)[0] ?? '';
+  const rows = parseDelimited(text.trim(), detectDelimiter(firstLine));
+  if (!rows.length) throw new GraphImportError('The file is empty.');
+
+  const header = rows[0];
+  let source = columnIndex(header, SOURCE_COLUMNS);
+  let target = columnIndex(header, TARGET_COLUMNS);
+  const hasHeader = source !== -1 && target !== -1;
+  const width = Math.max(...rows.map(r => r.length));
+
+  // One name per line, or one line of names ("TP53, BRCA1, EGFR")
+  if (!hasHeader && (width === 1 || rows.length === 1)) {
+    const skipHeader = width === 1 && rows.length > 1 && ENTITY_COLUMNS.includes(header[0].toLowerCase());
+    return { format: 'entities', nodes: collectNodes((skipHeader ? rows.slice(1) : rows).flat()), edges: [] };
+  }
+
+  let relation = -1;
+  if (hasHeader) {
+    relation = columnIndex(header.map((h, i) => (i === source || i === target ? '' : h)), RELATION_COLUMNS);
+  } else {
+    [source, target, relation] = [0, 1, width > 2 ? 2 : -1];
+  }
+
+  const edges = (hasHeader ? rows.slice(1) : rows)
+    .filter(r => r[source] && r[target])
+    .map(r => ({ source: r[source], target: r[target], relation: (relation !== -1 && r[relation]) || IMPORTED_RELATION }));
+  if (!edges.length) throw new GraphImportError('No edges found. Expected source and target columns.');
+
+  return { format: 'csv', nodes: collectNodes(edges.flatMap(e => [e.source, e.target])), edges };
+}
+
+/**
+ * Cytoscape.js / Cytoscape desktop JSON: `{ elements: { nodes, edges } }`, `{ elements: [...] }`
+ * or a bare element array
+ */
+export function parseCytoscapeImport(text: string): ImportedGraph {
+  let json: any;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new GraphImportError('The file is not valid JSON.');
+  }
+
+  const elements = json?.elements ?? json;
+  const all: any[] = Array.isArray(elements)
+    ? elements
+    : [...(elements?.nodes ?? []).map((n: any) => ({ group: 'nodes', ...n })), ...(elements?.edges ?? []).map((e: any) => ({ group: 'edges', ...e }))];
+  const isEdge = (el: any) => el.group === 'edges' || (el.data?.source !== undefined && el.data?.target !== undefined);
+
+  const nodes: ImportedNode[] = all.filter(el => !isEdge(el) && el.data?.id !== undefined).map(el => {
+    const data = el.data;
+    const type = data.type ?? data.node_type;
+    return {
+      id: String(data.id),
+      name: String(data.name ?? data.label ?? data.shared_name ?? data.id),
+      ...(type ? { type: String(type) } : {}),
+    };
+  });
+  const edges = all.filter(isEdge).map(el => ({
+    source: String(el.data.source),
+    target: String(el.data.target),
+    relation: String(el.data.relation ?? el.data.interaction ?? el.data.label ?? IMPORTED_RELATION),
+  }));
+  if (!nodes.length) throw new GraphImportError('No nodes found in the Cytoscape JSON.');
+
+  return { format: 'cytoscape', nodes, edges };
+}
+
+/**
+ * GraphML; node names and types, and edge relations, are read from commonly used data keys
+ */
+export function parseGraphMLImport(text: string): ImportedGraph {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length || !doc.getElementsByTagName('graphml').length) {
+    throw new GraphImportError('The file is not valid GraphML.');
+  }
+
+  // key id → attribute name ("d0" → "name")
+  const keys = new Map(Array.from(doc.getElementsByTagName('key')).map(k =>
+    [k.getAttribute('id') ?? '', (k.getAttribute('attr.name') ?? k.getAttribute('id') ?? '').toLowerCase()]));
+  const dataOf = (el: Element) => {
+    const values: Record<string, string> = {};
+    Array.from(el.getElementsByTagName('data')).forEach(d => {
+      values[keys.get(d.getAttribute('key') ?? '') ?? ''] = d.textContent?.trim() ?? '';
+    });
+    return values;
+  };
+
+  const nodes: ImportedNode[] = Array.from(doc.getElementsByTagName('node')).map(el => {
+    const id = el.getAttribute('id') ?? '';
+    const data = dataOf(el);
+    const type = data.type ?? data.node_type;
+    return {
+      id,
+      name: data.name || data.label || data.shared_name || data.symbol || id,
+      ...(type ? { type } : {}),
+    };
+  });
+  const edges = Array.from(doc.getElementsByTagName('edge')).map(el => {
+    const data = dataOf(el);
+    return {
+      source: el.getAttribute('source') ?? '',
+      target: el.getAttribute('target') ?? '',
+      relation: data.relation || data.interaction || data.label || data.type || IMPORTED_RELATION,
+    };
+  });
+  if (!nodes.length) throw new GraphImportError('No nodes found in the GraphML file.');
+
+  return { format: 'graphml', nodes, edges };
+}
+
+/**
+ * Parse an import, choosing the reader from the file extension or, failing that, the content
+ */
+export function parseGraphImport(text: string, fileName = ''): ImportedGraph {
+  const extension = fileName.toLowerCase().split('.').pop();
+  const trimmed = text.trim();
+  if (!trimmed) throw new GraphImportError('Nothing to import.');
+
+  let imported: ImportedGraph;
+  if (extension === 'graphml' || extension === 'xml' || trimmed.startsWith('<')) {
+    imported = parseGraphMLImport(trimmed);
+  } else if (extension === 'json' || extension === 'cyjs' || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    imported = parseCytoscapeImport(trimmed);
+  } else {
+    imported = parseCsvImport(trimmed);
+  }
+
+  if (imported.nodes.length > MAX_IMPORT_NODES) {
+    throw new GraphImportError(`The import has ${imported.nodes.length} nodes; at most ${MAX_IMPORT_NODES} can be resolved at once.`);
+  }
+  return imported;
+}
+
+export interface ResolvedImport {
+  /** The imported network with matched nodes renamed to their PrimeKG entities */
+  graph: GraphData;
+  /** Imported node id → PrimeKG entity name */
+  matched: Map<string, string>;
+  /** Imported node ids that matched nothing */
+  unmatched: string[];
+  /** Imported node ids matched to a best guess among close candidates (marked AMBIGUOUS_SOURCE) */
+  ambiguous: string[];
+}
+
+/**
+ * Candidate an imported node maps to: confirmed mappings win; otherwise the best candidate
+ * that scores at least MIN_IMPORT_SCORE (or matches the name exactly), preferring those
+ * whose type matches the one the file gives. The pick stays ambiguous when the resolver
+ * found a close call and the type didn't settle it.
+ */
+function pickCandidate(node: ImportedNode, resolution?: EntityResolution): { candidate: EntityCandidate; ambiguous: boolean } | null {
+  if (!resolution?.best) return null;
+  if (resolution.confirmed) return { candidate: resolution.best, ambiguous: false };
+
+  const exact = (c: EntityCandidate) => c.name.toLowerCase() === node.name.trim().toLowerCase();
+  const eligible = resolution.candidates.filter(c => c.score >= MIN_IMPORT_SCORE || exact(c));
+  const wantedType = normalizeNodeType(node.type);
+  const typed = wantedType ? eligible.filter(c => normalizeNodeType(c.type) === wantedType) : [];
+  const [candidate] = typed.length > 0 ? typed : eligible;
+  if (!candidate) return null;
+
+  return { candidate, ambiguous: resolution.ambiguous && !exact(candidate) && typed.length !== 1 };
+}
+
+/**
+ * Apply entity resolutions (one per imported node, in order) to the imported network
+ */
+export function applyImportResolutions(imported: ImportedGraph, resolutions: EntityResolution[]): ResolvedImport {
+  const matched = new Map<string, string>();
+  const unmatched: string[] = [];
+  const ambiguous: string[] = [];
+  const nodes = new Map<string, KGNode>();
+
+  imported.nodes.forEach((node, i) => {
+    const pick = pickCandidate(node, resolutions[i]);
+    if (!pick) {
+      unmatched.push(node.id);
+      nodes.set(node.id, { id: node.id, name: node.name, type: node.type || 'unknown', source: UNMATCHED_SOURCE });
+      return;
+    }
+    const { candidate, ambiguous: uncertain } = pick;
+    if (uncertain) ambiguous.push(node.id);
+    matched.set(node.id, candidate.name);
+    // A node another imported node already mapped to for sure stays unflagged
+    const known = nodes.get(candidate.name);
+    nodes.set(candidate.name, {
+      id: candidate.name,
+      name: candidate.name,
+      type: candidate.type,
+      ...(candidate.db_id ? { db_id: candidate.db_id } : {}),
+      ...(uncertain && (!known || known.source === AMBIGUOUS_SOURCE) ? { source: AMBIGUOUS_SOURCE } : {}),
+    });
+  });
+
+  const idOf = (id: string) => matched.get(id) ?? id;
+  const seen = new Set<string>();
+  const edges: KGEdge[] = [];
+  imported.edges.forEach(e => {
+    const edge = { source: idOf(e.source), target: idOf(e.target), relation: e.relation };
+    const key = `${edge.source}-${edge.target}-${edge.relation}`;
+    if (!nodes.has(edge.source) || !nodes.has(edge.target) || edge.source === edge.target || seen.has(key)) return;
+    seen.add(key);
+    edges.push(edge);
+  });
+
+  return { graph: { nodes: Array.from(nodes.values()), edges }, matched, unmatched, ambiguous };
+}
@@ -0,0 +1,232 @@
+/**
+ * Graph Layouts
+ * Deterministic alternatives to the force layout, for reading a graph as a diagram:
+ * - layered: left-to-right lanes by node type (Drug → Protein → Pathway → Disease), so
+ *   mechanism and shortest-path results read like a pathway figure
+ * - radial: ego view; the center node in the middle, each neighbor's own neighbors fanned
+ *   out in its wedge
+ * - concentric: one ring per hop from the center node
+ * @module utils/graphLayouts
+ */
+
+import type { GraphData } from '../types';
+import { NodeType, normalizeNodeType } from '../constants/kgTaxonomy';
+import type { Point } from './forceLayout';
+
+export type GraphLayoutMode = 'force' | 'layered' | 'radial' | 'concentric';
+
+export interface GraphLayoutInfo {
+  mode: GraphLayoutMode;
+  label: string;
+  /** Material Symbols icon name */
+  icon: string;
+  description: string;
+}
+
+export const GRAPH_LAYOUTS: GraphLayoutInfo[] = [
+  { mode: 'force', label: 'Force', icon: 'bubble_chart', description: 'Force-directed, clustered by type' },
+  { mode: 'layered', label: 'Layered', icon: 'view_week', description: 'Lanes left to right: drug, protein, pathway, disease' },
+  { mode: 'radial', label: 'Radial', icon: 'hub', description: 'Ego view around the center entity' },
+  { mode: 'concentric', label: 'Concentric', icon: 'track_changes', description: 'One ring per hop from the center entity' },
+];
+
+export const isGraphLayoutMode = (value: unknown): value is GraphLayoutMode =>
+  GRAPH_LAYOUTS.some(l => l.mode === value);
+
+export interface LayoutFrame {
+  width: number;
+  height: number;
+  /** Center of the radial and concentric layouts; defaults to the best-connected node */
+  centerId?: string | null;
+}
+
+// Lanes of the layered layout, left to right; unrecognized types get a lane after these
+const LANES: NodeType[][] = [
+  ['drug', 'exposure'],
+  ['gene/protein'],
+  ['pathway', 'biological_process', 'molecular_function', 'cellular_component'],
+  ['anatomy', 'effect/phenotype'],
+  ['disease'],
+];
+
+const MARGIN = 60;
+const MIN_ROW_GAP = 28;
+const MIN_RING_GAP = 90;
+// Smallest arc between neighbors on a concentric ring
+const MIN_ARC = 36;
+
+const byTypeThenName = (a: GraphData['nodes'][number], b: GraphData['nodes'][number]) =>
+  a.type.localeCompare(b.type) || a.name.localeCompare(b.name);
+
+const neighborsOf = (graph: GraphData): Map<string, string[]> => {
+  const neighbors = new Map<string, string[]>(graph.nodes.map(n => [n.id, []]));
+  graph.edges.forEach(e => {
+    if (!neighbors.has(e.source) || !neighbors.has(e.target) || e.source === e.target) return;
+    neighbors.get(e.source)!.push(e.target);
+    neighbors.get(e.target)!.push(e.source);
+  });
+  return neighbors;
+};
+
+const pickCenter = (graph: GraphData, neighbors: Map<string, string[]>, centerId?: string | null): string => {
+  if (centerId && neighbors.has(centerId)) return centerId;
+  return graph.nodes.reduce((best, n) =>
+    neighbors.get(n.id)!.length > neighbors.get(best.id)!.length ? n : best
+  ).id;
+};
+
+/**
+ * Breadth-first tree from the center: hop distance and the node each one was reached from.
+ * Children are visited in type-then-name order so the layouts are stable.
+ */
+const bfsTree = (graph: GraphData, neighbors: Map<string, string[]>, center: string) => {
+  const nodeById = new Map(graph.nodes.map(n => [n.id, n]));
+  const hop = new Map<string, number>([[center, 0]]);
+  const children = new Map<string, string[]>();
+  const queue = [center];
+  while (queue.length) {
+    const id = queue.shift()!;
+    const next = Array.from(new Set(neighbors.get(id)))
+      .filter(n => !hop.has(n))
+      .sort((a, b) => byTypeThenName(nodeById.get(a)!, nodeById.get(b)!));
+    next.forEach(n => hop.set(n, hop.get(id)! + 1));
+    children.set(id, next);
+    queue.push(...next);
+  }
+  return { hop, children };
+};
+
+function layeredLayout(graph: GraphData, { width, height }: LayoutFrame): Map<string, Point> {
+  const laneOf = (type: string) => {
+    const normalized = normalizeNodeType(type);
+    const lane = LANES.findIndex(types => normalized !== null && types.includes(normalized));
+    return lane === -1 ? LANES.length : lane;
+  };
+
+  const byLane = new Map<number, string[]>();
+  [...graph.nodes].sort(byTypeThenName).forEach(n => {
+    const lane = laneOf(n.type);
+    byLane.set(lane, [...(byLane.get(lane) ?? []), n.id]);
+  });
+  const lanes = Array.from(byLane.keys()).sort((a, b) => a - b).map(lane => byLane.get(lane)!);
+
+  // Order each lane by the mean row of its neighbors in the lanes already placed (one sweep
+  // each way), which keeps most edges from crossing
+  const neighbors = neighborsOf(graph);
+  const row = new Map<string, number>();
+  lanes.forEach(ids => ids.forEach((id, i) => row.set(id, i)));
+  const sweep = (order: number[]) => order.forEach((laneIndex, step) => {
+    if (step === 0) return;
+    const placed = new Set(lanes[order[step - 1]]);
+    const barycenter = (id: string) => {
+      const rows = neighbors.get(id)!.filter(n => placed.has(n)).map(n => row.get(n)!);
+      return rows.length ? rows.reduce((sum, r) => sum + r, 0) / rows.length : row.get(id)!;
+    };
+    const keys = new Map(lanes[laneIndex].map(id => [id, barycenter(id)]));
+    lanes[laneIndex].sort((a, b) => keys.get(a)! - keys.get(b)!);
+    lanes[laneIndex].forEach((id, i) => row.set(id, i));
+  });
+  const indices = lanes.map((_, i) => i);
+  sweep(indices);
+  sweep([...indices].reverse());
+
+  const positions = new Map<string, Point>();
+  const columnGap = lanes.length > 1 ? (width - 2 * MARGIN) / (lanes.length - 1) : 0;
+  lanes.forEach((ids, laneIndex) => {
+    const x = lanes.length > 1 ? MARGIN + laneIndex * columnGap : width / 2;
+    const rowGap = Math.max(MIN_ROW_GAP, (height - 2 * MARGIN) / ids.length);
+    ids.forEach((id, i) => positions.set(id, { x, y: height / 2 + (i - (ids.length - 1) / 2) * rowGap }));
+  });
+  return positions;
+}
+
+function radialLayout(graph: GraphData, frame: LayoutFrame): Map<string, Point> {
+  const neighbors = neighborsOf(graph);
+  const center = pickCenter(graph, neighbors, frame.centerId);
+  const { hop, children } = bfsTree(graph, neighbors, center);
+  const maxHop = Math.max(...hop.values()) + (hop.size < graph.nodes.length ? 1 : 0);
+  const ringGap = Math.max(MIN_RING_GAP, (Math.min(frame.width, frame.height) / 2 - MARGIN) / Math.max(1, maxHop));
+  const cx = frame.width / 2;
+  const cy = frame.height / 2;
+
+  // Each subtree gets a wedge proportional to its number of leaves
+  const leaves = new Map<string, number>();
+  const countLeaves = (id: string): number => {
+    const kids = children.get(id) ?? [];
+    const count = kids.length ? kids.reduce((sum, k) => sum + countLeaves(k), 0) : 1;
+    leaves.set(id, count);
+    return count;
+  };
+  countLeaves(center);
+
+  const positions = new Map<string, Point>([[center, { x: cx, y: cy }]]);
+  const place = (id: string, from: number, to: number) => {
+    let start = from;
+    (children.get(id) ?? []).forEach(kid => {
+      const end = start + (to - from) * leaves.get(kid)! / leaves.get(id)!;
+      const angle = (start + end) / 2;
+      const r = hop.get(kid)! * ringGap;
+      positions.set(kid, { x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r });
+      place(kid, start, end);
+      start = end;
+    });
+  };
+  place(center, -Math.PI / 2, 1.5 * Math.PI);
+
+  // Nodes not connected to the center go on an outer ring
+  const unreached = graph.nodes.filter(n => !hop.has(n.id)).sort(byTypeThenName);
+  unreached.forEach((n, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / unreached.length;
+    const r = maxHop * ringGap;
+    positions.set(n.id, { x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r });
+  });
+  return positions;
+}
+
+function concentricLayout(graph: GraphData, frame: LayoutFrame): Map<string, Point> {
+  const neighbors = neighborsOf(graph);
+  const center = pickCenter(graph, neighbors, frame.centerId);
+  const { hop } = bfsTree(graph, neighbors, center);
+  const outer = Math.max(...hop.values()) + 1;
+
+  const rings: string[][] = [];
+  [...graph.nodes].sort(byTypeThenName).forEach(n => {
+    const ring = hop.get(n.id) ?? outer;
+    (rings[ring] ??= []).push(n.id);
+  });
+
+  const ringGap = Math.max(MIN_RING_GAP, (Math.min(frame.width, frame.height) / 2 - MARGIN) / Math.max(1, rings.length - 1));
+  const cx = frame.width / 2;
+  const cy = frame.height / 2;
+  const positions = new Map<string, Point>();
+  let radius = 0;
+  rings.forEach((ids, ring) => {
+    if (!ids?.length) return;
+    // Crowded rings grow so neighbors keep MIN_ARC apart
+    radius = ring === 0 ? 0 : Math.max(radius + ringGap, (ids.length * MIN_ARC) / (2 * Math.PI));
+    ids.forEach((id, i) => {
+      const angle = -Math.PI / 2 + (2 * Math.PI * i) / ids.length;
+      positions.set(id, { x: cx + Math.cos(angle) * radius, y: cy + Math.sin(angle) * radius });
+    });
+  });
+  return positions;
+}
+
+/**
+ * Positions for every node of `graph` under a fixed layout
+ */
+export function computeGraphLayout(
+  mode: Exclude<GraphLayoutMode, 'force'>,
+  graph: GraphData,
+  frame: LayoutFrame
+): Map<string, Point> {
+  if (!graph.nodes.length) return new Map();
+  switch (mode) {
+    case 'layered':
+      return layeredLayout(graph, frame);
+    case 'radial':
+      return radialLayout(graph, frame);
+    case 'concentric':
+      return concentricLayout(graph, frame);
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Path Analysis
+ * Orders and scores the paths kgService.getPaths returns so they can be compared side by side.
+ * Plausibility multiplies a weight per edge type (a drug target or an indication says more
+ * than co-expression) with a penalty for each intermediate hub, so short routes through
+ * specific entities rank above long ones through highly connected nodes.
+ * @module utils/pathAnalysis
+ */
+
+import type { GraphData, KGEdge, KGNode, PathQuery, PathSearchMode } from '../types';
+import { normalizeRelation, RelationType } from '../constants/kgTaxonomy';
+import { edgeKey } from './graphExploration';
+
+export const DEFAULT_PATH_QUERY: PathQuery = { mode: 'k_shortest', maxDepth: 3, limit: 5 };
+
+/** Path searches grow exponentially with depth */
+export const MAX_PATH_DEPTH = 5;
+export const MAX_PATH_LIMIT = 50;
+
+export const PATH_MODES: Array<{ mode: PathSearchMode; label: string; description: string }> = [
+  { mode: 'shortest', label: 'Shortest', description: 'The single shortest path' },
+  { mode: 'k_shortest', label: 'K shortest', description: 'The k shortest simple paths' },
+  { mode: 'all_simple', label: 'All simple', description: 'Every simple path within the depth' },
+];
+
+/** How much an edge of each type supports a mechanistic link, in (0, 1] */
+export const RELATION_WEIGHTS: Record<RelationType, number> = {
+  target: 1,
+  indication: 1,
+  off_label_use: 0.85,
+  associated_with: 0.8,
+  ppi: 0.7,
+  phenotype_present: 0.7,
+  enzyme: 0.6,
+  synergistic_interaction: 0.6,
+  interacts_with: 0.6,
+  transporter: 0.5,
+  carrier: 0.5,
+  contraindication: 0.5,
+  linked_to: 0.5,
+  parent_child: 0.45,
+  side_effect: 0.4,
+  expression_present: 0.3,
+  phenotype_absent: 0.2,
+  expression_absent: 0.1,
+};
+
+const UNKNOWN_RELATION_WEIGHT = 0.5;
+
+/** Degree at which an intermediate node starts to cost noticeably */
+const HUB_DEGREE = 50;
+
+export interface PathStep {
+  node: KGNode;
+  /** Edge from the previous step; absent on the first */
+  edge?: KGEdge;
+  /** The edge points from the previous node to this one */
+  forward?: boolean;
+}
+
+export interface ScoredPath {
+  /** Edge keys joined; unique per path */
+  id: string;
+  steps: PathStep[];
+  edgeKeys: string[];
+  hops: number;
+  /** Product of the edge-type weights */
+  relationScore: number;
+  /** Product of the intermediate nodes' hub penalties */
+  hubScore: number;
+  /** relationScore × hubScore, in (0, 1] */
+  score: number;
+}
+
+export const relationWeight = (relation?: string): number => {
+  const type = normalizeRelation(relation);
+  return type ? RELATION_WEIGHTS[type] : UNKNOWN_RELATION_WEIGHT;
+};
+
+/**
+ * 1 for an unknown or low degree, falling slowly as the degree grows (~0.5 at 500 neighbors)
+ */
+export const hubPenalty = (degree?: number): number =>
+  degree === undefined ? 1 : 1 / (1 + Math.log10(1 + degree / HUB_DEGREE));
+
+/**
+ * Walk a path's edges from `source`, so the steps read in order whatever order or direction
+ * the server listed them in. Null if the edges don't form a single chain.
+ */
+export function orderPath(path: GraphData, source: string): PathStep[] | null {
+  const nodes = new Map(path.nodes.map(n => [n.id, n]));
+  const start = nodes.get(source) ?? path.nodes[0];
+  if (!start) return null;
+
+  const remaining = [...path.edges];
+  const steps: PathStep[] = [{ node: start }];
+  let current = start.id;
+  while (remaining.length) {
+    const i = remaining.findIndex(e => e.source === current || e.target === current);
+    if (i === -1) return null;
+    const [edge] = remaining.splice(i, 1);
+    const forward = edge.source === current;
+    const next = forward ? edge.target : edge.source;
+    steps.push({ node: nodes.get(next) ?? { id: next, name: next, type: 'unknown' }, edge, forward });
+    current = next;
+  }
+  return steps;
+}
+
+/**
+ * Plausibility of an ordered path. `degrees` maps node ids to their neighbor counts; nodes
+ * without one aren't penalized.
+ */
+export function scorePath(steps: PathStep[], degrees: Map<string, number> = new Map()): Pick<ScoredPath, 'relationScore' | 'hubScore' | 'score'> {
+  const relationScore = steps.reduce((score, step) => step.edge ? score * relationWeight(step.edge.relation) : score, 1);
+  const hubScore = steps.slice(1, -1).reduce((score, step) => score * hubPenalty(degrees.get(step.node.id)), 1);
+  return { relationScore, hubScore, score: relationScore * hubScore };
+}
+
+/**
+ * Order, score and rank paths from `source`, most plausible first (fewer hops on ties).
+ * Paths that aren't a single chain, and repeats, are dropped.
+ */
+export function rankPaths(paths: GraphData[], source: string, degrees?: Map<string, number>): ScoredPath[] {
+  const ranked = new Map<string, ScoredPath>();
+  paths.forEach(path => {
+    const steps = orderPath(path, source);
+    if (!steps) return;
+    const edgeKeys = steps.flatMap(step => step.edge ? [edgeKey(step.edge)] : []);
+    const id = edgeKeys.join('|');
+    if (ranked.has(id)) return;
+    ranked.set(id, { id, steps, edgeKeys, hops: edgeKeys.length, ...scorePath(steps, degrees) });
+  });
+  return Array.from(ranked.values()).sort((a, b) => b.score - a.score || a.hops - b.hops);
+}
+
+/**
+ * Intermediate nodes across the paths, whose degrees feed the hub penalty
+ */
+export const intermediateNodeIds = (paths: ScoredPath[]): string[] =>
+  Array.from(new Set(paths.flatMap(path => path.steps.slice(1, -1).map(step => step.node.id))));
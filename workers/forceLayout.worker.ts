@@ -0,0 +1,16 @@
+/**
+ * Force Layout Worker
+ * Hosts the force simulation off the main thread; see utils/forceLayout for the protocol.
+ * @module workers/forceLayout.worker
+ */
+
+import { createForceEngine, LayoutCommand, LayoutEvent } from '../utils/forceLayout';
+
+const scope = self as unknown as {
+  postMessage(message: LayoutEvent, transfer?: Transferable[]): void;
+  onmessage: ((event: MessageEvent<LayoutCommand>) => void) | null;
+};
+
+const engine = createForceEngine((event, transfer) => scope.postMessage(event, transfer ?? []));
+
+scope.onmessage = event => engine.handle(event.data);